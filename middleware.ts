@@ -4,7 +4,9 @@ import { NextResponse, type NextRequest } from 'next/server';
 export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
 
-  // CRITICAL: Skip ALL API routes immediately - no auth check needed
+  // CRITICAL: Skip ALL API routes immediately. They authenticate themselves:
+  // cron jobs with CRON_SECRET, webhooks with signatures or a shared secret
+  // (see src/lib/webhook-auth.ts).
   if (pathname.startsWith('/api')) {
     return NextResponse.next();
   }
@@ -52,12 +54,18 @@ export async function middleware(request: NextRequest) {
   const isLoginPage = pathname.startsWith('/login');
   const isAuthRoute = pathname.startsWith('/auth'); // /auth/callback, /auth/set-password
   const isPublicPage = pathname === '/';
+  const isSurveyRoute = pathname.startsWith('/csat/'); // Tokenised customer satisfaction surveys
 
   // Allow auth routes (callback, set-password) - they handle their own auth
   if (isAuthRoute) {
     return supabaseResponse;
   }
 
+  // Surveys are answered by customers, who never have an account
+  if (isSurveyRoute) {
+    return supabaseResponse;
+  }
+
   // Redirect unauthenticated users to login
   if (!user && !isLoginPage) {
     const url = request.nextUrl.clone();
@@ -8,10 +8,16 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { StatusBadge } from '@/components/tickets/status-badge';
 import { PriorityBadge } from '@/components/tickets/priority-badge';
 import { CustomerNotesSection } from '@/components/customers/customer-notes-section';
+import { DuplicateCustomersSection } from '@/components/customers/duplicate-customers-section';
+import { CustomerIdentitiesSection } from '@/components/customers/customer-identities-section';
+import { CustomerTimeline } from '@/components/customers/customer-timeline';
+import { CsatScoreBadge } from '@/components/csat/csat-score-badge';
 import { getInitials, formatDate, formatRelativeTime } from '@/lib/utils';
 import { getCustomerNotes } from '@/lib/actions/customer-notes';
-import { Mail, Phone, Calendar, Package, ExternalLink, MapPin, ShoppingBag, DollarSign } from 'lucide-react';
-import type { Customer, TicketStatus, TicketPriority, CustomerNote } from '@/lib/supabase/types';
+import { getDuplicateCustomers } from '@/lib/actions/customers';
+import { getCustomerIdentities } from '@/lib/actions/customer-identities';
+import { Mail, Phone, Calendar, Package, ExternalLink, MapPin, ShoppingBag, DollarSign, Smile } from 'lucide-react';
+import type { Customer, CsatSurvey, TicketStatus, TicketPriority, CustomerNote } from '@/lib/supabase/types';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -27,6 +33,10 @@ interface TicketWithAgent {
   assigned_agent: { full_name: string | null; email: string } | null;
 }
 
+type CsatResponse = Pick<CsatSurvey, 'id' | 'ticket_id' | 'score' | 'comment' | 'responded_at'> & {
+  ticket: { ticket_number: number } | null;
+};
+
 // Shopify store URL
 const SHOPIFY_ADMIN_URL = 'https://drifiresystem.myshopify.com/admin/customers';
 
@@ -56,10 +66,32 @@ export default async function CustomerDetailPage({ params }: PageProps) {
 
   const tickets = ticketsData as TicketWithAgent[] | null;
 
+  // Fetch answered satisfaction surveys
+  const { data: csatData } = await supabase
+    .from('csat_surveys')
+    .select('id, ticket_id, score, comment, responded_at, ticket:tickets(ticket_number)')
+    .eq('customer_id', id)
+    .not('score', 'is', null)
+    .order('responded_at', { ascending: false })
+    .limit(20);
+
+  const csatResponses = (csatData || []) as unknown as CsatResponse[];
+  const csatAverage =
+    csatResponses.length > 0
+      ? csatResponses.reduce((sum, r) => sum + (r.score || 0), 0) / csatResponses.length
+      : null;
+
   // Fetch customer notes
   const notesResult = await getCustomerNotes(id);
   const notes = 'notes' in notesResult ? notesResult.notes : [];
 
+  // Fetch emails, phone numbers and social IDs
+  const identitiesResult = await getCustomerIdentities(id);
+  const identities = 'identities' in identitiesResult ? identitiesResult.identities : [];
+
+  const duplicatesResult = await getDuplicateCustomers(id);
+  const duplicates = 'duplicates' in duplicatesResult ? duplicatesResult.duplicates : [];
+
   const metadata = customer.metadata as Record<string, unknown> | null;
   const location = [customer.city, customer.state, customer.country].filter(Boolean).join(', ');
 
@@ -150,9 +182,61 @@ export default async function CustomerDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          {/* Identities */}
+          <CustomerIdentitiesSection customerId={id} initialIdentities={identities} />
+
+          {/* Possible duplicates */}
+          <DuplicateCustomersSection customer={customer} duplicates={duplicates} />
+
           {/* Internal Notes */}
           <CustomerNotesSection customerId={id} initialNotes={notes} />
 
+          {/* Satisfaction */}
+          {csatResponses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Smile className="h-4 w-4" />
+                  Satisfaction
+                  {csatAverage !== null && (
+                    <span className="text-sm font-normal text-zinc-500 dark:text-zinc-400">
+                      · {csatAverage.toFixed(1)} average from {csatResponses.length}{' '}
+                      {csatResponses.length === 1 ? 'response' : 'responses'}
+                    </span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                  {csatResponses.map((response) => (
+                    <Link
+                      key={response.id}
+                      href={`/tickets/${response.ticket_id}`}
+                      className="flex items-start gap-4 p-4 transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-900"
+                    >
+                      <CsatScoreBadge score={response.score!} className="mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">
+                          Ticket #{response.ticket?.ticket_number}
+                          {response.responded_at && (
+                            <span className="font-normal text-zinc-500 dark:text-zinc-400">
+                              {' '}· {formatRelativeTime(response.responded_at)}
+                            </span>
+                          )}
+                        </p>
+                        {response.comment && (
+                          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                            {response.comment}
+                          </p>
+                        )}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Metadata / Order History */}
           {metadata && Object.keys(metadata).length > 0 && (
             <Card>
@@ -220,6 +304,9 @@ export default async function CustomerDetailPage({ params }: PageProps) {
               )}
             </CardContent>
           </Card>
+
+          {/* Timeline */}
+          <CustomerTimeline customerId={id} />
         </div>
       </div>
     </div>
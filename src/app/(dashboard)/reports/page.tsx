@@ -1,13 +1,21 @@
 import { Suspense } from 'react';
+import Link from 'next/link';
 import { subDays } from 'date-fns';
 import { createClient } from '@/lib/supabase/server';
+import { getBusinessHoursResponseStats } from '@/lib/reports';
 import { Header } from '@/components/layout/header';
+import { Button } from '@/components/ui/button';
 import { StatsCard } from '@/components/reports/stats-card';
 import { VolumeChart } from '@/components/reports/volume-chart';
 import { AgentLeaderboard } from '@/components/reports/agent-leaderboard';
+import { CsatBreakdown } from '@/components/reports/csat-breakdown';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Inbox, Clock, CheckCircle, Users } from 'lucide-react';
 
+interface PageProps {
+  searchParams: Promise<{ hours?: string }>;
+}
+
 interface VolumeData {
   date: string;
   opened: number;
@@ -29,7 +37,23 @@ interface AgentPerformance {
   avg_resolution_minutes: number | null;
 }
 
-async function ReportsContent() {
+interface CsatByAgent {
+  agent_id: string;
+  agent_name: string | null;
+  responses: number;
+  satisfied: number;
+  avg_score: number | null;
+}
+
+interface CsatByBrand {
+  brand_id: string;
+  brand_name: string;
+  responses: number;
+  satisfied: number;
+  avg_score: number | null;
+}
+
+async function ReportsContent({ businessHours }: { businessHours: boolean }) {
   const supabase = await createClient();
   const endDate = new Date();
   const startDate = subDays(endDate, 30);
@@ -69,6 +93,17 @@ async function ReportsContent() {
     end_date: endDate.toISOString(),
   } as unknown as undefined);
 
+  // Get customer satisfaction using RPC
+  const { data: csatByAgent } = await supabase.rpc('get_csat_by_agent', {
+    start_date: startDate.toISOString(),
+    end_date: endDate.toISOString(),
+  } as unknown as undefined);
+
+  const { data: csatByBrand } = await supabase.rpc('get_csat_by_brand', {
+    start_date: startDate.toISOString(),
+    end_date: endDate.toISOString(),
+  } as unknown as undefined);
+
   const volumeTyped = (volumeData || []) as VolumeData[];
   const statsTyped = ((responseStats as ResponseStats[] | null)?.[0]) || {
     avg_first_response_minutes: 0,
@@ -76,7 +111,34 @@ async function ReportsContent() {
     total_tickets: 0,
     tickets_with_response: 0,
   };
-  const agentTyped = (agentPerformance || []) as AgentPerformance[];
+  let agentTyped = (agentPerformance || []) as AgentPerformance[];
+
+  // Recount response times inside each brand's business hours
+  if (businessHours) {
+    const businessStats = await getBusinessHoursResponseStats(supabase, startDate, endDate);
+    statsTyped.avg_first_response_minutes = businessStats.avg_first_response_minutes;
+    statsTyped.avg_resolution_minutes = businessStats.avg_resolution_minutes;
+    agentTyped = agentTyped.map((agent) => ({
+      ...agent,
+      avg_response_minutes: businessStats.agents[agent.agent_id]?.avg_response_minutes ?? null,
+      avg_resolution_minutes: businessStats.agents[agent.agent_id]?.avg_resolution_minutes ?? null,
+    }));
+  }
+
+  const csatAgentRows = ((csatByAgent || []) as CsatByAgent[]).map((row) => ({
+    id: row.agent_id,
+    name: row.agent_name,
+    responses: row.responses,
+    satisfied: row.satisfied,
+    avg_score: row.avg_score,
+  }));
+  const csatBrandRows = ((csatByBrand || []) as CsatByBrand[]).map((row) => ({
+    id: row.brand_id,
+    name: row.brand_name,
+    responses: row.responses,
+    satisfied: row.satisfied,
+    avg_score: row.avg_score,
+  }));
 
   const formatMinutes = (minutes: number | null) => {
     if (!minutes) return 'N/A';
@@ -112,7 +174,7 @@ async function ReportsContent() {
           title="Avg First Response"
           value={formatMinutes(statsTyped.avg_first_response_minutes)}
           icon={Users}
-          description="Last 30 days"
+          description={businessHours ? 'Last 30 days, business hours' : 'Last 30 days'}
         />
       </div>
 
@@ -121,6 +183,12 @@ async function ReportsContent() {
         <VolumeChart data={volumeTyped} />
         <AgentLeaderboard data={agentTyped} />
       </div>
+
+      {/* Customer Satisfaction */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <CsatBreakdown title="CSAT by Agent (30d)" data={csatAgentRows} />
+        <CsatBreakdown title="CSAT by Brand (30d)" data={csatBrandRows} />
+      </div>
     </div>
   );
 }
@@ -141,14 +209,30 @@ function ReportsSkeleton() {
   );
 }
 
-export default function ReportsPage() {
+export default async function ReportsPage({ searchParams }: PageProps) {
+  const { hours } = await searchParams;
+  const businessHours = hours === 'business';
+
   return (
     <div className="flex h-full flex-col">
-      <Header title="Reports" />
+      <Header title="Reports">
+        <div className="flex items-center gap-1">
+          <Link href="/reports">
+            <Button size="sm" variant={businessHours ? 'ghost' : 'secondary'}>
+              Calendar time
+            </Button>
+          </Link>
+          <Link href="/reports?hours=business">
+            <Button size="sm" variant={businessHours ? 'secondary' : 'ghost'}>
+              Business hours
+            </Button>
+          </Link>
+        </div>
+      </Header>
 
       <div className="flex-1 overflow-auto p-6">
-        <Suspense fallback={<ReportsSkeleton />}>
-          <ReportsContent />
+        <Suspense key={businessHours ? 'business' : 'calendar'} fallback={<ReportsSkeleton />}>
+          <ReportsContent businessHours={businessHours} />
         </Suspense>
       </div>
     </div>
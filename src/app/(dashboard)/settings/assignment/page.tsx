@@ -0,0 +1,67 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { AssignmentSettings } from '@/components/settings/assignment-settings';
+import type { Profile, Team } from '@/lib/supabase/types';
+
+export default async function AssignmentSettingsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const [teamsResult, agentsResult] = await Promise.all([
+    supabase.from('teams').select('*').order('name'),
+    supabase
+      .from('profiles')
+      .select('*')
+      .in('role', ['admin', 'agent'])
+      .eq('is_active', true)
+      .order('full_name'),
+  ]);
+
+  const agents = (agentsResult.data || []) as Profile[];
+
+  // Current open workload per agent
+  const counts = await Promise.all(
+    agents.map((agent) =>
+      supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('assigned_agent_id', agent.id)
+        .eq('status', 'open')
+    )
+  );
+  const openCounts = Object.fromEntries(
+    agents.map((agent, i) => [agent.id, counts[i].count || 0])
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Assignment" />
+      <div className="flex-1 overflow-auto">
+        <AssignmentSettings
+          teams={(teamsResult.data || []) as Team[]}
+          agents={agents}
+          openCounts={openCounts}
+        />
+      </div>
+    </div>
+  );
+}
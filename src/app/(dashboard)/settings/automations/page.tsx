@@ -0,0 +1,71 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { AutomationRulesList } from '@/components/settings/automation-rules-list';
+import { getAutomationRules } from '@/lib/actions/automation-rules';
+import { getBrands } from '@/lib/actions/brands';
+import { getCustomerSegments } from '@/lib/actions/customer-segments';
+import type { CannedResponse, Profile, Tag, Team } from '@/lib/supabase/types';
+
+export default async function AutomationsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  // Fetch rules and everything the editor can pick from
+  const [rulesResult, { brands }, segmentsResult, tagsResult, agentsResult, teamsResult, cannedResult] =
+    await Promise.all([
+      getAutomationRules(),
+      getBrands(),
+      getCustomerSegments(),
+      supabase.from('tags').select('*').order('name'),
+      supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('role', ['admin', 'agent'])
+        .eq('is_active', true)
+        .order('full_name'),
+      supabase.from('teams').select('*').order('name'),
+      supabase
+        .from('canned_responses')
+        .select('id, title')
+        .eq('status', 'active')
+        .order('title'),
+    ]);
+
+  const rules = 'rules' in rulesResult ? rulesResult.rules : [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Automations" />
+      <div className="flex-1 overflow-auto">
+        <AutomationRulesList
+          rules={rules}
+          brands={brands}
+          segments={'segments' in segmentsResult ? segmentsResult.segments : []}
+          tags={(tagsResult.data || []) as Tag[]}
+          agents={(agentsResult.data || []) as Pick<Profile, 'id' | 'full_name' | 'email'>[]}
+          teams={(teamsResult.data || []) as Team[]}
+          cannedResponses={(cannedResult.data || []) as Pick<CannedResponse, 'id' | 'title'>[]}
+        />
+      </div>
+    </div>
+  );
+}
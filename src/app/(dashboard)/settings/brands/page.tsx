@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { BrandHoursList } from '@/components/settings/brand-hours-list';
+import { getBrands } from '@/lib/actions/brands';
+import { getBusinessCalendars } from '@/lib/actions/sla-policies';
+import { DEFAULT_OUT_OF_HOURS_MESSAGE } from '@/lib/out-of-hours';
+
+export default async function BrandHoursSettingsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const [{ brands }, calendarsResult] = await Promise.all([getBrands(), getBusinessCalendars()]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Business Hours" />
+      <div className="flex-1 overflow-auto">
+        <BrandHoursList
+          brands={brands}
+          calendars={'calendars' in calendarsResult ? calendarsResult.calendars : []}
+          defaultMessage={DEFAULT_OUT_OF_HOURS_MESSAGE}
+        />
+      </div>
+    </div>
+  );
+}
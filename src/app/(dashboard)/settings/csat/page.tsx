@@ -0,0 +1,39 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { CsatSettingsList } from '@/components/settings/csat-settings-list';
+import { getBrands } from '@/lib/actions/brands';
+
+export default async function CsatSettingsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const { brands } = await getBrands();
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Satisfaction Surveys" />
+      <div className="flex-1 overflow-auto">
+        <CsatSettingsList brands={brands} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { FailedEmailList } from '@/components/settings/failed-email-list';
+import { getFailedInboundEmails } from '@/lib/actions/inbound-emails';
+
+export default async function FailedEmailsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const result = await getFailedInboundEmails();
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Failed Emails" />
+      <div className="flex-1 overflow-auto">
+        <FailedEmailList emails={'emails' in result ? result.emails : []} />
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ export default function SettingsPage() {
 
     const result = await updateProfile({
       full_name: formData.get('full_name') as string,
+      undo_send_seconds: Number(formData.get('undo_send_seconds')),
     });
 
     if (result.error) {
@@ -105,6 +106,23 @@ export default function SettingsPage() {
                     </p>
                   </div>
 
+                  <div className="space-y-2">
+                    <label htmlFor="undo_send_seconds" className="text-sm font-medium">
+                      Undo send window (seconds)
+                    </label>
+                    <Input
+                      id="undo_send_seconds"
+                      name="undo_send_seconds"
+                      type="number"
+                      min={5}
+                      max={30}
+                      defaultValue={profile?.undo_send_seconds ?? 10}
+                    />
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      How long you have to undo a reply before it is sent (5-30 seconds)
+                    </p>
+                  </div>
+
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Role</label>
                     <Input
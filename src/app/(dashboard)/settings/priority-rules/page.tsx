@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { Header } from '@/components/layout/header';
 import { PriorityRulesList } from '@/components/settings/priority-rules-list';
 import { getAutoPriorityRules } from '@/lib/actions/auto-priority-rules';
+import { getCustomerSegments } from '@/lib/actions/customer-segments';
 
 export default async function PriorityRulesPage() {
   const supabase = await createClient();
@@ -26,15 +27,16 @@ export default async function PriorityRulesPage() {
     redirect('/tickets');
   }
 
-  // Fetch rules
-  const result = await getAutoPriorityRules();
+  // Fetch rules and the segments they can match on
+  const [result, segmentsResult] = await Promise.all([getAutoPriorityRules(), getCustomerSegments()]);
   const rules = 'rules' in result ? result.rules : [];
+  const segments = 'segments' in segmentsResult ? segmentsResult.segments : [];
 
   return (
     <div className="flex h-full flex-col">
       <Header title="Priority Rules" />
       <div className="flex-1 overflow-auto">
-        <PriorityRulesList rules={rules} />
+        <PriorityRulesList rules={rules} segments={segments} />
       </div>
     </div>
   );
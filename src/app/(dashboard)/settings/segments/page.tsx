@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { SegmentList } from '@/components/settings/segment-list';
+import { getCustomerSegments } from '@/lib/actions/customer-segments';
+import type { Tag } from '@/lib/supabase/types';
+
+export default async function CustomerSegmentsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const [result, tagsResult] = await Promise.all([
+    getCustomerSegments(),
+    supabase.from('tags').select('*').order('name'),
+  ]);
+  const segments = 'segments' in result ? result.segments : [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Customer Segments" />
+      <div className="flex-1 overflow-auto">
+        <SegmentList segments={segments} tags={(tagsResult.data || []) as Tag[]} />
+      </div>
+    </div>
+  );
+}
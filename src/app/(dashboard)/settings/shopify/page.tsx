@@ -0,0 +1,43 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { ShopifyStoreList } from '@/components/settings/shopify-store-list';
+import { getBrands } from '@/lib/actions/brands';
+import { getShopifyStoreSettings } from '@/lib/actions/shopify-stores';
+
+export default async function ShopifySettingsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const [{ brands }, storesResult] = await Promise.all([getBrands(), getShopifyStoreSettings()]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Shopify Stores" />
+      <div className="flex-1 overflow-auto">
+        <ShopifyStoreList
+          brands={brands}
+          stores={'stores' in storesResult ? storesResult.stores : []}
+        />
+      </div>
+    </div>
+  );
+}
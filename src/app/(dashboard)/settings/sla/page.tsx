@@ -0,0 +1,51 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { SlaPolicyList } from '@/components/settings/sla-policy-list';
+import { BusinessCalendarList } from '@/components/settings/business-calendar-list';
+import { getSlaPolicies, getBusinessCalendars } from '@/lib/actions/sla-policies';
+import { getBrands } from '@/lib/actions/brands';
+
+export default async function SlaSettingsPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const [policiesResult, calendarsResult, { brands }] = await Promise.all([
+    getSlaPolicies(),
+    getBusinessCalendars(),
+    getBrands(),
+  ]);
+
+  const policies = 'policies' in policiesResult ? policiesResult.policies : [];
+  const calendars = 'calendars' in calendarsResult ? calendarsResult.calendars : [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="SLA Policies" />
+      <div className="flex-1 overflow-auto">
+        <div className="p-6 space-y-10">
+          <SlaPolicyList policies={policies} brands={brands} calendars={calendars} />
+          <BusinessCalendarList calendars={calendars} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { Header } from '@/components/layout/header';
+import { SenderRuleList } from '@/components/settings/sender-rule-list';
+import { getSenderRules } from '@/lib/actions/spam';
+
+export default async function SpamFilterPage() {
+  const supabase = await createClient();
+
+  // Check if user is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    redirect('/tickets');
+  }
+
+  const result = await getSenderRules();
+  const rules = 'rules' in result ? result.rules : [];
+
+  return (
+    <div className="flex h-full flex-col">
+      <Header title="Spam Filter" />
+      <div className="flex-1 overflow-auto">
+        <SenderRuleList rules={rules} />
+      </div>
+    </div>
+  );
+}
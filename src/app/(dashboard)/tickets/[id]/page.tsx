@@ -50,7 +50,7 @@ export default async function TicketDetailPage({ params }: PageProps) {
     .select(
       `
       *,
-      customer:customers(*),
+      customer:customers(*, segments:customer_segments(id, name, color)),
       assigned_agent:profiles!tickets_assigned_agent_id_fkey(*),
       assigned_team:teams(*)
     `
@@ -9,6 +9,9 @@ import { Plus } from 'lucide-react';
 import Link from 'next/link';
 import { searchTickets } from '@/lib/actions/tickets';
 import { getBrands } from '@/lib/actions/brands';
+import { getCustomerSegments } from '@/lib/actions/customer-segments';
+import { attachCustomerSegments } from '@/lib/customer-segments';
+import { getSlaWarningCutoff } from '@/lib/sla';
 import type { TicketSearchResult, Profile, Tag } from '@/lib/supabase/types';
 
 interface PageProps {
@@ -21,6 +24,9 @@ interface PageProps {
     agent?: string;
     channel?: string;
     brand?: string;
+    order?: string;
+    fulfillment?: string;
+    segment?: string;
     sort?: string;
   }>;
 }
@@ -68,8 +74,12 @@ function getViewTitle(view: string | undefined, agentName?: string): string {
       return 'My Snoozed Tickets';
     case 'my-closed':
       return 'My Closed Tickets';
+    case 'breaching-soon':
+      return 'Breaching Soon';
     case 'auto-replies':
       return 'Auto-Replies';
+    case 'spam':
+      return 'Spam';
     case 'agent':
       return agentName ? `${agentName}'s Inbox` : 'Agent Inbox';
     default:
@@ -77,6 +87,65 @@ function getViewTitle(view: string | undefined, agentName?: string): string {
   }
 }
 
+// 'linked' when the filters need a linked order, 'none' when they need
+// there to be none
+function getLinkedOrderFilter(order?: string, fulfillment?: string): 'linked' | 'none' | null {
+  if (order === 'none') return 'none';
+  if (order === 'linked' || (fulfillment && fulfillment !== 'all')) return 'linked';
+  return null;
+}
+
+type TicketOrderRow = {
+  ticket_id: string;
+  fulfillment_status: string;
+  cancelled: boolean;
+};
+
+function matchesFulfillment(row: Pick<TicketOrderRow, 'fulfillment_status' | 'cancelled'>, fulfillment?: string): boolean {
+  if (!fulfillment || fulfillment === 'all') return true;
+  if (fulfillment === 'cancelled') return row.cancelled;
+  return !row.cancelled && row.fulfillment_status === fulfillment;
+}
+
+async function filterByLinkedOrders(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  tickets: TicketSearchResult[],
+  order?: string,
+  fulfillment?: string
+): Promise<TicketSearchResult[]> {
+  const orderFilter = getLinkedOrderFilter(order, fulfillment);
+  if (!orderFilter || !tickets.length) return tickets;
+
+  const { data: orderRows } = await supabase
+    .from('ticket_orders')
+    .select('ticket_id, fulfillment_status, cancelled')
+    .in('ticket_id', tickets.map((ticket) => ticket.id));
+
+  const rows = (orderRows || []) as TicketOrderRow[];
+
+  if (orderFilter === 'none') {
+    const linked = new Set(rows.map((row) => row.ticket_id));
+    return tickets.filter((ticket) => !linked.has(ticket.id));
+  }
+
+  const matching = new Set(
+    rows.filter((row) => matchesFulfillment(row, fulfillment)).map((row) => row.ticket_id)
+  );
+  return tickets.filter((ticket) => matching.has(ticket.id));
+}
+
+// Loads segment badges too, since the filter reads them
+async function withCustomerSegments(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  tickets: TicketSearchResult[],
+  segment?: string
+): Promise<TicketSearchResult[]> {
+  const withSegments = await attachCustomerSegments(supabase, tickets);
+  if (!segment || segment === 'all') return withSegments;
+
+  return withSegments.filter((ticket) => ticket.customer?.segments?.some((s) => s.id === segment));
+}
+
 type TicketReadRow = {
   ticket_id: string;
   last_read_at: string;
@@ -135,6 +204,9 @@ async function TicketListContent({
     agent?: string;
     channel?: string;
     brand?: string;
+    order?: string;
+    fulfillment?: string;
+    segment?: string;
     sort?: string;
   };
   agents: Pick<Profile, 'id' | 'full_name' | 'email'>[];
@@ -169,33 +241,52 @@ async function TicketListContent({
 
     if (searchParams.view === 'unassigned') {
       filteredTickets = filteredTickets.filter(
-        (t) => !t.assigned_agent_id && ['open', 'pending'].includes(t.status) && !t.is_auto_reply
+        (t) =>
+          !t.assigned_agent_id && ['open', 'pending'].includes(t.status) && !t.is_auto_reply && !t.is_spam
       );
     } else if (searchParams.view === 'my-inbox') {
       filteredTickets = filteredTickets.filter(
         (t) =>
-          t.assigned_agent_id === currentUserId && ['open', 'pending'].includes(t.status) && !t.is_auto_reply
+          t.assigned_agent_id === currentUserId &&
+          ['open', 'pending'].includes(t.status) &&
+          !t.is_auto_reply &&
+          !t.is_spam
       );
     } else if (searchParams.view === 'my-snoozed') {
       filteredTickets = filteredTickets.filter(
         (t) =>
           t.assigned_agent_id === currentUserId &&
-          t.snoozed_until &&
-          new Date(t.snoozed_until) > new Date()
+          (t.snooze_until_reply || (t.snoozed_until && new Date(t.snoozed_until) > new Date()))
       );
     } else if (searchParams.view === 'my-closed') {
       filteredTickets = filteredTickets.filter(
         (t) => t.assigned_agent_id === currentUserId && t.status === 'closed'
       );
+    } else if (searchParams.view === 'breaching-soon') {
+      const warningCutoff = getSlaWarningCutoff().getTime();
+      filteredTickets = filteredTickets.filter(
+        (t) =>
+          ['open', 'pending'].includes(t.status) &&
+          !t.is_auto_reply &&
+          !t.is_spam &&
+          !t.snoozed_until &&
+          !t.snooze_until_reply &&
+          t.sla_due_at !== null &&
+          new Date(t.sla_due_at).getTime() <= warningCutoff
+      );
     } else if (searchParams.view === 'auto-replies') {
       filteredTickets = filteredTickets.filter(
-        (t) => t.is_auto_reply && ['open', 'pending'].includes(t.status)
+        (t) => t.is_auto_reply && !t.is_spam && ['open', 'pending'].includes(t.status)
       );
+    } else if (searchParams.view === 'spam') {
+      filteredTickets = filteredTickets.filter((t) => t.is_spam);
     } else if (searchParams.view === 'agent' && searchParams.agent) {
-      filteredTickets = filteredTickets.filter((t) => t.assigned_agent_id === searchParams.agent && !t.is_auto_reply);
+      filteredTickets = filteredTickets.filter(
+        (t) => t.assigned_agent_id === searchParams.agent && !t.is_auto_reply && !t.is_spam
+      );
     } else {
-      // Default "all" view - exclude auto-replies
-      filteredTickets = filteredTickets.filter((t) => !t.is_auto_reply);
+      // Default "all" view - exclude auto-replies and spam
+      filteredTickets = filteredTickets.filter((t) => !t.is_auto_reply && !t.is_spam);
     }
 
     // Apply brand filter to search results
@@ -203,6 +294,15 @@ async function TicketListContent({
       filteredTickets = filteredTickets.filter((t) => t.brand_id === searchParams.brand);
     }
 
+    filteredTickets = await filterByLinkedOrders(
+      supabase,
+      filteredTickets,
+      searchParams.order,
+      searchParams.fulfillment
+    );
+
+    filteredTickets = await withCustomerSegments(supabase, filteredTickets, searchParams.segment);
+
     // Apply sorting to search results
     filteredTickets = sortTickets(filteredTickets, sortBy);
     filteredTickets = await addUnreadState(supabase, filteredTickets, currentUserId);
@@ -210,18 +310,26 @@ async function TicketListContent({
     return <TicketSplitPane tickets={filteredTickets} agents={agents} tags={tags} isAdmin={isAdmin} />;
   }
 
-  // Standard query without search
-  // Try with brand first, fall back to without if brands table doesn't exist
-  let query = supabase
-    .from('tickets')
-    .select(
-      `
+  // Linked order filters embed the ticket's orders: an inner join keeps
+  // tickets that have a matching one, a left join checked for null keeps
+  // tickets with none
+  const orderFilter = getLinkedOrderFilter(searchParams.order, searchParams.fulfillment);
+  const ticketOrdersEmbed =
+    orderFilter === 'linked'
+      ? ',\n      ticket_orders!inner(fulfillment_status, cancelled)'
+      : orderFilter === 'none'
+        ? ',\n      ticket_orders(id)'
+        : '';
+  const ticketSelect: string = `
       *,
       customer:customers(*),
       assigned_agent:profiles!tickets_assigned_agent_id_fkey(*),
-      assigned_team:teams(*)
-    `
-    );
+      assigned_team:teams(*)${ticketOrdersEmbed}
+    `;
+
+  // Standard query without search
+  // Try with brand first, fall back to without if brands table doesn't exist
+  let query = supabase.from('tickets').select<string, TicketSearchResult>(ticketSelect);
 
   // Apply sorting based on sort parameter
   switch (sortBy) {
@@ -254,18 +362,35 @@ async function TicketListContent({
       .is('assigned_agent_id', null)
       .in('status', ['open', 'pending'])
       .is('snoozed_until', null)
-      .eq('is_auto_reply', false);
+      .eq('snooze_until_reply', false)
+      .eq('is_auto_reply', false)
+      .eq('is_spam', false);
   } else if (searchParams.view === 'my-inbox') {
-    // Show open/pending tickets assigned to me (excluding snoozed and auto-replies)
+    // Show open/pending tickets assigned to me (excluding snoozed, auto-replies and spam)
     query = query
       .eq('assigned_agent_id', currentUserId)
       .in('status', ['open', 'pending'])
-      .eq('is_auto_reply', false);
+      .eq('is_auto_reply', false)
+      .eq('is_spam', false);
+  } else if (searchParams.view === 'breaching-soon') {
+    // Show tickets whose next SLA deadline is close or already passed
+    query = query
+      .in('status', ['open', 'pending'])
+      .is('snoozed_until', null)
+      .eq('snooze_until_reply', false)
+      .eq('is_auto_reply', false)
+      .eq('is_spam', false)
+      .not('sla_due_at', 'is', null)
+      .lte('sla_due_at', getSlaWarningCutoff().toISOString());
   } else if (searchParams.view === 'auto-replies') {
     // Show auto-reply tickets
     query = query
       .eq('is_auto_reply', true)
+      .eq('is_spam', false)
       .in('status', ['open', 'pending']);
+  } else if (searchParams.view === 'spam') {
+    // Show everything the spam filter or an agent flagged
+    query = query.eq('is_spam', true);
   } else if (searchParams.view === 'my-snoozed') {
     // Show snoozed tickets assigned to me
     // This view requires the snooze migration to be run
@@ -283,8 +408,7 @@ async function TicketListContent({
         `
         )
         .eq('assigned_agent_id', currentUserId)
-        .not('snoozed_until', 'is', null)
-        .gt('snoozed_until', new Date().toISOString());
+        .or(`snooze_until_reply.eq.true,snoozed_until.gt.${new Date().toISOString()}`);
 
       // Apply sorting to snoozed query
       if (sortBy === 'oldest') {
@@ -314,7 +438,11 @@ async function TicketListContent({
 
         snoozedTickets = await addUnreadState(
           supabase,
-          sortedSnoozed as TicketSearchResult[],
+          await withCustomerSegments(
+            supabase,
+            sortedSnoozed as TicketSearchResult[],
+            searchParams.segment
+          ),
           currentUserId
         );
       }
@@ -326,10 +454,13 @@ async function TicketListContent({
   } else if (searchParams.view === 'my-closed') {
     query = query.eq('assigned_agent_id', currentUserId).eq('status', 'closed');
   } else if (searchParams.view === 'agent' && searchParams.agent) {
-    query = query.eq('assigned_agent_id', searchParams.agent).eq('is_auto_reply', false);
+    query = query
+      .eq('assigned_agent_id', searchParams.agent)
+      .eq('is_auto_reply', false)
+      .eq('is_spam', false);
   } else {
-    // Default "all" view - exclude auto-replies
-    query = query.eq('is_auto_reply', false);
+    // Default "all" view - exclude auto-replies and spam
+    query = query.eq('is_auto_reply', false).eq('is_spam', false);
   }
 
   // Apply additional filters
@@ -349,6 +480,16 @@ async function TicketListContent({
     query = query.eq('brand_id', searchParams.brand);
   }
 
+  if (orderFilter === 'none') {
+    query = query.is('ticket_orders', null);
+  } else if (searchParams.fulfillment === 'cancelled') {
+    query = query.eq('ticket_orders.cancelled', true);
+  } else if (searchParams.fulfillment && searchParams.fulfillment !== 'all') {
+    query = query
+      .eq('ticket_orders.fulfillment_status', searchParams.fulfillment)
+      .eq('ticket_orders.cancelled', false);
+  }
+
   // Only apply assignee filter if not using a view that already filters by assignee
   if (
     searchParams.assignee &&
@@ -387,7 +528,7 @@ async function TicketListContent({
 
   const ticketsWithUnread = await addUnreadState(
     supabase,
-    sortedTickets as TicketSearchResult[],
+    await withCustomerSegments(supabase, sortedTickets as TicketSearchResult[], searchParams.segment),
     currentUserId
   );
 
@@ -467,8 +608,9 @@ export default async function TicketsPage({ searchParams }: PageProps) {
     .select('*')
     .order('name');
 
-  // Fetch brands for filter dropdown
-  const { brands } = await getBrands();
+  // Fetch brands and customer segments for filter dropdowns
+  const [{ brands }, segmentsResult] = await Promise.all([getBrands(), getCustomerSegments()]);
+  const segments = 'segments' in segmentsResult ? segmentsResult.segments : [];
 
   // Get agent name if viewing a specific agent's inbox
   let agentName: string | undefined;
@@ -503,7 +645,7 @@ export default async function TicketsPage({ searchParams }: PageProps) {
             </div>
           }
         >
-          <TicketFilters agents={agents || []} brands={brands} />
+          <TicketFilters agents={agents || []} brands={brands} segments={segments} />
         </Suspense>
       </div>
 
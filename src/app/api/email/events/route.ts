@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { processSendGridEvents, type SendGridEvent } from '@/lib/email-events';
+import { verifyWebhookRequest } from '@/lib/webhook-auth';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const SENDGRID_WEBHOOK_VERIFICATION_KEY = process.env.SENDGRID_WEBHOOK_VERIFICATION_KEY;
+
+/**
+ * SendGrid event webhook. Records delivered, deferred, bounced, dropped
+ * and spam report events against the messages they were sent for.
+ * Requests must carry a valid SendGrid signature.
+ */
+export async function POST(request: NextRequest) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    console.error('Missing configuration for SendGrid event webhook');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+  const payload = await request.text();
+
+  const verification = await verifyWebhookRequest(supabase, request, payload, {
+    auth: SENDGRID_WEBHOOK_VERIFICATION_KEY
+      ? [{ type: 'sendgrid_signature', verificationKey: SENDGRID_WEBHOOK_VERIFICATION_KEY }]
+      : [],
+    rateLimit: { limit: 600, windowSeconds: 60 },
+  });
+
+  if (!verification.ok) {
+    return NextResponse.json({ error: verification.error }, { status: verification.status });
+  }
+
+  let events: SendGridEvent[];
+  try {
+    events = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  if (!Array.isArray(events)) {
+    return NextResponse.json({ error: 'Expected an array of events' }, { status: 400 });
+  }
+
+  const result = await processSendGridEvents(supabase, events);
+
+  return NextResponse.json(result);
+}
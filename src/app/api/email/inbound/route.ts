@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { parseEmailAddress, getBrandIdFromEmail, extractNewEmailContent, formatEmailWithQuotedContent, htmlToText } from '@/lib/email';
+import { saveInboundEmail, processInboundEmail } from '@/lib/inbound-email';
+import { verifyWebhookRequest, type WebhookAuth } from '@/lib/webhook-auth';
 
 // Check environment variables
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
+// Inbound Parse must be set up with at least one: a signed-webhook
+// security policy, or this secret in the URL (?token=... or basic auth).
+// With a verification key set, only signed requests are accepted.
+const SENDGRID_INBOUND_VERIFICATION_KEY = process.env.SENDGRID_INBOUND_VERIFICATION_KEY;
+const INBOUND_EMAIL_SECRET = process.env.INBOUND_EMAIL_SECRET;
+
+const inboundAuth: WebhookAuth[] = [
+  ...(SENDGRID_INBOUND_VERIFICATION_KEY
+    ? [{ type: 'sendgrid_signature' as const, verificationKey: SENDGRID_INBOUND_VERIFICATION_KEY }]
+    : []),
+  ...(INBOUND_EMAIL_SECRET ? [{ type: 'shared_secret' as const, secret: INBOUND_EMAIL_SECRET }] : []),
+];
+
 // Create Supabase client lazily to catch missing env vars
 function getSupabaseClient() {
   if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
@@ -18,238 +32,6 @@ function getSupabaseClient() {
   return createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 }
 
-interface InboundEmailData {
-  from: string;
-  to: string;
-  subject: string;
-  text?: string;
-  html?: string;
-  headers?: string;
-  envelope?: string;
-  attachments?: number;
-  'attachment-info'?: string;
-}
-
-/**
- * Extract Message-ID and References from email headers
- */
-function parseEmailHeaders(headersString: string): {
-  messageId: string | null;
-  references: string | null;
-  inReplyTo: string | null;
-  isAutoReply: boolean;
-} {
-  const result = {
-    messageId: null as string | null,
-    references: null as string | null,
-    inReplyTo: null as string | null,
-    isAutoReply: false,
-  };
-
-  if (!headersString) return result;
-
-  const lines = headersString.split('\n');
-  for (const line of lines) {
-    const lowerLine = line.toLowerCase();
-    if (lowerLine.startsWith('message-id:')) {
-      result.messageId = line.substring('message-id:'.length).trim();
-    } else if (lowerLine.startsWith('references:')) {
-      result.references = line.substring('references:'.length).trim();
-    } else if (lowerLine.startsWith('in-reply-to:')) {
-      result.inReplyTo = line.substring('in-reply-to:'.length).trim();
-    }
-    // Check for auto-reply headers
-    else if (lowerLine.startsWith('auto-submitted:') && !lowerLine.includes('no')) {
-      result.isAutoReply = true;
-    } else if (lowerLine.startsWith('x-auto-response-suppress:')) {
-      result.isAutoReply = true;
-    } else if (lowerLine.startsWith('x-autoreply:')) {
-      result.isAutoReply = true;
-    } else if (lowerLine.startsWith('x-autorespond:')) {
-      result.isAutoReply = true;
-    } else if (lowerLine.includes('precedence:') && (lowerLine.includes('auto_reply') || lowerLine.includes('bulk') || lowerLine.includes('junk'))) {
-      result.isAutoReply = true;
-    }
-  }
-
-  return result;
-}
-
-/**
- * Check if an email subject indicates an auto-reply
- */
-function isAutoReplySubject(subject: string): boolean {
-  const lowerSubject = subject.toLowerCase();
-  const autoReplyPatterns = [
-    'automatic reply',
-    'auto-reply',
-    'auto reply',
-    'autoreply',
-    'out of office',
-    'out-of-office',
-    'ooo:',
-    'away from office',
-    'on vacation',
-    'automatische antwort',
-    'réponse automatique',
-    'risposta automatica',
-    'respuesta automática',
-    'delivery status notification',
-    'delivery failure',
-    'undeliverable:',
-    'mail delivery failed',
-    'returned mail',
-  ];
-
-  return autoReplyPatterns.some(pattern => lowerSubject.includes(pattern));
-}
-
-/**
- * Find existing ticket by reference IDs (for email threading)
- */
-async function findTicketByReference(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  supabase: any,
-  customerEmail: string,
-  references: string | null,
-  inReplyTo: string | null
-): Promise<{ id: string; ticket_number: number; subject: string; reference_id: string | null } | null> {
-  // First, try to find by In-Reply-To or References header
-  const refIds = [inReplyTo, ...(references?.split(/\s+/) || [])].filter(Boolean);
-
-  for (const refId of refIds) {
-    const { data: ticket } = await supabase
-      .from('tickets')
-      .select('id, ticket_number, subject, reference_id')
-      .eq('reference_id', refId)
-      .single();
-
-    if (ticket) return ticket;
-  }
-
-  // Fallback: Find most recent open ticket from this customer
-  const { data: customer } = await supabase
-    .from('customers')
-    .select('id')
-    .eq('email', customerEmail)
-    .single();
-
-  if (customer) {
-    const { data: ticket } = await supabase
-      .from('tickets')
-      .select('id, ticket_number, subject, reference_id')
-      .eq('customer_id', customer.id)
-      .in('status', ['open', 'pending'])
-      .eq('channel', 'email')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (ticket) return ticket;
-  }
-
-  return null;
-}
-
-/**
- * Get or create customer by email
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function getOrCreateCustomer(supabase: any, email: string, name: string | null): Promise<string> {
-  // Try to find existing customer
-  const { data: existing } = await supabase
-    .from('customers')
-    .select('id')
-    .eq('email', email)
-    .single();
-
-  if (existing) return existing.id;
-
-  // Create new customer
-  const { data: newCustomer, error } = await supabase
-    .from('customers')
-    .insert({
-      email,
-      full_name: name,
-      metadata: {},
-    })
-    .select('id')
-    .single();
-
-  if (error) {
-    console.error('Failed to create customer:', error);
-    throw new Error('Failed to create customer');
-  }
-
-  return newCustomer.id;
-}
-
-/**
- * Apply auto-tagging rules to a ticket
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function applyAutoTagRules(supabase: any, ticketId: string, subject: string, body: string) {
-  try {
-    const { data, error } = await supabase.rpc('apply_auto_tags', {
-      p_ticket_id: ticketId,
-      p_subject: subject,
-      p_body: body,
-    });
-
-    if (error) {
-      console.error('Auto-tag error:', error);
-    } else {
-      console.log('Applied auto tags:', data);
-    }
-  } catch (err) {
-    console.error('Auto-tag exception:', err);
-  }
-}
-
-/**
- * Apply auto-priority rules to a ticket
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function applyAutoPriorityRules(supabase: any, ticketId: string, subject: string, body: string) {
-  try {
-    // Get active priority rules
-    const { data: rules } = await supabase
-      .from('auto_priority_rules')
-      .select('*')
-      .eq('is_active', true)
-      .order('priority', { ascending: false }); // Higher priority rules first
-
-    if (!rules || rules.length === 0) return;
-
-    const searchText = `${subject} ${body}`.toLowerCase();
-
-    for (const rule of rules) {
-      const keywords = rule.keywords as string[];
-      const matchAll = rule.match_type === 'all';
-
-      let isMatch = false;
-      if (matchAll) {
-        isMatch = keywords.every(kw => searchText.includes(kw.toLowerCase()));
-      } else {
-        isMatch = keywords.some(kw => searchText.includes(kw.toLowerCase()));
-      }
-
-      if (isMatch) {
-        // Apply this priority
-        await supabase
-          .from('tickets')
-          .update({ priority: rule.target_priority })
-          .eq('id', ticketId);
-
-        console.log(`Applied priority ${rule.target_priority} from rule ${rule.name}`);
-        break; // Only apply the first matching rule
-      }
-    }
-  } catch (err) {
-    console.error('Auto-priority exception:', err);
-  }
-}
-
 export async function POST(request: NextRequest) {
   console.log('=== INBOUND EMAIL WEBHOOK START ===');
   console.log('Timestamp:', new Date().toISOString());
@@ -262,10 +44,25 @@ export async function POST(request: NextRequest) {
     const supabase = getSupabaseClient();
     console.log('Supabase client initialized');
 
+    // Verify the raw body before parsing it: anything accepted here can
+    // create tickets with the service role
+    const payload = Buffer.from(await request.arrayBuffer());
+    const verification = await verifyWebhookRequest(supabase, request, payload, {
+      auth: inboundAuth,
+      rateLimit: { limit: 300, windowSeconds: 60 },
+    });
+
+    if (!verification.ok) {
+      console.error('Inbound email rejected:', verification.error);
+      return NextResponse.json({ error: verification.error }, { status: verification.status });
+    }
+
     // Parse form data from SendGrid
     let formData: FormData;
     try {
-      formData = await request.formData();
+      formData = await new Response(payload, {
+        headers: { 'content-type': request.headers.get('content-type') || '' },
+      }).formData();
       console.log('FormData parsed successfully');
 
       // Log ALL form data keys and values for debugging
@@ -278,273 +75,43 @@ export async function POST(request: NextRequest) {
       console.log('=== END FORM DATA FIELDS ===');
     } catch (parseError) {
       console.error('Failed to parse formData:', parseError);
-      // Try to read as text to see what we received
-      try {
-        const clonedRequest = request.clone();
-        const rawBody = await clonedRequest.text();
-        console.log('Raw body (first 1000 chars):', rawBody.substring(0, 1000));
-      } catch {
-        console.log('Could not read raw body');
-      }
+      // Log what we received
+      console.log('Raw body (first 1000 chars):', payload.toString('utf8', 0, 1000));
       return NextResponse.json({ error: 'Invalid request format' }, { status: 400 });
     }
 
-    // Get raw values for debugging
-    const rawText = formData.get('text');
-    const rawHtml = formData.get('html');
-    const rawEmail = formData.get('email');
-    const rawBody = formData.get('body');
-
-    console.log('=== RAW CONTENT FIELDS ===');
-    console.log('  text type:', typeof rawText, 'value:', rawText ? String(rawText).substring(0, 100) : 'NULL');
-    console.log('  html type:', typeof rawHtml, 'value:', rawHtml ? String(rawHtml).substring(0, 100) : 'NULL');
-    console.log('  email type:', typeof rawEmail, 'value:', rawEmail ? String(rawEmail).substring(0, 100) : 'NULL');
-    console.log('  body type:', typeof rawBody, 'value:', rawBody ? String(rawBody).substring(0, 100) : 'NULL');
-    console.log('=== END RAW CONTENT FIELDS ===');
-
-    const data: InboundEmailData = {
-      from: formData.get('from') as string || '',
-      to: formData.get('to') as string || '',
-      subject: formData.get('subject') as string || '(No Subject)',
-      text: formData.get('text') as string || undefined,
-      html: formData.get('html') as string || undefined,
-      headers: formData.get('headers') as string || undefined,
-      envelope: formData.get('envelope') as string || undefined,
-      attachments: parseInt(formData.get('attachments') as string || '0', 10),
-      'attachment-info': formData.get('attachment-info') as string || undefined,
-    };
-
-    console.log('Parsed email data:');
-    console.log('  From:', data.from);
-    console.log('  To:', data.to);
-    console.log('  Subject:', data.subject);
-    console.log('  Text content:', data.text ? data.text.substring(0, 200) : 'EMPTY');
-    console.log('  HTML content:', data.html ? data.html.substring(0, 200) : 'EMPTY');
-    console.log('  Attachments:', data.attachments);
-
-    // Validate required fields
-    if (!data.from) {
-      console.error('Missing required field: from');
-      return NextResponse.json({ error: 'Missing sender' }, { status: 400 });
+    // Save the payload before processing it, so a failure can be retried
+    // from the dead-letter list. If it can't be saved, a 500 makes SendGrid
+    // retry the delivery.
+    let saved: Awaited<ReturnType<typeof saveInboundEmail>>;
+    try {
+      saved = await saveInboundEmail(supabase, formData);
+    } catch (saveError) {
+      console.error('Failed to save inbound email:', saveError);
+      return NextResponse.json({ error: 'Failed to save email' }, { status: 500 });
     }
 
-    // Parse sender email
-    const { email: customerEmail, name: customerName } = parseEmailAddress(data.from);
-    console.log('Customer email:', customerEmail, 'Name:', customerName);
-
-    // Parse email headers for threading
-    const headers = parseEmailHeaders(data.headers || '');
-    console.log('Email headers:', headers);
-
-    // Get the raw email content (prefer text over html for storage)
-    // Also check 'email' and 'body' fields as fallbacks (using rawEmail/rawBody from above)
-    // Use htmlToText for proper HTML conversion that preserves line breaks
-    const rawEmailContent: string =
-      (data.text && data.text.trim()) ||
-      (data.html ? htmlToText(data.html) : '') ||
-      (typeof rawEmail === 'string' ? rawEmail.trim() : '') ||
-      (typeof rawBody === 'string' ? rawBody.trim() : '') ||
-      '';
-
-    console.log('=== RAW EMAIL CONTENT ===');
-    console.log('Raw content length:', rawEmailContent.length);
-    console.log('Raw content preview:', rawEmailContent.substring(0, 500));
-    console.log('=== END RAW EMAIL CONTENT ===');
-
-    // Extract only the NEW content (strip quoted text, signatures, etc.)
-    const emailContent = extractNewEmailContent(rawEmailContent);
-
-    console.log('=== EXTRACTED EMAIL CONTENT ===');
-    console.log('Extracted content length:', emailContent.length);
-    console.log('Extracted content:', emailContent.substring(0, 500));
-    console.log('=== END EXTRACTED EMAIL CONTENT ===');
-
-    // Determine brand from recipient email
-    const toEmail = data.to.includes(',') ? data.to.split(',')[0] : data.to;
-    const { email: recipientEmail } = parseEmailAddress(toEmail);
-    const brandId = await getBrandIdFromEmail(recipientEmail, supabase);
-    console.log('Brand ID:', brandId);
-
-    // Check for existing ticket (threading)
-    const existingTicket = await findTicketByReference(
-      supabase,
-      customerEmail,
-      headers.references,
-      headers.inReplyTo
-    );
-
-    if (existingTicket) {
-      // Add message to existing ticket - strip quoted content since thread is already visible
-      console.log('Adding to existing ticket:', existingTicket.ticket_number);
-
-      // Get customer ID
-      const customerId = await getOrCreateCustomer(supabase, customerEmail, customerName);
-
-      // For replies: use cleaned content (without quoted text), store raw for reference
-      console.log('=== REPLY MESSAGE DEBUG ===');
-      console.log('emailContent length:', emailContent?.length);
-      console.log('emailContent preview:', emailContent?.substring(0, 200));
-      console.log('rawEmailContent length:', rawEmailContent?.length);
-      console.log('=== END REPLY MESSAGE DEBUG ===');
-
-      const { data: replyMessageData, error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          ticket_id: existingTicket.id,
-          sender_type: 'customer',
-          sender_id: customerId,
-          content: emailContent || '(No content)', // Fallback if empty
-          raw_content: rawEmailContent || null,
-          is_internal: false,
-          source: 'new_email',
-          source_email_id: headers.messageId,
-          attachments: [],
-        })
-        .select('id')
-        .single();
-
-      if (messageError) {
-        console.error('Failed to create message:', messageError);
-        console.error('Message error details:', JSON.stringify(messageError, null, 2));
-        return NextResponse.json({ error: 'Failed to create message', details: messageError.message }, { status: 500 });
-      }
-
-      console.log('Reply message created with ID:', replyMessageData?.id);
-
-      // Update ticket status to open if it was pending/closed
-      await supabase
-        .from('tickets')
-        .update({
-          status: 'open',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', existingTicket.id);
-
-      // Update reference_id if we got a new message ID
-      if (headers.messageId && !existingTicket.reference_id) {
-        await supabase
-          .from('tickets')
-          .update({ reference_id: headers.messageId })
-          .eq('id', existingTicket.id);
-      }
-
-      console.log('Message added to ticket #', existingTicket.ticket_number);
-      console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: message_added ===');
-
-      return NextResponse.json({
-        success: true,
-        action: 'message_added',
-        ticketNumber: existingTicket.ticket_number
-      });
-    } else {
-      // Create new ticket - KEEP quoted content for context (agents need to see the thread)
-      console.log('Creating new ticket');
-
-      // Get or create customer
-      const customerId = await getOrCreateCustomer(supabase, customerEmail, customerName);
-
-      // For new tickets: format the content with quoted sections separated
-      // This preserves the conversation context agents need to see
-      const { newContent, quotedContent } = formatEmailWithQuotedContent(rawEmailContent);
-
-      console.log('=== CONTENT FORMATTING DEBUG ===');
-      console.log('rawEmailContent length:', rawEmailContent?.length);
-      console.log('newContent:', newContent);
-      console.log('quotedContent length:', quotedContent?.length);
-      console.log('=== END CONTENT FORMATTING DEBUG ===');
-
-      // Build the display content with nicely formatted quoted section
-      let displayContent = newContent;
-      if (quotedContent) {
-        displayContent = `${newContent}\n\n---\n\n**Previous conversation:**\n\n${quotedContent}`;
-      }
-
-      // Ensure displayContent is never empty
-      if (!displayContent || !displayContent.trim()) {
-        displayContent = rawEmailContent || '(No content)';
-      }
-
-      // Check if this is an auto-reply email
-      const isAutoReply = headers.isAutoReply || isAutoReplySubject(data.subject);
-      if (isAutoReply) {
-        console.log('Detected auto-reply email, marking ticket accordingly');
-      }
-
-      // Create ticket
-      const { data: ticket, error: ticketError } = await supabase
-        .from('tickets')
-        .insert({
-          subject: data.subject,
-          status: 'open',
-          priority: 'medium',
-          channel: 'email',
-          customer_id: customerId,
-          brand_id: brandId,
-          reference_id: headers.messageId,
-          is_auto_reply: isAutoReply,
-        })
-        .select('id, ticket_number')
-        .single();
-
-      if (ticketError || !ticket) {
-        console.error('Failed to create ticket:', ticketError);
-        return NextResponse.json({ error: 'Failed to create ticket' }, { status: 500 });
-      }
-
-      console.log('Created ticket #', ticket.ticket_number);
-
-      // Log content before insert for debugging
-      console.log('=== MESSAGE INSERT DEBUG ===');
-      console.log('displayContent length:', displayContent?.length);
-      console.log('displayContent preview:', displayContent?.substring(0, 200));
-      console.log('rawEmailContent length:', rawEmailContent?.length);
-      console.log('=== END MESSAGE INSERT DEBUG ===');
-
-      // Create initial message with full content for context
-      const { data: messageData, error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          ticket_id: ticket.id,
-          sender_type: 'customer',
-          sender_id: customerId,
-          content: displayContent || '(No content)', // Fallback if empty
-          raw_content: rawEmailContent || null,
-          is_internal: false,
-          source: 'new_email',
-          source_email_id: headers.messageId,
-          attachments: [],
-        })
-        .select('id')
-        .single();
-
-      if (messageError) {
-        console.error('Failed to create initial message:', messageError);
-        console.error('Message error details:', JSON.stringify(messageError, null, 2));
-        // Don't fail silently - return error so we know something went wrong
-        return NextResponse.json({
-          error: 'Ticket created but message failed',
-          ticketNumber: ticket.ticket_number,
-          messageError: messageError.message
-        }, { status: 500 });
-      }
-
-      console.log('Message created with ID:', messageData?.id);
-
-      // Apply auto-tagging rules
-      await applyAutoTagRules(supabase, ticket.id, data.subject, emailContent);
-
-      // Apply auto-priority rules
-      await applyAutoPriorityRules(supabase, ticket.id, data.subject, emailContent);
+    // SendGrid re-delivered an email that's already handled (or being
+    // handled); one that never finished is processed again
+    if (!saved.isNew && !['received', 'failed'].includes(saved.inbound.status)) {
+      console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: duplicate ===');
+      return NextResponse.json({ success: true, action: 'duplicate' });
+    }
 
-      console.log('Ticket created successfully: #', ticket.ticket_number);
+    const result = await processInboundEmail(supabase, saved.inbound.id, formData);
 
-      console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: ticket_created ===');
-      return NextResponse.json({
-        success: true,
-        action: 'ticket_created',
-        ticketNumber: ticket.ticket_number
-      });
+    // Failures stay in the dead-letter list; 200 stops SendGrid retrying
+    // an email we already have
+    if ('error' in result) {
+      console.error('=== INBOUND EMAIL WEBHOOK FAILED ===', result.error);
+      return NextResponse.json({ error: result.error, inboundEmailId: saved.inbound.id, logged: true });
     }
+
+    return NextResponse.json({
+      success: true,
+      action: result.action,
+      ticketNumber: result.ticketNumber
+    });
   } catch (err) {
     console.error('=== INBOUND EMAIL WEBHOOK ERROR ===');
     console.error('Error type:', err instanceof Error ? err.constructor.name : typeof err);
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { verifyShopifyWebhook, handleShopifyWebhook } from '@/lib/shopify-sync';
+import { getShopifyStoreByDomain } from '@/lib/shopify-stores';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+/**
+ * Shopify webhook for orders/create, orders/updated, orders/fulfilled,
+ * orders/cancelled, refunds/create and customers/update. Keeps the cached
+ * orders and customer stats current. Requests must come from a connected
+ * store with a webhook secret and carry a valid HMAC.
+ */
+export async function POST(request: NextRequest) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    console.error('Missing configuration for Shopify webhook');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  const payload = await request.text();
+
+  const store = await getShopifyStoreByDomain(request.headers.get('x-shopify-shop-domain'));
+  if (!store?.webhookSecret) {
+    return NextResponse.json({ error: 'Unknown store' }, { status: 401 });
+  }
+
+  const isValid = verifyShopifyWebhook(
+    payload,
+    request.headers.get('x-shopify-hmac-sha256'),
+    store.webhookSecret
+  );
+
+  if (!isValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const topic = request.headers.get('x-shopify-topic') || '';
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  try {
+    const handled = await handleShopifyWebhook(supabase, store, topic, body);
+    return NextResponse.json({ topic, handled });
+  } catch (error) {
+    // A failed response makes Shopify retry the delivery
+    console.error(`Shopify webhook ${topic} error:`, error);
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CsatSurveyForm } from '@/components/csat/csat-survey-form';
+import { getPublicCsatSurvey } from '@/lib/actions/csat';
+import { isValidCsatScore } from '@/lib/csat';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ score?: string }>;
+}
+
+export default async function CsatSurveyPage({ params, searchParams }: PageProps) {
+  const { token } = await params;
+  const { score: scoreParam } = await searchParams;
+
+  // The rating buttons in the survey email link here with ?score=N. It only
+  // preselects the rating: link scanners and mail prefetchers open every
+  // link in the email, so nothing is recorded until the customer submits.
+  const score = Number(scoreParam);
+  const preselectedScore = isValidCsatScore(score) ? score : null;
+
+  const result = await getPublicCsatSurvey(token);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-zinc-950">
+      <Card className="w-full max-w-lg">
+        {'error' in result ? (
+          <CardHeader>
+            <CardTitle>Survey not found</CardTitle>
+            <CardDescription>This survey link is invalid or has expired.</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              {result.survey.brand?.logo_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={result.survey.brand.logo_url}
+                  alt={result.survey.brand.name}
+                  className="mb-2 h-10 w-auto self-start"
+                />
+              )}
+              <CardTitle style={{ color: result.survey.brand?.color }}>
+                {result.survey.brand?.name || 'NoLimits Support'}
+              </CardTitle>
+              <CardDescription>
+                How would you rate the support you received on ticket #
+                {result.survey.ticket_number}?
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CsatSurveyForm
+                token={token}
+                initialScore={result.survey.score}
+                preselectedScore={preselectedScore}
+                initialComment={result.survey.comment}
+                color={result.survey.brand?.color || '#2563eb'}
+              />
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
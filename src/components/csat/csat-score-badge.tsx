@@ -0,0 +1,32 @@
+import { Star } from 'lucide-react';
+import { csatScoreLabels } from '@/lib/csat';
+import { cn } from '@/lib/utils';
+
+const scoreColors: Record<number, string> = {
+  1: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  2: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
+  3: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  4: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  5: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+};
+
+interface CsatScoreBadgeProps {
+  score: number;
+  className?: string;
+}
+
+export function CsatScoreBadge({ score, className }: CsatScoreBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+        scoreColors[score],
+        className
+      )}
+      title={csatScoreLabels[score]}
+    >
+      <Star className="h-3 w-3 fill-current" />
+      {score}/5
+    </span>
+  );
+}
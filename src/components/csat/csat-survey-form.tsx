@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { submitCsatResponse } from '@/lib/actions/csat';
+import { CSAT_SCORES, csatScoreLabels } from '@/lib/csat';
+import { cn } from '@/lib/utils';
+
+interface CsatSurveyFormProps {
+  token: string;
+  initialScore: number | null;
+  // From the email's rating link; shown selected but not saved until submitted
+  preselectedScore: number | null;
+  initialComment: string | null;
+  color: string;
+}
+
+export function CsatSurveyForm({
+  token,
+  initialScore,
+  preselectedScore,
+  initialComment,
+  color,
+}: CsatSurveyFormProps) {
+  const [score, setScore] = useState<number | null>(preselectedScore ?? initialScore);
+  const [savedScore, setSavedScore] = useState<number | null>(initialScore);
+  const [comment, setComment] = useState(initialComment || '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const save = (nextScore: number, nextComment?: string) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await submitCsatResponse(token, nextScore, nextComment);
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      setScore(nextScore);
+      setSavedScore(nextScore);
+      if (nextComment !== undefined) {
+        setIsSubmitted(true);
+      }
+    });
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-6 text-center">
+        <CheckCircle className="h-10 w-10 text-green-500" />
+        <p className="font-medium">Thanks for your feedback!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-5 gap-2">
+        {CSAT_SCORES.map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => save(value)}
+            disabled={isPending}
+            className={cn(
+              'flex flex-col items-center rounded-lg border-2 px-1 py-3 text-xs transition-colors',
+              score === value
+                ? 'text-white'
+                : 'border-zinc-200 text-zinc-600 hover:border-zinc-400 dark:border-zinc-700 dark:text-zinc-300'
+            )}
+            style={score === value ? { backgroundColor: color, borderColor: color } : undefined}
+          >
+            <span className="text-xl font-semibold">{value}</span>
+            {csatScoreLabels[value]}
+          </button>
+        ))}
+      </div>
+
+      {score !== null && (
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {score === savedScore
+              ? "Thanks! Anything you'd like to tell us? (optional)"
+              : "Anything you'd like to tell us? (optional) Then send your rating."}
+          </p>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={4}
+            maxLength={2000}
+            placeholder="What went well, or what could we do better?"
+          />
+          <Button
+            className="w-full"
+            onClick={() => save(score, comment)}
+            disabled={isPending}
+          >
+            {isPending ? 'Saving...' : score === savedScore ? 'Send feedback' : 'Send rating'}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Mail, Phone, Facebook, Instagram, Fingerprint, Trash2, Plus, Loader2, Star } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  addCustomerIdentity,
+  removeCustomerIdentity,
+  setPrimaryCustomerIdentity,
+} from '@/lib/actions/customer-identities';
+import type { CustomerIdentity, CustomerIdentityType } from '@/lib/supabase/types';
+
+interface CustomerIdentitiesSectionProps {
+  customerId: string;
+  initialIdentities: CustomerIdentity[];
+}
+
+const identityConfig: Record<
+  CustomerIdentityType,
+  { icon: LucideIcon; label: string; placeholder: string; canBePrimary: boolean }
+> = {
+  email: { icon: Mail, label: 'Email', placeholder: 'name@example.com', canBePrimary: true },
+  phone: { icon: Phone, label: 'Phone', placeholder: '+1 555 010 0199', canBePrimary: true },
+  facebook: { icon: Facebook, label: 'Facebook', placeholder: 'Facebook user ID', canBePrimary: false },
+  instagram: { icon: Instagram, label: 'Instagram', placeholder: 'Instagram user ID', canBePrimary: false },
+};
+
+export function CustomerIdentitiesSection({ customerId, initialIdentities }: CustomerIdentitiesSectionProps) {
+  const router = useRouter();
+  const [identities, setIdentities] = useState<CustomerIdentity[]>(initialIdentities);
+  const [newType, setNewType] = useState<CustomerIdentityType>('email');
+  const [newValue, setNewValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newValue.trim() || isPending) return;
+
+    setError(null);
+    startTransition(async () => {
+      const result = await addCustomerIdentity({
+        customer_id: customerId,
+        type: newType,
+        value: newValue,
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setIdentities((prev) => [...prev, result.identity]);
+      setNewValue('');
+      if (result.identity.is_primary) {
+        router.refresh();
+      }
+    });
+  };
+
+  const handleRemove = async (identityId: string) => {
+    if (busyId) return;
+
+    setError(null);
+    setBusyId(identityId);
+    const result = await removeCustomerIdentity(identityId, customerId);
+
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setIdentities((prev) => prev.filter((i) => i.id !== identityId));
+    }
+    setBusyId(null);
+  };
+
+  const handleSetPrimary = async (identity: CustomerIdentity) => {
+    if (busyId) return;
+
+    setError(null);
+    setBusyId(identity.id);
+    const result = await setPrimaryCustomerIdentity(identity.id, customerId);
+
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setIdentities((prev) =>
+        prev.map((i) => (i.type === identity.type ? { ...i, is_primary: i.id === identity.id } : i))
+      );
+      router.refresh();
+    }
+    setBusyId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Fingerprint className="h-4 w-4" />
+          Identities ({identities.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Messages from any of these are matched to this customer. Replies go to the primary email.
+        </p>
+
+        <div className="space-y-2">
+          {identities.map((identity) => {
+            const config = identityConfig[identity.type];
+            const Icon = config.icon;
+
+            return (
+              <div
+                key={identity.id}
+                className="group flex items-center gap-3 rounded-lg border border-zinc-200 px-3 py-2 dark:border-zinc-700"
+              >
+                <Icon className="h-4 w-4 shrink-0 text-zinc-400" />
+                <span className="flex-1 min-w-0 truncate text-sm">{identity.value}</span>
+                {identity.is_primary ? (
+                  <Badge variant="secondary">Primary</Badge>
+                ) : (
+                  <>
+                    {config.canBePrimary && (
+                      <button
+                        onClick={() => handleSetPrimary(identity)}
+                        disabled={busyId === identity.id}
+                        className="opacity-0 group-hover:opacity-100 flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-all"
+                        title={`Make primary ${config.label.toLowerCase()}`}
+                      >
+                        <Star className="h-3.5 w-3.5" />
+                        Make primary
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(identity.id)}
+                      disabled={busyId === identity.id}
+                      className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-all text-zinc-400 hover:text-red-500"
+                      title="Remove"
+                    >
+                      {busyId === identity.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Select value={newType} onValueChange={(value) => setNewType(value as CustomerIdentityType)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(identityConfig) as CustomerIdentityType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {identityConfig[type].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            placeholder={identityConfig[newType].placeholder}
+            disabled={isPending}
+            className="flex-1"
+          />
+          <Button type="submit" size="sm" disabled={!newValue.trim() || isPending} className="gap-1">
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  History,
+  Inbox,
+  CheckCircle2,
+  MessageSquare,
+  Reply,
+  Lock,
+  StickyNote,
+  ShoppingBag,
+  Truck,
+  XCircle,
+  RotateCcw,
+  Loader2,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn, formatDate, formatRelativeTime } from '@/lib/utils';
+import {
+  getCustomerTimeline,
+  type CustomerTimelineEvent,
+  type CustomerTimelineEventKind,
+  type CustomerTimelineFilter,
+} from '@/lib/actions/customer-timeline';
+
+interface CustomerTimelineProps {
+  customerId: string;
+}
+
+const filterOptions: { value: CustomerTimelineFilter; label: string }[] = [
+  { value: 'tickets', label: 'Tickets' },
+  { value: 'messages', label: 'Messages' },
+  { value: 'notes', label: 'Notes' },
+  { value: 'orders', label: 'Orders' },
+  { value: 'returns', label: 'Returns' },
+];
+
+const eventConfig: Record<CustomerTimelineEventKind, { icon: LucideIcon; className: string }> = {
+  ticket_created: { icon: Inbox, className: 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' },
+  ticket_closed: { icon: CheckCircle2, className: 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400' },
+  customer_message: { icon: MessageSquare, className: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400' },
+  agent_reply: { icon: Reply, className: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400' },
+  internal_note: { icon: Lock, className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400' },
+  customer_note: { icon: StickyNote, className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400' },
+  order_placed: { icon: ShoppingBag, className: 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' },
+  order_fulfilled: { icon: Truck, className: 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' },
+  order_cancelled: { icon: XCircle, className: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400' },
+  return_created: { icon: RotateCcw, className: 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400' },
+};
+
+export function CustomerTimeline({ customerId }: CustomerTimelineProps) {
+  const [filters, setFilters] = useState<CustomerTimelineFilter[]>(filterOptions.map((f) => f.value));
+  const [events, setEvents] = useState<CustomerTimelineEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // First page, again whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchFirstPage = async () => {
+      const result = await getCustomerTimeline(customerId, { filters });
+      if (cancelled) return;
+
+      if ('error' in result) {
+        setError(result.error);
+        setHasMore(false);
+      } else {
+        setEvents(result.events);
+        setCursor(result.nextCursor);
+        setHasMore(result.nextCursor !== null);
+      }
+      setIsLoading(false);
+    };
+
+    fetchFirstPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, filters]);
+
+  // The next page once the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !cursor) return;
+
+    let cancelled = false;
+
+    const fetchNextPage = async () => {
+      setIsLoading(true);
+      const result = await getCustomerTimeline(customerId, { filters, cursor });
+      if (cancelled) return;
+
+      if ('error' in result) {
+        setError(result.error);
+        setHasMore(false);
+      } else {
+        setEvents((prev) => [...prev, ...result.events]);
+        setCursor(result.nextCursor);
+        setHasMore(result.nextCursor !== null);
+      }
+      setIsLoading(false);
+    };
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        observer.disconnect();
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [customerId, filters, cursor, hasMore]);
+
+  const toggleFilter = (value: CustomerTimelineFilter) => {
+    const next = filters.includes(value) ? filters.filter((f) => f !== value) : [...filters, value];
+    // Keep at least one type selected
+    if (next.length === 0) return;
+
+    setFilters(next);
+    setEvents([]);
+    setCursor(null);
+    setHasMore(true);
+    setError(null);
+    setIsLoading(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Timeline
+        </CardTitle>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {filterOptions.map((option) => {
+            const active = filters.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                onClick={() => toggleFilter(option.value)}
+                className={cn(
+                  'rounded-full border px-3 py-1 text-xs font-medium transition-colors',
+                  active
+                    ? 'border-zinc-900 bg-zinc-900 text-white dark:border-zinc-100 dark:bg-zinc-100 dark:text-zinc-900'
+                    : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                )}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {events.length > 0 && (
+          <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {events.map((event) => (
+              <TimelineItem key={event.id} event={event} />
+            ))}
+          </div>
+        )}
+
+        {!isLoading && !error && events.length === 0 && (
+          <div className="p-8 text-center text-zinc-500 dark:text-zinc-400">Nothing here yet</div>
+        )}
+
+        {error && <p className="p-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div ref={sentinelRef} className="flex min-h-4 justify-center p-2">
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin text-zinc-400" />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TimelineItem({ event }: { event: CustomerTimelineEvent }) {
+  const config = eventConfig[event.kind];
+  const Icon = config.icon;
+
+  const content = (
+    <>
+      <div className={cn('mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full', config.className)}>
+        <Icon className="h-3.5 w-3.5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium">
+          {event.title}
+          <span className="font-normal text-zinc-500 dark:text-zinc-400" title={formatDate(event.occurredAt)}>
+            {' '}· {formatRelativeTime(event.occurredAt)}
+          </span>
+        </p>
+        {event.detail && (
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 line-clamp-2">{event.detail}</p>
+        )}
+      </div>
+    </>
+  );
+
+  const className = 'flex items-start gap-3 p-4';
+
+  if (!event.href) {
+    return <div className={className}>{content}</div>;
+  }
+
+  if (event.external) {
+    return (
+      <a
+        href={event.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={cn(className, 'transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-900')}
+      >
+        {content}
+      </a>
+    );
+  }
+
+  return (
+    <Link href={event.href} className={cn(className, 'transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-900')}>
+      {content}
+    </Link>
+  );
+}
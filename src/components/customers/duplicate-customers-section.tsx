@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Users, Merge, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { mergeCustomers } from '@/lib/actions/customers';
+import { formatDate } from '@/lib/utils';
+import type { Customer, DuplicateCustomer, DuplicateMatchReason } from '@/lib/supabase/types';
+
+interface DuplicateCustomersSectionProps {
+  customer: Pick<Customer, 'id' | 'email' | 'full_name'>;
+  duplicates: DuplicateCustomer[];
+}
+
+const reasonLabels: Record<DuplicateMatchReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  shopify: 'Same Shopify customer',
+  name: 'Same name',
+};
+
+function describe(customer: { email: string; full_name: string | null }): string {
+  return customer.full_name ? `${customer.full_name} (${customer.email})` : customer.email;
+}
+
+export function DuplicateCustomersSection({ customer, duplicates }: DuplicateCustomersSectionProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<DuplicateCustomer | null>(null);
+  const [keepCurrent, setKeepCurrent] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  if (duplicates.length === 0) {
+    return null;
+  }
+
+  const openMerge = (duplicate: DuplicateCustomer) => {
+    setSelected(duplicate);
+    setKeepCurrent(true);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    setSelected(null);
+    setError(null);
+  };
+
+  const handleMerge = () => {
+    if (!selected) return;
+
+    startTransition(async () => {
+      const result = await mergeCustomers({
+        sourceId: keepCurrent ? selected.id : customer.id,
+        targetId: keepCurrent ? customer.id : selected.id,
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setSelected(null);
+      if (keepCurrent) {
+        router.refresh();
+      } else {
+        router.push(`/customers/${result.customerId}`);
+      }
+    });
+  };
+
+  const survivor = selected && (keepCurrent ? customer : selected);
+  const merged = selected && (keepCurrent ? selected : customer);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Users className="h-4 w-4" />
+          Possible Duplicates ({duplicates.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+          {duplicates.map((duplicate) => (
+            <div key={duplicate.id} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <Link
+                  href={`/customers/${duplicate.id}`}
+                  className="font-medium hover:underline"
+                >
+                  {duplicate.full_name || duplicate.email}
+                </Link>
+                <p className="truncate text-sm text-zinc-500 dark:text-zinc-400">
+                  {duplicate.email}
+                  {duplicate.phone && <> · {duplicate.phone}</>} · {duplicate.ticket_count}{' '}
+                  {duplicate.ticket_count === 1 ? 'ticket' : 'tickets'} · since{' '}
+                  {formatDate(duplicate.created_at)}
+                </p>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {duplicate.match_reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary">
+                      {reasonLabels[reason]}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => openMerge(duplicate)}>
+                <Merge className="h-4 w-4" />
+                Merge
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={handleClose}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Merge className="h-5 w-5" />
+              Merge Customers
+            </DialogTitle>
+            <DialogDescription>
+              Tickets, notes and order history move to the customer you keep. The other
+              customer&apos;s emails and phone numbers are kept as identities, so their future
+              messages still arrive here.
+            </DialogDescription>
+          </DialogHeader>
+
+          {selected && survivor && merged && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-zinc-500">Keep:</p>
+                {[true, false].map((current) => {
+                  const option = current ? customer : selected;
+                  return (
+                    <button
+                      key={option.id}
+                      onClick={() => setKeepCurrent(current)}
+                      className={`w-full rounded-lg border p-3 text-left text-sm transition-colors ${
+                        keepCurrent === current
+                          ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/20'
+                          : 'border-zinc-200 hover:border-zinc-300 hover:bg-zinc-50 dark:border-zinc-700 dark:hover:border-zinc-600 dark:hover:bg-zinc-800'
+                      }`}
+                    >
+                      {describe(option)}
+                      {current && <span className="text-zinc-500 dark:text-zinc-400"> · this customer</span>}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 dark:border-blue-800 dark:bg-blue-900/20">
+                <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
+                  Merge {describe(merged)} into {describe(survivor)}?
+                </p>
+                <p className="mt-1 text-xs text-blue-700 dark:text-blue-300">
+                  {merged.full_name || merged.email} is then removed as a separate customer. This
+                  can&apos;t be undone.
+                </p>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  {error}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isPending}>
+              {isPending ? 'Merging...' : 'Merge Customers'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,28 @@
+import { Star } from 'lucide-react';
+import type { CustomerSegmentSummary } from '@/lib/supabase/types';
+
+interface SegmentBadgeProps {
+  segment: Pick<CustomerSegmentSummary, 'name' | 'color'>;
+  size?: 'sm' | 'md';
+}
+
+export function SegmentBadge({ segment, size = 'sm' }: SegmentBadgeProps) {
+  const sizeClasses = size === 'sm'
+    ? 'gap-0.5 px-1.5 py-0.5 text-[10px]'
+    : 'gap-1 px-2 py-1 text-xs';
+
+  return (
+    <span
+      className={`inline-flex shrink-0 items-center rounded-full font-medium ${sizeClasses}`}
+      style={{
+        backgroundColor: `${segment.color}20`,
+        color: segment.color,
+        border: `1px solid ${segment.color}40`,
+      }}
+      title={`Customer segment: ${segment.name}`}
+    >
+      <Star className={size === 'sm' ? 'h-2.5 w-2.5' : 'h-3 w-3'} />
+      {segment.name}
+    </span>
+  );
+}
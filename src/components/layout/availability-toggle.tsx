@@ -0,0 +1,52 @@
+'use client';
+
+import { useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/components/providers/auth-provider';
+import { updateAvailability } from '@/lib/actions/profile';
+import { availabilityLabels } from '@/lib/assignment';
+
+export function AvailabilityToggle() {
+  const { profile, refreshProfile } = useAuth();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  if (!profile || profile.role === 'viewer') return null;
+
+  const isAway = profile.availability === 'away';
+
+  const handleToggle = () => {
+    if (
+      !isAway &&
+      !confirm('Go away? Your open and pending tickets will be handed to other available agents.')
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await updateAvailability({
+        userId: profile.id,
+        availability: isAway ? 'available' : 'away',
+      });
+      if (!('error' in result)) {
+        await refreshProfile();
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isPending}
+      className="mt-2 flex items-center gap-2 rounded-md px-2 py-1 text-xs text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-50"
+      title={isAway ? 'Start receiving new tickets' : 'Stop receiving new tickets'}
+    >
+      <span
+        className={cn('h-2 w-2 rounded-full', isAway ? 'bg-zinc-500' : 'bg-green-500')}
+      />
+      {availabilityLabels[profile.availability]}
+    </button>
+  );
+}
@@ -147,7 +147,11 @@ export function NotificationBell() {
                         ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
                         : notification.type === 'snooze_expired'
                           ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400'
-                          : 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400'
+                          : notification.type === 'sla_breach' ||
+                            notification.type === 'reply_failed' ||
+                            notification.type === 'email_bounced'
+                            ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
+                            : 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400'
                     }`}
                   >
                     <Ticket className="h-4 w-4" />
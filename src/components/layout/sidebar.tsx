@@ -19,10 +19,21 @@ import {
   Percent,
   Package,
   ChevronRight,
+  Timer,
+  Smile,
+  Shuffle,
+  Zap,
+  Clock,
+  ShoppingBag,
+  Star,
+  ShieldAlert,
+  Reply,
+  MailWarning,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/components/providers/auth-provider';
 import { TicketViews } from './ticket-views';
+import { AvailabilityToggle } from './availability-toggle';
 import { Skeleton } from '@/components/ui/skeleton';
 
 function TicketViewsSkeleton() {
@@ -77,8 +88,18 @@ const settingsNavigation: NavItem[] = [
     children: [
       { name: 'Tag Rules', href: '/settings/rules', icon: Wand2, adminOnly: true },
       { name: 'Priority Rules', href: '/settings/priority-rules', icon: Gauge, adminOnly: true },
+      { name: 'Automations', href: '/settings/automations', icon: Zap, adminOnly: true },
     ],
   },
+  { name: 'SLA Policies', href: '/settings/sla', icon: Timer, adminOnly: true },
+  { name: 'Business Hours', href: '/settings/brands', icon: Clock, adminOnly: true },
+  { name: 'CSAT Surveys', href: '/settings/csat', icon: Smile, adminOnly: true },
+  { name: 'Customer Segments', href: '/settings/segments', icon: Star, adminOnly: true },
+  { name: 'Spam Filter', href: '/settings/spam', icon: ShieldAlert, adminOnly: true },
+  { name: 'Email Threading', href: '/settings/email-threading', icon: Reply, adminOnly: true },
+  { name: 'Failed Emails', href: '/settings/inbound-emails', icon: MailWarning, adminOnly: true },
+  { name: 'Shopify Stores', href: '/settings/shopify', icon: ShoppingBag, adminOnly: true },
+  { name: 'Assignment', href: '/settings/assignment', icon: Shuffle, adminOnly: true },
   { name: 'Users', href: '/settings/users', icon: UserCog, adminOnly: true },
   { name: 'Import from Gorgias', href: '/settings/import', icon: Upload, adminOnly: true },
 ];
@@ -210,6 +231,7 @@ export function Sidebar() {
             <div className="mt-1 text-xs capitalize text-zinc-500">
               {profile.role}
             </div>
+            <AvailabilityToggle />
           </>
         ) : (
           <div className="text-xs text-red-400">
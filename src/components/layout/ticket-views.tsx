@@ -12,11 +12,13 @@ import {
   Clock,
   CheckCircle,
   BotMessageSquare,
+  Timer,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { createClient } from '@/lib/supabase/client';
 import { useAuth } from '@/components/providers/auth-provider';
-import { unsnoozeExpiredTickets } from '@/lib/actions/messages';
+import { getSlaWarningCutoff } from '@/lib/sla';
 import type { Profile } from '@/lib/supabase/types';
 
 interface TicketViewCounts {
@@ -24,7 +26,9 @@ interface TicketViewCounts {
   myInbox: number;
   mySnoozed: number;
   myClosed: number;
+  breachingSoon: number;
   autoReplies: number;
+  spam: number;
   all: number;
 }
 
@@ -84,7 +88,9 @@ export function TicketViews() {
     myInbox: 0,
     mySnoozed: 0,
     myClosed: 0,
+    breachingSoon: 0,
     autoReplies: 0,
+    spam: 0,
     all: 0,
   });
   const [agentCounts, setAgentCounts] = useState<AgentInboxCount[]>([]);
@@ -101,34 +107,34 @@ export function TicketViews() {
     const fetchCounts = async () => {
       const supabase = createClient();
 
-      // First, check and unsnooze any expired tickets
-      await unsnoozeExpiredTickets();
-
-      // Get unassigned count (exclude snoozed and auto-replies)
+      // Get unassigned count (exclude snoozed, auto-replies and spam)
       const { count: unassignedCount } = await supabase
         .from('tickets')
         .select('id', { count: 'exact', head: true })
         .is('assigned_agent_id', null)
         .in('status', ['open', 'pending'])
         .is('snoozed_until', null)
-        .eq('is_auto_reply', false);
+        .eq('snooze_until_reply', false)
+        .eq('is_auto_reply', false)
+        .eq('is_spam', false);
 
-      // Get my inbox count (open/pending, not snoozed, exclude auto-replies)
+      // Get my inbox count (open/pending, not snoozed, exclude auto-replies and spam)
       const { count: myInboxCount } = await supabase
         .from('tickets')
         .select('id', { count: 'exact', head: true })
         .eq('assigned_agent_id', profile?.id || '')
         .in('status', ['open', 'pending'])
         .is('snoozed_until', null)
-        .eq('is_auto_reply', false);
+        .eq('snooze_until_reply', false)
+        .eq('is_auto_reply', false)
+        .eq('is_spam', false);
 
       // Get my snoozed count
       const { count: mySnoozedCount } = await supabase
         .from('tickets')
         .select('id', { count: 'exact', head: true })
         .eq('assigned_agent_id', profile?.id || '')
-        .not('snoozed_until', 'is', null)
-        .gt('snoozed_until', new Date().toISOString());
+        .or(`snooze_until_reply.eq.true,snoozed_until.gt.${new Date().toISOString()}`);
 
       // Get my closed count
       const { count: myClosedCount } = await supabase
@@ -137,26 +143,49 @@ export function TicketViews() {
         .eq('assigned_agent_id', profile?.id || '')
         .eq('status', 'closed');
 
+      // Get breaching soon count (SLA due within the warning window or already breached)
+      const { count: breachingSoonCount } = await supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .in('status', ['open', 'pending'])
+        .is('snoozed_until', null)
+        .eq('snooze_until_reply', false)
+        .eq('is_auto_reply', false)
+        .eq('is_spam', false)
+        .not('sla_due_at', 'is', null)
+        .lte('sla_due_at', getSlaWarningCutoff().toISOString());
+
       // Get auto-replies count (open/pending auto-replies)
       const { count: autoRepliesCount } = await supabase
         .from('tickets')
         .select('id', { count: 'exact', head: true })
         .eq('is_auto_reply', true)
+        .eq('is_spam', false)
+        .in('status', ['open', 'pending']);
+
+      // Get spam count (open/pending spam awaiting review)
+      const { count: spamCount } = await supabase
+        .from('tickets')
+        .select('id', { count: 'exact', head: true })
+        .eq('is_spam', true)
         .in('status', ['open', 'pending']);
 
-      // Get all tickets count (open/pending, exclude auto-replies)
+      // Get all tickets count (open/pending, exclude auto-replies and spam)
       const { count: allCount } = await supabase
         .from('tickets')
         .select('id', { count: 'exact', head: true })
         .in('status', ['open', 'pending'])
-        .eq('is_auto_reply', false);
+        .eq('is_auto_reply', false)
+        .eq('is_spam', false);
 
       setCounts({
         unassigned: unassignedCount || 0,
         myInbox: myInboxCount || 0,
         mySnoozed: mySnoozedCount || 0,
         myClosed: myClosedCount || 0,
+        breachingSoon: breachingSoonCount || 0,
         autoReplies: autoRepliesCount || 0,
+        spam: spamCount || 0,
         all: allCount || 0,
       });
 
@@ -249,6 +278,14 @@ export function TicketViews() {
       view: 'my-closed',
       badgeVariant: 'green' as const,
     },
+    {
+      name: 'Breaching Soon',
+      href: '/tickets?view=breaching-soon',
+      icon: Timer,
+      count: counts.breachingSoon,
+      view: 'breaching-soon',
+      badgeVariant: 'orange' as const,
+    },
     {
       name: 'Auto-Replies',
       href: '/tickets?view=auto-replies',
@@ -257,6 +294,14 @@ export function TicketViews() {
       view: 'auto-replies',
       badgeVariant: 'muted' as const,
     },
+    {
+      name: 'Spam',
+      href: '/tickets?view=spam',
+      icon: ShieldAlert,
+      count: counts.spam,
+      view: 'spam',
+      badgeVariant: 'muted' as const,
+    },
     {
       name: 'All Tickets',
       href: '/tickets?view=all',
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { csatPercent } from '@/lib/csat';
+
+interface CsatRow {
+  id: string;
+  name: string | null;
+  responses: number;
+  satisfied: number;
+  avg_score: number | null;
+}
+
+interface CsatBreakdownProps {
+  title: string;
+  data: CsatRow[];
+}
+
+export function CsatBreakdown({ title, data }: CsatBreakdownProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {data.length === 0 ? (
+          <div className="flex h-32 items-center justify-center text-zinc-500">
+            No survey responses yet
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {data.map((row) => {
+              const percent = csatPercent(row.satisfied, row.responses);
+
+              return (
+                <div key={row.id} className="flex items-center gap-4 px-6 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{row.name || 'Unknown'}</p>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {row.responses} {row.responses === 1 ? 'response' : 'responses'} · avg{' '}
+                      {row.avg_score !== null ? Number(row.avg_score).toFixed(1) : 'N/A'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-lg font-semibold">{percent !== null ? `${percent}%` : 'N/A'}</p>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">satisfied</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
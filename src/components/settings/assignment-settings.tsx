@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Avatar } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { updateTeamAssignment } from '@/lib/actions/teams';
+import { updateAvailability, updateUserCapacity } from '@/lib/actions/profile';
+import { assignmentStrategyLabels, availabilityLabels } from '@/lib/assignment';
+import { getInitials } from '@/lib/utils';
+import type { AssignmentStrategy, Profile, Team } from '@/lib/supabase/types';
+
+interface AssignmentSettingsProps {
+  teams: Team[];
+  agents: Profile[];
+  openCounts: Record<string, number>;
+}
+
+function AgentRow({ agent: initialAgent, openCount }: { agent: Profile; openCount: number }) {
+  const [agent, setAgent] = useState(initialAgent);
+  const [capacity, setCapacity] = useState(
+    initialAgent.max_open_tickets ? String(initialAgent.max_open_tickets) : ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleAvailability = (available: boolean) => {
+    setError(null);
+    startTransition(async () => {
+      const availability = available ? 'available' : 'away';
+      const result = await updateAvailability({ userId: agent.id, availability });
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      setAgent((prev) => ({ ...prev, availability }));
+    });
+  };
+
+  const handleCapacityBlur = () => {
+    const maxOpenTickets = capacity.trim() ? Number(capacity) : null;
+    if (maxOpenTickets === agent.max_open_tickets) return;
+
+    setError(null);
+    startTransition(async () => {
+      const result = await updateUserCapacity({ userId: agent.id, maxOpenTickets });
+      if ('error' in result) {
+        setError(result.error ?? 'Failed to update capacity');
+        return;
+      }
+      setAgent((prev) => ({ ...prev, max_open_tickets: maxOpenTickets }));
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-4 py-3">
+      <Avatar src={agent.avatar_url} fallback={getInitials(agent.full_name || agent.email)} size="sm" />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{agent.full_name || agent.email}</p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {openCount} open
+          {agent.max_open_tickets ? ` of ${agent.max_open_tickets}` : ''}
+          {error && <span className="ml-2 text-red-600 dark:text-red-400">{error}</span>}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-zinc-500 dark:text-zinc-400">Cap</label>
+        <Input
+          type="number"
+          min={1}
+          value={capacity}
+          onChange={(e) => setCapacity(e.target.value)}
+          onBlur={handleCapacityBlur}
+          placeholder="None"
+          className="h-8 w-20"
+          disabled={isPending}
+        />
+      </div>
+      <div className="flex w-28 items-center justify-end gap-2">
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {availabilityLabels[agent.availability]}
+        </span>
+        <Switch
+          checked={agent.availability === 'available'}
+          onCheckedChange={handleAvailability}
+          disabled={isPending}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function AssignmentSettings({ teams: initialTeams, agents, openCounts }: AssignmentSettingsProps) {
+  const [teams, setTeams] = useState(initialTeams);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const saveTeam = (team: Team, changes: Partial<Pick<Team, 'auto_assign' | 'assignment_strategy' | 'is_default'>>) => {
+    const next = { ...team, ...changes };
+    setError(null);
+    startTransition(async () => {
+      const result = await updateTeamAssignment({
+        teamId: team.id,
+        autoAssign: next.auto_assign,
+        strategy: next.assignment_strategy,
+        isDefault: next.is_default,
+      });
+      if ('error' in result) {
+        setError(result.error ?? 'Failed to update team');
+        return;
+      }
+      setTeams((prev) =>
+        prev.map((t) =>
+          t.id === team.id ? next : next.is_default ? { ...t, is_default: false } : t
+        )
+      );
+    });
+  };
+
+  const unassignedAgents = agents.filter((a) => !a.team_id || !teams.some((t) => t.id === a.team_id));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Auto-Assignment</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          New tickets that no rule assigned go to an available agent in the ticket&apos;s team, or in
+          the default team when the ticket has none. Agents who are away or at their cap are skipped,
+          and going away hands their open and pending tickets back to the pool.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {teams.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No teams configured.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {teams.map((team) => {
+            const members = agents.filter((a) => a.team_id === team.id);
+
+            return (
+              <Card key={team.id} className={!team.auto_assign ? 'opacity-75' : ''}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-base">{team.name}</CardTitle>
+                      {team.is_default && (
+                        <Badge variant="secondary" className="text-xs">
+                          Default
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Select
+                        value={team.assignment_strategy}
+                        onValueChange={(value) =>
+                          saveTeam(team, { assignment_strategy: value as AssignmentStrategy })
+                        }
+                        disabled={isPending}
+                      >
+                        <SelectTrigger className="h-8 w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(assignmentStrategyLabels) as AssignmentStrategy[]).map(
+                            (strategy) => (
+                              <SelectItem key={strategy} value={strategy}>
+                                {assignmentStrategyLabels[strategy]}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={team.is_default}
+                          onChange={(e) => saveTeam(team, { is_default: e.target.checked })}
+                          disabled={isPending}
+                          className="h-4 w-4 rounded border-zinc-300"
+                        />
+                        Default
+                      </label>
+                      <Switch
+                        checked={team.auto_assign}
+                        onCheckedChange={(checked) => saveTeam(team, { auto_assign: checked })}
+                        disabled={isPending}
+                      />
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {members.length === 0 ? (
+                    <p className="py-2 text-sm text-zinc-500 dark:text-zinc-400">
+                      No active agents in this team. Add members under Users.
+                    </p>
+                  ) : (
+                    <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                      {members.map((agent) => (
+                        <AgentRow key={agent.id} agent={agent} openCount={openCounts[agent.id] || 0} />
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {unassignedAgents.length > 0 && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          {unassignedAgents.length} active {unassignedAgents.length === 1 ? 'agent is' : 'agents are'}{' '}
+          not in a team and won&apos;t receive auto-assigned tickets.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,720 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { WEEKDAYS } from '@/lib/business-hours';
+import type { AutomationRuleInput } from '@/lib/actions/automation-rules';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationEvent,
+  AutomationRule,
+  Brand,
+  CannedResponse,
+  CustomerSegmentSummary,
+  Profile,
+  Tag,
+  Team,
+  TicketChannel,
+  TicketPriority,
+  TicketStatus,
+} from '@/lib/supabase/types';
+
+export interface AutomationRuleOptions {
+  tags: Tag[];
+  agents: Pick<Profile, 'id' | 'full_name' | 'email'>[];
+  teams: Team[];
+  brands: Brand[];
+  segments: CustomerSegmentSummary[];
+  cannedResponses: Pick<CannedResponse, 'id' | 'title'>[];
+}
+
+export const eventLabels: Record<AutomationEvent, string> = {
+  ticket_created: 'Ticket created',
+  customer_replied: 'Customer replied',
+  agent_replied: 'Agent replied',
+};
+
+export const conditionLabels: Record<AutomationCondition['type'], string> = {
+  keywords: 'Keywords',
+  regex: 'Regex',
+  brand: 'Brand',
+  channel: 'Channel',
+  customer_email_domain: 'Customer email domain',
+  customer_order_count: 'Customer order count',
+  customer_lifetime_value: 'Customer lifetime value',
+  customer_segment: 'Customer segment',
+  time_of_day: 'Time of day',
+  priority: 'Priority',
+  status: 'Status',
+};
+
+export const actionLabels: Record<AutomationAction['type'], string> = {
+  assign_agent: 'Assign to agent',
+  assign_team: 'Assign to team',
+  add_tag: 'Add tag',
+  remove_tag: 'Remove tag',
+  set_priority: 'Set priority',
+  set_status: 'Set status',
+  send_canned_response: 'Send canned response',
+  add_internal_note: 'Add internal note',
+};
+
+const textFieldLabels = {
+  subject: 'Subject',
+  body: 'Message body',
+  subject_or_body: 'Subject or body',
+  customer_email: 'Customer email',
+};
+
+const channels: TicketChannel[] = ['email', 'facebook', 'instagram', 'manual'];
+const priorities: TicketPriority[] = ['urgent', 'high', 'medium', 'low'];
+const statuses: TicketStatus[] = ['open', 'pending', 'closed'];
+
+function defaultCondition(type: AutomationCondition['type']): AutomationCondition {
+  switch (type) {
+    case 'keywords':
+      return { type, field: 'subject_or_body', keywords: [], match: 'any' };
+    case 'regex':
+      return { type, field: 'subject_or_body', pattern: '' };
+    case 'brand':
+      return { type, brand_ids: [] };
+    case 'channel':
+      return { type, channels: [] };
+    case 'customer_email_domain':
+      return { type, domains: [] };
+    case 'customer_order_count':
+    case 'customer_lifetime_value':
+      return { type, operator: 'at_least', value: 0 };
+    case 'customer_segment':
+      return { type, segment_ids: [] };
+    case 'time_of_day':
+      return {
+        type,
+        start: '09:00',
+        end: '17:00',
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        weekdays: [],
+      };
+    case 'priority':
+      return { type, priorities: [] };
+    case 'status':
+      return { type, statuses: [] };
+  }
+}
+
+function defaultAction(type: AutomationAction['type']): AutomationAction {
+  switch (type) {
+    case 'assign_agent':
+      return { type, agent_id: '' };
+    case 'assign_team':
+      return { type, team_id: '' };
+    case 'add_tag':
+    case 'remove_tag':
+      return { type, tag_id: '' };
+    case 'set_priority':
+      return { type, priority: 'high' };
+    case 'set_status':
+      return { type, status: 'pending' };
+    case 'send_canned_response':
+      return { type, canned_response_id: '' };
+    case 'add_internal_note':
+      return { type, content: '' };
+  }
+}
+
+// Entries are trimmed when the rule is saved, so spaces inside keywords survive typing
+function splitList(value: string): string[] {
+  return value.split(',');
+}
+
+/**
+ * Row of toggleable chips for multi-select values
+ */
+function ChipToggle<T extends string>({
+  options,
+  selected,
+  onChange,
+  labels,
+}: {
+  options: T[];
+  selected: T[];
+  onChange: (value: T[]) => void;
+  labels?: Record<string, string>;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map((option) => {
+        const isSelected = selected.includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            onClick={() =>
+              onChange(isSelected ? selected.filter((s) => s !== option) : [...selected, option])
+            }
+            className={cn(
+              'rounded-full border px-2.5 py-0.5 text-xs font-medium capitalize transition-colors',
+              isSelected
+                ? 'border-zinc-900 bg-zinc-900 text-white dark:border-zinc-100 dark:bg-zinc-100 dark:text-zinc-900'
+                : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800'
+            )}
+          >
+            {labels?.[option] || option}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ConditionFields({
+  condition,
+  onChange,
+  options,
+}: {
+  condition: AutomationCondition;
+  onChange: (condition: AutomationCondition) => void;
+  options: AutomationRuleOptions;
+}) {
+  switch (condition.type) {
+    case 'keywords':
+      return (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Select
+              value={condition.field}
+              onValueChange={(v) => onChange({ ...condition, field: v as typeof condition.field })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="subject_or_body">Subject or body</SelectItem>
+                <SelectItem value="subject">Subject</SelectItem>
+                <SelectItem value="body">Message body</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.match}
+              onValueChange={(v) => onChange({ ...condition, match: v as 'any' | 'all' })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">contains any of</SelectItem>
+                <SelectItem value="all">contains all of</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            value={condition.keywords.join(',')}
+            onChange={(e) => onChange({ ...condition, keywords: splitList(e.target.value) })}
+            placeholder="refund, broken, damaged"
+          />
+        </div>
+      );
+    case 'regex':
+      return (
+        <div className="flex gap-2">
+          <Select
+            value={condition.field}
+            onValueChange={(v) => onChange({ ...condition, field: v as typeof condition.field })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(textFieldLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={condition.pattern}
+            onChange={(e) => onChange({ ...condition, pattern: e.target.value })}
+            placeholder="order\s*#?\d{4,}"
+            className="font-mono"
+          />
+        </div>
+      );
+    case 'brand':
+      return (
+        <ChipToggle
+          options={options.brands.map((b) => b.id)}
+          selected={condition.brand_ids}
+          onChange={(brand_ids) => onChange({ ...condition, brand_ids })}
+          labels={Object.fromEntries(options.brands.map((b) => [b.id, b.name]))}
+        />
+      );
+    case 'channel':
+      return (
+        <ChipToggle
+          options={channels}
+          selected={condition.channels}
+          onChange={(value) => onChange({ ...condition, channels: value })}
+        />
+      );
+    case 'customer_email_domain':
+      return (
+        <Input
+          value={condition.domains.join(',')}
+          onChange={(e) => onChange({ ...condition, domains: splitList(e.target.value) })}
+          placeholder="example.com, partner.org"
+        />
+      );
+    case 'customer_order_count':
+    case 'customer_lifetime_value':
+      return (
+        <div className="flex gap-2">
+          <Select
+            value={condition.operator}
+            onValueChange={(v) =>
+              onChange({ ...condition, operator: v as 'at_least' | 'at_most' })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="at_least">at least</SelectItem>
+              <SelectItem value="at_most">at most</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+            className="w-32"
+          />
+          {condition.type === 'customer_lifetime_value' && (
+            <span className="self-center text-sm text-zinc-500">USD</span>
+          )}
+        </div>
+      );
+    case 'customer_segment':
+      return options.segments.length > 0 ? (
+        <ChipToggle
+          options={options.segments.map((segment) => segment.id)}
+          selected={condition.segment_ids}
+          onChange={(segment_ids) => onChange({ ...condition, segment_ids })}
+          labels={Object.fromEntries(options.segments.map((segment) => [segment.id, segment.name]))}
+        />
+      ) : (
+        <p className="text-sm text-zinc-500">No customer segments yet. Create them under Settings → Segments.</p>
+      );
+    case 'time_of_day':
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={condition.start}
+              onChange={(e) => onChange({ ...condition, start: e.target.value })}
+              className="w-28"
+            />
+            <span className="text-sm text-zinc-500">to</span>
+            <Input
+              type="time"
+              value={condition.end}
+              onChange={(e) => onChange({ ...condition, end: e.target.value })}
+              className="w-28"
+            />
+            <Input
+              value={condition.timezone}
+              onChange={(e) => onChange({ ...condition, timezone: e.target.value })}
+              placeholder="America/New_York"
+            />
+          </div>
+          <ChipToggle
+            options={WEEKDAYS}
+            selected={condition.weekdays}
+            onChange={(weekdays) => onChange({ ...condition, weekdays })}
+          />
+          <p className="text-xs text-zinc-500">No days selected means every day.</p>
+        </div>
+      );
+    case 'priority':
+      return (
+        <ChipToggle
+          options={priorities}
+          selected={condition.priorities}
+          onChange={(value) => onChange({ ...condition, priorities: value })}
+        />
+      );
+    case 'status':
+      return (
+        <ChipToggle
+          options={statuses}
+          selected={condition.statuses}
+          onChange={(value) => onChange({ ...condition, statuses: value })}
+        />
+      );
+  }
+}
+
+function OptionSelect({
+  value,
+  onChange,
+  placeholder,
+  items,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  items: { value: string; label: string }[];
+}) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {items.map((item) => (
+          <SelectItem key={item.value} value={item.value}>
+            {item.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ActionFields({
+  action,
+  onChange,
+  options,
+}: {
+  action: AutomationAction;
+  onChange: (action: AutomationAction) => void;
+  options: AutomationRuleOptions;
+}) {
+  switch (action.type) {
+    case 'assign_agent':
+      return (
+        <OptionSelect
+          value={action.agent_id}
+          onChange={(agent_id) => onChange({ ...action, agent_id })}
+          placeholder="Select agent"
+          items={options.agents.map((a) => ({ value: a.id, label: a.full_name || a.email }))}
+        />
+      );
+    case 'assign_team':
+      return (
+        <OptionSelect
+          value={action.team_id}
+          onChange={(team_id) => onChange({ ...action, team_id })}
+          placeholder="Select team"
+          items={options.teams.map((t) => ({ value: t.id, label: t.name }))}
+        />
+      );
+    case 'add_tag':
+    case 'remove_tag':
+      return (
+        <OptionSelect
+          value={action.tag_id}
+          onChange={(tag_id) => onChange({ ...action, tag_id })}
+          placeholder="Select tag"
+          items={options.tags.map((t) => ({ value: t.id, label: t.name }))}
+        />
+      );
+    case 'set_priority':
+      return (
+        <OptionSelect
+          value={action.priority}
+          onChange={(priority) => onChange({ ...action, priority: priority as TicketPriority })}
+          placeholder="Select priority"
+          items={priorities.map((p) => ({ value: p, label: p.charAt(0).toUpperCase() + p.slice(1) }))}
+        />
+      );
+    case 'set_status':
+      return (
+        <OptionSelect
+          value={action.status}
+          onChange={(status) => onChange({ ...action, status: status as TicketStatus })}
+          placeholder="Select status"
+          items={statuses.map((s) => ({ value: s, label: s.charAt(0).toUpperCase() + s.slice(1) }))}
+        />
+      );
+    case 'send_canned_response':
+      return (
+        <OptionSelect
+          value={action.canned_response_id}
+          onChange={(canned_response_id) => onChange({ ...action, canned_response_id })}
+          placeholder="Select canned response"
+          items={options.cannedResponses.map((c) => ({ value: c.id, label: c.title }))}
+        />
+      );
+    case 'add_internal_note':
+      return (
+        <Textarea
+          value={action.content}
+          onChange={(e) => onChange({ ...action, content: e.target.value })}
+          placeholder="Note for agents..."
+          className="min-h-[60px]"
+        />
+      );
+  }
+}
+
+interface AutomationRuleEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule: AutomationRule | null;
+  options: AutomationRuleOptions;
+  onSave: (input: AutomationRuleInput) => void;
+  isPending: boolean;
+  error: string | null;
+}
+
+export function AutomationRuleEditor({
+  open,
+  onOpenChange,
+  rule,
+  options,
+  onSave,
+  isPending,
+  error,
+}: AutomationRuleEditorProps) {
+  const [name, setName] = useState(rule?.name || '');
+  const [description, setDescription] = useState(rule?.description || '');
+  const [events, setEvents] = useState<AutomationEvent[]>(rule?.events || ['ticket_created']);
+  const [matchType, setMatchType] = useState<'all' | 'any'>(rule?.match_type || 'all');
+  const [conditions, setConditions] = useState<AutomationCondition[]>(rule?.conditions || []);
+  const [actions, setActions] = useState<AutomationAction[]>(rule?.actions || []);
+  const [stopProcessing, setStopProcessing] = useState(rule?.stop_processing || false);
+
+  const updateCondition = (index: number, condition: AutomationCondition) => {
+    setConditions((prev) => prev.map((c, i) => (i === index ? condition : c)));
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setActions((prev) => prev.map((a, i) => (i === index ? action : a)));
+  };
+
+  const handleSubmit = () => {
+    onSave({
+      name,
+      description: description || null,
+      events,
+      match_type: matchType,
+      conditions,
+      actions,
+      stop_processing: stopProcessing,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Automation' : 'Create Automation'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium">Rule Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., VIP customers to senior team"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Description</label>
+              <Input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">Run When</label>
+            <div className="mt-2">
+              <ChipToggle
+                options={Object.keys(eventLabels) as AutomationEvent[]}
+                selected={events}
+                onChange={setEvents}
+                labels={eventLabels}
+              />
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Conditions</label>
+              <Select value={matchType} onValueChange={(v) => setMatchType(v as 'all' | 'any')}>
+                <SelectTrigger className="h-8 w-44 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Match all conditions</SelectItem>
+                  <SelectItem value="any">Match any condition</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {conditions.length === 0 && (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                No conditions - the rule runs on every matching trigger.
+              </p>
+            )}
+            {conditions.map((condition, index) => (
+              <div
+                key={index}
+                className="space-y-2 rounded-md border border-zinc-200 p-3 dark:border-zinc-800"
+              >
+                <div className="flex items-center justify-between">
+                  <Select
+                    value={condition.type}
+                    onValueChange={(v) =>
+                      updateCondition(index, defaultCondition(v as AutomationCondition['type']))
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(conditionLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <ConditionFields
+                  condition={condition}
+                  onChange={(c) => updateCondition(index, c)}
+                  options={options}
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setConditions([...conditions, defaultCondition('keywords')])}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add Condition
+            </Button>
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Actions</label>
+            {actions.map((action, index) => (
+              <div
+                key={index}
+                className="flex items-start gap-2 rounded-md border border-zinc-200 p-3 dark:border-zinc-800"
+              >
+                <Select
+                  value={action.type}
+                  onValueChange={(v) =>
+                    updateAction(index, defaultAction(v as AutomationAction['type']))
+                  }
+                >
+                  <SelectTrigger className="w-52 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(actionLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1">
+                  <ActionFields
+                    action={action}
+                    onChange={(a) => updateAction(index, a)}
+                    options={options}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setActions(actions.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setActions([...actions, defaultAction('add_tag')])}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add Action
+            </Button>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={stopProcessing}
+              onChange={(e) => setStopProcessing(e.target.checked)}
+              className="rounded border-zinc-300"
+            />
+            <span className="text-sm">Stop running later rules when this rule matches</span>
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending}>
+            {isPending ? 'Saving...' : rule ? 'Update Rule' : 'Create Rule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
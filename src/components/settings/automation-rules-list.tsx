@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Plus, Pencil, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  createAutomationRule,
+  updateAutomationRule,
+  deleteAutomationRule,
+  toggleAutomationRule,
+  reorderAutomationRules,
+  type AutomationRuleInput,
+} from '@/lib/actions/automation-rules';
+import {
+  AutomationRuleEditor,
+  actionLabels,
+  conditionLabels,
+  eventLabels,
+  type AutomationRuleOptions,
+} from './automation-rule-editor';
+import type { AutomationAction, AutomationCondition, AutomationRule } from '@/lib/supabase/types';
+
+interface AutomationRulesListProps extends AutomationRuleOptions {
+  rules: AutomationRule[];
+}
+
+function describeCondition(condition: AutomationCondition, options: AutomationRuleOptions): string {
+  const label = conditionLabels[condition.type];
+  switch (condition.type) {
+    case 'keywords':
+      return `${label} (${condition.match}): ${condition.keywords.join(', ')}`;
+    case 'regex':
+      return `${label}: /${condition.pattern}/`;
+    case 'brand':
+      return `${label}: ${condition.brand_ids
+        .map((id) => options.brands.find((b) => b.id === id)?.name || 'Unknown')
+        .join(', ')}`;
+    case 'channel':
+      return `${label}: ${condition.channels.join(', ')}`;
+    case 'customer_email_domain':
+      return `${label}: ${condition.domains.join(', ')}`;
+    case 'customer_order_count':
+    case 'customer_lifetime_value':
+      return `${label} ${condition.operator === 'at_least' ? '≥' : '≤'} ${condition.value}`;
+    case 'customer_segment':
+      return `${label}: ${condition.segment_ids
+        .map((id) => options.segments.find((segment) => segment.id === id)?.name || 'Unknown')
+        .join(', ')}`;
+    case 'time_of_day':
+      return `${label}: ${condition.start}–${condition.end} ${condition.timezone}`;
+    case 'priority':
+      return `${label}: ${condition.priorities.join(', ')}`;
+    case 'status':
+      return `${label}: ${condition.statuses.join(', ')}`;
+  }
+}
+
+function describeAction(action: AutomationAction, options: AutomationRuleOptions): string {
+  const label = actionLabels[action.type];
+  switch (action.type) {
+    case 'assign_agent': {
+      const agent = options.agents.find((a) => a.id === action.agent_id);
+      return `${label}: ${agent?.full_name || agent?.email || 'Unknown'}`;
+    }
+    case 'assign_team':
+      return `${label}: ${options.teams.find((t) => t.id === action.team_id)?.name || 'Unknown'}`;
+    case 'add_tag':
+    case 'remove_tag':
+      return `${label}: ${options.tags.find((t) => t.id === action.tag_id)?.name || 'Unknown'}`;
+    case 'set_priority':
+      return `${label}: ${action.priority}`;
+    case 'set_status':
+      return `${label}: ${action.status}`;
+    case 'send_canned_response':
+      return `${label}: ${
+        options.cannedResponses.find((c) => c.id === action.canned_response_id)?.title || 'Unknown'
+      }`;
+    case 'add_internal_note':
+      return label;
+  }
+}
+
+export function AutomationRulesList({ rules: initialRules, ...options }: AutomationRulesListProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: AutomationRule) => {
+    setEditingRule(rule);
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = (input: AutomationRuleInput) => {
+    startTransition(async () => {
+      const result = editingRule
+        ? await updateAutomationRule(editingRule.id, input)
+        : await createAutomationRule(input);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setRules((prev) =>
+        editingRule
+          ? prev.map((r) => (r.id === editingRule.id ? result.rule : r))
+          : [...prev, result.rule]
+      );
+      setIsDialogOpen(false);
+      setEditingRule(null);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Are you sure you want to delete this rule?')) return;
+
+    startTransition(async () => {
+      const result = await deleteAutomationRule(id);
+      if (!('error' in result)) {
+        setRules((prev) => prev.filter((r) => r.id !== id));
+      }
+    });
+  };
+
+  const handleToggle = (id: string, isActive: boolean) => {
+    startTransition(async () => {
+      const result = await toggleAutomationRule(id, isActive);
+      if (!('error' in result)) {
+        setRules((prev) => prev.map((r) => (r.id === id ? { ...r, is_active: isActive } : r)));
+      }
+    });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const previous = rules;
+    setRules(reordered);
+
+    startTransition(async () => {
+      const result = await reorderAutomationRules(reordered.map((r) => r.id));
+      if ('error' in result) {
+        setRules(previous);
+      }
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Automations</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Rules run top to bottom when a ticket is created or replied to, after the keyword tag
+            and priority rules. Every rule that changes a ticket shows up in its activity log.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No automation rules configured.</p>
+            <Button variant="outline" className="mt-4" onClick={openCreateDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create your first rule
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule, index) => (
+            <Card key={rule.id} className={!rule.is_active ? 'opacity-60' : ''}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs font-mono text-zinc-400">{index + 1}</span>
+                    <CardTitle className="text-base">{rule.name}</CardTitle>
+                    {rule.stop_processing && (
+                      <Badge variant="outline" className="text-xs">
+                        Stops processing
+                      </Badge>
+                    )}
+                    {!rule.is_active && (
+                      <Badge variant="secondary" className="text-xs">
+                        Disabled
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isPending || index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isPending || index === rules.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => handleToggle(rule.id, checked)}
+                      disabled={isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditDialog(rule)}
+                      disabled={isPending}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                      disabled={isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+                {rule.description && (
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">{rule.description}</p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-xs text-zinc-500">When</span>
+                  {rule.events.map((event) => (
+                    <Badge key={event} variant="secondary" className="text-xs">
+                      {eventLabels[event]}
+                    </Badge>
+                  ))}
+                </div>
+                {rule.conditions.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <span className="text-xs text-zinc-500">
+                      If {rule.match_type === 'all' ? 'all' : 'any'}
+                    </span>
+                    {rule.conditions.map((condition, i) => (
+                      <Badge key={i} variant="outline" className="text-xs font-normal">
+                        {describeCondition(condition, options)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-xs text-zinc-500">Then</span>
+                  {rule.actions.map((action, i) => (
+                    <Badge key={i} variant="outline" className="text-xs font-normal">
+                      {describeAction(action, options)}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {isDialogOpen && (
+        <AutomationRuleEditor
+          key={editingRule?.id || 'new'}
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          rule={editingRule}
+          options={options}
+          onSave={handleSave}
+          isPending={isPending}
+          error={error}
+        />
+      )}
+    </div>
+  );
+}
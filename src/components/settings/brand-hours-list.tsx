@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { updateBrandHoursSettings } from '@/lib/actions/brands';
+import type { Brand, BusinessCalendar } from '@/lib/supabase/types';
+
+const NONE = 'none';
+
+interface BrandHoursListProps {
+  brands: Brand[];
+  calendars: BusinessCalendar[];
+  defaultMessage: string;
+}
+
+function BrandHoursSettings({
+  brand: initialBrand,
+  calendars,
+  defaultMessage,
+}: {
+  brand: Brand;
+  calendars: BusinessCalendar[];
+  defaultMessage: string;
+}) {
+  const [brand, setBrand] = useState(initialBrand);
+  const [message, setMessage] = useState(initialBrand.out_of_hours_reply_message || '');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const isDirty = message.trim() !== (brand.out_of_hours_reply_message || '');
+
+  const save = (changes: Partial<Pick<Brand, 'calendar_id' | 'out_of_hours_reply_enabled'>>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await updateBrandHoursSettings(brand.id, {
+        calendar_id: brand.calendar_id,
+        out_of_hours_reply_enabled: brand.out_of_hours_reply_enabled,
+        out_of_hours_reply_message: message,
+        ...changes,
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setBrand(result.brand);
+      setMessage(result.brand.out_of_hours_reply_message || '');
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: brand.color }} />
+          {brand.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm font-medium">Business hours</label>
+          <Select
+            value={brand.calendar_id || NONE}
+            onValueChange={(value) =>
+              save({
+                calendar_id: value === NONE ? null : value,
+                // Without hours the brand is never closed, so there is nothing to reply to
+                ...(value === NONE && { out_of_hours_reply_enabled: false }),
+              })
+            }
+            disabled={isPending}
+          >
+            <SelectTrigger className="sm:w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Always open (24/7)</SelectItem>
+              {calendars.map((calendar) => (
+                <SelectItem key={calendar.id} value={calendar.id}>
+                  {calendar.name} ({calendar.timezone})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium">Out-of-hours auto-reply</p>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Reply to customer emails that arrive while {brand.name} is closed
+            </p>
+          </div>
+          <Switch
+            checked={brand.out_of_hours_reply_enabled}
+            onCheckedChange={(checked) => save({ out_of_hours_reply_enabled: checked })}
+            disabled={isPending || !brand.calendar_id}
+          />
+        </div>
+
+        {brand.out_of_hours_reply_enabled && (
+          <div>
+            <label className="mb-1 block text-sm font-medium">Reply message</label>
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={defaultMessage}
+              rows={4}
+            />
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Use {'{{brand_name}}'} and {'{{next_open}}'} for the brand and when it next opens.
+              Leave empty to use the default.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {isDirty && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => save({})} disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function BrandHoursList({ brands, calendars, defaultMessage }: BrandHoursListProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Business Hours</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Pick each brand&apos;s opening hours, holidays and timezone, and optionally tell
+          customers when to expect a reply if they write while you&apos;re closed. Calendars are
+          managed on the{' '}
+          <Link href="/settings/sla" className="underline hover:no-underline">
+            SLA Policies
+          </Link>{' '}
+          page.
+        </p>
+      </div>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No brands configured.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {brands.map((brand) => (
+            <BrandHoursSettings
+              key={brand.id}
+              brand={brand}
+              calendars={calendars}
+              defaultMessage={defaultMessage}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
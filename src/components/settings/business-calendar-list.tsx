@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Plus, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  createBusinessCalendar,
+  updateBusinessCalendar,
+  deleteBusinessCalendar,
+} from '@/lib/actions/sla-policies';
+import { WEEKDAYS } from '@/lib/business-hours';
+import type { BusinessCalendar, BusinessHoursInterval, Weekday } from '@/lib/supabase/types';
+
+interface BusinessCalendarListProps {
+  calendars: BusinessCalendar[];
+}
+
+const weekdayLabels: Record<Weekday, string> = {
+  sun: 'Sunday',
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+};
+
+interface DayHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+const DEFAULT_DAY: DayHours = { enabled: false, start: '09:00', end: '17:00' };
+
+function defaultWeek(): Record<Weekday, DayHours> {
+  return Object.fromEntries(
+    WEEKDAYS.map((day) => [day, { ...DEFAULT_DAY, enabled: day !== 'sun' && day !== 'sat' }])
+  ) as Record<Weekday, DayHours>;
+}
+
+function weekFromCalendar(calendar: BusinessCalendar): Record<Weekday, DayHours> {
+  return Object.fromEntries(
+    WEEKDAYS.map((day) => {
+      const interval = calendar.weekly_hours[day]?.[0];
+      return [day, interval ? { enabled: true, ...interval } : { ...DEFAULT_DAY }];
+    })
+  ) as Record<Weekday, DayHours>;
+}
+
+function formatWeek(calendar: BusinessCalendar): string[] {
+  return WEEKDAYS.filter((day) => calendar.weekly_hours[day]?.length).map((day) => {
+    const intervals = calendar.weekly_hours[day] || [];
+    return `${weekdayLabels[day].slice(0, 3)} ${intervals.map((i) => `${i.start}–${i.end}`).join(', ')}`;
+  });
+}
+
+export function BusinessCalendarList({ calendars: initialCalendars }: BusinessCalendarListProps) {
+  const [calendars, setCalendars] = useState(initialCalendars);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCalendar, setEditingCalendar] = useState<BusinessCalendar | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [timezone, setTimezone] = useState('America/New_York');
+  const [week, setWeek] = useState<Record<Weekday, DayHours>>(defaultWeek);
+  const [holidays, setHolidays] = useState<string[]>([]);
+  const [newHoliday, setNewHoliday] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setTimezone('America/New_York');
+    setWeek(defaultWeek());
+    setHolidays([]);
+    setNewHoliday('');
+    setError(null);
+    setEditingCalendar(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (calendar: BusinessCalendar) => {
+    setEditingCalendar(calendar);
+    setName(calendar.name);
+    setTimezone(calendar.timezone);
+    setWeek(weekFromCalendar(calendar));
+    setHolidays(calendar.holidays);
+    setNewHoliday('');
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const updateDay = (day: Weekday, changes: Partial<DayHours>) => {
+    setWeek((prev) => ({ ...prev, [day]: { ...prev[day], ...changes } }));
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday || holidays.includes(newHoliday)) return;
+    setHolidays([...holidays, newHoliday].sort());
+    setNewHoliday('');
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      setError('Calendar name is required');
+      return;
+    }
+
+    const weeklyHours: Partial<Record<Weekday, BusinessHoursInterval[]>> = {};
+    for (const day of WEEKDAYS) {
+      if (week[day].enabled) {
+        weeklyHours[day] = [{ start: week[day].start, end: week[day].end }];
+      }
+    }
+
+    const input = { name, timezone, weekly_hours: weeklyHours, holidays };
+
+    startTransition(async () => {
+      const result = editingCalendar
+        ? await updateBusinessCalendar(editingCalendar.id, input)
+        : await createBusinessCalendar(input);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setCalendars((prev) =>
+        editingCalendar
+          ? prev.map((c) => (c.id === editingCalendar.id ? result.calendar : c))
+          : [...prev, result.calendar]
+      );
+      setIsDialogOpen(false);
+      resetForm();
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Policies and brands using this calendar will fall back to 24/7. Delete it?')) return;
+
+    startTransition(async () => {
+      const result = await deleteBusinessCalendar(id);
+      if (!('error' in result)) {
+        setCalendars((prev) => prev.filter((c) => c.id !== id));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Business Hours</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            SLA clocks only run during these hours. Holidays pause the clock for the whole day.
+          </p>
+        </div>
+        <Button variant="outline" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Calendar
+        </Button>
+      </div>
+
+      {calendars.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            No business calendars. Policies without a calendar count wall-clock time.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {calendars.map((calendar) => (
+            <Card key={calendar.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <CardTitle className="text-base">{calendar.name}</CardTitle>
+                    <Badge variant="secondary" className="text-xs">
+                      {calendar.timezone}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditDialog(calendar)}
+                      disabled={isPending}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(calendar.id)}
+                      disabled={isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-1.5">
+                  {formatWeek(calendar).map((line) => (
+                    <Badge key={line} variant="secondary" className="font-mono text-xs">
+                      {line}
+                    </Badge>
+                  ))}
+                </div>
+                {calendar.holidays.length > 0 && (
+                  <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    Holidays: {calendar.holidays.join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCalendar ? 'Edit Calendar' : 'Create Business Calendar'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Name</label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., US Support Hours"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Timezone</label>
+                <Input
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="America/New_York"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Opening Hours</label>
+              <div className="mt-2 space-y-2">
+                {WEEKDAYS.map((day) => (
+                  <div key={day} className="flex items-center gap-2">
+                    <label className="flex w-32 items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={week[day].enabled}
+                        onChange={(e) => updateDay(day, { enabled: e.target.checked })}
+                        className="rounded border-zinc-300"
+                      />
+                      <span className="text-sm">{weekdayLabels[day]}</span>
+                    </label>
+                    <Input
+                      type="time"
+                      value={week[day].start}
+                      onChange={(e) => updateDay(day, { start: e.target.value })}
+                      disabled={!week[day].enabled}
+                      className="w-28"
+                    />
+                    <span className="text-sm text-zinc-500">to</span>
+                    <Input
+                      type="time"
+                      value={week[day].end}
+                      onChange={(e) => updateDay(day, { end: e.target.value })}
+                      disabled={!week[day].enabled}
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Holidays</label>
+              <div className="mt-2 flex gap-2">
+                <Input
+                  type="date"
+                  value={newHoliday}
+                  onChange={(e) => setNewHoliday(e.target.value)}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={handleAddHoliday}>
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add
+                </Button>
+              </div>
+              {holidays.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {holidays.map((date) => (
+                    <Badge key={date} variant="secondary" className="gap-1 font-mono text-xs">
+                      {date}
+                      <button
+                        type="button"
+                        onClick={() => setHolidays(holidays.filter((h) => h !== date))}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending}>
+              {isPending ? 'Saving...' : editingCalendar ? 'Update Calendar' : 'Create Calendar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
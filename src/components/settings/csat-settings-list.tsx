@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { updateBrandCsatSettings } from '@/lib/actions/csat';
+import type { Brand } from '@/lib/supabase/types';
+
+interface CsatSettingsListProps {
+  brands: Brand[];
+}
+
+function BrandCsatSettings({ brand: initialBrand }: { brand: Brand }) {
+  const [brand, setBrand] = useState(initialBrand);
+  const [delayMinutes, setDelayMinutes] = useState(String(initialBrand.csat_delay_minutes));
+  const [cooldownDays, setCooldownDays] = useState(String(initialBrand.csat_cooldown_days));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const isDirty =
+    delayMinutes !== String(brand.csat_delay_minutes) ||
+    cooldownDays !== String(brand.csat_cooldown_days);
+
+  const save = (enabled: boolean) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await updateBrandCsatSettings(brand.id, {
+        csat_enabled: enabled,
+        csat_delay_minutes: Number(delayMinutes),
+        csat_cooldown_days: Number(cooldownDays),
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setBrand(result.brand);
+    });
+  };
+
+  return (
+    <Card className={!brand.csat_enabled ? 'opacity-60' : ''}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: brand.color }} />
+            {brand.name}
+          </CardTitle>
+          <Switch
+            checked={brand.csat_enabled}
+            onCheckedChange={(checked) => save(checked)}
+            disabled={isPending}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-sm font-medium">Send after (minutes)</label>
+            <Input
+              type="number"
+              min={0}
+              value={delayMinutes}
+              onChange={(e) => setDelayMinutes(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              How long to wait after a ticket closes
+            </p>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Cooldown (days)</label>
+            <Input
+              type="number"
+              min={0}
+              value={cooldownDays}
+              onChange={(e) => setCooldownDays(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Don&apos;t survey the same customer again within this time
+            </p>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {isDirty && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => save(brand.csat_enabled)} disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CsatSettingsList({ brands }: CsatSettingsListProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Satisfaction Surveys</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Email customers a 1–5 rating link after their ticket is closed. Responses show on the
+          ticket, the customer&apos;s page and in reports.
+        </p>
+      </div>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No brands configured.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {brands.map((brand) => (
+            <BrandCsatSettings key={brand.id} brand={brand} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { updateBrandThreadingSettings } from '@/lib/actions/brands';
+import type { Brand, ClosedTicketReplyPolicy } from '@/lib/supabase/types';
+
+interface EmailThreadingSettingsListProps {
+  brands: Brand[];
+}
+
+function BrandThreadingSettings({ brand: initialBrand }: { brand: Brand }) {
+  const [brand, setBrand] = useState(initialBrand);
+  const [windowDays, setWindowDays] = useState(
+    initialBrand.reopen_window_days ? String(initialBrand.reopen_window_days) : ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const isDirty = windowDays !== (brand.reopen_window_days ? String(brand.reopen_window_days) : '');
+
+  const save = (policy: ClosedTicketReplyPolicy) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await updateBrandThreadingSettings(brand.id, {
+        closed_ticket_reply: policy,
+        reopen_window_days: windowDays.trim() ? Number(windowDays) : null,
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setBrand(result.brand);
+      setWindowDays(result.brand.reopen_window_days ? String(result.brand.reopen_window_days) : '');
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: brand.color }} />
+          {brand.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-sm font-medium">Replies to closed tickets</label>
+            <Select
+              value={brand.closed_ticket_reply}
+              onValueChange={(value) => save(value as ClosedTicketReplyPolicy)}
+              disabled={isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reopen">Reopen the ticket</SelectItem>
+                <SelectItem value="new_ticket">Start a new ticket</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {brand.closed_ticket_reply === 'reopen' && (
+            <div>
+              <label className="mb-1 block text-sm font-medium">Reopen within (days)</label>
+              <Input
+                type="number"
+                min={1}
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+                placeholder="Any time"
+              />
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                Later replies start a new ticket. Leave empty to always reopen.
+              </p>
+            </div>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {isDirty && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => save(brand.closed_ticket_reply)} disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function EmailThreadingSettingsList({ brands }: EmailThreadingSettingsListProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Email Threading</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Customer emails join a ticket when they reply to any email on it, or when the subject
+          still has the ticket&apos;s [#1234] number. Choose what a reply to a closed ticket does.
+          How each email was threaded shows in the ticket&apos;s activity.
+        </p>
+      </div>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No brands configured.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {brands.map((brand) => (
+            <BrandThreadingSettings key={brand.id} brand={brand} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
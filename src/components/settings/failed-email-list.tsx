@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { RotateCw, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { retryInboundEmail, discardInboundEmail } from '@/lib/actions/inbound-emails';
+import { formatDate } from '@/lib/utils';
+import type { InboundEmail } from '@/lib/supabase/types';
+
+interface FailedEmailListProps {
+  emails: InboundEmail[];
+}
+
+// The parsed fields worth showing, in SendGrid's field names
+const detailFields = ['from', 'to', 'cc', 'subject', 'headers', 'text', 'html'];
+
+function FailedEmail({
+  email,
+  onResolved,
+}: {
+  email: InboundEmail;
+  onResolved: (id: string, notice: string | null) => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [error, setError] = useState<string | null>(email.error);
+  const [isPending, startTransition] = useTransition();
+
+  const handleRetry = () => {
+    startTransition(async () => {
+      const result = await retryInboundEmail(email.id);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      onResolved(
+        email.id,
+        result.ticketNumber
+          ? `"${email.fields.subject || '(No Subject)'}" ${
+              result.action === 'ticket_created' ? 'opened' : 'was added to'
+            } ticket #${result.ticketNumber}`
+          : null
+      );
+    });
+  };
+
+  const handleDiscard = () => {
+    startTransition(async () => {
+      const result = await discardInboundEmail(email.id);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      onResolved(email.id, null);
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-6">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium">
+              {email.fields.subject || '(No Subject)'}
+            </p>
+            <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+              From {email.fields.from || 'unknown sender'} · Received {formatDate(email.created_at)}
+              {' · '}
+              {email.attempts} {email.attempts === 1 ? 'attempt' : 'attempts'}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button size="sm" onClick={handleRetry} disabled={isPending}>
+              <RotateCw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={isPending}>
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-1 text-xs font-medium text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+        >
+          {isExpanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Details
+        </button>
+
+        {isExpanded && (
+          <dl className="space-y-2 text-xs">
+            {email.message_id && (
+              <div>
+                <dt className="font-medium text-zinc-500 dark:text-zinc-400">Message-ID</dt>
+                <dd className="break-all">{email.message_id}</dd>
+              </div>
+            )}
+            {email.ticket_id && (
+              <div>
+                <dt className="font-medium text-zinc-500 dark:text-zinc-400">Ticket</dt>
+                <dd>
+                  <Link href={`/tickets/${email.ticket_id}`} className="underline hover:no-underline">
+                    Created before the failure
+                  </Link>
+                </dd>
+              </div>
+            )}
+            {email.files.length > 0 && (
+              <div>
+                <dt className="font-medium text-zinc-500 dark:text-zinc-400">Attachments</dt>
+                <dd>{email.files.map((file) => file.name).join(', ')}</dd>
+              </div>
+            )}
+            {detailFields
+              .filter((field) => email.fields[field])
+              .map((field) => (
+                <div key={field}>
+                  <dt className="font-medium text-zinc-500 dark:text-zinc-400">{field}</dt>
+                  <dd>
+                    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-zinc-50 p-2 dark:bg-zinc-900">
+                      {email.fields[field]}
+                    </pre>
+                  </dd>
+                </div>
+              ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function FailedEmailList({ emails: initialEmails }: FailedEmailListProps) {
+  const [emails, setEmails] = useState(initialEmails);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleResolved = (id: string, message: string | null) => {
+    setEmails((prev) => prev.filter((email) => email.id !== id));
+    setNotice(message);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Failed Emails</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Every incoming email is saved before it&apos;s turned into a ticket. Emails that failed
+          partway through are kept here so nothing is lost: check what went wrong, then retry or
+          discard them. Retrying never duplicates a ticket or message that was already created.
+        </p>
+      </div>
+
+      {notice && (
+        <div className="rounded-md bg-green-50 p-3 text-sm text-green-700 dark:bg-green-900/20 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      {emails.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No failed emails.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {emails.map((email) => (
+            <FailedEmail key={email.id} email={email} onResolved={handleResolved} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
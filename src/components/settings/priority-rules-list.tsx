@@ -26,12 +26,17 @@ import {
   updateAutoPriorityRule,
   deleteAutoPriorityRule,
   toggleAutoPriorityRule,
+  simulateAutoPriorityRule,
   type AutoPriorityRule,
 } from '@/lib/actions/auto-priority-rules';
-import type { TicketPriority } from '@/lib/supabase/types';
+import { SegmentBadge } from '@/components/customers/segment-badge';
+import { cn } from '@/lib/utils';
+import type { CustomerSegmentSummary, TicketPriority } from '@/lib/supabase/types';
+import { RuleTestPanel } from './rule-test-panel';
 
 interface PriorityRulesListProps {
   rules: AutoPriorityRule[];
+  segments: CustomerSegmentSummary[];
 }
 
 const priorityColors: Record<TicketPriority, string> = {
@@ -48,7 +53,7 @@ const priorityLabels: Record<TicketPriority, string> = {
   low: 'Low',
 };
 
-export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProps) {
+export function PriorityRulesList({ rules: initialRules, segments }: PriorityRulesListProps) {
   const [rules, setRules] = useState(initialRules);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<AutoPriorityRule | null>(null);
@@ -57,6 +62,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
   // Form state
   const [name, setName] = useState('');
   const [keywords, setKeywords] = useState<string[]>(['']);
+  const [segmentIds, setSegmentIds] = useState<string[]>([]);
   const [priority, setPriority] = useState<TicketPriority>('medium');
   const [matchSubject, setMatchSubject] = useState(true);
   const [matchBody, setMatchBody] = useState(true);
@@ -65,6 +71,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
   const resetForm = () => {
     setName('');
     setKeywords(['']);
+    setSegmentIds([]);
     setPriority('medium');
     setMatchSubject(true);
     setMatchBody(true);
@@ -81,6 +88,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
     setEditingRule(rule);
     setName(rule.name);
     setKeywords(rule.keywords.length > 0 ? rule.keywords : ['']);
+    setSegmentIds(rule.segment_ids);
     setPriority(rule.priority);
     setMatchSubject(rule.match_subject);
     setMatchBody(rule.match_body);
@@ -104,6 +112,12 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
     setKeywords(newKeywords);
   };
 
+  const toggleSegment = (segmentId: string) => {
+    setSegmentIds((prev) =>
+      prev.includes(segmentId) ? prev.filter((id) => id !== segmentId) : [...prev, segmentId]
+    );
+  };
+
   const handleSubmit = () => {
     const filteredKeywords = keywords.filter((k) => k.trim());
 
@@ -112,12 +126,12 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
       return;
     }
 
-    if (filteredKeywords.length === 0) {
-      setError('At least one keyword is required');
+    if (filteredKeywords.length === 0 && segmentIds.length === 0) {
+      setError('Add at least one keyword or customer segment');
       return;
     }
 
-    if (!matchSubject && !matchBody) {
+    if (filteredKeywords.length > 0 && !matchSubject && !matchBody) {
       setError('At least one match field must be selected');
       return;
     }
@@ -128,6 +142,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
           id: editingRule.id,
           name,
           keywords: filteredKeywords,
+          segment_ids: segmentIds,
           priority,
           match_subject: matchSubject,
           match_body: matchBody,
@@ -151,6 +166,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
         const result = await createAutoPriorityRule({
           name,
           keywords: filteredKeywords,
+          segment_ids: segmentIds,
           priority,
           match_subject: matchSubject,
           match_body: matchBody,
@@ -210,8 +226,8 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
         <div>
           <h2 className="text-lg font-semibold">Auto-Priority Rules</h2>
           <p className="text-sm text-zinc-500 dark:text-zinc-400">
-            Automatically set ticket priority based on keywords in subject or message body.
-            Higher priority rules win when multiple rules match.
+            Automatically set ticket priority based on keywords in subject or message body, or on
+            the customer&apos;s segments. Higher priority rules win when multiple rules match.
           </p>
         </div>
         <Button onClick={openCreateDialog}>
@@ -287,21 +303,29 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
                       </CardHeader>
                       <CardContent>
                         <div className="flex flex-wrap gap-1.5">
+                          {rule.segment_ids.map((segmentId) => {
+                            const segment = segments.find((s) => s.id === segmentId);
+                            return segment ? (
+                              <SegmentBadge key={segmentId} segment={segment} size="md" />
+                            ) : null;
+                          })}
                           {rule.keywords.map((keyword, i) => (
                             <Badge key={i} variant="secondary" className="font-mono text-xs">
                               {keyword}
                             </Badge>
                           ))}
                         </div>
-                        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
-                          Matches:{' '}
-                          {[
-                            rule.match_subject && 'Subject',
-                            rule.match_body && 'Message body',
-                          ]
-                            .filter(Boolean)
-                            .join(', ')}
-                        </p>
+                        {rule.keywords.length > 0 && (
+                          <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                            Matches:{' '}
+                            {[
+                              rule.match_subject && 'Subject',
+                              rule.match_body && 'Message body',
+                            ]
+                              .filter(Boolean)
+                              .join(', ')}
+                          </p>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -314,7 +338,7 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
 
       {/* Create/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg">
           <DialogHeader>
             <DialogTitle>{editingRule ? 'Edit Rule' : 'Create Auto-Priority Rule'}</DialogTitle>
           </DialogHeader>
@@ -371,10 +395,39 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
               </Select>
             </div>
 
+            <div>
+              <label className="text-sm font-medium">Customer Segments</label>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                If set, the customer must be in one of these segments
+              </p>
+              {segments.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {segments.map((segment) => (
+                    <button
+                      key={segment.id}
+                      type="button"
+                      onClick={() => toggleSegment(segment.id)}
+                      className={cn(
+                        'rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors',
+                        segmentIds.includes(segment.id)
+                          ? 'border-zinc-900 bg-zinc-900 text-white dark:border-zinc-100 dark:bg-zinc-100 dark:text-zinc-900'
+                          : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                      )}
+                    >
+                      {segment.name}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-zinc-500">No customer segments yet.</p>
+              )}
+            </div>
+
             <div>
               <label className="text-sm font-medium">Keywords</label>
               <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
-                If any of these keywords appear, this rule will match (case-insensitive)
+                If any of these keywords appear, this rule will match (case-insensitive).
+                Leave empty to match on segments alone.
               </p>
               <div className="space-y-2">
                 {keywords.map((keyword, index) => (
@@ -426,6 +479,20 @@ export function PriorityRulesList({ rules: initialRules }: PriorityRulesListProp
                 </label>
               </div>
             </div>
+
+            <RuleTestPanel
+              onTest={(days) =>
+                simulateAutoPriorityRule({
+                  keywords,
+                  segment_ids: segmentIds,
+                  priority,
+                  match_subject: matchSubject,
+                  match_body: matchBody,
+                  days,
+                })
+              }
+              disabled={isPending}
+            />
           </div>
 
           <DialogFooter>
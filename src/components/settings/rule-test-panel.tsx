@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { RuleTestResult } from '@/lib/automation';
+
+const dayOptions = [7, 30, 90];
+
+interface RuleTestPanelProps {
+  onTest: (days: number) => Promise<{ result: RuleTestResult } | { error: string }>;
+  disabled?: boolean;
+}
+
+/**
+ * Runs an unsaved keyword rule against recent tickets and lists what it
+ * would have matched, without changing anything
+ */
+export function RuleTestPanel({ onTest, disabled }: RuleTestPanelProps) {
+  const [days, setDays] = useState(30);
+  const [result, setResult] = useState<RuleTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleTest = () => {
+    setError(null);
+    startTransition(async () => {
+      const response = await onTest(days);
+      if ('error' in response) {
+        setError(response.error);
+        setResult(null);
+        return;
+      }
+      setResult(response.result);
+    });
+  };
+
+  const changedCount = result?.matches.filter((m) => m.change).length ?? 0;
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed border-zinc-300 p-3 dark:border-zinc-700">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Test against last</span>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="h-8 w-[100px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {dayOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleTest}
+          disabled={disabled || isPending}
+        >
+          <FlaskConical className="mr-2 h-4 w-4" />
+          {isPending ? 'Testing...' : 'Test rule'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            {result.matches.length} of {result.scanned} tickets from the last {result.days} days
+            matched; {changedCount} would have changed.
+            {result.truncated && ' Only the most recent tickets were checked.'}
+          </p>
+
+          {result.matches.length > 0 && (
+            <ul className="max-h-64 space-y-2 overflow-y-auto">
+              {result.matches.map((match) => (
+                <li
+                  key={match.id}
+                  className="rounded-md bg-zinc-50 p-2 text-sm dark:bg-zinc-900"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <Link
+                      href={`/tickets/${match.id}`}
+                      target="_blank"
+                      className="truncate font-medium hover:underline"
+                    >
+                      #{match.ticket_number} {match.subject}
+                    </Link>
+                    {match.change ? (
+                      <Badge variant="secondary" className="shrink-0 text-xs">
+                        {match.change}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="shrink-0 text-xs">
+                        No change
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {match.matched_keywords.map((keyword) => (
+                      <Badge key={keyword} variant="outline" className="text-xs font-normal">
+                        {keyword}
+                      </Badge>
+                    ))}
+                  </div>
+                  {match.snippets.map((snippet, i) => (
+                    <p key={i} className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                      <span className="text-zinc-400">
+                        {snippet.field === 'subject' ? 'Subject: ' : 'Body: '}
+                      </span>
+                      {snippet.before}
+                      <mark className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-800/60">
+                        {snippet.match}
+                      </mark>
+                      {snippet.after}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,9 @@ import {
   createAutoTagRule,
   updateAutoTagRule,
   deleteAutoTagRule,
+  simulateAutoTagRule,
 } from '@/lib/actions/auto-tag-rules';
+import { RuleTestPanel } from './rule-test-panel';
 import type { AutoTagRule, Tag } from '@/lib/supabase/types';
 
 interface RulesListProps {
@@ -187,6 +189,19 @@ function RuleForm({
         </label>
       </div>
 
+      <RuleTestPanel
+        onTest={(days) =>
+          simulateAutoTagRule({
+            keywords: formData.keywords,
+            tag_id: formData.tag_id,
+            match_subject: formData.match_subject,
+            match_body: formData.match_body,
+            days,
+          })
+        }
+        disabled={isPending}
+      />
+
       <div className="flex justify-end gap-2 pt-2">
         <Button variant="outline" onClick={onCancel} disabled={isPending}>
           Cancel
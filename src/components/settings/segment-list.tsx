@@ -0,0 +1,395 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Plus, Pencil, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { SegmentBadge } from '@/components/customers/segment-badge';
+import {
+  createCustomerSegment,
+  updateCustomerSegment,
+  deleteCustomerSegment,
+} from '@/lib/actions/customer-segments';
+import { cn } from '@/lib/utils';
+import type { CustomerSegment, Tag } from '@/lib/supabase/types';
+
+const colorOptions = [
+  '#EF4444', // red
+  '#F97316', // orange
+  '#F59E0B', // amber
+  '#22C55E', // green
+  '#14B8A6', // teal
+  '#3B82F6', // blue
+  '#6366F1', // indigo
+  '#8B5CF6', // violet
+  '#EC4899', // pink
+  '#6B7280', // gray
+];
+
+interface SegmentListProps {
+  segments: CustomerSegment[];
+  tags: Tag[];
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseOptionalNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function describeCriteria(segment: CustomerSegment, tags: Tag[]): string[] {
+  const criteria: string[] = [];
+
+  if (segment.min_lifetime_value !== null) {
+    criteria.push(`Lifetime value ≥ $${segment.min_lifetime_value.toLocaleString()}`);
+  }
+  if (segment.min_order_count !== null) {
+    criteria.push(`${segment.min_order_count}+ orders`);
+  }
+  if (segment.countries.length > 0) {
+    criteria.push(`Country: ${segment.countries.join(', ')}`);
+  }
+  if (segment.tag_ids.length > 0) {
+    criteria.push(
+      `Ticket tagged ${segment.tag_ids
+        .map((id) => tags.find((t) => t.id === id)?.name || 'Unknown')
+        .join(' or ')}`
+    );
+  }
+  if (segment.note_keywords.length > 0) {
+    criteria.push(`Note mentions ${segment.note_keywords.join(' or ')}`);
+  }
+
+  return criteria;
+}
+
+export function SegmentList({ segments: initialSegments, tags }: SegmentListProps) {
+  const [segments, setSegments] = useState(initialSegments);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<CustomerSegment | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#8B5CF6');
+  const [description, setDescription] = useState('');
+  const [minLifetimeValue, setMinLifetimeValue] = useState('');
+  const [minOrderCount, setMinOrderCount] = useState('');
+  const [countries, setCountries] = useState('');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [noteKeywords, setNoteKeywords] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setColor('#8B5CF6');
+    setDescription('');
+    setMinLifetimeValue('');
+    setMinOrderCount('');
+    setCountries('');
+    setTagIds([]);
+    setNoteKeywords('');
+    setError(null);
+    setEditingSegment(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (segment: CustomerSegment) => {
+    setEditingSegment(segment);
+    setName(segment.name);
+    setColor(segment.color);
+    setDescription(segment.description || '');
+    setMinLifetimeValue(segment.min_lifetime_value?.toString() ?? '');
+    setMinOrderCount(segment.min_order_count?.toString() ?? '');
+    setCountries(segment.countries.join(', '));
+    setTagIds(segment.tag_ids);
+    setNoteKeywords(segment.note_keywords.join(', '));
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleTag = (tagId: string) => {
+    setTagIds((prev) => (prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]));
+  };
+
+  const handleSubmit = () => {
+    const input = {
+      name,
+      color,
+      description: description || null,
+      min_lifetime_value: parseOptionalNumber(minLifetimeValue),
+      min_order_count: parseOptionalNumber(minOrderCount),
+      countries: splitList(countries),
+      tag_ids: tagIds,
+      note_keywords: splitList(noteKeywords),
+    };
+
+    setError(null);
+    startTransition(async () => {
+      const result = editingSegment
+        ? await updateCustomerSegment({ ...input, id: editingSegment.id })
+        : await createCustomerSegment(input);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setSegments((prev) =>
+        [...prev.filter((s) => s.id !== result.segment.id), result.segment].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setIsDialogOpen(false);
+      resetForm();
+    });
+  };
+
+  const handleDelete = (segment: CustomerSegment) => {
+    if (
+      !confirm(
+        `Delete the "${segment.name}" segment? Priority and automation rules using it will stop matching on it.`
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await deleteCustomerSegment(segment.id);
+      if (!('error' in result)) {
+        setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+      }
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Customer Segments</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Group customers by lifetime value, orders, country, ticket tags or notes. Customers
+            must meet every criterion you set. Segments show on tickets and can drive priority and
+            automation rules.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Segment
+        </Button>
+      </div>
+
+      {segments.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No customer segments yet.</p>
+            <Button variant="outline" className="mt-4" onClick={openCreateDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create your first segment
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {segments.map((segment) => (
+            <Card key={segment.id}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <SegmentBadge segment={segment} size="md" />
+                    <span className="flex items-center gap-1 text-sm text-zinc-500 dark:text-zinc-400">
+                      <Users className="h-3.5 w-3.5" />
+                      {segment.member_count ?? 0}{' '}
+                      {segment.member_count === 1 ? 'customer' : 'customers'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditDialog(segment)}
+                      disabled={isPending}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(segment)}
+                      disabled={isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {segment.description && (
+                  <p className="mb-2 text-sm text-zinc-600 dark:text-zinc-400">{segment.description}</p>
+                )}
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {describeCriteria(segment, tags).join(' · ')}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSegment ? 'Edit Segment' : 'Create Customer Segment'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., VIP"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Color</label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {colorOptions.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={cn(
+                      'h-6 w-6 rounded-full transition-transform hover:scale-110',
+                      color === option && 'ring-2 ring-zinc-900 ring-offset-2 dark:ring-zinc-100'
+                    )}
+                    style={{ backgroundColor: option }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Description</label>
+              <Input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Minimum lifetime value</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={minLifetimeValue}
+                  onChange={(e) => setMinLifetimeValue(e.target.value)}
+                  placeholder="e.g., 1000"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Minimum orders</label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={minOrderCount}
+                  onChange={(e) => setMinOrderCount(e.target.value)}
+                  placeholder="e.g., 5"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Countries</label>
+              <Input
+                value={countries}
+                onChange={(e) => setCountries(e.target.value)}
+                placeholder="United States, Canada"
+                className="mt-1"
+              />
+            </div>
+
+            {tags.length > 0 && (
+              <div>
+                <label className="text-sm font-medium">Ticket Tags</label>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                  Has a ticket with any of these tags
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map((tag) => (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => toggleTag(tag.id)}
+                      className={cn(
+                        'rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors',
+                        tagIds.includes(tag.id)
+                          ? 'border-zinc-900 bg-zinc-900 text-white dark:border-zinc-100 dark:bg-zinc-100 dark:text-zinc-900'
+                          : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                      )}
+                    >
+                      {tag.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium">Note Keywords</label>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                Has a customer note mentioning any of these (case-insensitive)
+              </p>
+              <Input
+                value={noteKeywords}
+                onChange={(e) => setNoteKeywords(e.target.value)}
+                placeholder="wholesale, influencer"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending}>
+              {isPending ? 'Saving...' : editingSegment ? 'Update Segment' : 'Create Segment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
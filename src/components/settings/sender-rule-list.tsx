@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Plus, Trash2, Ban, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { saveSenderRule, deleteSenderRule } from '@/lib/actions/spam';
+import { formatDate } from '@/lib/utils';
+import type { EmailSenderRule, SenderListType } from '@/lib/supabase/types';
+
+interface SenderRuleListProps {
+  rules: EmailSenderRule[];
+}
+
+const listDetails: Record<
+  SenderListType,
+  { title: string; description: string; empty: string; icon: typeof Ban }
+> = {
+  block: {
+    title: 'Blocked Senders',
+    description: 'Email from these addresses and domains goes straight to the Spam view.',
+    empty: 'No blocked senders.',
+    icon: Ban,
+  },
+  allow: {
+    title: 'Allowed Senders',
+    description: 'Email from these addresses and domains skips the spam filter, unless it fails SPF and DKIM.',
+    empty: 'No allowed senders.',
+    icon: ShieldCheck,
+  },
+};
+
+export function SenderRuleList({ rules: initialRules }: SenderRuleListProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [pattern, setPattern] = useState('');
+  const [listType, setListType] = useState<SenderListType>('block');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleAdd = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await saveSenderRule({ pattern, list_type: listType, note: note || null });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setRules((prev) =>
+        [...prev.filter((r) => r.pattern !== result.rule.pattern), result.rule].sort((a, b) =>
+          a.pattern.localeCompare(b.pattern)
+        )
+      );
+      setPattern('');
+      setNote('');
+    });
+  };
+
+  const handleDelete = (rule: EmailSenderRule) => {
+    startTransition(async () => {
+      const result = await deleteSenderRule(rule.id);
+      if (!('error' in result)) {
+        setRules((prev) => prev.filter((r) => r.id !== rule.id));
+      }
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Spam Filter</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          New email is checked before it becomes a ticket: against these lists, SendGrid&apos;s spam
+          score and SPF/DKIM results, common spam wording, and how many tickets the sender opened in
+          the last hour. Flagged email lands in the Spam view, where agents can mark it &quot;Not
+          spam&quot; or block the sender. A rule for an exact address beats one for its domain.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-3">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+              {error}
+            </div>
+          )}
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="min-w-56 flex-1">
+              <label className="text-sm font-medium">Address or domain</label>
+              <Input
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder="jane@example.com or example.com"
+                className="mt-1"
+              />
+            </div>
+            <div className="w-32">
+              <label className="text-sm font-medium">List</label>
+              <Select value={listType} onValueChange={(value) => setListType(value as SenderListType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="block">Block</SelectItem>
+                  <SelectItem value="allow">Allow</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="min-w-48 flex-1">
+              <label className="text-sm font-medium">Note</label>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional"
+                className="mt-1"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isPending || !pattern.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {(['block', 'allow'] as const).map((type) => {
+        const details = listDetails[type];
+        const listRules = rules.filter((rule) => rule.list_type === type);
+
+        return (
+          <Card key={type}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <details.icon className="h-4 w-4" />
+                {details.title}
+              </CardTitle>
+              <CardDescription>{details.description}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {listRules.length === 0 ? (
+                <p className="text-sm text-zinc-500 dark:text-zinc-400">{details.empty}</p>
+              ) : (
+                <div className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                  {listRules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{rule.pattern}</p>
+                        <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                          {rule.note ? `${rule.note} · ` : ''}
+                          Added {formatDate(rule.created_at)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(rule)}
+                        disabled={isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
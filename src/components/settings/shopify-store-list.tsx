@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { CheckCircle2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  disconnectShopifyStore,
+  saveShopifyStore,
+  testShopifyStore,
+  type ShopifyStoreConnection,
+} from '@/lib/actions/shopify-stores';
+import { formatRelativeTime } from '@/lib/utils';
+import type { Brand } from '@/lib/supabase/types';
+
+interface ShopifyStoreListProps {
+  brands: Brand[];
+  stores: ShopifyStoreConnection[];
+}
+
+function BrandShopifyStore({
+  brand,
+  store: initialStore,
+}: {
+  brand: Brand;
+  store: ShopifyStoreConnection | null;
+}) {
+  const [store, setStore] = useState(initialStore);
+  const [shopDomain, setShopDomain] = useState(initialStore?.shop_domain || '');
+  const [clientId, setClientId] = useState(initialStore?.client_id || '');
+  const [clientSecret, setClientSecret] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [testedName, setTestedName] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const isDirty =
+    shopDomain !== (store?.shop_domain || '') ||
+    clientId !== (store?.client_id || '') ||
+    !!clientSecret ||
+    !!webhookSecret;
+
+  const handleSave = () => {
+    setError(null);
+    setTestedName(null);
+    startTransition(async () => {
+      const result = await saveShopifyStore(brand.id, {
+        shop_domain: shopDomain,
+        client_id: clientId,
+        client_secret: clientSecret || undefined,
+        webhook_secret: webhookSecret || undefined,
+      });
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setStore(result.store);
+      setShopDomain(result.store.shop_domain);
+      setClientSecret('');
+      setWebhookSecret('');
+    });
+  };
+
+  const handleTest = () => {
+    setError(null);
+    setTestedName(null);
+    startTransition(async () => {
+      const result = await testShopifyStore(brand.id);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setStore(result.store);
+      setTestedName(result.shopName);
+    });
+  };
+
+  const handleDisconnect = () => {
+    if (!confirm(`Disconnect ${store?.shop_domain} from ${brand.name}?`)) return;
+
+    setError(null);
+    setTestedName(null);
+    startTransition(async () => {
+      const result = await disconnectShopifyStore(brand.id);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setStore(null);
+      setShopDomain('');
+      setClientId('');
+    });
+  };
+
+  return (
+    <Card className={!store ? 'opacity-60' : ''}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: brand.color }} />
+            {brand.name}
+          </CardTitle>
+          {store?.last_error ? (
+            <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3.5 w-3.5" />
+              Connection failed
+            </span>
+          ) : store?.verified_at ? (
+            <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-3.5 w-3.5" />
+              Verified {formatRelativeTime(store.verified_at)}
+            </span>
+          ) : store ? (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">Not tested</span>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-sm font-medium">Store domain</label>
+            <Input
+              value={shopDomain}
+              onChange={(e) => setShopDomain(e.target.value)}
+              placeholder="example.myshopify.com"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Client ID</label>
+            <Input value={clientId} onChange={(e) => setClientId(e.target.value)} />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Client secret</label>
+            <Input
+              type="password"
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+              placeholder={store?.has_client_secret ? 'Saved. Enter a new one to replace it' : ''}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Webhook secret</label>
+            <Input
+              type="password"
+              value={webhookSecret}
+              onChange={(e) => setWebhookSecret(e.target.value)}
+              placeholder={store?.has_webhook_secret ? 'Saved. Enter a new one to replace it' : ''}
+            />
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Orders are cached from webhooks only once this is set
+            </p>
+          </div>
+        </div>
+        {store?.last_error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{store.last_error}</p>
+        )}
+        {testedName && (
+          <p className="text-sm text-green-600 dark:text-green-400">Connected to {testedName}</p>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <div className="flex justify-end gap-2">
+          {store && (
+            <>
+              <Button size="sm" variant="ghost" onClick={handleDisconnect} disabled={isPending}>
+                Disconnect
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleTest} disabled={isPending || isDirty}>
+                Test connection
+              </Button>
+            </>
+          )}
+          {isDirty && (
+            <Button size="sm" onClick={handleSave} disabled={isPending}>
+              {isPending ? 'Saving...' : store ? 'Save' : 'Connect'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ShopifyStoreList({ brands, stores }: ShopifyStoreListProps) {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">Shopify Stores</h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          Connect each brand to its Shopify store. Tickets look up orders in their brand&apos;s
+          store, or in every connected store when their brand has none. Point each store&apos;s
+          webhooks at <code>/api/shopify/webhooks</code>.
+        </p>
+      </div>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No brands configured.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {brands.map((brand) => (
+            <BrandShopifyStore
+              key={brand.id}
+              brand={brand}
+              store={stores.find((store) => store.brand_id === brand.id) || null}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
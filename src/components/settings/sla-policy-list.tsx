@@ -0,0 +1,413 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  createSlaPolicy,
+  updateSlaPolicy,
+  deleteSlaPolicy,
+  toggleSlaPolicy,
+} from '@/lib/actions/sla-policies';
+import type { Brand, BusinessCalendar, SlaPolicy, TicketPriority } from '@/lib/supabase/types';
+
+interface SlaPolicyListProps {
+  policies: SlaPolicy[];
+  brands: Brand[];
+  calendars: BusinessCalendar[];
+}
+
+const priorityColors: Record<TicketPriority, string> = {
+  urgent: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  high: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  low: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+};
+
+const priorityLabels: Record<TicketPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+const priorityOrder: TicketPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+// Select needs a non-empty value for "no selection"
+const NONE = 'none';
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function parseMinutes(value: string): number | null {
+  if (!value.trim()) return null;
+  return parseInt(value, 10);
+}
+
+export function SlaPolicyList({ policies: initialPolicies, brands, calendars }: SlaPolicyListProps) {
+  const [policies, setPolicies] = useState(initialPolicies);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [priority, setPriority] = useState<TicketPriority>('medium');
+  const [brandId, setBrandId] = useState(NONE);
+  const [calendarId, setCalendarId] = useState(NONE);
+  const [firstResponse, setFirstResponse] = useState('');
+  const [nextResponse, setNextResponse] = useState('');
+  const [resolution, setResolution] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setPriority('medium');
+    setBrandId(NONE);
+    setCalendarId(NONE);
+    setFirstResponse('');
+    setNextResponse('');
+    setResolution('');
+    setError(null);
+    setEditingPolicy(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    setName(policy.name);
+    setPriority(policy.priority);
+    setBrandId(policy.brand_id || NONE);
+    setCalendarId(policy.calendar_id || NONE);
+    setFirstResponse(String(policy.first_response_minutes));
+    setNextResponse(policy.next_response_minutes?.toString() || '');
+    setResolution(policy.resolution_minutes?.toString() || '');
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    const firstResponseMinutes = parseMinutes(firstResponse);
+
+    if (!name.trim()) {
+      setError('Policy name is required');
+      return;
+    }
+
+    if (!firstResponseMinutes) {
+      setError('First response target is required');
+      return;
+    }
+
+    const input = {
+      name,
+      priority,
+      brand_id: brandId === NONE ? null : brandId,
+      calendar_id: calendarId === NONE ? null : calendarId,
+      first_response_minutes: firstResponseMinutes,
+      next_response_minutes: parseMinutes(nextResponse),
+      resolution_minutes: parseMinutes(resolution),
+    };
+
+    startTransition(async () => {
+      const result = editingPolicy
+        ? await updateSlaPolicy(editingPolicy.id, input)
+        : await createSlaPolicy(input);
+
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+
+      setPolicies((prev) =>
+        editingPolicy
+          ? prev.map((p) => (p.id === editingPolicy.id ? result.policy : p))
+          : [...prev, result.policy]
+      );
+      setIsDialogOpen(false);
+      resetForm();
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Are you sure you want to delete this policy?')) return;
+
+    startTransition(async () => {
+      const result = await deleteSlaPolicy(id);
+      if (!('error' in result)) {
+        setPolicies((prev) => prev.filter((p) => p.id !== id));
+      }
+    });
+  };
+
+  const handleToggle = (id: string, isActive: boolean) => {
+    startTransition(async () => {
+      const result = await toggleSlaPolicy(id, isActive);
+      if (!('error' in result)) {
+        setPolicies((prev) => prev.map((p) => (p.id === id ? { ...p, is_active: isActive } : p)));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">SLA Policies</h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Response and resolution targets per priority. A brand-specific policy overrides the
+            default policy for the same priority.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Policy
+        </Button>
+      </div>
+
+      {policies.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-zinc-500 dark:text-zinc-400">No SLA policies configured.</p>
+            <Button variant="outline" className="mt-4" onClick={openCreateDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create your first policy
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {priorityOrder.map((priorityLevel) => {
+            const priorityPolicies = policies.filter((p) => p.priority === priorityLevel);
+            if (priorityPolicies.length === 0) return null;
+
+            return (
+              <div key={priorityLevel}>
+                <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-zinc-500 dark:text-zinc-400">
+                  <Badge className={priorityColors[priorityLevel]}>
+                    {priorityLabels[priorityLevel]}
+                  </Badge>
+                  Priority Policies
+                </h3>
+                <div className="space-y-3">
+                  {priorityPolicies.map((policy) => (
+                    <Card key={policy.id} className={!policy.is_active ? 'opacity-60' : ''}>
+                      <CardHeader className="pb-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <CardTitle className="text-base">{policy.name}</CardTitle>
+                            <Badge variant="secondary" className="text-xs">
+                              {policy.brand?.name || 'All brands'}
+                            </Badge>
+                            {!policy.is_active && (
+                              <Badge variant="secondary" className="text-xs">
+                                Disabled
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={policy.is_active}
+                              onCheckedChange={(checked) => handleToggle(policy.id, checked)}
+                              disabled={isPending}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEditDialog(policy)}
+                              disabled={isPending}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(policy.id)}
+                              disabled={isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          <span>
+                            <span className="text-zinc-500">First response:</span>{' '}
+                            {formatMinutes(policy.first_response_minutes)}
+                          </span>
+                          <span>
+                            <span className="text-zinc-500">Next response:</span>{' '}
+                            {formatMinutes(policy.next_response_minutes)}
+                          </span>
+                          <span>
+                            <span className="text-zinc-500">Resolution:</span>{' '}
+                            {formatMinutes(policy.resolution_minutes)}
+                          </span>
+                        </div>
+                        <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                          Clock: {policy.calendar?.name || '24/7'}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? 'Edit Policy' : 'Create SLA Policy'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium">Policy Name</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Urgent - 1 hour response"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Priority</label>
+                <Select value={priority} onValueChange={(v) => setPriority(v as TicketPriority)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {priorityOrder.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {priorityLabels[p]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Brand</label>
+                <Select value={brandId} onValueChange={setBrandId}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>All brands</SelectItem>
+                    {brands.map((brand) => (
+                      <SelectItem key={brand.id} value={brand.id}>
+                        {brand.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Business Hours</label>
+              <Select value={calendarId} onValueChange={setCalendarId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>24/7 (wall-clock time)</SelectItem>
+                  {calendars.map((calendar) => (
+                    <SelectItem key={calendar.id} value={calendar.id}>
+                      {calendar.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Targets (business minutes)</label>
+              <div className="mt-1 grid grid-cols-3 gap-2">
+                <div>
+                  <span className="text-xs text-zinc-500">First response</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={firstResponse}
+                    onChange={(e) => setFirstResponse(e.target.value)}
+                    placeholder="60"
+                  />
+                </div>
+                <div>
+                  <span className="text-xs text-zinc-500">Next response</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={nextResponse}
+                    onChange={(e) => setNextResponse(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div>
+                  <span className="text-xs text-zinc-500">Resolution</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending}>
+              {isPending ? 'Saving...' : editingPolicy ? 'Update Policy' : 'Create Policy'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Smile } from 'lucide-react';
+import { CsatScoreBadge } from '@/components/csat/csat-score-badge';
+import { getTicketCsatSurveys } from '@/lib/actions/csat';
+import { csatScoreLabels } from '@/lib/csat';
+import { formatDate } from '@/lib/utils';
+import type { CsatSurvey } from '@/lib/supabase/types';
+
+interface CsatSectionProps {
+  ticketId: string;
+}
+
+function describeSurvey(survey: CsatSurvey): string {
+  if (survey.responded_at) return `Rated ${formatDate(survey.responded_at)}`;
+  if (survey.sent_at) return `Sent ${formatDate(survey.sent_at)}, no response yet`;
+  return `Scheduled for ${formatDate(survey.send_after)}`;
+}
+
+export function CsatSection({ ticketId }: CsatSectionProps) {
+  const [surveys, setSurveys] = useState<CsatSurvey[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSurveys = async () => {
+      try {
+        const result = await getTicketCsatSurveys(ticketId);
+        if (!cancelled) {
+          setSurveys('surveys' in result ? result.surveys : []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch CSAT surveys:', error);
+      }
+    };
+
+    fetchSurveys();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  if (surveys.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+      <label className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+        <Smile className="h-3.5 w-3.5" />
+        Satisfaction
+      </label>
+      <div className="space-y-3">
+        {surveys.map((survey) => (
+          <div key={survey.id} className="space-y-1 text-sm">
+            {survey.score !== null && (
+              <div className="flex items-center gap-2">
+                <CsatScoreBadge score={survey.score} />
+                <span className="text-zinc-600 dark:text-zinc-400">
+                  {csatScoreLabels[survey.score]}
+                </span>
+              </div>
+            )}
+            {survey.comment && (
+              <p className="rounded-md bg-zinc-50 p-2 text-xs italic text-zinc-700 dark:bg-zinc-900 dark:text-zinc-300">
+                &ldquo;{survey.comment}&rdquo;
+              </p>
+            )}
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">{describeSurvey(survey)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Link2, ExternalLink, Truck, AlertTriangle } from 'lucide-react';
+import { getTicketLinkedOrders, type LinkedOrder } from '@/lib/actions/shopify';
+
+interface LinkedOrdersProps {
+  ticketId: string;
+}
+
+const fulfillmentConfig: Record<string, { label: string; className: string }> = {
+  unfulfilled: {
+    label: 'Unfulfilled',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  },
+  partial: {
+    label: 'Partially Fulfilled',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  },
+  fulfilled: {
+    label: 'Fulfilled',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  },
+  restocked: {
+    label: 'Restocked',
+    className: 'bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-300',
+  },
+};
+
+const cancelledConfig = {
+  label: 'Cancelled',
+  className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+function getStatusConfig(order: LinkedOrder) {
+  if (order.cancelled) return cancelledConfig;
+
+  return (
+    fulfillmentConfig[order.fulfillment_status] || {
+      label: order.fulfillment_status.replace(/_/g, ' '),
+      className: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+    }
+  );
+}
+
+export function LinkedOrders({ ticketId }: LinkedOrdersProps) {
+  const [orders, setOrders] = useState<LinkedOrder[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchOrders = async () => {
+      try {
+        const result = await getTicketLinkedOrders(ticketId);
+        if (!cancelled) {
+          setOrders('orders' in result ? result.orders : []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch linked orders:', error);
+      }
+    };
+
+    fetchOrders();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  if (orders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+      <label className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+        <Link2 className="h-3.5 w-3.5" />
+        Linked Orders
+      </label>
+      <div className="space-y-2">
+        {orders.map((order) => {
+          const status = getStatusConfig(order);
+
+          return (
+            <div
+              key={order.id}
+              className="space-y-1.5 rounded-md border border-zinc-200 p-2 text-sm dark:border-zinc-800"
+            >
+              <div className="flex items-center justify-between gap-2">
+                {order.adminUrl ? (
+                  <a
+                    href={order.adminUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 font-medium text-zinc-900 hover:underline dark:text-zinc-100"
+                  >
+                    {order.order_name}
+                    <ExternalLink className="h-3 w-3 text-zinc-400" />
+                  </a>
+                ) : (
+                  <span className="font-medium text-zinc-900 dark:text-zinc-100">{order.order_name}</span>
+                )}
+                <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${status.className}`}>
+                  {status.label}
+                </span>
+              </div>
+
+              {order.tracking_number && (
+                <div className="flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
+                  <Truck className="h-3 w-3 shrink-0" />
+                  {order.tracking_url ? (
+                    <a
+                      href={order.tracking_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="truncate hover:underline"
+                    >
+                      {order.tracking_number}
+                    </a>
+                  ) : (
+                    <span className="truncate">{order.tracking_number}</span>
+                  )}
+                </div>
+              )}
+
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Matched by {order.matched_by === 'tracking_number' ? 'tracking number' : 'order number'}{' '}
+                {order.matched_value}
+              </p>
+
+              {!order.email_matches && (
+                <div
+                  className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400"
+                  title={order.order_email || undefined}
+                >
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  Placed under a different email. Verify before sharing details.
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
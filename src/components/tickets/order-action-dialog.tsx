@@ -0,0 +1,386 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  refundShopifyOrder,
+  cancelShopifyOrder,
+  createShopifyReplacementOrder,
+  updateShopifyOrderAddress,
+  createOrderReturn,
+  type OrderHistoryResult,
+} from '@/lib/actions/shopify';
+import {
+  formatOrderAmount,
+  orderActionLabels,
+  orderCancelReasons,
+  type OrderAction,
+} from '@/lib/order-actions';
+import { returnReasons, returnTypeOptions, type ReturnLogicReturnType } from '@/lib/returnlogic';
+import { insertIntoComposer } from '@/lib/composer-events';
+import type { CancelOrderInput } from '@/lib/validations';
+
+type HistoryOrder = OrderHistoryResult['orders'][number];
+
+interface OrderActionDialogProps {
+  ticketId: string;
+  order: HistoryOrder;
+  action: OrderAction;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+const actionDescriptions: Record<OrderAction, string> = {
+  refund: 'Choose what to refund. Shopify returns the money to the original payment method.',
+  cancel: 'The order will be cancelled in Shopify and its items restocked. Cancelling does not refund it.',
+  replacement: 'A new order is created at no charge and shipped to the address on this order.',
+  edit_address: 'Change where this order ships. Only possible before it is fulfilled.',
+  return: 'Return Logic creates the RMA and a prepaid return label. Both are added to your reply.',
+};
+
+const addressFields = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'company', label: 'Company' },
+  { key: 'address1', label: 'Address' },
+  { key: 'address2', label: 'Apartment, suite, etc.' },
+  { key: 'city', label: 'City' },
+  { key: 'province', label: 'State / province' },
+  { key: 'zip', label: 'Postal code' },
+  { key: 'country', label: 'Country' },
+  { key: 'phone', label: 'Phone' },
+] as const;
+
+type AddressKey = (typeof addressFields)[number]['key'];
+
+/**
+ * Confirmation step for changing a Shopify order from the ticket sidebar:
+ * refunds, cancellation, free replacements and shipping address changes
+ */
+export function OrderActionDialog({ ticketId, order, action, onClose, onDone }: OrderActionDialogProps) {
+  const [quantities, setQuantities] = useState<Record<number, number>>(() =>
+    Object.fromEntries(
+      order.lineItems.map((item) => [item.id, action === 'refund' ? item.refundableQuantity : 0])
+    )
+  );
+  const [refundShipping, setRefundShipping] = useState(action === 'refund');
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [reason, setReason] = useState('');
+  const [cancelReason, setCancelReason] = useState<CancelOrderInput['reason']>('customer');
+  const [returnType, setReturnType] = useState<ReturnLogicReturnType>('refund');
+  const [returnReason, setReturnReason] = useState('');
+  const [address, setAddress] = useState<Record<AddressKey, string>>(() =>
+    Object.fromEntries(
+      addressFields.map((field) => [field.key, order.shippingAddress?.[field.key] || ''])
+    ) as Record<AddressKey, string>
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const selectedItems = order.lineItems
+    .filter((item) => (quantities[item.id] || 0) > 0)
+    .map((item) => ({ lineItemId: item.id, quantity: quantities[item.id] }));
+
+  const selectedTotal = order.lineItems.reduce(
+    (sum, item) => sum + (quantities[item.id] || 0) * parseFloat(item.price),
+    0
+  );
+
+  const handleConfirm = () => {
+    setError(null);
+    startTransition(async () => {
+      let result: { error?: string; success?: boolean };
+      let message: string;
+
+      switch (action) {
+        case 'refund': {
+          const refund = await refundShopifyOrder({
+            ticketId,
+            shopDomain: order.shopDomain,
+            orderId: order.id,
+            lineItems: selectedItems,
+            refundShipping,
+            notifyCustomer,
+            reason: reason.trim() || undefined,
+          });
+          result = refund;
+          message = refund.amount !== undefined
+            ? `Refunded ${formatOrderAmount(refund.amount, refund.currency || order.currency)} on ${order.name}`
+            : '';
+          break;
+        }
+        case 'cancel':
+          result = await cancelShopifyOrder({
+            ticketId,
+            shopDomain: order.shopDomain,
+            orderId: order.id,
+            reason: cancelReason,
+            notifyCustomer,
+            note: reason.trim() || undefined,
+          });
+          message = `Cancelled ${order.name}`;
+          break;
+        case 'replacement': {
+          const replacement = await createShopifyReplacementOrder({
+            ticketId,
+            shopDomain: order.shopDomain,
+            orderId: order.id,
+            lineItems: selectedItems,
+            note: reason.trim() || undefined,
+          });
+          result = replacement;
+          message = `Created replacement order ${replacement.orderName || ''}`.trim();
+          break;
+        }
+        case 'return': {
+          const created = await createOrderReturn({
+            ticketId,
+            shopDomain: order.shopDomain,
+            orderId: order.id,
+            lineItems: selectedItems,
+            returnType,
+            reason: returnReason,
+            comment: reason.trim() || undefined,
+          });
+          result = created;
+          if (created.draftReply) {
+            insertIntoComposer(ticketId, created.draftReply);
+          }
+          message = `Started return RMA #${created.rmaNumber || ''}. The details are in your reply.`;
+          break;
+        }
+        case 'edit_address':
+          result = await updateShopifyOrderAddress({
+            ticketId,
+            shopDomain: order.shopDomain,
+            orderId: order.id,
+            address: {
+              ...address,
+              company: address.company || undefined,
+              address2: address.address2 || undefined,
+              province: address.province || undefined,
+              phone: address.phone || undefined,
+            },
+          });
+          message = `Updated the shipping address on ${order.name}`;
+          break;
+      }
+
+      if (result.error) {
+        setError(result.error);
+      } else {
+        onDone(message);
+      }
+    });
+  };
+
+  const usesLineItems = action === 'refund' || action === 'replacement' || action === 'return';
+  const canConfirm =
+    action === 'refund'
+      ? selectedItems.length > 0 || refundShipping
+      : action === 'replacement'
+        ? selectedItems.length > 0
+        : action === 'return'
+          ? selectedItems.length > 0 && !!returnReason
+          : action === 'edit_address'
+            ? !!(address.address1 && address.city && address.zip && address.country)
+            : true;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {orderActionLabels[action]} · {order.name}
+          </DialogTitle>
+          <DialogDescription>{actionDescriptions[action]}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {usesLineItems && (
+            <div className="space-y-2">
+              {order.lineItems.map((item) => {
+                const max = action === 'refund' ? item.refundableQuantity : item.quantity;
+                return (
+                  <div key={item.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 truncate">
+                      {item.title}
+                      {item.variantTitle && (
+                        <span className="text-zinc-400"> ({item.variantTitle})</span>
+                      )}
+                      <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                        {formatOrderAmount(item.price, order.currency)} each ·{' '}
+                        {action === 'refund' ? `${max} refundable` : `${item.quantity} ordered`}
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={max}
+                      value={quantities[item.id] || 0}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(max, Math.max(0, Number(e.target.value) || 0)),
+                        }))
+                      }
+                      disabled={max === 0}
+                      className="h-8 w-20"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {action === 'refund' && (
+            <>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={refundShipping}
+                  onChange={(e) => setRefundShipping(e.target.checked)}
+                  className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-600"
+                />
+                Refund shipping
+              </label>
+              <p className="text-sm text-zinc-600 dark:text-zinc-300">
+                Items selected: {formatOrderAmount(selectedTotal, order.currency)}
+                {refundShipping && ' plus shipping'} before tax. Shopify calculates the final amount.
+              </p>
+            </>
+          )}
+
+          {action === 'cancel' && (
+            <Select
+              value={cancelReason}
+              onValueChange={(value) => setCancelReason(value as CancelOrderInput['reason'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {orderCancelReasons.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action === 'return' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={returnType}
+                onValueChange={(value) => setReturnType(value as ReturnLogicReturnType)}
+              >
+                <SelectTrigger aria-label="Return type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {returnTypeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={returnReason} onValueChange={setReturnReason}>
+                <SelectTrigger aria-label="Return reason">
+                  <SelectValue placeholder="Reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {returnReasons.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === 'edit_address' && (
+            <div className="grid grid-cols-2 gap-2">
+              {addressFields.map((field) => (
+                <Input
+                  key={field.key}
+                  value={address[field.key]}
+                  onChange={(e) => setAddress((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.label}
+                  aria-label={field.label}
+                  className={field.key === 'address1' || field.key === 'address2' ? 'col-span-2' : ''}
+                />
+              ))}
+            </div>
+          )}
+
+          {action !== 'edit_address' && (
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                action === 'refund'
+                  ? 'Reason (optional)'
+                  : action === 'return'
+                    ? 'Details from the customer (optional)'
+                    : 'Note (optional)'
+              }
+              maxLength={500}
+            />
+          )}
+
+          {(action === 'refund' || action === 'cancel') && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={notifyCustomer}
+                onChange={(e) => setNotifyCustomer(e.target.checked)}
+                className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-600"
+              />
+              Email the customer from Shopify
+            </label>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 rounded-md bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Back
+          </Button>
+          <Button
+            variant={action === 'cancel' || action === 'refund' ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={isPending || !canConfirm}
+          >
+            {isPending ? 'Working...' : orderActionLabels[action]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
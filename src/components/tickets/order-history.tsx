@@ -1,14 +1,50 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { ShoppingBag, Package, ExternalLink, Truck, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
 import { fetchCustomerOrderHistory, type OrderHistoryResult } from '@/lib/actions/shopify';
 import { formatRelativeTime } from '@/lib/utils';
+import { useAuth } from '@/components/providers/auth-provider';
+import { BrandBadge } from '@/components/ui/brand-badge';
+import { canPerformOrderAction, orderActionLabels, type OrderAction } from '@/lib/order-actions';
+import { OrderActionDialog } from './order-action-dialog';
+import { StaleDataBanner } from './stale-data-banner';
 
 interface OrderHistoryProps {
+  ticketId: string;
+  brandId: string | null;
   customerEmail: string | null;
 }
 
+type HistoryOrder = OrderHistoryResult['orders'][number];
+
+/**
+ * Order actions that make sense for an order in its current state
+ */
+function getAvailableOrderActions(order: HistoryOrder): OrderAction[] {
+  const actions: OrderAction[] = [];
+  const hasRefundable = order.lineItems.some((item) => item.refundableQuantity > 0);
+
+  // Only paid orders have money to give back
+  if (['paid', 'partially_paid', 'partially_refunded'].includes(order.financialStatus) && hasRefundable) {
+    actions.push('refund');
+  }
+  if (!order.cancelledAt && order.fulfillmentStatus !== 'fulfilled') {
+    actions.push('cancel');
+  }
+  actions.push('replacement');
+  if (!order.cancelledAt && !order.fulfillmentStatus) {
+    actions.push('edit_address');
+  }
+  // Only items that have shipped can be sent back
+  if (!order.cancelledAt && order.fulfillmentStatus) {
+    actions.push('return');
+  }
+
+  return actions;
+}
+
 const financialStatusColors: Record<string, string> = {
   paid: 'text-green-600 dark:text-green-400',
   pending: 'text-yellow-600 dark:text-yellow-400',
@@ -125,10 +161,15 @@ function formatDate(dateString: string): string {
   });
 }
 
-export function OrderHistory({ customerEmail }: OrderHistoryProps) {
+export function OrderHistory({ ticketId, brandId, customerEmail }: OrderHistoryProps) {
+  const router = useRouter();
+  const { profile } = useAuth();
   const [data, setData] = useState<OrderHistoryResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [expandedOrders, setExpandedOrders] = useState<Set<number>>(new Set());
+  const [activeAction, setActiveAction] = useState<{ order: HistoryOrder; action: OrderAction } | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     if (!customerEmail) {
@@ -141,7 +182,7 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
     const fetchOrders = async () => {
       setIsLoading(true);
       try {
-        const result = await fetchCustomerOrderHistory(customerEmail);
+        const result = await fetchCustomerOrderHistory(customerEmail, brandId);
         if (!cancelled) {
           setData(result);
         }
@@ -162,7 +203,15 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
     return () => {
       cancelled = true;
     };
-  }, [customerEmail]);
+  }, [customerEmail, brandId, reloadKey]);
+
+  const handleActionDone = (message: string) => {
+    setActiveAction(null);
+    setActionMessage(message);
+    setReloadKey((key) => key + 1);
+    // Show the internal note and activity entry left by the action
+    router.refresh();
+  };
 
   const toggleOrderExpanded = (orderId: number) => {
     setExpandedOrders((prev) => {
@@ -180,6 +229,9 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
     return null;
   }
 
+  // Label each order with its brand when they come from more than one store
+  const showStoreBrands = new Set(data?.orders.map((order) => order.shopDomain)).size > 1;
+
   return (
     <div className="space-y-2 pt-4 border-t border-zinc-200 dark:border-zinc-800">
       <label className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
@@ -201,6 +253,16 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
         </div>
       )}
 
+      {!isLoading && data?.staleAsOf && (
+        <StaleDataBanner source="Shopify" staleAsOf={data.staleAsOf} />
+      )}
+
+      {actionMessage && (
+        <div className="rounded-md bg-green-50 p-2 text-xs text-green-700 dark:bg-green-900/20 dark:text-green-400">
+          {actionMessage}
+        </div>
+      )}
+
       {!isLoading && !data?.error && data?.orders.length === 0 && (
         <p className="py-2 text-sm text-zinc-500 dark:text-zinc-400">
           No orders found for this customer
@@ -226,6 +288,9 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
               const isExpanded = expandedOrders.has(order.id);
               const displayStatus = getOrderDisplayStatus(order);
               const statusConfig = orderStatusConfig[displayStatus];
+              const orderActions = getAvailableOrderActions(order).filter((action) =>
+                canPerformOrderAction(profile?.role, action)
+              );
 
               return (
                 <div
@@ -241,6 +306,7 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
                       <div className="flex items-center gap-2">
                         <Package className="h-4 w-4 text-zinc-400" />
                         <span className="font-medium text-sm">{order.name}</span>
+                        {showStoreBrands && <BrandBadge brand={order.brand} />}
                       </div>
                       <div className="flex items-center gap-2">
                         <span className={`text-xs font-medium ${financialStatusColors[order.financialStatus] || 'text-zinc-500'}`}>
@@ -332,6 +398,26 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
                         </div>
                       )}
 
+                      {/* Order actions */}
+                      {orderActions.length > 0 && (
+                        <div className="mb-2 flex flex-wrap gap-1">
+                          {orderActions.map((action) => (
+                            <button
+                              key={action}
+                              type="button"
+                              onClick={() => setActiveAction({ order, action })}
+                              className={`rounded border px-2 py-1 text-xs font-medium transition-colors ${
+                                action === 'refund' || action === 'cancel'
+                                  ? 'border-red-200 text-red-600 hover:bg-red-50 dark:border-red-900 dark:text-red-400 dark:hover:bg-red-900/20'
+                                  : 'border-zinc-200 text-zinc-700 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800'
+                              }`}
+                            >
+                              {orderActionLabels[action]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Action links */}
                       <div className="flex items-center gap-3 pt-1 border-t border-zinc-200 dark:border-zinc-700">
                         <a
@@ -367,6 +453,16 @@ export function OrderHistory({ customerEmail }: OrderHistoryProps) {
           </div>
         </div>
       )}
+
+      {activeAction && (
+        <OrderActionDialog
+          ticketId={ticketId}
+          order={activeAction.order}
+          action={activeAction.action}
+          onClose={() => setActiveAction(null)}
+          onDone={handleActionDone}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { AlertCircle, CalendarClock, Pencil, RotateCw, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  getOutboundMessages,
+  cancelOutboundMessage,
+  updateOutboundMessage,
+  sendOutboundMessageNow,
+  retryOutboundMessage,
+} from '@/lib/actions/messages';
+import { toDateTimeLocalValue } from '@/lib/snooze';
+import { createClient } from '@/lib/supabase/client';
+import type { OutboundMessage } from '@/lib/supabase/types';
+
+interface QueuedMessagesProps {
+  ticketId: string;
+}
+
+const actionLabels: Record<OutboundMessage['action'], string | null> = {
+  send: null,
+  'send-close': 'then close',
+  'send-snooze': 'then snooze',
+};
+
+function formatSendAt(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Starting value for the reschedule field. Failed and undo-window replies
+ * get a fresh time a few minutes out.
+ */
+function getEditableSendAt(dateString: string): string {
+  const sendAt = new Date(dateString);
+  const minimum = new Date(Date.now() + 5 * 60 * 1000);
+  return toDateTimeLocalValue(sendAt > minimum ? sendAt : minimum);
+}
+
+/**
+ * Replies on this ticket that haven't reached the customer yet: scheduled,
+ * being sent, or failed. Each can be edited, rescheduled, sent now or
+ * cancelled until it goes out.
+ */
+export function QueuedMessages({ ticketId }: QueuedMessagesProps) {
+  const [outboundMessages, setOutboundMessages] = useState<OutboundMessage[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSendAt, setEditSendAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const supabase = createClient();
+
+  // Load queued replies and refresh them whenever one changes
+  useEffect(() => {
+    async function fetchOutboundMessages() {
+      const result = await getOutboundMessages(ticketId);
+      if (result.outboundMessages) {
+        setOutboundMessages(result.outboundMessages as OutboundMessage[]);
+      }
+    }
+
+    fetchOutboundMessages();
+
+    const channel = supabase
+      .channel(`outbound-${ticketId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'outbound_messages',
+          filter: `ticket_id=eq.${ticketId}`,
+        },
+        () => {
+          fetchOutboundMessages();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [ticketId, supabase]);
+
+  const runAction = (action: () => Promise<{ error?: string }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        setError(result.error);
+      }
+      const refreshed = await getOutboundMessages(ticketId);
+      if (refreshed.outboundMessages) {
+        setOutboundMessages(refreshed.outboundMessages as OutboundMessage[]);
+      }
+    });
+  };
+
+  const startEditing = (outbound: OutboundMessage) => {
+    setEditingId(outbound.id);
+    setEditContent(outbound.content);
+    setEditSendAt(getEditableSendAt(outbound.send_at));
+    setError(null);
+  };
+
+  const handleSave = (outboundId: string) => {
+    const sendAt = new Date(editSendAt);
+    if (Number.isNaN(sendAt.getTime())) {
+      setError('Pick a valid send time');
+      return;
+    }
+
+    runAction(async () => {
+      const result = await updateOutboundMessage(outboundId, {
+        content: editContent,
+        sendAt: sendAt.toISOString(),
+      });
+      if (!result.error) {
+        setEditingId(null);
+      }
+      return result;
+    });
+  };
+
+  if (outboundMessages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t border-zinc-200 bg-zinc-50 px-4 py-3 dark:border-zinc-800 dark:bg-zinc-900/50">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+        Queued replies
+      </h3>
+
+      {outboundMessages.map((outbound) => {
+        const isEditing = editingId === outbound.id;
+        const actionLabel = actionLabels[outbound.action];
+        const authorName = outbound.author?.full_name || outbound.author?.email || 'Unknown';
+
+        return (
+          <div
+            key={outbound.id}
+            className={`rounded-lg border bg-white p-3 text-sm dark:bg-zinc-900 ${
+              outbound.status === 'failed'
+                ? 'border-red-200 dark:border-red-900'
+                : 'border-zinc-200 dark:border-zinc-700'
+            }`}
+          >
+            <div className="mb-1 flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+              {outbound.status === 'failed' ? (
+                <span className="flex items-center gap-1 font-medium text-red-600 dark:text-red-400">
+                  <AlertCircle className="h-3.5 w-3.5" />
+                  Failed to send
+                </span>
+              ) : outbound.status === 'sending' ? (
+                <span className="font-medium">Sending...</span>
+              ) : (
+                <span className="flex items-center gap-1 font-medium">
+                  <CalendarClock className="h-3.5 w-3.5" />
+                  {outbound.is_scheduled ? `Scheduled for ${formatSendAt(outbound.send_at)}` : 'Sending shortly'}
+                  {outbound.attempts > 0 && ` (retry ${outbound.attempts})`}
+                </span>
+              )}
+              {actionLabel && <span>· {actionLabel}</span>}
+              <span className="ml-auto">{authorName}</span>
+            </div>
+
+            {isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  className="min-h-20 text-sm"
+                />
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="datetime-local"
+                    value={editSendAt}
+                    onChange={(e) => setEditSendAt(e.target.value)}
+                    className="h-8 w-auto text-sm"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => handleSave(outbound.id)}
+                    disabled={isPending || !editContent.trim()}
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setEditingId(null)}
+                    disabled={isPending}
+                  >
+                    Discard changes
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="line-clamp-3 whitespace-pre-wrap text-zinc-700 dark:text-zinc-300">
+                {outbound.content}
+              </p>
+            )}
+
+            {outbound.status === 'failed' && outbound.last_error && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">{outbound.last_error}</p>
+            )}
+
+            {!isEditing && outbound.status !== 'sending' && (
+              <div className="mt-2 flex gap-1">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => startEditing(outbound)}
+                  disabled={isPending}
+                >
+                  <Pencil className="mr-1 h-3.5 w-3.5" />
+                  Edit
+                </Button>
+                {outbound.status === 'failed' ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => runAction(() => retryOutboundMessage(outbound.id))}
+                    disabled={isPending}
+                  >
+                    <RotateCw className="mr-1 h-3.5 w-3.5" />
+                    Retry
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => runAction(() => sendOutboundMessageNow(outbound.id))}
+                    disabled={isPending}
+                  >
+                    <Send className="mr-1 h-3.5 w-3.5" />
+                    Send now
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => runAction(() => cancelOutboundMessage(outbound.id))}
+                  disabled={isPending}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  <X className="mr-1 h-3.5 w-3.5" />
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { RotateCcw, ExternalLink, AlertCircle, ChevronDown, ChevronUp, Package, Truck } from 'lucide-react';
 import { fetchCustomerReturns, type RMAHistoryResult } from '@/lib/actions/returnlogic';
 import { getRMAAdminUrl, type ReturnLogicRMA } from '@/lib/returnlogic';
+import { StaleDataBanner } from './stale-data-banner';
 
 interface ReturnHistoryProps {
   customerEmail: string | null;
@@ -183,6 +184,10 @@ export function ReturnHistory({ customerEmail }: ReturnHistoryProps) {
         </div>
       )}
 
+      {!isLoading && data?.staleAsOf && (
+        <StaleDataBanner source="Return Logic" staleAsOf={data.staleAsOf} />
+      )}
+
       {!isLoading && !data?.error && data?.rmas.length === 0 && (
         <p className="py-2 text-sm text-zinc-500 dark:text-zinc-400">
           No returns found
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toDateTimeLocalValue } from '@/lib/snooze';
+
+interface SendLaterOptionsProps {
+  onSchedule: (sendAt: Date) => void;
+  disabled?: boolean;
+  error?: string | null;
+}
+
+/**
+ * 9:00 AM local time, `days` days from now
+ */
+function getMorning(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date;
+}
+
+/**
+ * 9:00 AM local time on the coming Monday
+ */
+function getNextMonday(): Date {
+  const daysUntilMonday = ((8 - new Date().getDay()) % 7) || 7;
+  return getMorning(daysUntilMonday);
+}
+
+/**
+ * Choices for scheduling a reply: tomorrow or next Monday morning, or any
+ * date and time in the agent's own timezone
+ */
+export function SendLaterOptions({ onSchedule, disabled, error }: SendLaterOptionsProps) {
+  const [customTime, setCustomTime] = useState(() => toDateTimeLocalValue(getMorning(1)));
+  const [timeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  // datetime-local values have no zone, so the browser reads them as local time
+  const customDate = customTime ? new Date(customTime) : null;
+  const isCustomValid = customDate !== null && !Number.isNaN(customDate.getTime());
+
+  const presets = [
+    { label: 'Tomorrow at 9:00 AM', getDate: () => getMorning(1) },
+    { label: 'Monday at 9:00 AM', getDate: getNextMonday },
+  ];
+
+  return (
+    <div className="space-y-1">
+      {presets.map((preset) => (
+        <button
+          key={preset.label}
+          type="button"
+          onClick={() => onSchedule(preset.getDate())}
+          disabled={disabled}
+          className="flex w-full items-center px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+        >
+          {preset.label}
+        </button>
+      ))}
+
+      <div className="space-y-2 border-t border-zinc-200 px-3 pt-2 pb-1 dark:border-zinc-700">
+        <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">
+          Pick a date and time ({timeZone})
+        </label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={customTime}
+            onChange={(e) => setCustomTime(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => customDate && onSchedule(customDate)}
+            disabled={disabled || !isCustomValid}
+          >
+            Schedule
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 pb-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
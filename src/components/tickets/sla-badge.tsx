@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SLA_WARNING_WINDOW_MINUTES } from '@/lib/sla';
+
+interface SlaBadgeProps {
+  dueAt: string;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / (1000 * 60));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(minutes, 0)}m`;
+}
+
+/**
+ * Countdown pill for the next SLA deadline: neutral while there is time,
+ * orange inside the warning window and red once breached
+ */
+export function SlaBadge({ dueAt, size = 'default', className }: SlaBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remainingMs = new Date(dueAt).getTime() - now;
+  const isBreached = remainingMs <= 0;
+  const isWarning = !isBreached && remainingMs <= SLA_WARNING_WINDOW_MINUTES * 60 * 1000;
+
+  return (
+    <span
+      className={cn(
+        'flex items-center rounded-full py-0.5 text-xs font-medium',
+        size === 'sm' ? 'gap-0.5 px-1.5' : 'gap-1 px-2',
+        isBreached
+          ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+          : isWarning
+            ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
+            : 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+        className
+      )}
+      title={`SLA due ${new Date(dueAt).toLocaleString()}`}
+    >
+      <Timer className="h-3 w-3" />
+      {isBreached ? `Breached ${formatDuration(-remainingMs)}` : formatDuration(remainingMs)}
+    </span>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageSquareReply } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getSnoozedUntil, snoozeDurations, toDateTimeLocalValue } from '@/lib/snooze';
+import type { SnoozeInput } from '@/lib/validations';
+
+interface SnoozeOptionsProps {
+  onSnooze: (snooze: SnoozeInput) => void;
+  disabled?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Snooze choices shared by the ticket header and the composer: quick
+ * durations, until the customer replies, or any date and time in the
+ * agent's own timezone, each with an optional note
+ */
+export function SnoozeOptions({ onSnooze, disabled, error }: SnoozeOptionsProps) {
+  const [reason, setReason] = useState('');
+  const [customTime, setCustomTime] = useState(() => toDateTimeLocalValue(getSnoozedUntil('1-day')));
+  const [timeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  const snooze = (until: Date | null) => {
+    onSnooze({
+      until: until ? until.toISOString() : null,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  // datetime-local values have no zone, so the browser reads them as local time
+  const customDate = customTime ? new Date(customTime) : null;
+  const isCustomValid = customDate !== null && !Number.isNaN(customDate.getTime());
+
+  return (
+    <div className="space-y-1">
+      <div className="px-3 pt-1 pb-2">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Why? (optional)"
+          maxLength={500}
+          className="h-8 text-sm"
+        />
+      </div>
+
+      {snoozeDurations.map((duration) => (
+        <button
+          key={duration.value}
+          type="button"
+          onClick={() => snooze(getSnoozedUntil(duration.value))}
+          disabled={disabled}
+          className="flex w-full items-center px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+        >
+          {duration.label}
+        </button>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => snooze(null)}
+        disabled={disabled}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+      >
+        <MessageSquareReply className="h-4 w-4 text-zinc-400" />
+        Until the customer replies
+      </button>
+
+      <div className="space-y-2 border-t border-zinc-200 px-3 pt-2 pb-1 dark:border-zinc-700">
+        <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">
+          Pick a date and time ({timeZone})
+        </label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={customTime}
+            onChange={(e) => setCustomTime(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => customDate && snooze(customDate)}
+            disabled={disabled || !isCustomValid}
+          >
+            Snooze
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 pb-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
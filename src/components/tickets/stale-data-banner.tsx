@@ -0,0 +1,28 @@
+import { CloudOff } from 'lucide-react';
+
+interface StaleDataBannerProps {
+  source: string;
+  staleAsOf: string;
+}
+
+function formatStaleAsOf(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Shown above integration data served from the cache while the
+ * integration is unavailable
+ */
+export function StaleDataBanner({ source, staleAsOf }: StaleDataBannerProps) {
+  return (
+    <div className="flex items-center gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+      <CloudOff className="h-3.5 w-3.5 shrink-0" />
+      {source} is unavailable. Stale as of {formatStaleAsOf(staleAsOf)}.
+    </div>
+  );
+}
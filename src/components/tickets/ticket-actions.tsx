@@ -4,10 +4,12 @@ import { useState, useTransition, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { CheckCircle, Clock, ChevronDown, Merge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { closeTicket, snoozeTicket, updateTicketStatus, type SnoozeDuration } from '@/lib/actions/tickets';
+import { closeTicket, snoozeTicket, updateTicketStatus } from '@/lib/actions/tickets';
 import { MergeTicketDialog } from '@/components/tickets/merge-ticket-dialog';
 import { StatusBadge } from './status-badge';
+import { SnoozeOptions } from './snooze-options';
 import type { TicketStatus } from '@/lib/supabase/types';
+import type { SnoozeInput } from '@/lib/validations';
 
 interface TicketActionsProps {
   ticketId: string;
@@ -15,18 +17,13 @@ interface TicketActionsProps {
   ticketStatus: TicketStatus;
 }
 
-const snoozeDurations: { value: SnoozeDuration; label: string }[] = [
-  { value: '1-day', label: '1 day' },
-  { value: '3-days', label: '3 days' },
-  { value: '1-week', label: '1 week' },
-];
-
 export function TicketActions({ ticketId, ticketNumber, ticketStatus }: TicketActionsProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [isSnoozeOpen, setIsSnoozeOpen] = useState(false);
   const [isStatusOpen, setIsStatusOpen] = useState(false);
   const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [snoozeError, setSnoozeError] = useState<string | null>(null);
   const snoozeRef = useRef<HTMLDivElement>(null);
   const statusRef = useRef<HTMLDivElement>(null);
 
@@ -54,13 +51,16 @@ export function TicketActions({ ticketId, ticketNumber, ticketStatus }: TicketAc
     });
   };
 
-  const handleSnooze = (duration: SnoozeDuration) => {
+  const handleSnooze = (snooze: SnoozeInput) => {
+    setSnoozeError(null);
     startTransition(async () => {
-      const result = await snoozeTicket(ticketId, duration);
-      if (!result.error) {
-        setIsSnoozeOpen(false);
-        router.push('/tickets?view=my-inbox');
+      const result = await snoozeTicket(ticketId, snooze);
+      if (result.error) {
+        setSnoozeError(result.error);
+        return;
       }
+      setIsSnoozeOpen(false);
+      router.push('/tickets?view=my-inbox');
     });
   };
 
@@ -109,18 +109,8 @@ export function TicketActions({ ticketId, ticketNumber, ticketStatus }: TicketAc
             </Button>
 
             {isSnoozeOpen && (
-              <div className="absolute top-full left-0 z-50 mt-1 w-32 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
-                {snoozeDurations.map((duration) => (
-                  <button
-                    key={duration.value}
-                    type="button"
-                    onClick={() => handleSnooze(duration.value)}
-                    disabled={isPending}
-                    className="flex w-full items-center px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
-                  >
-                    {duration.label}
-                  </button>
-                ))}
+              <div className="absolute top-full left-0 z-50 mt-1 w-72 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+                <SnoozeOptions onSnooze={handleSnooze} disabled={isPending} error={snoozeError} />
               </div>
             )}
           </div>
@@ -1,5 +1,8 @@
 import { formatRelativeTime } from '@/lib/utils';
-import type { TicketActivity, Profile } from '@/lib/supabase/types';
+import { slaMetricLabels } from '@/lib/sla';
+import { assignmentStrategyLabels } from '@/lib/assignment';
+import { formatOrderAmount } from '@/lib/order-actions';
+import type { AssignmentStrategy, TicketActivity, Profile, SlaMetric } from '@/lib/supabase/types';
 
 interface TicketActivityLogProps {
   activities: (TicketActivity & { actor: Pick<Profile, 'full_name' | 'avatar_url'> | null })[];
@@ -17,6 +20,83 @@ function formatActivityAction(activity: TicketActivity): string {
       return 'added a tag';
     case 'untagged':
       return 'removed a tag';
+    case 'rule_fired':
+      return `ran rule "${activity.new_value}"`;
+    case 'sla_breached': {
+      const label = slaMetricLabels[activity.new_value as SlaMetric];
+      return label ? `breached the ${label.toLowerCase()} SLA` : 'breached the SLA';
+    }
+    case 'auto_assigned': {
+      const agentName = activity.metadata?.agent_name as string | undefined;
+      const strategy = activity.metadata?.strategy as AssignmentStrategy | undefined;
+      return `auto-assigned the ticket to ${agentName || 'an agent'}${
+        strategy ? ` (${assignmentStrategyLabels[strategy].toLowerCase()})` : ''
+      }`;
+    }
+    case 'returned_to_pool':
+      return activity.metadata?.reason === 'agent_deactivated'
+        ? 'returned the ticket to the pool (agent deactivated)'
+        : 'returned the ticket to the pool (agent away)';
+    case 'unsnoozed': {
+      const snoozedBy = activity.metadata?.snoozed_by_name as string | undefined;
+      const reason = activity.metadata?.reason as string | undefined;
+      const cause =
+        activity.metadata?.trigger === 'customer_replied'
+          ? 'after the customer replied'
+          : 'when its snooze ended';
+      const note = snoozedBy ? ` (snoozed by ${snoozedBy}${reason ? `: ${reason}` : ''})` : '';
+      return `woke the ticket ${cause}${note}`;
+    }
+    case 'order_refunded': {
+      const amount = activity.metadata?.amount as number | undefined;
+      const currency = activity.metadata?.currency as string | undefined;
+      return amount !== undefined && currency
+        ? `refunded ${formatOrderAmount(amount, currency)} on order ${activity.new_value}`
+        : `refunded order ${activity.new_value}`;
+    }
+    case 'order_cancelled':
+      return `cancelled order ${activity.new_value}`;
+    case 'replacement_order_created': {
+      const replacement = activity.metadata?.replacement_order_name as string | undefined;
+      return replacement
+        ? `created replacement order ${replacement} for ${activity.new_value}`
+        : `created a replacement for order ${activity.new_value}`;
+    }
+    case 'order_address_updated':
+      return `changed the shipping address on order ${activity.new_value}`;
+    case 'rma_created': {
+      const rmaNumber = activity.metadata?.rma_number as string | undefined;
+      return `started return RMA #${rmaNumber || '?'} for order ${activity.new_value}`;
+    }
+    case 'rma_status_changed': {
+      const rmaNumber = activity.metadata?.rma_number as string | undefined;
+      return `moved return RMA #${rmaNumber || '?'} from ${activity.old_value?.replace(/_/g, ' ')} to ${activity.new_value?.replace(/_/g, ' ')}`;
+    }
+    case 'order_linked': {
+      const matchedBy = activity.metadata?.matched_by === 'tracking_number' ? 'tracking number' : 'order number';
+      return `linked order ${activity.new_value} by ${matchedBy}`;
+    }
+    case 'email_threaded': {
+      const outcome = activity.metadata?.outcome as string | undefined;
+      const reference = activity.metadata?.reference as string | undefined;
+      if (outcome === 'new_ticket') {
+        const previous = activity.metadata?.previous_ticket_number as number | undefined;
+        return `opened this ticket for an email reply to closed ticket #${previous ?? '?'}`;
+      }
+      const matchedBy =
+        activity.new_value === 'message_id'
+          ? 'by the email it replied to'
+          : activity.new_value === 'subject_token'
+            ? `by ${reference || 'the ticket number'} in its subject`
+            : "as the customer's latest open ticket";
+      return outcome === 'reopened'
+        ? `reopened the ticket for an email matched ${matchedBy}`
+        : `added an email matched ${matchedBy}`;
+    }
+    case 'csat_rated':
+      return activity.old_value
+        ? `received an updated CSAT rating of ${activity.new_value}/5`
+        : `received a CSAT rating of ${activity.new_value}/5`;
     default:
       return activity.action.replace(/_/g, ' ');
   }
@@ -26,19 +26,31 @@ import {
   ImagePlus,
   Upload,
   Globe,
+  CalendarClock,
+  Users,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
-import { sendMessage, type SendAction, type SnoozeDuration } from '@/lib/actions/messages';
+import {
+  sendMessage,
+  cancelOutboundMessage,
+  flushOutboundMessage,
+  type SendAction,
+} from '@/lib/actions/messages';
 import { generateSuggestedReply } from '@/lib/actions/ai';
 import {
   replaceTemplateVariables,
   type TemplateContext,
 } from '@/lib/utils/template-variables';
 import { ResourcePicker, formatResourceLink } from './resource-picker';
+import { SnoozeOptions } from './snooze-options';
+import { SendLaterOptions } from './send-later-options';
+import { UndoSendToast } from './undo-send-toast';
 import { createClient } from '@/lib/supabase/client';
+import { onComposerInsert } from '@/lib/composer-events';
 import type { CannedResponse, Resource, PromoCode, Product, Attachment } from '@/lib/supabase/types';
+import type { SnoozeInput } from '@/lib/validations';
 
 interface TicketComposerProps {
   ticketId: string;
@@ -48,14 +60,14 @@ interface TicketComposerProps {
   promoCodes?: PromoCode[];
   products?: Product[];
   templateContext?: TemplateContext;
+  replyAllRecipients?: string[]; // Others on the customer's latest email, for "Reply all"
   onTypingChange?: (isTyping: boolean) => void;
 }
 
-const snoozeDurations: { value: SnoozeDuration; label: string }[] = [
-  { value: '1-day', label: '1 day' },
-  { value: '3-days', label: '3 days' },
-  { value: '1-week', label: '1 week' },
-];
+// CC addresses typed into the composer, separated by commas, semicolons or spaces
+function parseCcInput(input: string): string[] {
+  return [...new Set(input.split(/[,;\s]+/).map((email) => email.trim().toLowerCase()).filter(Boolean))];
+}
 
 export function TicketComposer({
   ticketId,
@@ -65,6 +77,7 @@ export function TicketComposer({
   promoCodes = [],
   products = [],
   templateContext = {},
+  replyAllRecipients = [],
   onTypingChange,
 }: TicketComposerProps) {
   // Filter canned responses by ticket brand (show brand-specific OR "All Brands" responses)
@@ -88,10 +101,16 @@ export function TicketComposer({
   );
   const [content, setContent] = useState('');
   const [isInternal, setIsInternal] = useState(false);
+  const [isCcOpen, setIsCcOpen] = useState(false);
+  const [ccInput, setCcInput] = useState('');
   const [isPending, startTransition] = useTransition();
   const [isPickerOpen, setIsPickerOpen] = useState(false);
   const [isResourcePickerOpen, setIsResourcePickerOpen] = useState(false);
   const [isSnoozeMenuOpen, setIsSnoozeMenuOpen] = useState(false);
+  const [snoozeError, setSnoozeError] = useState<string | null>(null);
+  const [isSendLaterMenuOpen, setIsSendLaterMenuOpen] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [undoableSend, setUndoableSend] = useState<{ id: string; expiresAt: number } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
@@ -107,6 +126,7 @@ export function TicketComposer({
   const imageMenuRef = useRef<HTMLDivElement>(null);
   const resourcePickerRef = useRef<HTMLDivElement>(null);
   const snoozeMenuRef = useRef<HTMLDivElement>(null);
+  const sendLaterMenuRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -144,6 +164,9 @@ export function TicketComposer({
       if (snoozeMenuRef.current && !snoozeMenuRef.current.contains(event.target as Node)) {
         setIsSnoozeMenuOpen(false);
       }
+      if (sendLaterMenuRef.current && !sendLaterMenuRef.current.contains(event.target as Node)) {
+        setIsSendLaterMenuOpen(false);
+      }
       if (imageMenuRef.current && !imageMenuRef.current.contains(event.target as Node)) {
         setIsImageMenuOpen(false);
       }
@@ -160,6 +183,15 @@ export function TicketComposer({
     }
   }, [isPickerOpen]);
 
+  // Accept drafts from the sidebar, e.g. a return's RMA number and label
+  useEffect(() => {
+    return onComposerInsert(ticketId, (text) => {
+      setIsInternal(false);
+      setContent((prev) => (prev.trim() ? `${prev}\n\n${text}` : text));
+      textareaRef.current?.focus();
+    });
+  }, [ticketId]);
+
   // Handle typing indicator with debounce
   const handleContentChange = (newContent: string) => {
     setContent(newContent);
@@ -321,23 +353,40 @@ export function TicketComposer({
     handleFileUpload(e.dataTransfer.files);
   };
 
-  const handleSend = (action: SendAction, snoozeDuration?: SnoozeDuration) => {
+  const handleSend = (action: SendAction, snooze?: SnoozeInput, sendAt?: Date) => {
     if (!content.trim() && attachments.length === 0) return;
 
+    setSnoozeError(null);
+    setSendError(null);
+    const cc = isInternal ? [] : parseCcInput(ccInput);
     startTransition(async () => {
       const result = await sendMessage({
         ticketId,
         content: content.trim(),
         isInternal,
         action,
-        snoozeDuration,
+        snooze,
+        sendAt: sendAt?.toISOString(),
         attachments: attachments.length > 0 ? attachments : undefined,
+        cc: cc.length > 0 ? cc : undefined,
       });
 
       if (!result.error) {
         setContent('');
         setAttachments([]);
+        if (!isInternal) {
+          setCcInput('');
+          setIsCcOpen(false);
+        }
         setIsSnoozeMenuOpen(false);
+        setIsSendLaterMenuOpen(false);
+        // Replies wait out the agent's undo window before going to the customer
+        if (result.outboundId && result.undoSeconds) {
+          setUndoableSend({
+            id: result.outboundId,
+            expiresAt: Date.now() + result.undoSeconds * 1000,
+          });
+        }
         // Clear typing indicator when message is sent
         if (onTypingChange) {
           onTypingChange(false);
@@ -345,10 +394,46 @@ export function TicketComposer({
         if (typingTimeoutRef.current) {
           clearTimeout(typingTimeoutRef.current);
         }
+      } else if (action === 'send-snooze') {
+        setSnoozeError(result.error);
+      } else {
+        setSendError(result.error);
       }
     });
   };
 
+  // Put an undone reply back in the composer, keeping anything typed since
+  const handleUndoSend = (outboundId: string) => {
+    setUndoableSend(null);
+    startTransition(async () => {
+      const result = await cancelOutboundMessage(outboundId);
+      if (result.error) {
+        setSendError(result.error);
+        return;
+      }
+
+      const undoneContent = result.content || '';
+      setContent((prev) => (prev.trim() ? `${undoneContent}\n\n${prev}` : undoneContent));
+      setAttachments((prev) => [...((result.attachments as Attachment[]) || []), ...prev]);
+      if (result.cc?.length) {
+        setCcInput((prev) => parseCcInput(`${result.cc.join(', ')}, ${prev}`).join(', '));
+        setIsCcOpen(true);
+      }
+    });
+  };
+
+  // Copy everyone else who was on the customer's latest email
+  const handleReplyAll = () => {
+    setCcInput((prev) => parseCcInput(`${prev}, ${replyAllRecipients.join(', ')}`).join(', '));
+    setIsCcOpen(true);
+  };
+
+  // Send as soon as the undo window closes instead of waiting for the send job
+  const handleUndoExpired = useCallback((outboundId: string) => {
+    setUndoableSend((current) => (current?.id === outboundId ? null : current));
+    flushOutboundMessage(outboundId);
+  }, []);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!content.trim() && attachments.length === 0) return;
@@ -727,6 +812,26 @@ export function TicketComposer({
               </Button>
             )}
 
+            {/* CC recipients - replies only */}
+            {!isInternal && (
+              <>
+                {replyAllRecipients.length > 0 && (
+                  <Button type="button" variant="outline" size="sm" onClick={handleReplyAll}>
+                    <Users className="mr-1.5 h-3.5 w-3.5" />
+                    Reply all
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant={isCcOpen ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setIsCcOpen(!isCcOpen)}
+                >
+                  Cc
+                </Button>
+              </>
+            )}
+
             {/* Attachment button */}
             <Button
               type="button"
@@ -857,6 +962,32 @@ export function TicketComposer({
         </div>
         </div>
 
+        {/* CC row */}
+        {!isInternal && isCcOpen && (
+          <div className="flex items-center gap-2">
+            <label htmlFor={`cc-${ticketId}`} className="text-sm font-medium text-zinc-500 dark:text-zinc-400">
+              Cc
+            </label>
+            <Input
+              id={`cc-${ticketId}`}
+              value={ccInput}
+              onChange={(e) => setCcInput(e.target.value)}
+              placeholder="name@example.com, another@example.com"
+              className="h-8"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setCcInput('');
+                setIsCcOpen(false);
+              }}
+              className="rounded-full p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
         {/* Attachment chips */}
         {attachments.length > 0 && (
           <div className="flex flex-wrap gap-2">
@@ -989,6 +1120,10 @@ export function TicketComposer({
           />
         </div>
 
+        {sendError && !isSendLaterMenuOpen && (
+          <p className="text-right text-xs text-red-600 dark:text-red-400">{sendError}</p>
+        )}
+
         <div className="flex justify-end gap-2">
           {isInternal ? (
             <Button type="submit" disabled={isPending || !canSubmit}>
@@ -1022,17 +1157,36 @@ export function TicketComposer({
 
                 {/* Snooze duration dropdown */}
                 {isSnoozeMenuOpen && (
-                  <div className="absolute bottom-full right-0 z-50 mb-1 w-36 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
-                    {snoozeDurations.map((duration) => (
-                      <button
-                        key={duration.value}
-                        type="button"
-                        onClick={() => handleSend('send-snooze', duration.value)}
-                        className="flex w-full items-center px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800"
-                      >
-                        {duration.label}
-                      </button>
-                    ))}
+                  <div className="absolute bottom-full right-0 z-50 mb-1 w-72 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+                    <SnoozeOptions
+                      onSnooze={(snooze) => handleSend('send-snooze', snooze)}
+                      disabled={isPending}
+                      error={snoozeError}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Send Later Button - schedules the reply */}
+              <div className="relative" ref={sendLaterMenuRef}>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isPending || !canSubmit}
+                  onClick={() => setIsSendLaterMenuOpen(!isSendLaterMenuOpen)}
+                >
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Send Later
+                  <ChevronDown className="ml-2 h-4 w-4" />
+                </Button>
+
+                {isSendLaterMenuOpen && (
+                  <div className="absolute bottom-full right-0 z-50 mb-1 w-72 rounded-lg border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+                    <SendLaterOptions
+                      onSchedule={(sendAt) => handleSend('send', undefined, sendAt)}
+                      disabled={isPending}
+                      error={sendError}
+                    />
                   </div>
                 )}
               </div>
@@ -1040,6 +1194,15 @@ export function TicketComposer({
           )}
         </div>
       </div>
+
+      {undoableSend && (
+        <UndoSendToast
+          outboundId={undoableSend.id}
+          expiresAt={undoableSend.expiresAt}
+          onUndo={handleUndoSend}
+          onExpire={handleUndoExpired}
+        />
+      )}
     </form>
   );
 }
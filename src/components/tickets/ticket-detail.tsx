@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { TicketConversation } from './ticket-conversation';
 import { TicketComposer } from './ticket-composer';
+import { QueuedMessages } from './queued-messages';
 import { TicketPresenceBanner } from './ticket-presence-banner';
 import { useTicketPresence } from '@/lib/hooks/use-ticket-presence';
 import { createClient } from '@/lib/supabase/client';
@@ -50,7 +51,7 @@ export function TicketDetail({ ticket, cannedResponses, resources, promoCodes =
     fetchAgents();
   }, [messages, supabase]);
 
-  // Subscribe to new messages
+  // Subscribe to new messages and delivery status changes
   useEffect(() => {
     const channel = supabase
       .channel(`ticket-${ticket.id}`)
@@ -70,6 +71,22 @@ export function TicketDetail({ ticket, cannedResponses, resources, promoCodes =
           });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `ticket_id=eq.${ticket.id}`,
+        },
+        (payload) => {
+          // Delivery status updates from the email event webhook
+          const updatedMessage = payload.new as Message;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === updatedMessage.id ? { ...m, ...updatedMessage } : m))
+          );
+        }
+      )
       .subscribe();
 
     return () => {
@@ -77,6 +94,23 @@ export function TicketDetail({ ticket, cannedResponses, resources, promoCodes =
     };
   }, [ticket.id, supabase]);
 
+  // Everyone else on the customer's latest email, minus the customer and us
+  const latestCustomerEmail = [...messages]
+    .reverse()
+    .find((m) => m.sender_type === 'customer' && !m.is_internal);
+  const ownAddresses = new Set(
+    [ticket.customer?.email, ticket.brand?.email_address].flatMap((email) =>
+      email ? [email.toLowerCase()] : []
+    )
+  );
+  const replyAllRecipients = [
+    ...new Set(
+      [...(latestCustomerEmail?.to_emails || []), ...(latestCustomerEmail?.cc_emails || [])]
+        .map((email) => email.toLowerCase())
+        .filter((email) => !ownAddresses.has(email))
+    ),
+  ];
+
   return (
     <div className="flex h-full flex-col">
       {/* Presence banner - shows when others are viewing/typing */}
@@ -89,6 +123,7 @@ export function TicketDetail({ ticket, cannedResponses, resources, promoCodes =
           agents={agents}
         />
       </div>
+      <QueuedMessages ticketId={ticket.id} />
       <TicketComposer
         ticketId={ticket.id}
         ticketBrandId={ticket.brand_id}
@@ -102,6 +137,7 @@ export function TicketDetail({ ticket, cannedResponses, resources, promoCodes =
           ticketNumber: ticket.ticket_number,
           agentName: agentName,
         }}
+        replyAllRecipients={replyAllRecipients}
         onTypingChange={setIsTyping}
       />
     </div>
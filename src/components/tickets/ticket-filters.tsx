@@ -13,7 +13,7 @@ import {
 } from '@/components/ui/select';
 import { useDebounce } from '@/lib/hooks/use-debounce';
 import { Mail, Facebook, Instagram, PenLine } from 'lucide-react';
-import type { Profile, Brand } from '@/lib/supabase/types';
+import type { Profile, Brand, CustomerSegmentSummary } from '@/lib/supabase/types';
 
 // Sort options with labels and indicators
 const sortOptions = [
@@ -27,12 +27,21 @@ const sortOptions = [
 
 type SortOption = typeof sortOptions[number]['value'];
 
+// Fulfillment status of a ticket's linked orders
+const fulfillmentOptions = [
+  { value: 'unfulfilled', label: 'Unfulfilled' },
+  { value: 'partial', label: 'Partially fulfilled' },
+  { value: 'fulfilled', label: 'Fulfilled' },
+  { value: 'cancelled', label: 'Cancelled' },
+] as const;
+
 interface TicketFiltersProps {
   agents: Pick<Profile, 'id' | 'full_name' | 'email'>[];
   brands: Brand[];
+  segments: CustomerSegmentSummary[];
 }
 
-export function TicketFilters({ agents, brands }: TicketFiltersProps) {
+export function TicketFilters({ agents, brands, segments }: TicketFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -188,6 +197,64 @@ export function TicketFilters({ agents, brands }: TicketFiltersProps) {
         </SelectContent>
       </Select>
 
+      {segments.length > 0 && (
+        <Select
+          value={searchParams.get('segment') || 'all'}
+          onValueChange={(value) => updateFilter('segment', value)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Segment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Segments</SelectItem>
+            {segments.map((segment) => (
+              <SelectItem key={segment.id} value={segment.id}>
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-full"
+                    style={{ backgroundColor: segment.color }}
+                  />
+                  {segment.name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select
+        value={searchParams.get('order') || 'all'}
+        onValueChange={(value) => updateFilter('order', value)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="Linked order" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any Order</SelectItem>
+          <SelectItem value="linked">Has linked order</SelectItem>
+          <SelectItem value="none">No linked order</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {searchParams.get('order') !== 'none' && (
+        <Select
+          value={searchParams.get('fulfillment') || 'all'}
+          onValueChange={(value) => updateFilter('fulfillment', value)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Fulfillment" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Fulfillment</SelectItem>
+            {fulfillmentOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       <Select
         value={searchParams.get('sort') || 'newest'}
         onValueChange={(value) => updateFilter('sort', value)}
@@ -2,9 +2,11 @@
 
 import { Clock, CheckCircle, Eye } from 'lucide-react';
 import { Avatar } from '@/components/ui/avatar';
+import { SegmentBadge } from '@/components/customers/segment-badge';
 import { StatusBadge } from './status-badge';
 import { PriorityBadge } from './priority-badge';
 import { ChannelIcon } from './channel-icon';
+import { SlaBadge } from './sla-badge';
 import { getInitials, formatRelativeTime } from '@/lib/utils';
 import type { TicketSearchResult } from '@/lib/supabase/types';
 import type { PresenceUser } from '@/lib/hooks/use-ticket-presence';
@@ -133,6 +135,9 @@ export function TicketListItemCompact({
         <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
           <PriorityBadge priority={ticket.priority} size="sm" />
           <StatusBadge status={ticket.status} size="sm" />
+          {ticket.customer?.segments?.map((segment) => (
+            <SegmentBadge key={segment.id} segment={segment} />
+          ))}
 
           {/* Viewing indicator */}
           {viewers.length > 0 && (
@@ -145,11 +150,20 @@ export function TicketListItemCompact({
             </span>
           )}
 
+          {/* SLA countdown */}
+          {ticket.sla_due_at && (ticket.status === 'open' || ticket.status === 'pending') && (
+            <SlaBadge dueAt={ticket.sla_due_at} size="sm" />
+          )}
+
           {/* Snooze indicator */}
-          {ticket.snoozed_until && new Date(ticket.snoozed_until) > new Date() && (
-            <span className="flex items-center gap-0.5 rounded-full bg-orange-100 px-1.5 py-0.5 text-xs font-medium text-orange-700 dark:bg-orange-900/30 dark:text-orange-400">
+          {(ticket.snooze_until_reply ||
+            (ticket.snoozed_until && new Date(ticket.snoozed_until) > new Date())) && (
+            <span
+              title={ticket.snooze_reason || undefined}
+              className="flex items-center gap-0.5 rounded-full bg-orange-100 px-1.5 py-0.5 text-xs font-medium text-orange-700 dark:bg-orange-900/30 dark:text-orange-400"
+            >
               <Clock className="h-3 w-3" />
-              {formatSnoozeTime(ticket.snoozed_until)}
+              {ticket.snoozed_until ? formatSnoozeTime(ticket.snoozed_until) : 'Until reply'}
             </span>
           )}
 
@@ -4,9 +4,11 @@ import Link from 'next/link';
 import { Clock, CheckCircle, Eye } from 'lucide-react';
 import { Avatar } from '@/components/ui/avatar';
 import { BrandBadge } from '@/components/ui/brand-badge';
+import { SegmentBadge } from '@/components/customers/segment-badge';
 import { StatusBadge } from './status-badge';
 import { PriorityBadge } from './priority-badge';
 import { ChannelIcon } from './channel-icon';
+import { SlaBadge } from './sla-badge';
 import { getInitials, formatRelativeTime } from '@/lib/utils';
 import type { TicketSearchResult, MatchField } from '@/lib/supabase/types';
 import type { PresenceUser } from '@/lib/hooks/use-ticket-presence';
@@ -120,13 +122,18 @@ export function TicketListItem({
               </span>
             )}
           </div>
-          <p className="mt-0.5 text-sm text-zinc-500 dark:text-zinc-400">
-            {ticket.customer?.full_name || ticket.customer?.email || 'Unknown'} ·{' '}
-            {formatRelativeTime(ticket.created_at)}
-            {ticket.assigned_agent && (
-              <> · Assigned to {ticket.assigned_agent.full_name || ticket.assigned_agent.email}</>
-            )}
-          </p>
+          <div className="mt-0.5 flex items-center gap-1.5">
+            <p className="truncate text-sm text-zinc-500 dark:text-zinc-400">
+              {ticket.customer?.full_name || ticket.customer?.email || 'Unknown'} ·{' '}
+              {formatRelativeTime(ticket.created_at)}
+              {ticket.assigned_agent && (
+                <> · Assigned to {ticket.assigned_agent.full_name || ticket.assigned_agent.email}</>
+              )}
+            </p>
+            {ticket.customer?.segments?.map((segment) => (
+              <SegmentBadge key={segment.id} segment={segment} />
+            ))}
+          </div>
         </div>
 
         <div className="flex items-center gap-2">
@@ -149,11 +156,19 @@ export function TicketListItem({
               )}
             </span>
           )}
+          {/* SLA countdown */}
+          {ticket.sla_due_at && (ticket.status === 'open' || ticket.status === 'pending') && (
+            <SlaBadge dueAt={ticket.sla_due_at} />
+          )}
           {/* Snooze indicator */}
-          {ticket.snoozed_until && new Date(ticket.snoozed_until) > new Date() && (
-            <span className="flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-700 dark:bg-orange-900/30 dark:text-orange-400">
+          {(ticket.snooze_until_reply ||
+            (ticket.snoozed_until && new Date(ticket.snoozed_until) > new Date())) && (
+            <span
+              title={ticket.snooze_reason || undefined}
+              className="flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-700 dark:bg-orange-900/30 dark:text-orange-400"
+            >
               <Clock className="h-3 w-3" />
-              {formatSnoozeTime(ticket.snoozed_until)}
+              {ticket.snoozed_until ? formatSnoozeTime(ticket.snoozed_until) : 'Until reply'}
             </span>
           )}
           {/* Closed indicator */}
@@ -7,11 +7,16 @@ import {
   Image as ImageIcon,
   Download,
   Mail,
+  Check,
+  CheckCheck,
+  Clock,
+  AlertTriangle,
+  ShieldAlert,
 } from 'lucide-react';
 import Markdown from 'react-markdown';
 import rehypeRaw from 'rehype-raw';
 import { cn, getInitials } from '@/lib/utils';
-import type { Message, Attachment } from '@/lib/supabase/types';
+import type { Message, Attachment, MessageDeliveryStatus } from '@/lib/supabase/types';
 
 interface TicketMessageProps {
   message: Message;
@@ -27,6 +32,19 @@ function getFileIcon(type: string) {
   return File;
 }
 
+// Delivery status icons for emailed replies, from SendGrid events
+const deliveryStatusDisplay: Record<
+  MessageDeliveryStatus,
+  { icon: typeof Check; label: string; className: string }
+> = {
+  sent: { icon: Check, label: 'Sent', className: 'text-zinc-400' },
+  delivered: { icon: CheckCheck, label: 'Delivered', className: 'text-green-500' },
+  deferred: { icon: Clock, label: 'Delivery delayed, retrying', className: 'text-amber-500' },
+  bounced: { icon: AlertTriangle, label: 'Bounced', className: 'text-red-500' },
+  dropped: { icon: AlertTriangle, label: 'Not sent by SendGrid', className: 'text-red-500' },
+  spam_reported: { icon: ShieldAlert, label: 'Reported as spam', className: 'text-red-500' },
+};
+
 // Format file size
 function formatFileSize(bytes: number) {
   if (bytes < 1024) return `${bytes} B`;
@@ -86,6 +104,10 @@ function stripQuotedContent(content: string): string {
 export function TicketMessage({ message, senderName, isAgent }: TicketMessageProps) {
   const isInternal = message.is_internal;
   const attachments = (message.attachments || []) as Attachment[];
+  const ccEmails = message.cc_emails || [];
+  const deliveryStatus = message.delivery_status
+    ? deliveryStatusDisplay[message.delivery_status]
+    : null;
 
   // Strip quoted content from customer emails, show full content for agent messages
   const displayContent = isAgent
@@ -124,6 +146,12 @@ export function TicketMessage({ message, senderName, isAgent }: TicketMessagePro
             <Mail className="h-4 w-4 text-zinc-400" />
           )}
 
+          {message.forwarded_by && (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">
+              Forwarded by {message.forwarded_by}
+            </span>
+          )}
+
           {isInternal && (
             <span className="text-xs font-medium text-yellow-700 dark:text-yellow-400 bg-yellow-100 dark:bg-yellow-900/50 px-1.5 py-0.5 rounded">
               Internal Note
@@ -133,9 +161,26 @@ export function TicketMessage({ message, senderName, isAgent }: TicketMessagePro
           <span className="text-sm text-zinc-500 dark:text-zinc-400">
             {formatTimestamp(message.created_at)}
           </span>
+
+          {deliveryStatus && (
+            <span
+              title={message.delivery_error ? `${deliveryStatus.label}: ${message.delivery_error}` : deliveryStatus.label}
+              className={cn('flex items-center', deliveryStatus.className)}
+            >
+              <deliveryStatus.icon className="h-4 w-4" />
+              <span className="sr-only">{deliveryStatus.label}</span>
+            </span>
+          )}
         </div>
       </div>
 
+      {/* Other people copied on the email */}
+      {ccEmails.length > 0 && (
+        <div className="ml-12 -mt-1 mb-2 text-xs text-zinc-500 dark:text-zinc-400">
+          Cc: {ccEmails.join(', ')}
+        </div>
+      )}
+
       {/* Message content */}
       <div className="ml-12 text-sm text-zinc-700 dark:text-zinc-300">
         <div className="prose prose-sm prose-zinc dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-a:text-blue-600 dark:prose-a:text-blue-400 whitespace-pre-wrap">
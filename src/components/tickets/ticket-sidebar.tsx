@@ -12,16 +12,22 @@ import {
 import { PriorityBadge } from './priority-badge';
 import { TicketActivityLog } from './ticket-activity-log';
 import { OrderHistory } from './order-history';
+import { LinkedOrders } from './linked-orders';
 import { ReturnHistory } from './return-history';
+import { SlaBadge } from './sla-badge';
+import { CsatSection } from './csat-section';
+import { SegmentBadge } from '@/components/customers/segment-badge';
 import {
   updateTicketPriority,
   assignTicket,
   assignTicketToTeam,
   toggleAutoReply,
 } from '@/lib/actions/tickets';
+import { markTicketNotSpam, blockTicketSender, allowTicketSender } from '@/lib/actions/spam';
 import { fetchShopifyCustomerInfo } from '@/lib/actions/shopify';
 import { getInitials, formatDate } from '@/lib/utils';
-import { User, Users, Clock, Mail, Phone, ExternalLink, Ticket as TicketIcon, Copy, Check, MapPin, BotMessageSquare, X } from 'lucide-react';
+import { getSlaDeadlines, slaMetricLabels } from '@/lib/sla';
+import { User, Users, Clock, Mail, Phone, ExternalLink, Ticket as TicketIcon, Copy, Check, MapPin, BotMessageSquare, X, Timer, AlertTriangle, ShieldAlert, ShieldCheck, Ban } from 'lucide-react';
 
 // Small copy button component
 function CopyButton({ text, className = '' }: { text: string; className?: string }) {
@@ -82,6 +88,8 @@ export function TicketSidebar({
   const [isPending, startTransition] = useTransition();
   const [currentAgentId, setCurrentAgentId] = useState<string | null>(ticket.assigned_agent_id);
   const [currentTeamId, setCurrentTeamId] = useState<string | null>(ticket.assigned_team_id);
+  const [spamError, setSpamError] = useState<string | null>(null);
+  const [isSenderAllowed, setIsSenderAllowed] = useState(false);
   const [shopifyCustomer, setShopifyCustomer] = useState<{
     id: number;
     adminUrl: string;
@@ -105,7 +113,7 @@ export function TicketSidebar({
 
     const fetchCustomer = async () => {
       try {
-        const result = await fetchShopifyCustomerInfo(ticket.customer!.email);
+        const result = await fetchShopifyCustomerInfo(ticket.customer!.email, ticket.brand_id);
         if (!cancelled && result.customer) {
           setShopifyCustomer(result.customer);
         }
@@ -119,7 +127,7 @@ export function TicketSidebar({
     return () => {
       cancelled = true;
     };
-  }, [ticket.customer?.email]);
+  }, [ticket.customer?.email, ticket.brand_id]);
 
   const handlePriorityChange = (priority: TicketPriority) => {
     startTransition(async () => {
@@ -163,6 +171,34 @@ export function TicketSidebar({
     });
   };
 
+  const handleNotSpam = () => {
+    setSpamError(null);
+    startTransition(async () => {
+      const result = await markTicketNotSpam(ticket.id);
+      if ('error' in result) setSpamError(result.error);
+    });
+  };
+
+  const handleAllowSender = () => {
+    setSpamError(null);
+    startTransition(async () => {
+      const result = await allowTicketSender(ticket.id);
+      if ('error' in result) setSpamError(result.error);
+      else setIsSenderAllowed(true);
+    });
+  };
+
+  const handleBlockSender = () => {
+    setSpamError(null);
+    startTransition(async () => {
+      const result = await blockTicketSender(ticket.id);
+      if ('error' in result) setSpamError(result.error);
+    });
+  };
+
+  const slaDeadlines = getSlaDeadlines(ticket);
+  const isSenderBlocked = ticket.spam_reasons.includes('Sender is blocked');
+
   return (
     <div className="p-4 space-y-6">
       {/* Auto-Reply Banner */}
@@ -190,6 +226,60 @@ export function TicketSidebar({
         </div>
       )}
 
+      {/* Spam Banner */}
+      {ticket.is_spam && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-3 dark:bg-red-900/20 dark:border-red-800">
+          <div className="flex items-start gap-2">
+            <ShieldAlert className="h-4 w-4 text-red-600 dark:text-red-400 mt-0.5 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-red-800 dark:text-red-300">
+                Marked as Spam
+              </p>
+              {ticket.spam_reasons.length > 0 && (
+                <ul className="text-xs text-red-600 dark:text-red-400 mt-0.5 space-y-0.5">
+                  {ticket.spam_reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-2 flex items-center gap-3">
+                <button
+                  onClick={handleNotSpam}
+                  disabled={isPending}
+                  className="inline-flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-900 dark:text-red-400 dark:hover:text-red-200 disabled:opacity-50"
+                >
+                  <X className="h-3 w-3" />
+                  Not spam
+                </button>
+                {!isSenderAllowed && (
+                  <button
+                    onClick={handleAllowSender}
+                    disabled={isPending}
+                    className="inline-flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-900 dark:text-red-400 dark:hover:text-red-200 disabled:opacity-50"
+                  >
+                    <ShieldCheck className="h-3 w-3" />
+                    Always allow sender
+                  </button>
+                )}
+                {!isSenderBlocked && (
+                  <button
+                    onClick={handleBlockSender}
+                    disabled={isPending}
+                    className="inline-flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-900 dark:text-red-400 dark:hover:text-red-200 disabled:opacity-50"
+                  >
+                    <Ban className="h-3 w-3" />
+                    Block sender
+                  </button>
+                )}
+              </div>
+              {spamError && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{spamError}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Customer */}
       {ticket.customer && (
         <div className="space-y-3">
@@ -223,6 +313,22 @@ export function TicketSidebar({
                   </a>
                   <CopyButton text={ticket.customer.email} />
                 </div>
+                {ticket.customer.email_invalid && (
+                  <div
+                    className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400"
+                    title={ticket.customer.email_invalid_reason || undefined}
+                  >
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    <span>Email bounced, address may be invalid</span>
+                  </div>
+                )}
+                {ticket.customer.segments && ticket.customer.segments.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-0.5">
+                    {ticket.customer.segments.map((segment) => (
+                      <SegmentBadge key={segment.id} segment={segment} />
+                    ))}
+                  </div>
+                )}
                 {shopifyCustomer?.location && (
                   <div className="flex items-center gap-1 text-sm text-zinc-500 dark:text-zinc-400">
                     <MapPin className="h-3 w-3 shrink-0" />
@@ -373,8 +479,54 @@ export function TicketSidebar({
         </dl>
       </div>
 
+      {/* SLA */}
+      {slaDeadlines.length > 0 && (
+        <div className="space-y-2 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+          <label className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+            <Timer className="h-3.5 w-3.5" />
+            SLA
+          </label>
+          <dl className="space-y-1 text-sm">
+            {slaDeadlines.map((deadline) => {
+              const missed =
+                deadline.metAt !== null && new Date(deadline.metAt) > new Date(deadline.dueAt);
+              const isClosed = ticket.status === 'closed';
+
+              return (
+                <div key={deadline.metric} className="flex items-center justify-between">
+                  <dt className="text-zinc-500 dark:text-zinc-400">
+                    {slaMetricLabels[deadline.metric]}
+                  </dt>
+                  <dd title={`Due ${formatDate(deadline.dueAt)}`}>
+                    {deadline.metAt ? (
+                      <span className={missed ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                        {missed ? 'Missed' : 'Met'}
+                      </span>
+                    ) : isClosed ? (
+                      <span className="text-zinc-400">—</span>
+                    ) : (
+                      <SlaBadge dueAt={deadline.dueAt} size="sm" />
+                    )}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+      )}
+
+      {/* Customer satisfaction */}
+      <CsatSection ticketId={ticket.id} />
+
+      {/* Orders mentioned in the customer's emails */}
+      <LinkedOrders ticketId={ticket.id} />
+
       {/* Order History (Shopify) */}
-      <OrderHistory customerEmail={ticket.customer?.email || null} />
+      <OrderHistory
+        ticketId={ticket.id}
+        brandId={ticket.brand_id}
+        customerEmail={ticket.customer?.email || null}
+      />
 
       {/* Return History (Return Logic) */}
       <ReturnHistory customerEmail={ticket.customer?.email || null} />
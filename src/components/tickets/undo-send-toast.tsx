@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface UndoSendToastProps {
+  outboundId: string;
+  expiresAt: number;
+  onUndo: (outboundId: string) => void;
+  onExpire: (outboundId: string) => void;
+}
+
+/**
+ * Countdown shown while a reply sits in its undo window. Calls onExpire
+ * once the window closes so the reply can go out straight away.
+ */
+export function UndoSendToast({ outboundId, expiresAt, onUndo, onExpire }: UndoSendToastProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const secondsLeft = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    const timeout = setTimeout(() => onExpire(outboundId), Math.max(0, expiresAt - Date.now()));
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(timeout);
+    };
+  }, [outboundId, expiresAt, onExpire]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center gap-3 rounded-lg border border-zinc-200 bg-white px-4 py-3 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+        <span className="text-sm">
+          Sending reply in <span className="font-medium tabular-nums">{secondsLeft}s</span>
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={() => onUndo(outboundId)}>
+          <Undo2 className="mr-2 h-4 w-4" />
+          Undo
+        </Button>
+      </div>
+    </div>
+  );
+}
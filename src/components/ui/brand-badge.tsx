@@ -1,7 +1,7 @@
 import type { Brand } from '@/lib/supabase/types';
 
 interface BrandBadgeProps {
-  brand: Brand | null | undefined;
+  brand: Pick<Brand, 'name' | 'color'> | null | undefined;
   size?: 'sm' | 'md';
 }
 
@@ -2,8 +2,10 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { callClaude } from '@/lib/ai';
-import { getCustomerOrders, type ShopifyOrder } from '@/lib/shopify';
-import type { Message, CannedResponse, Resource, Tag } from '@/lib/supabase/types';
+import { getOrder, type ShopifyOrder } from '@/lib/shopify';
+import { getShopifyStoreByDomain } from '@/lib/shopify-stores';
+import { getCustomerOrdersWithCache } from '@/lib/shopify-sync';
+import type { Message, CannedResponse, Resource, Tag, TicketOrder } from '@/lib/supabase/types';
 
 interface TicketContext {
   ticketNumber: number;
@@ -15,6 +17,7 @@ interface TicketContext {
   customerEmail: string | null;
   messages: Message[];
   orders: ShopifyOrder[];
+  linkedOrders: ShopifyOrder[]; // Orders the customer asked about, placed under their email
   cannedResponses: CannedResponse[];
   resources: Resource[];
 }
@@ -115,7 +118,11 @@ function buildSystemPrompt(context: TicketContext): string {
   const hasResources = context.resources.length > 0;
 
   return `You are a helpful customer support agent for NoLimits (a golf training product company). Your job is to draft a response to the customer's latest message.
-
+${context.linkedOrders.length > 0 ? `
+## Order This Ticket Is About
+The customer referred to ${context.linkedOrders.length === 1 ? 'this order' : 'these orders'} in their email. Base your answer on ${context.linkedOrders.length === 1 ? 'it' : 'them'}.
+${formatOrdersForContext(context.linkedOrders)}
+` : ''}
 ## IMPORTANT: Resource Library First
 ${hasResources ? `You have access to our official Resource Library below. This is your PRIMARY knowledge base.
 
@@ -152,7 +159,7 @@ ${hasResources ? `You have access to our official Resource Library below. This i
 - Email: ${context.customerEmail || 'Unknown'}
 
 ## Customer's Order History
-${formatOrdersForContext(context.orders)}
+${formatOrdersForContext(context.orders.filter(order => !context.linkedOrders.some(linked => linked.id === order.id)))}
 
 ## 📚 OFFICIAL RESOURCE LIBRARY
 ${hasResources ? `**Always prefer linking to these official resources rather than explaining things from scratch.**
@@ -212,13 +219,44 @@ export async function generateSuggestedReply(ticketId: string): Promise<{ sugges
       .order('category', { ascending: true, nullsFirst: false })
       .order('title');
 
-    // Fetch Shopify orders if customer has email
+    // Fetch Shopify orders if customer has email (cached once synced)
     let orders: ShopifyOrder[] = [];
     if (ticket.customer?.email) {
-      const shopifyData = await getCustomerOrders(ticket.customer.email);
+      const shopifyData = await getCustomerOrdersWithCache(
+        supabase,
+        ticket.customer.email,
+        ticket.brand_id
+      );
       orders = shopifyData.orders;
     }
 
+    // Orders linked from the customer's emails. Ones placed under another
+    // email are left out so a guessed order number can't reveal its details.
+    const { data: ticketOrders } = await supabase
+      .from('ticket_orders')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .eq('email_matches', true)
+      .order('created_at', { ascending: true });
+
+    const linkedOrders: ShopifyOrder[] = [];
+    for (const linked of (ticketOrders || []) as TicketOrder[]) {
+      const order = orders.find(o => o.id === linked.shopify_order_id);
+      if (order) {
+        linkedOrders.push(order);
+        continue;
+      }
+
+      // Older than the recent orders fetched above
+      try {
+        const store = await getShopifyStoreByDomain(linked.shop_domain);
+        if (!store) continue;
+        linkedOrders.push(await getOrder(store, linked.shopify_order_id));
+      } catch (error) {
+        console.error(`Error loading linked order ${linked.order_name}:`, error);
+      }
+    }
+
     // Extract tags from the nested structure
     const tags: Tag[] = (ticket.tags || [])
       .map((tt: { tag: Tag }) => tt.tag)
@@ -235,6 +273,7 @@ export async function generateSuggestedReply(ticketId: string): Promise<{ sugges
       customerEmail: ticket.customer?.email || null,
       messages: (messages || []) as Message[],
       orders,
+      linkedOrders,
       cannedResponses: (cannedResponses || []) as CannedResponse[],
       resources: (resources || []) as Resource[],
     };
@@ -2,12 +2,14 @@
 
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
+import { clampSimulationDays, simulateKeywordRule, type RuleTestResult } from '@/lib/automation';
 import type { TicketPriority } from '@/lib/supabase/types';
 
 export interface AutoPriorityRule {
   id: string;
   name: string;
   keywords: string[];
+  segment_ids: string[]; // Customer segments; the ticket's customer must be in one
   priority: TicketPriority;
   match_subject: boolean;
   match_body: boolean;
@@ -19,6 +21,7 @@ export interface AutoPriorityRule {
 export interface CreateAutoPriorityRuleInput {
   name: string;
   keywords: string[];
+  segment_ids?: string[];
   priority: TicketPriority;
   match_subject: boolean;
   match_body: boolean;
@@ -29,6 +32,7 @@ export interface UpdateAutoPriorityRuleInput {
   id: string;
   name?: string;
   keywords?: string[];
+  segment_ids?: string[];
   priority?: TicketPriority;
   match_subject?: boolean;
   match_body?: boolean;
@@ -75,22 +79,24 @@ export async function createAutoPriorityRule(
     return { error: 'Rule name is required' };
   }
 
-  if (!input.keywords.length || input.keywords.every((k) => !k.trim())) {
-    return { error: 'At least one keyword is required' };
+  // Filter out empty keywords
+  const keywords = input.keywords.filter((k) => k.trim()).map((k) => k.trim().toLowerCase());
+  const segmentIds = input.segment_ids || [];
+
+  if (!keywords.length && !segmentIds.length) {
+    return { error: 'Add at least one keyword or customer segment' };
   }
 
-  if (!input.match_subject && !input.match_body) {
+  if (keywords.length && !input.match_subject && !input.match_body) {
     return { error: 'At least one match field (subject or body) must be selected' };
   }
 
-  // Filter out empty keywords
-  const keywords = input.keywords.filter((k) => k.trim()).map((k) => k.trim().toLowerCase());
-
   const { data, error } = await supabase
     .from('auto_priority_rules')
     .insert({
       name: input.name.trim(),
       keywords,
+      segment_ids: segmentIds,
       priority: input.priority,
       match_subject: input.match_subject,
       match_body: input.match_body,
@@ -123,12 +129,23 @@ export async function updateAutoPriorityRule(
   }
 
   if (input.keywords !== undefined) {
-    if (!input.keywords.length || input.keywords.every((k) => !k.trim())) {
-      return { error: 'At least one keyword is required' };
-    }
     updateData.keywords = input.keywords.filter((k) => k.trim()).map((k) => k.trim().toLowerCase());
   }
 
+  if (input.segment_ids !== undefined) {
+    updateData.segment_ids = input.segment_ids;
+  }
+
+  // The form always sends both, so check them together
+  if (
+    input.keywords !== undefined &&
+    input.segment_ids !== undefined &&
+    !(updateData.keywords as string[]).length &&
+    !input.segment_ids.length
+  ) {
+    return { error: 'Add at least one keyword or customer segment' };
+  }
+
   if (input.priority !== undefined) {
     updateData.priority = input.priority;
   }
@@ -145,9 +162,10 @@ export async function updateAutoPriorityRule(
     updateData.is_active = input.is_active;
   }
 
-  // Validate match fields
+  // Validate match fields; they don't matter for a rule with only segments
   if (
     (input.match_subject !== undefined || input.match_body !== undefined) &&
+    (updateData.keywords === undefined || (updateData.keywords as string[]).length > 0) &&
     input.match_subject === false &&
     input.match_body === false
   ) {
@@ -205,3 +223,53 @@ export async function toggleAutoPriorityRule(
   revalidatePath('/settings/priority-rules');
   return { success: true };
 }
+
+/**
+ * Dry-run an unsaved rule over recent tickets and report which ones it
+ * would have re-prioritised. Like the live rule, only the first message is
+ * checked and only tickets still at medium priority would change. Segments
+ * are checked against the customers' current membership, so a rule with
+ * only segments matches every recent ticket from those customers.
+ */
+export async function simulateAutoPriorityRule(
+  input: Pick<
+    CreateAutoPriorityRuleInput,
+    'keywords' | 'segment_ids' | 'priority' | 'match_subject' | 'match_body'
+  > & {
+    days: number;
+  }
+): Promise<{ result: RuleTestResult } | { error: string }> {
+  const hasKeywords = input.keywords.some((k) => k.trim());
+
+  if (!hasKeywords && !input.segment_ids?.length) {
+    return { error: 'Add a keyword or customer segment to test this rule' };
+  }
+
+  if (hasKeywords && !input.match_subject && !input.match_body) {
+    return { error: 'Must match at least subject or body' };
+  }
+
+  const supabase = await createClient();
+
+  try {
+    const simulation = await simulateKeywordRule(supabase, input, { firstMessageOnly: true });
+
+    return {
+      result: {
+        days: clampSimulationDays(input.days),
+        scanned: simulation.scanned,
+        truncated: simulation.truncated,
+        matches: simulation.matches.map((match) => ({
+          ...match,
+          change:
+            match.priority === 'medium' && input.priority !== 'medium'
+              ? `Priority medium → ${input.priority}`
+              : null,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Simulate auto priority rule error:', error);
+    return { error: 'Failed to test rule' };
+  }
+}
@@ -2,6 +2,7 @@
 
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
+import { clampSimulationDays, simulateKeywordRule, type RuleTestResult } from '@/lib/automation';
 import type { AutoTagRule } from '@/lib/supabase/types';
 
 export interface CreateAutoTagRuleInput {
@@ -166,23 +167,42 @@ export async function deleteAutoTagRule(
   return { success: true };
 }
 
-export async function applyAutoTags(
-  ticketId: string,
-  subject?: string,
-  body?: string
-): Promise<{ appliedTagIds: string[] } | { error: string }> {
-  const supabase = await createClient();
-
-  const { data, error } = await supabase.rpc('apply_auto_tags', {
-    p_ticket_id: ticketId,
-    p_subject: subject || null,
-    p_body: body || null,
-  });
+/**
+ * Dry-run an unsaved rule over recent tickets and report which ones it
+ * would have tagged. Nothing is written.
+ */
+export async function simulateAutoTagRule(
+  input: Pick<CreateAutoTagRuleInput, 'keywords' | 'tag_id' | 'match_subject' | 'match_body'> & {
+    days: number;
+  }
+): Promise<{ result: RuleTestResult } | { error: string }> {
+  if (!input.keywords.some((k) => k.trim())) {
+    return { error: 'At least one keyword is required' };
+  }
 
-  if (error) {
-    console.error('Apply auto tags error:', error);
-    return { error: 'Failed to apply auto tags' };
+  if (!input.match_subject && !input.match_body) {
+    return { error: 'Must match at least subject or body' };
   }
 
-  return { appliedTagIds: data || [] };
+  const supabase = await createClient();
+
+  try {
+    const simulation = await simulateKeywordRule(supabase, input, { firstMessageOnly: false });
+
+    return {
+      result: {
+        days: clampSimulationDays(input.days),
+        scanned: simulation.scanned,
+        truncated: simulation.truncated,
+        matches: simulation.matches.map((match) => ({
+          ...match,
+          change:
+            input.tag_id && !match.tag_ids.includes(input.tag_id) ? 'Tag would be added' : null,
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Simulate auto tag rule error:', error);
+    return { error: 'Failed to test rule' };
+  }
 }
@@ -0,0 +1,276 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { compileRulePattern } from '@/lib/automation';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationEvent,
+  AutomationRule,
+} from '@/lib/supabase/types';
+
+export interface AutomationRuleInput {
+  name: string;
+  description: string | null;
+  events: AutomationEvent[];
+  match_type: 'all' | 'any';
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  stop_processing: boolean;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validateCondition(condition: AutomationCondition): string | null {
+  switch (condition.type) {
+    case 'keywords':
+      return condition.keywords.some((k) => k.trim()) ? null : 'Keyword conditions need at least one keyword';
+    case 'regex':
+      if (!condition.pattern) return 'Regex conditions need a pattern';
+      return compileRulePattern(condition.pattern) ? null : `Invalid regex: ${condition.pattern}`;
+    case 'brand':
+      return condition.brand_ids.length > 0 ? null : 'Select at least one brand';
+    case 'channel':
+      return condition.channels.length > 0 ? null : 'Select at least one channel';
+    case 'customer_email_domain':
+      return condition.domains.some((d) => d.trim()) ? null : 'Enter at least one email domain';
+    case 'customer_order_count':
+    case 'customer_lifetime_value':
+      return Number.isFinite(condition.value) && condition.value >= 0
+        ? null
+        : 'Enter a number of zero or more';
+    case 'customer_segment':
+      return condition.segment_ids.length > 0 ? null : 'Select at least one customer segment';
+    case 'time_of_day':
+      if (!TIME_PATTERN.test(condition.start) || !TIME_PATTERN.test(condition.end)) {
+        return 'Times must use HH:MM format';
+      }
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: condition.timezone });
+      } catch {
+        return 'Invalid timezone';
+      }
+      return null;
+    case 'priority':
+      return condition.priorities.length > 0 ? null : 'Select at least one priority';
+    case 'status':
+      return condition.statuses.length > 0 ? null : 'Select at least one status';
+    default:
+      return 'Unknown condition';
+  }
+}
+
+function validateAction(action: AutomationAction): string | null {
+  switch (action.type) {
+    case 'assign_agent':
+      return action.agent_id ? null : 'Select an agent to assign';
+    case 'assign_team':
+      return action.team_id ? null : 'Select a team to assign';
+    case 'add_tag':
+    case 'remove_tag':
+      return action.tag_id ? null : 'Select a tag';
+    case 'set_priority':
+      return action.priority ? null : 'Select a priority';
+    case 'set_status':
+      return action.status ? null : 'Select a status';
+    case 'send_canned_response':
+      return action.canned_response_id ? null : 'Select a canned response';
+    case 'add_internal_note':
+      return action.content.trim() ? null : 'Internal notes need some content';
+    default:
+      return 'Unknown action';
+  }
+}
+
+function validateAutomationRule(input: AutomationRuleInput): string | null {
+  if (!input.name.trim()) {
+    return 'Rule name is required';
+  }
+
+  if (input.events.length === 0) {
+    return 'Select at least one trigger';
+  }
+
+  if (input.actions.length === 0) {
+    return 'At least one action is required';
+  }
+
+  for (const condition of input.conditions) {
+    const error = validateCondition(condition);
+    if (error) return error;
+  }
+
+  for (const action of input.actions) {
+    const error = validateAction(action);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+function normalizeInput(input: AutomationRuleInput) {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    events: input.events,
+    match_type: input.match_type,
+    conditions: input.conditions.map((condition) => {
+      if (condition.type === 'keywords') {
+        return { ...condition, keywords: condition.keywords.map((k) => k.trim()).filter(Boolean) };
+      }
+      if (condition.type === 'customer_email_domain') {
+        return {
+          ...condition,
+          domains: condition.domains.map((d) => d.trim().toLowerCase()).filter(Boolean),
+        };
+      }
+      return condition;
+    }),
+    actions: input.actions,
+    stop_processing: input.stop_processing,
+  };
+}
+
+export async function getAutomationRules(): Promise<
+  { rules: AutomationRule[] } | { error: string }
+> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get automation rules error:', error);
+    return { error: 'Failed to fetch automation rules' };
+  }
+
+  return { rules: data as AutomationRule[] };
+}
+
+export async function createAutomationRule(
+  input: AutomationRuleInput
+): Promise<{ rule: AutomationRule } | { error: string }> {
+  const validationError = validateAutomationRule(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const supabase = await createClient();
+
+  // New rules go to the end of the list
+  const { data: lastRule } = await supabase
+    .from('automation_rules')
+    .select('position')
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .insert({
+      ...normalizeInput(input),
+      position: lastRule ? lastRule.position + 1 : 0,
+      is_active: true,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create automation rule error:', error);
+    return { error: 'Failed to create automation rule' };
+  }
+
+  revalidatePath('/settings/automations');
+  return { rule: data as AutomationRule };
+}
+
+export async function updateAutomationRule(
+  id: string,
+  input: AutomationRuleInput
+): Promise<{ rule: AutomationRule } | { error: string }> {
+  const validationError = validateAutomationRule(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .update(normalizeInput(input))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update automation rule error:', error);
+    return { error: 'Failed to update automation rule' };
+  }
+
+  revalidatePath('/settings/automations');
+  return { rule: data as AutomationRule };
+}
+
+export async function deleteAutomationRule(
+  id: string
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('automation_rules').delete().eq('id', id);
+
+  if (error) {
+    console.error('Delete automation rule error:', error);
+    return { error: 'Failed to delete automation rule' };
+  }
+
+  revalidatePath('/settings/automations');
+  return { success: true };
+}
+
+export async function toggleAutomationRule(
+  id: string,
+  isActive: boolean
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('automation_rules')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Toggle automation rule error:', error);
+    return { error: 'Failed to toggle automation rule' };
+  }
+
+  revalidatePath('/settings/automations');
+  return { success: true };
+}
+
+/**
+ * Save a new evaluation order, given rule ids from first to last
+ */
+export async function reorderAutomationRules(
+  orderedIds: string[]
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const results = await Promise.all(
+    orderedIds.map((id, position) =>
+      supabase.from('automation_rules').update({ position }).eq('id', id)
+    )
+  );
+
+  const failed = results.find((r) => r.error);
+  if (failed) {
+    console.error('Reorder automation rules error:', failed.error);
+    return { error: 'Failed to reorder automation rules' };
+  }
+
+  revalidatePath('/settings/automations');
+  return { success: true };
+}
@@ -1,7 +1,21 @@
 'use server';
 
+import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
-import type { Brand } from '@/lib/supabase/types';
+import type { Brand, ClosedTicketReplyPolicy } from '@/lib/supabase/types';
+
+export interface BrandHoursSettingsInput {
+  calendar_id: string | null;
+  out_of_hours_reply_enabled: boolean;
+  out_of_hours_reply_message: string | null;
+}
+
+export interface BrandThreadingSettingsInput {
+  closed_ticket_reply: ClosedTicketReplyPolicy;
+  reopen_window_days: number | null;
+}
+
+const MAX_REPLY_MESSAGE_LENGTH = 2000;
 
 export async function getBrands(): Promise<{ brands: Brand[]; error?: string }> {
   const supabase = await createClient();
@@ -59,3 +73,112 @@ export async function getBrandByEmail(email: string): Promise<{ brand: Brand | n
 
   return { brand };
 }
+
+export async function updateBrandHoursSettings(
+  brandId: string,
+  input: BrandHoursSettingsInput
+): Promise<{ brand: Brand } | { error: string }> {
+  const message = input.out_of_hours_reply_message?.trim() || null;
+
+  if (message && message.length > MAX_REPLY_MESSAGE_LENGTH) {
+    return { error: `Reply message must be ${MAX_REPLY_MESSAGE_LENGTH} characters or fewer` };
+  }
+
+  if (input.out_of_hours_reply_enabled && !input.calendar_id) {
+    return { error: 'Choose business hours before turning on out-of-hours replies' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Only admins can change business hours' };
+  }
+
+  const { data, error } = await supabase
+    .from('brands')
+    .update({
+      calendar_id: input.calendar_id,
+      out_of_hours_reply_enabled: input.out_of_hours_reply_enabled,
+      out_of_hours_reply_message: message,
+    })
+    .eq('id', brandId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update brand hours settings error:', error);
+    return { error: 'Failed to update business hours' };
+  }
+
+  revalidatePath('/settings/brands');
+  return { brand: data as Brand };
+}
+
+export async function updateBrandThreadingSettings(
+  brandId: string,
+  input: BrandThreadingSettingsInput
+): Promise<{ brand: Brand } | { error: string }> {
+  if (!['reopen', 'new_ticket'].includes(input.closed_ticket_reply)) {
+    return { error: 'Invalid closed ticket setting' };
+  }
+
+  if (
+    input.reopen_window_days !== null &&
+    (!Number.isInteger(input.reopen_window_days) || input.reopen_window_days < 1)
+  ) {
+    return { error: 'Reopen window must be at least one day' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Only admins can change email threading' };
+  }
+
+  const { data, error } = await supabase
+    .from('brands')
+    .update({
+      closed_ticket_reply: input.closed_ticket_reply,
+      // The window only limits reopening
+      reopen_window_days: input.closed_ticket_reply === 'reopen' ? input.reopen_window_days : null,
+    })
+    .eq('id', brandId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update brand threading settings error:', error);
+    return { error: 'Failed to update email threading' };
+  }
+
+  revalidatePath('/settings/email-threading');
+  return { brand: data as Brand };
+}
@@ -0,0 +1,198 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient as createServiceRoleClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { isValidCsatScore } from '@/lib/csat';
+import type { Brand, CsatSurvey } from '@/lib/supabase/types';
+
+export interface BrandCsatSettingsInput {
+  csat_enabled: boolean;
+  csat_delay_minutes: number;
+  csat_cooldown_days: number;
+}
+
+// What the public survey page is allowed to see
+export interface PublicCsatSurvey {
+  score: number | null;
+  comment: string | null;
+  ticket_number: number;
+  brand: Pick<Brand, 'name' | 'color' | 'logo_url'> | null;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// The survey page is public, so it reads and writes with the service role
+// rather than a (missing) user session
+function getServiceSupabase() {
+  return createServiceRoleClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export async function getTicketCsatSurveys(
+  ticketId: string
+): Promise<{ surveys: CsatSurvey[] } | { error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('csat_surveys')
+    .select('*')
+    .eq('ticket_id', ticketId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Get ticket CSAT surveys error:', error);
+    return { error: 'Failed to fetch surveys' };
+  }
+
+  return { surveys: (data || []) as CsatSurvey[] };
+}
+
+export async function updateBrandCsatSettings(
+  brandId: string,
+  input: BrandCsatSettingsInput
+): Promise<{ brand: Brand } | { error: string }> {
+  if (!Number.isInteger(input.csat_delay_minutes) || input.csat_delay_minutes < 0) {
+    return { error: 'Delay must be zero or more minutes' };
+  }
+
+  if (!Number.isInteger(input.csat_cooldown_days) || input.csat_cooldown_days < 0) {
+    return { error: 'Cooldown must be zero or more days' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Only admins can change survey settings' };
+  }
+
+  const { data, error } = await supabase
+    .from('brands')
+    .update({
+      csat_enabled: input.csat_enabled,
+      csat_delay_minutes: input.csat_delay_minutes,
+      csat_cooldown_days: input.csat_cooldown_days,
+    })
+    .eq('id', brandId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update brand CSAT settings error:', error);
+    return { error: 'Failed to update survey settings' };
+  }
+
+  revalidatePath('/settings/csat');
+  return { brand: data as Brand };
+}
+
+/**
+ * Look up a survey for the public survey page. Only surveys that were
+ * actually emailed can be answered.
+ */
+export async function getPublicCsatSurvey(
+  token: string
+): Promise<{ survey: PublicCsatSurvey } | { error: string }> {
+  const supabase = getServiceSupabase();
+
+  const { data, error } = await supabase
+    .from('csat_surveys')
+    .select('score, comment, ticket:tickets(ticket_number), brand:brands(name, color, logo_url)')
+    .eq('token', token)
+    .not('sent_at', 'is', null)
+    .maybeSingle();
+
+  if (error || !data) {
+    return { error: 'Survey not found' };
+  }
+
+  const survey = data as unknown as Omit<PublicCsatSurvey, 'ticket_number'> & {
+    ticket: { ticket_number: number } | null;
+  };
+
+  return {
+    survey: {
+      score: survey.score,
+      comment: survey.comment,
+      ticket_number: survey.ticket?.ticket_number ?? 0,
+      brand: survey.brand,
+    },
+  };
+}
+
+/**
+ * Record a customer's rating, and optionally a comment, from the public
+ * survey page. Customers can change their answer later through the same link.
+ */
+export async function submitCsatResponse(
+  token: string,
+  score: number,
+  comment?: string
+): Promise<{ success: true } | { error: string }> {
+  if (!isValidCsatScore(score)) {
+    return { error: 'Please choose a rating from 1 to 5' };
+  }
+
+  const supabase = getServiceSupabase();
+
+  const { data: survey } = await supabase
+    .from('csat_surveys')
+    .select('id, ticket_id, score, comment')
+    .eq('token', token)
+    .not('sent_at', 'is', null)
+    .maybeSingle();
+
+  if (!survey) {
+    return { error: 'Survey not found' };
+  }
+
+  const trimmedComment =
+    comment === undefined ? survey.comment : comment.trim().slice(0, MAX_COMMENT_LENGTH) || null;
+
+  if (survey.score === score && survey.comment === trimmedComment) {
+    return { success: true };
+  }
+
+  const { error } = await supabase
+    .from('csat_surveys')
+    .update({
+      score,
+      comment: trimmedComment,
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', survey.id);
+
+  if (error) {
+    console.error('Submit CSAT response error:', error);
+    return { error: 'Failed to save your response' };
+  }
+
+  if (survey.score !== score) {
+    await supabase.from('ticket_activities').insert({
+      ticket_id: survey.ticket_id,
+      actor_id: null,
+      action: 'csat_rated',
+      old_value: survey.score === null ? null : String(survey.score),
+      new_value: String(score),
+      metadata: {},
+    });
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,180 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { normalizeIdentityValue } from '@/lib/customer-identities';
+import { customerIdentitySchema, uuidSchema, type CustomerIdentityInput } from '@/lib/validations';
+import type { CustomerIdentity, CustomerIdentityType } from '@/lib/supabase/types';
+
+// Only these can be primary; they're mirrored in customers.email and customers.phone
+const PRIMARY_COLUMNS: Partial<Record<CustomerIdentityType, 'email' | 'phone'>> = {
+  email: 'email',
+  phone: 'phone',
+};
+
+const identityLabels: Record<CustomerIdentityType, string> = {
+  email: 'email address',
+  phone: 'phone number',
+  facebook: 'Facebook ID',
+  instagram: 'Instagram ID',
+};
+
+export async function getCustomerIdentities(
+  customerId: string
+): Promise<{ identities: CustomerIdentity[] } | { error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('customer_identities')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('type')
+    .order('is_primary', { ascending: false })
+    .order('created_at');
+
+  if (error) {
+    console.error('Get customer identities error:', error);
+    return { error: 'Failed to fetch identities' };
+  }
+
+  return { identities: data as CustomerIdentity[] };
+}
+
+/**
+ * Add an email, phone number or social ID to a customer. A customer's first
+ * phone number becomes their primary one.
+ */
+export async function addCustomerIdentity(
+  input: CustomerIdentityInput
+): Promise<{ identity: CustomerIdentity } | { error: string }> {
+  const parsed = customerIdentitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+  const { customer_id: customerId, type } = parsed.data;
+  const value = normalizeIdentityValue(type, parsed.data.value);
+
+  const { data, error } = await supabase
+    .from('customer_identities')
+    .insert({ customer_id: customerId, type, value })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { error: `This ${identityLabels[type]} already belongs to a customer` };
+    }
+    console.error('Add customer identity error:', error);
+    return { error: 'Failed to add identity' };
+  }
+
+  let identity = data as CustomerIdentity;
+
+  if (type === 'phone') {
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('phone')
+      .eq('id', customerId)
+      .single();
+
+    if (customer && !customer.phone) {
+      await supabase.from('customers').update({ phone: value }).eq('id', customerId);
+      identity = { ...identity, is_primary: true };
+    }
+  }
+
+  revalidatePath(`/customers/${customerId}`);
+  return { identity };
+}
+
+/**
+ * Remove one of a customer's identities. Primary ones can't be removed
+ * until another is made primary.
+ */
+export async function removeCustomerIdentity(
+  identityId: string,
+  customerId: string
+): Promise<{ success: boolean } | { error: string }> {
+  const parsed = uuidSchema.safeParse(identityId);
+  if (!parsed.success) {
+    return { error: 'Invalid identity ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: identity } = await supabase
+    .from('customer_identities')
+    .select('type, is_primary')
+    .eq('id', parsed.data)
+    .eq('customer_id', customerId)
+    .single();
+
+  if (!identity) {
+    return { error: 'Identity not found' };
+  }
+
+  if (identity.is_primary) {
+    return {
+      error: `Make another ${identityLabels[identity.type as CustomerIdentityType]} primary before removing this one`,
+    };
+  }
+
+  const { error } = await supabase.from('customer_identities').delete().eq('id', parsed.data);
+
+  if (error) {
+    console.error('Remove customer identity error:', error);
+    return { error: 'Failed to remove identity' };
+  }
+
+  revalidatePath(`/customers/${customerId}`);
+  return { success: true };
+}
+
+/**
+ * Make an email or phone number the customer's primary one. Replies go to
+ * the primary email.
+ */
+export async function setPrimaryCustomerIdentity(
+  identityId: string,
+  customerId: string
+): Promise<{ success: boolean } | { error: string }> {
+  const parsed = uuidSchema.safeParse(identityId);
+  if (!parsed.success) {
+    return { error: 'Invalid identity ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: identity } = await supabase
+    .from('customer_identities')
+    .select('type, value')
+    .eq('id', parsed.data)
+    .eq('customer_id', customerId)
+    .single();
+
+  if (!identity) {
+    return { error: 'Identity not found' };
+  }
+
+  const column = PRIMARY_COLUMNS[identity.type as CustomerIdentityType];
+  if (!column) {
+    return { error: 'Only emails and phone numbers can be primary' };
+  }
+
+  // A trigger moves the primary flag to match
+  const { error } = await supabase
+    .from('customers')
+    .update({ [column]: identity.value })
+    .eq('id', customerId);
+
+  if (error) {
+    console.error('Set primary customer identity error:', error);
+    return { error: 'Failed to update primary identity' };
+  }
+
+  revalidatePath(`/customers/${customerId}`);
+  revalidatePath('/customers');
+  return { success: true };
+}
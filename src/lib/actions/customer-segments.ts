@@ -0,0 +1,170 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import {
+  createCustomerSegmentSchema,
+  updateCustomerSegmentSchema,
+  uuidSchema,
+  type CreateCustomerSegmentInput,
+  type UpdateCustomerSegmentInput,
+} from '@/lib/validations';
+import type { CustomerSegment } from '@/lib/supabase/types';
+
+type SegmentRow = Omit<CustomerSegment, 'member_count'> & {
+  customer_segment_members: { count: number }[];
+};
+
+function toSegment(row: SegmentRow): CustomerSegment {
+  const { customer_segment_members: members, ...segment } = row;
+  return {
+    ...segment,
+    min_lifetime_value: segment.min_lifetime_value === null ? null : Number(segment.min_lifetime_value),
+    member_count: members[0]?.count ?? 0,
+  };
+}
+
+// Read back after saving; the member count comes from triggers that run with the save
+async function fetchSegment(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  segmentId: string
+): Promise<CustomerSegment | null> {
+  const { data } = await supabase
+    .from('customer_segments')
+    .select('*, customer_segment_members(count)')
+    .eq('id', segmentId)
+    .single();
+
+  return data ? toSegment(data as SegmentRow) : null;
+}
+
+function normalizeSegmentInput(input: CreateCustomerSegmentInput) {
+  return {
+    name: input.name,
+    color: input.color,
+    description: input.description || null,
+    min_lifetime_value: input.min_lifetime_value,
+    min_order_count: input.min_order_count,
+    countries: [...new Set(input.countries)],
+    tag_ids: [...new Set(input.tag_ids)],
+    note_keywords: [...new Set(input.note_keywords.map((k) => k.toLowerCase()))],
+  };
+}
+
+function segmentError(error: { code?: string; message: string }, action: string): string {
+  if (error.code === '23505') {
+    return 'A segment with this name already exists';
+  }
+  if (error.code === '42501') {
+    return 'Permission denied. Only admins can manage segments.';
+  }
+  return `Failed to ${action} segment`;
+}
+
+export async function getCustomerSegments(): Promise<
+  { segments: CustomerSegment[] } | { error: string }
+> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('customer_segments')
+    .select('*, customer_segment_members(count)')
+    .order('name');
+
+  if (error) {
+    console.error('Get customer segments error:', error);
+    return { error: 'Failed to fetch segments' };
+  }
+
+  return { segments: (data as SegmentRow[]).map(toSegment) };
+}
+
+/**
+ * Save a new segment. Existing customers who match are added straight away.
+ */
+export async function createCustomerSegment(
+  input: CreateCustomerSegmentInput
+): Promise<{ segment: CustomerSegment } | { error: string }> {
+  const parsed = createCustomerSegmentSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('customer_segments')
+    .insert(normalizeSegmentInput(parsed.data))
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Create customer segment error:', error);
+    return { error: segmentError(error, 'create') };
+  }
+
+  const segment = await fetchSegment(supabase, data.id);
+  if (!segment) {
+    return { error: 'Failed to load segment' };
+  }
+
+  revalidatePath('/settings/segments');
+  return { segment };
+}
+
+export async function updateCustomerSegment(
+  input: UpdateCustomerSegmentInput
+): Promise<{ segment: CustomerSegment } | { error: string }> {
+  const parsed = updateCustomerSegmentSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('customer_segments')
+    .update(normalizeSegmentInput(parsed.data))
+    .eq('id', parsed.data.id);
+
+  if (error) {
+    console.error('Update customer segment error:', error);
+    return { error: segmentError(error, 'update') };
+  }
+
+  const segment = await fetchSegment(supabase, parsed.data.id);
+  if (!segment) {
+    return { error: 'Segment not found' };
+  }
+
+  revalidatePath('/settings/segments');
+  revalidatePath('/tickets');
+  return { segment };
+}
+
+/**
+ * Delete a segment. Priority rules stop matching on it, and rules left
+ * with nothing else to match are switched off.
+ */
+export async function deleteCustomerSegment(
+  segmentId: string
+): Promise<{ success: boolean } | { error: string }> {
+  const parsed = uuidSchema.safeParse(segmentId);
+  if (!parsed.success) {
+    return { error: 'Invalid segment ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('customer_segments').delete().eq('id', parsed.data);
+
+  if (error) {
+    console.error('Delete customer segment error:', error);
+    return { error: segmentError(error, 'delete') };
+  }
+
+  revalidatePath('/settings/segments');
+  revalidatePath('/settings/priority-rules');
+  revalidatePath('/tickets');
+  return { success: true };
+}
@@ -0,0 +1,332 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { htmlToText } from '@/lib/email';
+import { getCachedIntegrationData } from '@/lib/integration-cache';
+import { getCustomerRMAs, isReturnLogicConfigured, type ReturnLogicResponse } from '@/lib/returnlogic';
+import { getOrderAdminUrl, type ShopifyOrder } from '@/lib/shopify';
+import { getCustomerOrdersWithCache } from '@/lib/shopify-sync';
+
+export type CustomerTimelineFilter = 'tickets' | 'messages' | 'notes' | 'orders' | 'returns';
+
+export type CustomerTimelineEventKind =
+  | 'ticket_created'
+  | 'ticket_closed'
+  | 'customer_message'
+  | 'agent_reply'
+  | 'internal_note'
+  | 'customer_note'
+  | 'order_placed'
+  | 'order_fulfilled'
+  | 'order_cancelled'
+  | 'return_created';
+
+export interface CustomerTimelineEvent {
+  id: string; // Unique across kinds, e.g. "message:<id>"
+  kind: CustomerTimelineEventKind;
+  occurredAt: string;
+  title: string;
+  detail: string | null;
+  href: string | null; // A ticket in the app, or the order in Shopify
+  external: boolean; // href opens outside the app
+}
+
+export interface CustomerTimelinePage {
+  events: CustomerTimelineEvent[];
+  nextCursor: string | null; // Pass as `cursor` for the next page; null when there's no more
+}
+
+// Where a page ended: the last event's time, and the events at exactly that
+// time already shown, since the next page can have more at the same time
+interface TimelineCursor {
+  at: number; // Milliseconds
+  seenIds: string[];
+}
+
+const ALL_FILTERS: CustomerTimelineFilter[] = ['tickets', 'messages', 'notes', 'orders', 'returns'];
+const PAGE_SIZE = 30;
+const PREVIEW_LENGTH = 160;
+
+function preview(content: string): string {
+  const text = htmlToText(content).replace(/\s+/g, ' ').trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+function encodeCursor(cursor: TimelineCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string | null | undefined): TimelineCursor | null {
+  if (!value) return null;
+
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return Number.isFinite(cursor?.at) && Array.isArray(cursor.seenIds) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Newest first; events at the same time in a fixed order, so pages cut
+// between them consistently
+function compareEvents(a: CustomerTimelineEvent, b: CustomerTimelineEvent): number {
+  const byTime = new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+function formatMoney(amount: string, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+}
+
+function getOrderEvents(order: ShopifyOrder, shopDomain: string): CustomerTimelineEvent[] {
+  const href = getOrderAdminUrl(shopDomain, order.id);
+  const items = order.line_items.map((item) => `${item.quantity}× ${item.title}`).join(', ');
+
+  const events: CustomerTimelineEvent[] = [
+    {
+      id: `order:${order.id}`,
+      kind: 'order_placed',
+      occurredAt: order.created_at,
+      title: `Placed order ${order.name} · ${formatMoney(order.total_price, order.currency)}`,
+      detail: items || null,
+      href,
+      external: true,
+    },
+  ];
+
+  for (const fulfillment of order.fulfillments || []) {
+    if (!fulfillment.created_at) continue;
+
+    events.push({
+      id: `fulfillment:${fulfillment.id}`,
+      kind: 'order_fulfilled',
+      occurredAt: fulfillment.created_at,
+      title: `Order ${order.name} shipped`,
+      detail: fulfillment.tracking_number
+        ? [fulfillment.tracking_company, fulfillment.tracking_number].filter(Boolean).join(' ')
+        : null,
+      href: fulfillment.tracking_url || href,
+      external: true,
+    });
+  }
+
+  if (order.cancelled_at) {
+    events.push({
+      id: `order-cancelled:${order.id}`,
+      kind: 'order_cancelled',
+      occurredAt: order.cancelled_at,
+      title: `Order ${order.name} cancelled`,
+      detail: null,
+      href,
+      external: true,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * One page of everything that has happened with a customer, newest first:
+ * tickets opened and closed, messages, notes, Shopify orders and shipments,
+ * and Return Logic returns. Pass the previous page's `nextCursor` as
+ * `cursor` for the next one.
+ */
+export async function getCustomerTimeline(
+  customerId: string,
+  options: { filters?: CustomerTimelineFilter[]; cursor?: string | null } = {}
+): Promise<CustomerTimelinePage | { error: string }> {
+  const filters = new Set(options.filters?.length ? options.filters : ALL_FILTERS);
+  const cursor = decodeCursor(options.cursor);
+  const seenIds = new Set(cursor?.seenIds);
+  // Queries include the cursor's own millisecond, and what was already
+  // shown at that time is dropped below
+  const before = new Date(cursor ? cursor.at + 1 : Date.now()).toISOString();
+  const queryLimit = PAGE_SIZE + seenIds.size;
+  // Shopify and Return Logic timestamps aren't all in UTC, so compare as dates
+  const isAfterCursor = (event: CustomerTimelineEvent) => {
+    if (!cursor) return true;
+    const time = new Date(event.occurredAt).getTime();
+    return time < cursor.at || (time === cursor.at && !seenIds.has(event.id));
+  };
+  const supabase = await createClient();
+
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('id, email')
+    .eq('id', customerId)
+    .single();
+
+  if (!customer) {
+    return { error: 'Customer not found' };
+  }
+
+  const events: CustomerTimelineEvent[] = [];
+
+  try {
+    if (filters.has('tickets')) {
+      const [{ data: opened }, { data: closed }] = await Promise.all([
+        supabase
+          .from('tickets')
+          .select('id, ticket_number, subject, created_at')
+          .eq('customer_id', customerId)
+          .lt('created_at', before)
+          .order('created_at', { ascending: false })
+          .limit(queryLimit),
+        supabase
+          .from('tickets')
+          .select('id, ticket_number, subject, resolved_at')
+          .eq('customer_id', customerId)
+          .eq('status', 'closed')
+          .not('resolved_at', 'is', null)
+          .lt('resolved_at', before)
+          .order('resolved_at', { ascending: false })
+          .limit(queryLimit),
+      ]);
+
+      for (const ticket of opened || []) {
+        events.push({
+          id: `ticket:${ticket.id}`,
+          kind: 'ticket_created',
+          occurredAt: ticket.created_at,
+          title: `Opened ticket #${ticket.ticket_number}`,
+          detail: ticket.subject,
+          href: `/tickets/${ticket.id}`,
+          external: false,
+        });
+      }
+
+      for (const ticket of closed || []) {
+        events.push({
+          id: `ticket-closed:${ticket.id}`,
+          kind: 'ticket_closed',
+          occurredAt: ticket.resolved_at!,
+          title: `Ticket #${ticket.ticket_number} closed`,
+          detail: ticket.subject,
+          href: `/tickets/${ticket.id}`,
+          external: false,
+        });
+      }
+    }
+
+    if (filters.has('messages')) {
+      const { data: messages } = await supabase
+        .from('messages')
+        .select('id, ticket_id, sender_type, content, is_internal, created_at, ticket:tickets!inner(ticket_number, customer_id)')
+        .eq('ticket.customer_id', customerId)
+        .lt('created_at', before)
+        .order('created_at', { ascending: false })
+        .limit(queryLimit);
+
+      for (const message of messages || []) {
+        const ticket = Array.isArray(message.ticket) ? message.ticket[0] : message.ticket;
+        const kind: CustomerTimelineEventKind = message.is_internal
+          ? 'internal_note'
+          : message.sender_type === 'customer'
+            ? 'customer_message'
+            : 'agent_reply';
+
+        events.push({
+          id: `message:${message.id}`,
+          kind,
+          occurredAt: message.created_at,
+          title:
+            kind === 'customer_message'
+              ? `Wrote on ticket #${ticket?.ticket_number}`
+              : kind === 'agent_reply'
+                ? `Replied on ticket #${ticket?.ticket_number}`
+                : `Internal note on ticket #${ticket?.ticket_number}`,
+          detail: preview(message.content),
+          href: `/tickets/${message.ticket_id}`,
+          external: false,
+        });
+      }
+    }
+
+    if (filters.has('notes')) {
+      const { data: notes } = await supabase
+        .from('customer_notes')
+        .select('id, content, created_at, author:profiles!customer_notes_created_by_fkey(full_name, email)')
+        .eq('customer_id', customerId)
+        .lt('created_at', before)
+        .order('created_at', { ascending: false })
+        .limit(queryLimit);
+
+      for (const note of notes || []) {
+        const author = Array.isArray(note.author) ? note.author[0] : note.author;
+
+        events.push({
+          id: `note:${note.id}`,
+          kind: 'customer_note',
+          occurredAt: note.created_at,
+          title: `Note by ${author?.full_name || author?.email || 'a former agent'}`,
+          detail: preview(note.content),
+          href: null,
+          external: false,
+        });
+      }
+    }
+
+    if (filters.has('orders')) {
+      // Loads the customer's orders into the cache the first time
+      if (!cursor) {
+        await getCustomerOrdersWithCache(supabase, customer.email);
+      }
+
+      const { data: orders } = await supabase
+        .from('shopify_orders')
+        .select('shop_domain, order_data')
+        .eq('customer_id', customerId);
+
+      for (const order of orders || []) {
+        events.push(...getOrderEvents(order.order_data as ShopifyOrder, order.shop_domain));
+      }
+    }
+
+    if (filters.has('returns') && isReturnLogicConfigured()) {
+      const result = await getCachedIntegrationData<ReturnLogicResponse>(
+        supabase,
+        'returnlogic',
+        customer.email,
+        () => getCustomerRMAs(customer.email)
+      );
+
+      for (const rma of result.data?.rmas || []) {
+        events.push({
+          id: `rma:${rma.id}`,
+          kind: 'return_created',
+          occurredAt: rma.createdAt,
+          title: `Started return RMA #${rma.rmaNumber} · ${rma.status.replace(/_/g, ' ')}`,
+          detail:
+            [rma.orderNumber && `Order ${rma.orderNumber}`, rma.reason].filter(Boolean).join(' · ') ||
+            null,
+          href: null,
+          external: false,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Get customer timeline error:', error);
+    return { error: 'Failed to load timeline' };
+  }
+
+  const page = events.filter(isAfterCursor).sort(compareEvents).slice(0, PAGE_SIZE);
+  if (page.length < PAGE_SIZE) {
+    return { events: page, nextCursor: null };
+  }
+
+  // A full page may have more behind it in any source
+  const last = page[page.length - 1];
+  const lastAt = new Date(last.occurredAt).getTime();
+  const seenAtLast = page
+    .filter((event) => new Date(event.occurredAt).getTime() === lastAt)
+    .map((event) => event.id);
+
+  return {
+    events: page,
+    nextCursor: encodeCursor({
+      at: lastAt,
+      seenIds: cursor?.at === lastAt ? [...cursor.seenIds, ...seenAtLast] : seenAtLast,
+    }),
+  };
+}
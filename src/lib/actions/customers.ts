@@ -2,13 +2,17 @@
 
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
+import { findCustomerIdByIdentity } from '@/lib/customer-identities';
 import {
   createCustomerSchema,
+  mergeCustomersSchema,
   updateCustomerSchema,
   uuidSchema,
   type CreateCustomerInput,
+  type MergeCustomersInput,
   type UpdateCustomerInput,
 } from '@/lib/validations';
+import type { DuplicateCustomer } from '@/lib/supabase/types';
 
 export async function createCustomer(input: CreateCustomerInput) {
   const parsed = createCustomerSchema.safeParse(input);
@@ -18,6 +22,11 @@ export async function createCustomer(input: CreateCustomerInput) {
 
   const supabase = await createClient();
 
+  // The email may already be another customer's secondary address
+  if (await findCustomerIdByIdentity(supabase, 'email', parsed.data.email)) {
+    return { error: 'A customer with this email already exists' };
+  }
+
   const { data: customer, error } = await supabase
     .from('customers')
     .insert({
@@ -87,3 +96,69 @@ export async function deleteCustomer(customerId: string) {
   revalidatePath('/customers');
   return { success: true };
 }
+
+/**
+ * Other customers who may be the same person: sharing a normalised email
+ * (ignoring plus-addressing and Gmail dots), phone, Shopify customer ID or
+ * full name
+ */
+export async function getDuplicateCustomers(
+  customerId: string
+): Promise<{ duplicates: DuplicateCustomer[] } | { error: string }> {
+  const parsed = uuidSchema.safeParse(customerId);
+  if (!parsed.success) {
+    return { error: 'Invalid customer ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('find_duplicate_customers', {
+    p_customer_id: parsed.data,
+  });
+
+  if (error) {
+    console.error('Find duplicate customers error:', error);
+    return { error: 'Failed to find duplicates' };
+  }
+
+  return { duplicates: (data || []) as DuplicateCustomer[] };
+}
+
+/**
+ * Merge one customer into another. The source's tickets, notes, surveys and
+ * Shopify data move to the target, its identities become the target's
+ * non-primary ones for inbound matching, and it is deleted. The merge is recorded in
+ * customer_merges.
+ */
+export async function mergeCustomers(
+  input: MergeCustomersInput
+): Promise<{ success: true; customerId: string } | { error: string }> {
+  const parsed = mergeCustomersSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { error } = await supabase.rpc('merge_customers', {
+    p_source_id: parsed.data.sourceId,
+    p_target_id: parsed.data.targetId,
+  });
+
+  if (error) {
+    console.error('Merge customers error:', error);
+    return { error: 'Failed to merge customers' };
+  }
+
+  revalidatePath(`/customers/${parsed.data.targetId}`);
+  revalidatePath('/customers');
+  return { success: true, customerId: parsed.data.targetId };
+}
@@ -158,13 +158,14 @@ export async function importTickets(
     (existingTags || []).map(t => [t.name.toLowerCase(), t.id])
   );
 
-  // Get existing customers by email
-  const { data: existingCustomers } = await supabase
-    .from('customers')
-    .select('id, email');
+  // Get existing customers by any of their email addresses
+  const { data: emailIdentities } = await supabase
+    .from('customer_identities')
+    .select('customer_id, value')
+    .eq('type', 'email');
 
   const customersByEmail = new Map(
-    (existingCustomers || []).map(c => [c.email.toLowerCase(), c.id])
+    (emailIdentities || []).map(i => [i.value, i.customer_id])
   );
 
   // Check for already imported tickets
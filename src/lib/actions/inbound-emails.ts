@@ -0,0 +1,140 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient as createServiceRoleClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { uuidSchema } from '@/lib/validations';
+import { failStaleInboundEmails, processInboundEmail } from '@/lib/inbound-email';
+import type { InboundEmail } from '@/lib/supabase/types';
+
+// Retries run the same processing as the webhook, which writes tickets
+// for any customer and reads the private inbound-emails bucket
+function getServiceSupabase() {
+  return createServiceRoleClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+async function requireAdmin(
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<{ error: string } | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Only admins can manage failed emails' };
+  }
+
+  return null;
+}
+
+/**
+ * The dead-letter list: inbound emails that failed, including any whose
+ * processing was interrupted
+ */
+export async function getFailedInboundEmails(): Promise<
+  { emails: InboundEmail[] } | { error: string }
+> {
+  const supabase = await createClient();
+
+  const authError = await requireAdmin(supabase);
+  if (authError) return authError;
+
+  await failStaleInboundEmails(supabase);
+
+  const { data, error } = await supabase
+    .from('inbound_emails')
+    .select('*')
+    .eq('status', 'failed')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('Get failed inbound emails error:', error);
+    return { error: 'Failed to fetch failed emails' };
+  }
+
+  return { emails: data as InboundEmail[] };
+}
+
+export async function retryInboundEmail(
+  inboundId: string
+): Promise<{ action: string; ticketNumber: number | null } | { error: string }> {
+  const parsed = uuidSchema.safeParse(inboundId);
+  if (!parsed.success) {
+    return { error: 'Invalid email ID' };
+  }
+
+  const supabase = await createClient();
+
+  const authError = await requireAdmin(supabase);
+  if (authError) return authError;
+
+  const result = await processInboundEmail(getServiceSupabase(), parsed.data);
+
+  revalidatePath('/settings/inbound-emails');
+
+  if ('error' in result) {
+    return { error: result.error };
+  }
+
+  if (result.ticketId) {
+    revalidatePath(`/tickets/${result.ticketId}`);
+  }
+  revalidatePath('/tickets');
+
+  return { action: result.action, ticketNumber: result.ticketNumber ?? null };
+}
+
+/**
+ * Drop a failed email from the list without processing it
+ */
+export async function discardInboundEmail(
+  inboundId: string
+): Promise<{ success: true } | { error: string }> {
+  const parsed = uuidSchema.safeParse(inboundId);
+  if (!parsed.success) {
+    return { error: 'Invalid email ID' };
+  }
+
+  const supabase = await createClient();
+
+  const authError = await requireAdmin(supabase);
+  if (authError) return authError;
+
+  const { data, error } = await supabase
+    .from('inbound_emails')
+    .update({ status: 'discarded' })
+    .eq('id', parsed.data)
+    .eq('status', 'failed')
+    .select('files')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Discard inbound email error:', error);
+    return { error: 'Failed to discard email' };
+  }
+
+  // Its attachment files are no longer needed
+  const files = (data?.files || []) as InboundEmail['files'];
+  if (files.length > 0) {
+    await getServiceSupabase()
+      .storage.from('inbound-emails')
+      .remove(files.map((file) => file.path));
+  }
+
+  revalidatePath('/settings/inbound-emails');
+  return { success: true };
+}
@@ -2,38 +2,30 @@
 
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
-import { sendMessageSchema, uuidSchema, type SendMessageInput } from '@/lib/validations';
 import {
-  sendEmail,
-  formatReplyAsHtml,
-  formatReplyAsText,
-  getBrandEmail,
-  generateReplySubject,
-} from '@/lib/email';
-import type { Brand } from '@/lib/supabase/types';
-
-export type SendAction = 'send' | 'send-close' | 'send-snooze';
-export type SnoozeDuration = '1-day' | '3-days' | '1-week';
+  sendMessageSchema,
+  snoozeSchema,
+  updateOutboundMessageSchema,
+  uuidSchema,
+  type SendMessageInput,
+  type SnoozeInput,
+  type UpdateOutboundMessageInput,
+} from '@/lib/validations';
+import { deliverOutboundMessage, applySendAction, type SendAction } from '@/lib/outbound';
+import { getSnoozeUpdate } from '@/lib/snooze';
+
+export type { SendAction };
 
 export interface SendMessageOptions extends SendMessageInput {
   action?: SendAction;
-  snoozeDuration?: SnoozeDuration;
-}
-
-function getSnoozedUntil(duration: SnoozeDuration): Date {
-  const now = new Date();
-  switch (duration) {
-    case '1-day':
-      return new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    case '3-days':
-      return new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
-    case '1-week':
-      return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    default:
-      return new Date(now.getTime() + 24 * 60 * 60 * 1000);
-  }
+  snooze?: SnoozeInput;
 }
 
+/**
+ * Save an internal note, or queue a reply to the customer. Replies wait in
+ * the outbound queue for the agent's undo window, or until `sendAt` when
+ * scheduled, and are delivered by deliverOutboundMessage.
+ */
 export async function sendMessage(input: SendMessageOptions) {
   const parsed = sendMessageSchema.safeParse(input);
   if (!parsed.success) {
@@ -50,157 +42,274 @@ export async function sendMessage(input: SendMessageOptions) {
     return { error: 'Not authenticated' };
   }
 
-  const { data: message, error } = await supabase
-    .from('messages')
+  const action = input.action || 'send';
+
+  // Check the snooze up front so a bad time doesn't leave a sent reply behind
+  let snooze: SnoozeInput | null = null;
+  if (action === 'send-snooze') {
+    const parsedSnooze = snoozeSchema.safeParse(input.snooze);
+    if (!parsedSnooze.success) {
+      return { error: parsedSnooze.error.issues[0]?.message || 'Invalid snooze' };
+    }
+
+    const snoozeUpdate = getSnoozeUpdate(parsedSnooze.data, user.id);
+    if ('error' in snoozeUpdate) {
+      return { error: snoozeUpdate.error };
+    }
+    snooze = parsedSnooze.data;
+  }
+
+  if (parsed.data.isInternal) {
+    const { data: message, error } = await supabase
+      .from('messages')
+      .insert({
+        ticket_id: parsed.data.ticketId,
+        sender_type: 'agent',
+        sender_id: user.id,
+        content: parsed.data.content,
+        is_internal: true,
+        attachments: parsed.data.attachments || [],
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      return { error: 'Failed to send message' };
+    }
+
+    await applySendAction(supabase, parsed.data.ticketId, user.id, action, snooze);
+
+    revalidatePath(`/tickets/${parsed.data.ticketId}`);
+    revalidatePath('/tickets');
+    return { messageId: message.id };
+  }
+
+  let sendAt: Date;
+  let undoSeconds: number | null = null;
+
+  if (parsed.data.sendAt) {
+    sendAt = new Date(parsed.data.sendAt);
+    if (sendAt.getTime() <= Date.now()) {
+      return { error: 'Send time must be in the future' };
+    }
+  } else {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('undo_send_seconds')
+      .eq('id', user.id)
+      .single();
+
+    const seconds: number = profile?.undo_send_seconds ?? 10;
+    undoSeconds = seconds;
+    sendAt = new Date(Date.now() + seconds * 1000);
+  }
+
+  const { data: outbound, error } = await supabase
+    .from('outbound_messages')
     .insert({
       ticket_id: parsed.data.ticketId,
-      sender_type: 'agent',
-      sender_id: user.id,
+      author_id: user.id,
       content: parsed.data.content,
-      is_internal: parsed.data.isInternal || false,
       attachments: parsed.data.attachments || [],
+      cc_emails: [...new Set(parsed.data.cc || [])],
+      action,
+      snooze,
+      send_at: sendAt.toISOString(),
+      is_scheduled: !!parsed.data.sendAt,
     })
-    .select('id')
+    .select('id, send_at')
     .single();
 
   if (error) {
     return { error: 'Failed to send message' };
   }
 
-  // Send email for non-internal messages on email-channel tickets
-  if (!parsed.data.isInternal) {
-    // Fetch ticket details to check channel and get email info
-    const { data: ticketData } = await supabase
-      .from('tickets')
-      .select(`
-        id,
-        ticket_number,
-        subject,
-        channel,
-        reference_id,
-        customer:customers(email, full_name),
-        brand:brands(id, name, email_address, color)
-      `)
-      .eq('id', parsed.data.ticketId)
-      .single();
+  revalidatePath(`/tickets/${parsed.data.ticketId}`);
+  return { outboundId: outbound.id, sendAt: outbound.send_at, undoSeconds };
+}
 
-    // Normalize nested relations (Supabase may return arrays)
-    const ticket = ticketData
-      ? {
-          ...ticketData,
-          customer: Array.isArray(ticketData.customer)
-            ? ticketData.customer[0]
-            : ticketData.customer,
-          brand: Array.isArray(ticketData.brand)
-            ? ticketData.brand[0]
-            : ticketData.brand,
-        }
-      : null;
-
-    if (ticket?.channel === 'email' && ticket.customer?.email) {
-      // Get agent profile for the email signature
-      const { data: agentProfile } = await supabase
-        .from('profiles')
-        .select('full_name, email')
-        .eq('id', user.id)
-        .single();
-
-      const agentName = agentProfile?.full_name || agentProfile?.email || 'Support Team';
-      const fromEmail = getBrandEmail(ticket.brand as Brand | null);
-      const brandName = ticket.brand?.name || 'NoLimits Support';
-
-      // Generate email content
-      const htmlContent = formatReplyAsHtml(
-        parsed.data.content,
-        ticket.ticket_number,
-        agentName
-      );
-      const textContent = formatReplyAsText(parsed.data.content);
-      const subject = generateReplySubject(ticket.subject, ticket.ticket_number);
-
-      // Send the email
-      const emailResult = await sendEmail({
-        to: ticket.customer.email,
-        from: fromEmail,
-        fromName: brandName,
-        subject,
-        htmlContent,
-        textContent,
-        replyTo: fromEmail,
-        inReplyTo: ticket.reference_id || undefined,
-        references: ticket.reference_id || undefined,
-      });
-
-      if (emailResult.success && emailResult.messageId) {
-        // Update ticket reference_id for threading future replies
-        await supabase
-          .from('tickets')
-          .update({ reference_id: emailResult.messageId })
-          .eq('id', parsed.data.ticketId);
-
-        console.log('Email sent for ticket #', ticket.ticket_number);
-      } else {
-        console.error('Failed to send email:', emailResult.error);
-      }
-    }
+export async function getOutboundMessages(ticketId: string) {
+  const parsed = uuidSchema.safeParse(ticketId);
+  if (!parsed.success) {
+    return { error: 'Invalid ticket ID' };
   }
 
-  // For non-internal replies, update ticket metadata
-  if (!parsed.data.isInternal) {
-    // Update first_response_at if this is the first agent response
-    await supabase
-      .from('tickets')
-      .update({ first_response_at: new Date().toISOString() })
-      .eq('id', parsed.data.ticketId)
-      .is('first_response_at', null);
+  const supabase = await createClient();
 
-    // Auto-assign ticket to the replying agent if currently unassigned
-    await supabase
-      .from('tickets')
-      .update({ assigned_agent_id: user.id })
-      .eq('id', parsed.data.ticketId)
-      .is('assigned_agent_id', null);
+  const { data: outboundMessages, error } = await supabase
+    .from('outbound_messages')
+    .select('*, author:profiles(id, full_name, email)')
+    .eq('ticket_id', parsed.data)
+    .in('status', ['queued', 'sending', 'failed'])
+    .order('send_at', { ascending: true });
 
-    // Apply auto-tagging rules
-    await supabase.rpc('apply_auto_tags', {
-      p_ticket_id: parsed.data.ticketId,
-      p_subject: null,
-      p_body: parsed.data.content,
-    });
+  if (error) {
+    return { error: 'Failed to fetch queued replies' };
   }
 
-  // Handle send actions
-  const action = input.action || 'send';
+  return { outboundMessages };
+}
 
-  if (action === 'send-close') {
-    // Close the ticket and auto-assign to the user who closed it
-    await supabase
-      .from('tickets')
-      .update({
-        status: 'closed',
-        resolved_at: new Date().toISOString(),
-        snoozed_until: null,
-        snoozed_by: null,
-        assigned_agent_id: user.id,
-      })
-      .eq('id', parsed.data.ticketId);
-  } else if (action === 'send-snooze' && input.snoozeDuration) {
-    // Snooze the ticket and auto-assign to the user who snoozed it
-    const snoozedUntil = getSnoozedUntil(input.snoozeDuration);
-    await supabase
-      .from('tickets')
-      .update({
-        status: 'pending',
-        snoozed_until: snoozedUntil.toISOString(),
-        snoozed_by: user.id,
-        assigned_agent_id: user.id,
-      })
-      .eq('id', parsed.data.ticketId);
+/**
+ * Cancel a queued or failed reply. Returns its content, attachments and CCs
+ * so an undone reply can go back into the composer.
+ */
+export async function cancelOutboundMessage(outboundId: string) {
+  const parsed = uuidSchema.safeParse(outboundId);
+  if (!parsed.success) {
+    return { error: 'Invalid reply ID' };
   }
 
-  revalidatePath(`/tickets/${parsed.data.ticketId}`);
+  const supabase = await createClient();
+
+  const { data: cancelled, error } = await supabase
+    .from('outbound_messages')
+    .update({ status: 'cancelled' })
+    .eq('id', parsed.data)
+    .in('status', ['queued', 'failed'])
+    .select('ticket_id, content, attachments, cc_emails');
+
+  if (error) {
+    return { error: 'Failed to cancel reply' };
+  }
+
+  if (!cancelled || cancelled.length === 0) {
+    return { error: 'This reply has already been sent' };
+  }
+
+  revalidatePath(`/tickets/${cancelled[0].ticket_id}`);
+  return {
+    content: cancelled[0].content,
+    attachments: cancelled[0].attachments,
+    cc: cancelled[0].cc_emails as string[],
+  };
+}
+
+/**
+ * Edit or reschedule a reply that hasn't gone out. A failed reply is
+ * queued again with a fresh set of attempts.
+ */
+export async function updateOutboundMessage(outboundId: string, input: UpdateOutboundMessageInput) {
+  const parsedId = uuidSchema.safeParse(outboundId);
+  if (!parsedId.success) {
+    return { error: 'Invalid reply ID' };
+  }
+
+  const parsed = updateOutboundMessageSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  if (new Date(parsed.data.sendAt).getTime() <= Date.now()) {
+    return { error: 'Send time must be in the future' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: updated, error } = await supabase
+    .from('outbound_messages')
+    .update({
+      content: parsed.data.content,
+      send_at: new Date(parsed.data.sendAt).toISOString(),
+      is_scheduled: true,
+      status: 'queued',
+      attempts: 0,
+      last_error: null,
+    })
+    .eq('id', parsedId.data)
+    .in('status', ['queued', 'failed'])
+    .select('ticket_id');
+
+  if (error) {
+    return { error: 'Failed to update reply' };
+  }
+
+  if (!updated || updated.length === 0) {
+    return { error: 'This reply has already been sent' };
+  }
+
+  revalidatePath(`/tickets/${updated[0].ticket_id}`);
+  return { success: true };
+}
+
+/**
+ * Deliver a reply whose undo window has run out. Called by the composer so
+ * the reply doesn't wait for the next run of the send job.
+ */
+export async function flushOutboundMessage(outboundId: string) {
+  return deliverNow(outboundId, false);
+}
+
+/**
+ * Deliver a queued reply straight away, ahead of its scheduled time
+ */
+export async function sendOutboundMessageNow(outboundId: string) {
+  return deliverNow(outboundId, true);
+}
+
+/**
+ * Queue a failed reply again and try to deliver it straight away
+ */
+export async function retryOutboundMessage(outboundId: string) {
+  const parsed = uuidSchema.safeParse(outboundId);
+  if (!parsed.success) {
+    return { error: 'Invalid reply ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: requeued, error } = await supabase
+    .from('outbound_messages')
+    .update({ status: 'queued', attempts: 0, last_error: null, send_at: new Date().toISOString() })
+    .eq('id', parsed.data)
+    .eq('status', 'failed')
+    .select('id');
+
+  if (error || !requeued || requeued.length === 0) {
+    return { error: 'Failed to retry reply' };
+  }
+
+  return deliverNow(parsed.data, true);
+}
+
+async function deliverNow(outboundId: string, force: boolean) {
+  const parsed = uuidSchema.safeParse(outboundId);
+  if (!parsed.success) {
+    return { error: 'Invalid reply ID' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: outbound } = await supabase
+    .from('outbound_messages')
+    .select('ticket_id')
+    .eq('id', parsed.data)
+    .single();
+
+  if (!outbound) {
+    return { error: 'Reply not found' };
+  }
+
+  const result = await deliverOutboundMessage(supabase, parsed.data, { force });
+
+  revalidatePath(`/tickets/${outbound.ticket_id}`);
   revalidatePath('/tickets');
-  return { messageId: message.id };
+
+  if (result === 'retrying') {
+    return { error: 'Sending failed, it will be retried shortly' };
+  }
+  if (result === 'failed') {
+    return { error: 'Sending failed' };
+  }
+  return { result };
 }
 
 export async function getMessages(ticketId: string) {
@@ -223,20 +332,3 @@ export async function getMessages(ticketId: string) {
 
   return { messages };
 }
-
-export async function unsnoozeExpiredTickets(): Promise<{ count: number } | { error: string }> {
-  const supabase = await createClient();
-
-  const { data, error } = await supabase.rpc('unsnooze_expired_tickets');
-
-  if (error) {
-    console.error('Unsnooze expired tickets error:', error);
-    return { error: 'Failed to unsnooze expired tickets' };
-  }
-
-  if (data && data.length > 0) {
-    revalidatePath('/tickets');
-  }
-
-  return { count: data?.length || 0 };
-}
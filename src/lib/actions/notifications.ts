@@ -3,7 +3,7 @@
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
 
-export type NotificationType = 'ticket_assigned' | 'ticket_mentioned' | 'snooze_expired';
+export type NotificationType = 'ticket_assigned' | 'ticket_mentioned' | 'snooze_expired' | 'sla_breach' | 'reply_failed' | 'email_bounced';
 
 export interface Notification {
   id: string;
@@ -2,14 +2,19 @@
 
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
+import { releaseAgentTickets } from '@/lib/assignment';
 import {
   updateProfileSchema,
   updateUserRoleSchema,
   updateUserTeamSchema,
   toggleUserActiveSchema,
+  updateAvailabilitySchema,
+  updateUserCapacitySchema,
   type UpdateProfileInput,
   type UpdateUserRoleInput,
   type UpdateUserTeamInput,
+  type UpdateAvailabilityInput,
+  type UpdateUserCapacityInput,
 } from '@/lib/validations';
 
 export async function updateProfile(input: UpdateProfileInput) {
@@ -30,6 +35,7 @@ export async function updateProfile(input: UpdateProfileInput) {
 
   const updateData: Partial<UpdateProfileInput> = {};
   if (parsed.data.full_name !== undefined) updateData.full_name = parsed.data.full_name;
+  if (parsed.data.undo_send_seconds !== undefined) updateData.undo_send_seconds = parsed.data.undo_send_seconds;
 
   const { error } = await supabase
     .from('profiles')
@@ -122,6 +128,85 @@ export async function toggleUserActive(userId: string, isActive: boolean) {
     return { error: 'Failed to update user status' };
   }
 
+  // Deactivated agents can't work their queue, so hand it back
+  if (!parsed.data.isActive) {
+    await releaseAgentTickets(supabase, parsed.data.userId, 'agent_deactivated');
+  }
+
   revalidatePath('/settings/users');
   return { success: true };
 }
+
+/**
+ * Mark an agent available or away. Agents set their own status; admins can
+ * set anyone's. Going away returns the agent's open tickets to the pool.
+ */
+export async function updateAvailability(
+  input: UpdateAvailabilityInput
+): Promise<{ success: true; released: number } | { error: string }> {
+  const parsed = updateAvailabilitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  if (parsed.data.userId !== user.id) {
+    const { data: currentProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (currentProfile?.role !== 'admin') {
+      return { error: "Only admins can change another user's availability" };
+    }
+  }
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ availability: parsed.data.availability })
+    .eq('id', parsed.data.userId);
+
+  if (error) {
+    return { error: 'Failed to update availability' };
+  }
+
+  const released =
+    parsed.data.availability === 'away'
+      ? await releaseAgentTickets(supabase, parsed.data.userId, 'agent_away')
+      : 0;
+
+  revalidatePath('/tickets');
+  revalidatePath('/settings/assignment');
+  return { success: true, released };
+}
+
+export async function updateUserCapacity(input: UpdateUserCapacityInput) {
+  const parsed = updateUserCapacitySchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ max_open_tickets: parsed.data.maxOpenTickets })
+    .eq('id', parsed.data.userId);
+
+  if (error) {
+    return { error: 'Failed to update capacity' };
+  }
+
+  revalidatePath('/settings/assignment');
+  return { success: true };
+}
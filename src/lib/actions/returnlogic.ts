@@ -1,24 +1,47 @@
 'use server';
 
-import { getCustomerRMAs, type ReturnLogicRMA } from '@/lib/returnlogic';
+import { createClient } from '@/lib/supabase/server';
+import { getCachedIntegrationData } from '@/lib/integration-cache';
+import {
+  getCustomerRMAs,
+  isReturnLogicConfigured,
+  type ReturnLogicRMA,
+  type ReturnLogicResponse,
+} from '@/lib/returnlogic';
 
 export interface RMAHistoryResult {
   rmas: ReturnLogicRMA[];
+  staleAsOf?: string | null; // Return Logic is unavailable and these RMAs were loaded then
   error?: string;
 }
 
 /**
  * Fetch customer's return history from Return Logic
- * Server action wrapper for the Return Logic API
+ * Server action wrapper for the Return Logic API, cached per customer
  */
 export async function fetchCustomerReturns(email: string): Promise<RMAHistoryResult> {
   if (!email) {
     return { rmas: [], error: 'No email provided' };
   }
 
+  if (!isReturnLogicConfigured()) {
+    return { rmas: [], error: 'Return Logic integration not configured' };
+  }
+
   try {
-    const result = await getCustomerRMAs(email);
-    return result;
+    const supabase = await createClient();
+    const result = await getCachedIntegrationData<ReturnLogicResponse>(
+      supabase,
+      'returnlogic',
+      email,
+      () => getCustomerRMAs(email)
+    );
+
+    if (!result.data) {
+      return { rmas: [], error: result.error };
+    }
+
+    return { rmas: result.data.rmas, staleAsOf: result.staleAsOf };
   } catch (error) {
     console.error('Error in fetchCustomerReturns:', error);
     return {
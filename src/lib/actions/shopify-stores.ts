@@ -0,0 +1,231 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { getShopName } from '@/lib/shopify';
+import { clearShopifyStoreCache, normalizeShopDomain } from '@/lib/shopify-stores';
+import { shopifyStoreSchema, type ShopifyStoreInput } from '@/lib/validations';
+
+// A brand's connected store as shown in settings. Secrets never leave the
+// server, only whether they're set.
+export interface ShopifyStoreConnection {
+  brand_id: string;
+  shop_domain: string;
+  client_id: string;
+  has_client_secret: boolean;
+  has_webhook_secret: boolean;
+  verified_at: string | null;
+  last_error: string | null;
+}
+
+interface ShopifyStoreRow {
+  brand_id: string;
+  shop_domain: string;
+  client_id: string;
+  client_secret: string;
+  webhook_secret: string | null;
+  verified_at: string | null;
+  last_error: string | null;
+}
+
+const STORE_COLUMNS =
+  'brand_id, shop_domain, client_id, client_secret, webhook_secret, verified_at, last_error';
+
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/;
+
+function toConnection(row: ShopifyStoreRow): ShopifyStoreConnection {
+  return {
+    brand_id: row.brand_id,
+    shop_domain: row.shop_domain,
+    client_id: row.client_id,
+    has_client_secret: !!row.client_secret,
+    has_webhook_secret: !!row.webhook_secret,
+    verified_at: row.verified_at,
+    last_error: row.last_error,
+  };
+}
+
+async function getAdminSupabase(): Promise<
+  { supabase: Awaited<ReturnType<typeof createClient>> } | { error: string }
+> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Only admins can manage Shopify stores' };
+  }
+
+  return { supabase };
+}
+
+export async function getShopifyStoreSettings(): Promise<
+  { stores: ShopifyStoreConnection[] } | { error: string }
+> {
+  const context = await getAdminSupabase();
+  if ('error' in context) return context;
+
+  const { data, error } = await context.supabase
+    .from('shopify_stores')
+    .select(STORE_COLUMNS);
+
+  if (error) {
+    console.error('Get Shopify stores error:', error);
+    return { error: 'Failed to fetch Shopify stores' };
+  }
+
+  return { stores: ((data || []) as ShopifyStoreRow[]).map(toConnection) };
+}
+
+/**
+ * Connect a brand's store or update its credentials. Secrets left blank
+ * keep their saved values; a changed store has to be tested again.
+ */
+export async function saveShopifyStore(
+  brandId: string,
+  input: ShopifyStoreInput
+): Promise<{ store: ShopifyStoreConnection } | { error: string }> {
+  const parsed = shopifyStoreSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const shopDomain = normalizeShopDomain(parsed.data.shop_domain);
+  if (!SHOP_DOMAIN_PATTERN.test(shopDomain)) {
+    return { error: "Enter the store's myshopify.com domain, e.g. example.myshopify.com" };
+  }
+
+  const context = await getAdminSupabase();
+  if ('error' in context) return context;
+  const { supabase } = context;
+
+  const { data: existing } = await supabase
+    .from('shopify_stores')
+    .select('id')
+    .eq('brand_id', brandId)
+    .maybeSingle();
+
+  if (!existing && !parsed.data.client_secret) {
+    return { error: 'Client secret is required' };
+  }
+
+  const { data, error } = await supabase
+    .from('shopify_stores')
+    .upsert(
+      {
+        brand_id: brandId,
+        shop_domain: shopDomain,
+        client_id: parsed.data.client_id,
+        ...(parsed.data.client_secret && { client_secret: parsed.data.client_secret }),
+        ...(parsed.data.webhook_secret && { webhook_secret: parsed.data.webhook_secret }),
+        verified_at: null,
+        last_error: null,
+      },
+      { onConflict: 'brand_id' }
+    )
+    .select(STORE_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return { error: 'This store is already connected to another brand' };
+    }
+    console.error('Save Shopify store error:', error);
+    return { error: 'Failed to save Shopify store' };
+  }
+
+  clearShopifyStoreCache();
+  revalidatePath('/settings/shopify');
+  return { store: toConnection(data as ShopifyStoreRow) };
+}
+
+/**
+ * Check a brand's saved credentials by fetching the store's name, and
+ * record the result
+ */
+export async function testShopifyStore(
+  brandId: string
+): Promise<{ store: ShopifyStoreConnection; shopName: string | null } | { error: string }> {
+  const context = await getAdminSupabase();
+  if ('error' in context) return context;
+  const { supabase } = context;
+
+  const { data: row } = await supabase
+    .from('shopify_stores')
+    .select(STORE_COLUMNS)
+    .eq('brand_id', brandId)
+    .maybeSingle();
+
+  if (!row) {
+    return { error: 'No Shopify store connected to this brand' };
+  }
+
+  const store = row as ShopifyStoreRow;
+  let shopName: string | null = null;
+  let lastError: string | null = null;
+
+  try {
+    shopName = await getShopName({
+      domain: store.shop_domain,
+      clientId: store.client_id,
+      clientSecret: store.client_secret,
+      webhookSecret: store.webhook_secret,
+      brand: null,
+    });
+  } catch (error) {
+    console.error(`Test Shopify store ${store.shop_domain} error:`, error);
+    lastError = error instanceof Error ? error.message : 'Could not connect to Shopify';
+  }
+
+  const { data, error } = await supabase
+    .from('shopify_stores')
+    .update({
+      verified_at: lastError ? store.verified_at : new Date().toISOString(),
+      last_error: lastError,
+    })
+    .eq('brand_id', brandId)
+    .select(STORE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Record Shopify store test error:', error);
+    return { error: 'Failed to save test result' };
+  }
+
+  revalidatePath('/settings/shopify');
+  return { store: toConnection(data as ShopifyStoreRow), shopName };
+}
+
+/**
+ * Disconnect a brand's store. Its tickets then look up orders in every
+ * remaining store.
+ */
+export async function disconnectShopifyStore(
+  brandId: string
+): Promise<{ success: true } | { error: string }> {
+  const context = await getAdminSupabase();
+  if ('error' in context) return context;
+
+  const { error } = await context.supabase.from('shopify_stores').delete().eq('brand_id', brandId);
+
+  if (error) {
+    console.error('Disconnect Shopify store error:', error);
+    return { error: 'Failed to disconnect Shopify store' };
+  }
+
+  clearShopifyStoreCache();
+  revalidatePath('/settings/shopify');
+  return { success: true };
+}
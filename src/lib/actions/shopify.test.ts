@@ -0,0 +1,433 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClient } from '@/lib/supabase/server';
+import type { ShopifyOrder, ShopifyStore } from '@/lib/shopify';
+import {
+  cancelShopifyOrder,
+  createShopifyReplacementOrder,
+  refundShopifyOrder,
+  updateShopifyOrderAddress,
+} from '@/lib/actions/shopify';
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }));
+vi.mock('@/lib/shopify-stores', () => ({
+  getShopifyStores: vi.fn(),
+  getShopifyStoresForBrand: vi.fn(),
+  getShopifyStoreByDomain: vi.fn(async () => store),
+}));
+vi.mock('@/lib/shopify-sync', () => ({
+  getCustomerOrdersWithCache: vi.fn(),
+  syncShopifyOrder: vi.fn(),
+}));
+
+const TICKET_ID = '7d5f3c1e-8a4b-4c2d-9e6f-1a2b3c4d5e6f';
+const CUSTOMER_EMAIL = 'customer@example.com';
+
+const store: ShopifyStore = {
+  domain: 'test-shop.myshopify.com',
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  webhookSecret: null,
+  brand: null,
+};
+
+function makeOrder(overrides: Partial<ShopifyOrder> = {}): ShopifyOrder {
+  return {
+    id: 1001,
+    order_number: 1001,
+    name: '#1001',
+    created_at: '2025-01-01T00:00:00Z',
+    cancelled_at: null,
+    financial_status: 'paid',
+    fulfillment_status: null,
+    total_price: '40.00',
+    currency: 'USD',
+    order_status_url: 'https://test-shop.myshopify.com/orders/1001',
+    email: CUSTOMER_EMAIL,
+    shipping_address: null,
+    line_items: [
+      {
+        id: 501,
+        variant_id: 901,
+        title: 'T-shirt',
+        quantity: 2,
+        fulfillable_quantity: 2,
+        price: '20.00',
+        sku: null,
+        variant_title: null,
+      },
+    ],
+    fulfillments: [],
+    refunds: [],
+    ...overrides,
+  };
+}
+
+// A stand-in for the signed-in user's Supabase client
+function mockSupabase(role: string) {
+  const inserts: Record<string, Record<string, unknown>[]> = {};
+  const rows: Record<string, unknown> = {
+    profiles: { role },
+    tickets: { id: TICKET_ID, customer: { email: CUSTOMER_EMAIL } },
+  };
+
+  const client = {
+    auth: { getUser: async () => ({ data: { user: { id: 'agent-1' } } }) },
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        single: async () => ({ data: rows[table] ?? null, error: null }),
+        insert: async (row: Record<string, unknown>) => {
+          (inserts[table] ||= []).push(row);
+          return { error: null };
+        },
+      };
+      return query;
+    },
+  };
+
+  vi.mocked(createClient).mockResolvedValue(client as unknown as Awaited<ReturnType<typeof createClient>>);
+  return inserts;
+}
+
+interface ShopifyCall {
+  method: string;
+  path: string;
+  body: Record<string, unknown> | null;
+}
+
+const REPLACEMENT_ORDER_ID = 1002;
+
+// A fake Shopify Admin API serving one order. Requests listed in `failing`
+// (e.g. 'POST /orders/1001/cancel.json') get a 422 back.
+function mockShopify(order: ShopifyOrder, failing: string[] = []) {
+  const calls: ShopifyCall[] = [];
+
+  vi.stubGlobal('fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+
+    if (url.pathname === '/admin/oauth/access_token') {
+      return Response.json({ access_token: 'test-token' });
+    }
+
+    const path = url.pathname.replace(/^\/admin\/api\/[^/]+/, '');
+    calls.push({ method, path, body });
+
+    if (failing.includes(`${method} ${path}`)) {
+      return Response.json({ errors: 'Unprocessable' }, { status: 422 });
+    }
+
+    if (method === 'GET' && path === `/orders/${order.id}.json`) {
+      return Response.json({ order });
+    }
+    if (method === 'POST' && path === `/orders/${order.id}/refunds/calculate.json`) {
+      return Response.json({
+        refund: {
+          transactions: [
+            { id: 0, parent_id: 7001, kind: 'suggested_refund', gateway: 'shopify_payments', amount: '20.00', currency: 'USD' },
+          ],
+        },
+      });
+    }
+    if (method === 'POST' && path === `/orders/${order.id}/refunds.json`) {
+      return Response.json({
+        refund: {
+          id: 8001,
+          created_at: '2025-01-02T00:00:00Z',
+          note: null,
+          refund_line_items: [],
+          transactions: [
+            { id: 7002, parent_id: 7001, kind: 'refund', gateway: 'shopify_payments', amount: '20.00', currency: 'USD' },
+          ],
+        },
+      });
+    }
+    if (method === 'POST' && path === `/orders/${order.id}/cancel.json`) {
+      return Response.json({ order: { ...order, cancelled_at: '2025-01-02T00:00:00Z' } });
+    }
+    if (method === 'PUT' && path === `/orders/${order.id}.json`) {
+      return Response.json({ order: { ...order, shipping_address: body.order.shipping_address } });
+    }
+    if (method === 'POST' && path === '/draft_orders.json') {
+      return Response.json({ draft_order: { id: 3001 } });
+    }
+    if (method === 'PUT' && path === '/draft_orders/3001/complete.json') {
+      return Response.json({ draft_order: { id: 3001, order_id: REPLACEMENT_ORDER_ID } });
+    }
+    if (method === 'GET' && path === `/orders/${REPLACEMENT_ORDER_ID}.json`) {
+      return Response.json({
+        order: makeOrder({ id: REPLACEMENT_ORDER_ID, order_number: REPLACEMENT_ORDER_ID, name: '#1002', total_price: '0.00' }),
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  });
+
+  return calls;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const refundInput = {
+  ticketId: TICKET_ID,
+  shopDomain: store.domain,
+  orderId: 1001,
+  lineItems: [{ lineItemId: 501, quantity: 1 }],
+  refundShipping: false,
+  notifyCustomer: true,
+  reason: 'Arrived damaged',
+};
+
+describe('refundShopifyOrder', () => {
+  it('submits the refund Shopify calculated and records it on the ticket', async () => {
+    const inserts = mockSupabase('admin');
+    const calls = mockShopify(makeOrder());
+
+    const result = await refundShopifyOrder(refundInput);
+
+    expect(result).toEqual({ success: true, amount: 20, currency: 'USD' });
+
+    const posts = calls.filter((call) => call.method === 'POST');
+    expect(posts.map((call) => call.path)).toEqual([
+      '/orders/1001/refunds/calculate.json',
+      '/orders/1001/refunds.json',
+    ]);
+    expect(posts[0].body).toEqual({
+      refund: {
+        shipping: { full_refund: false },
+        refund_line_items: [{ line_item_id: 501, quantity: 1, restock_type: 'no_restock' }],
+      },
+    });
+    expect(posts[1].body).toMatchObject({
+      refund: {
+        notify: true,
+        note: 'Arrived damaged',
+        refund_line_items: [{ line_item_id: 501, quantity: 1, restock_type: 'no_restock' }],
+        transactions: [{ parent_id: 7001, amount: '20.00', kind: 'refund', gateway: 'shopify_payments' }],
+      },
+    });
+
+    expect(inserts.messages?.[0]).toMatchObject({
+      ticket_id: TICKET_ID,
+      is_internal: true,
+      content: 'Refunded $20.00 on order #1001 for 1x T-shirt. Reason: Arrived damaged',
+    });
+    expect(inserts.ticket_activities?.[0]).toMatchObject({ action: 'order_refunded', new_value: '#1001' });
+  });
+
+  it('refuses agents, since refunds are admin-only', async () => {
+    const inserts = mockSupabase('agent');
+    const calls = mockShopify(makeOrder());
+
+    const result = await refundShopifyOrder(refundInput);
+
+    expect(result).toEqual({ error: 'You do not have permission to do this' });
+    expect(calls).toEqual([]);
+    expect(inserts).toEqual({});
+  });
+
+  it('rejects more than is left to refund', async () => {
+    const inserts = mockSupabase('admin');
+    const calls = mockShopify(
+      makeOrder({
+        refunds: [
+          {
+            id: 8000,
+            created_at: '2025-01-02T00:00:00Z',
+            note: null,
+            refund_line_items: [{ line_item_id: 501, quantity: 1 }],
+            transactions: [],
+          },
+        ],
+      })
+    );
+
+    const result = await refundShopifyOrder({ ...refundInput, lineItems: [{ lineItemId: 501, quantity: 2 }] });
+
+    expect(result).toEqual({ error: 'Refund quantity is more than what is left to refund' });
+    expect(calls.filter((call) => call.method === 'POST')).toEqual([]);
+    expect(inserts).toEqual({});
+  });
+
+  it('refuses an order that belongs to someone else', async () => {
+    mockSupabase('admin');
+    const calls = mockShopify(makeOrder({ email: 'someone-else@example.com' }));
+
+    const result = await refundShopifyOrder(refundInput);
+
+    expect(result).toEqual({ error: "This order doesn't belong to the ticket's customer" });
+    expect(calls.filter((call) => call.method === 'POST')).toEqual([]);
+  });
+});
+
+const cancelInput = {
+  ticketId: TICKET_ID,
+  shopDomain: store.domain,
+  orderId: 1001,
+  reason: 'customer' as const,
+  notifyCustomer: true,
+};
+
+describe('cancelShopifyOrder', () => {
+  it('cancels the order and records it on the ticket', async () => {
+    const inserts = mockSupabase('admin');
+    const calls = mockShopify(makeOrder());
+
+    const result = await cancelShopifyOrder(cancelInput);
+
+    expect(result).toEqual({ success: true });
+
+    const posts = calls.filter((call) => call.method === 'POST');
+    expect(posts).toEqual([
+      { method: 'POST', path: '/orders/1001/cancel.json', body: { reason: 'customer', email: true, restock: true } },
+    ]);
+    expect(inserts.messages?.[0]).toMatchObject({
+      ticket_id: TICKET_ID,
+      is_internal: true,
+      content: 'Cancelled order #1001 (Customer changed or cancelled the order)',
+    });
+    expect(inserts.ticket_activities?.[0]).toMatchObject({ action: 'order_cancelled', new_value: '#1001' });
+  });
+
+  it('refuses agents, since cancelling is admin-only', async () => {
+    const inserts = mockSupabase('agent');
+    const calls = mockShopify(makeOrder());
+
+    const result = await cancelShopifyOrder(cancelInput);
+
+    expect(result).toEqual({ error: 'You do not have permission to do this' });
+    expect(calls).toEqual([]);
+    expect(inserts).toEqual({});
+  });
+
+  it("reports Shopify's refusal without recording anything", async () => {
+    const inserts = mockSupabase('admin');
+    mockShopify(makeOrder(), ['POST /orders/1001/cancel.json']);
+
+    const result = await cancelShopifyOrder(cancelInput);
+
+    expect(result).toEqual({ error: 'Shopify refused to cancel the order' });
+    expect(inserts).toEqual({});
+  });
+});
+
+const replacementInput = {
+  ticketId: TICKET_ID,
+  shopDomain: store.domain,
+  orderId: 1001,
+  lineItems: [{ lineItemId: 501, quantity: 1 }],
+};
+
+describe('createShopifyReplacementOrder', () => {
+  it('creates a free draft order for the items and completes it', async () => {
+    const inserts = mockSupabase('agent');
+    const calls = mockShopify(makeOrder());
+
+    const result = await createShopifyReplacementOrder(replacementInput);
+
+    expect(result).toEqual({ success: true, orderName: '#1002' });
+
+    const writes = calls.filter((call) => call.method !== 'GET');
+    expect(writes.map((call) => `${call.method} ${call.path}`)).toEqual([
+      'POST /draft_orders.json',
+      'PUT /draft_orders/3001/complete.json',
+    ]);
+    expect(writes[0].body).toMatchObject({
+      draft_order: {
+        line_items: [{ variant_id: 901, quantity: 1 }],
+        email: CUSTOMER_EMAIL,
+        applied_discount: { value_type: 'percentage', value: '100.0' },
+        note: 'Replacement for #1001',
+      },
+    });
+    expect(inserts.messages?.[0]).toMatchObject({
+      content: 'Created free replacement order #1002 for 1x T-shirt from order #1001',
+    });
+    expect(inserts.ticket_activities?.[0]).toMatchObject({
+      action: 'replacement_order_created',
+      metadata: { replacement_order_id: REPLACEMENT_ORDER_ID, replacement_order_name: '#1002' },
+    });
+  });
+
+  it('refuses viewers', async () => {
+    const inserts = mockSupabase('viewer');
+    const calls = mockShopify(makeOrder());
+
+    const result = await createShopifyReplacementOrder(replacementInput);
+
+    expect(result).toEqual({ error: 'You do not have permission to do this' });
+    expect(calls).toEqual([]);
+    expect(inserts).toEqual({});
+  });
+});
+
+const addressInput = {
+  ticketId: TICKET_ID,
+  shopDomain: store.domain,
+  orderId: 1001,
+  address: {
+    first_name: 'Sam',
+    last_name: 'Customer',
+    address1: '1 New Street',
+    city: 'Springfield',
+    province: 'IL',
+    zip: '62701',
+    country: 'US',
+  },
+};
+
+describe('updateShopifyOrderAddress', () => {
+  it('sends the new address to Shopify and records it on the ticket', async () => {
+    const inserts = mockSupabase('agent');
+    const calls = mockShopify(makeOrder());
+
+    const result = await updateShopifyOrderAddress(addressInput);
+
+    expect(result).toEqual({ success: true });
+    expect(calls.filter((call) => call.method === 'PUT')).toEqual([
+      {
+        method: 'PUT',
+        path: '/orders/1001.json',
+        body: { order: { id: 1001, shipping_address: addressInput.address } },
+      },
+    ]);
+    expect(inserts.messages?.[0]).toMatchObject({
+      content: 'Changed the shipping address on order #1001 to 1 New Street, Springfield, IL 62701, US',
+    });
+    expect(inserts.ticket_activities?.[0]).toMatchObject({
+      action: 'order_address_updated',
+      metadata: { old_address: null, new_address: addressInput.address },
+    });
+  });
+
+  it('refuses viewers', async () => {
+    const inserts = mockSupabase('viewer');
+    const calls = mockShopify(makeOrder());
+
+    const result = await updateShopifyOrderAddress(addressInput);
+
+    expect(result).toEqual({ error: 'You do not have permission to do this' });
+    expect(calls).toEqual([]);
+    expect(inserts).toEqual({});
+  });
+
+  it("reports Shopify's refusal without recording anything", async () => {
+    const inserts = mockSupabase('agent');
+    mockShopify(makeOrder(), ['PUT /orders/1001.json']);
+
+    const result = await updateShopifyOrderAddress(addressInput);
+
+    expect(result).toEqual({ error: 'Shopify refused the address change' });
+    expect(inserts).toEqual({});
+  });
+});
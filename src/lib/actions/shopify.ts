@@ -1,6 +1,51 @@
 'use server';
 
-import { getCustomerOrders, getOrderAdminUrl, getCustomerAdminUrl, type ShopifyOrder, type ShopifyCustomer, type ShopifyAddress } from '@/lib/shopify';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import {
+  findCustomerByEmail,
+  getOrderAdminUrl,
+  getCustomerAdminUrl,
+  getOrder,
+  getRefundableQuantities,
+  refundOrder,
+  cancelOrder,
+  createReplacementOrder,
+  updateOrderShippingAddress,
+  type ShopifyOrder,
+  type ShopifyCustomer,
+  type ShopifyAddress,
+  type ShopifyShippingAddress,
+  type ShopifyStore,
+} from '@/lib/shopify';
+import { getShopifyStores, getShopifyStoresForBrand, getShopifyStoreByDomain } from '@/lib/shopify-stores';
+import { getCustomerOrdersWithCache, syncShopifyOrder } from '@/lib/shopify-sync';
+import { invalidateIntegrationCache } from '@/lib/integration-cache';
+import {
+  createRMA,
+  isReturnLogicConfigured,
+  returnTypeOptions,
+  type ReturnLogicReturnType,
+} from '@/lib/returnlogic';
+import {
+  canPerformOrderAction,
+  formatOrderAmount,
+  orderCancelReasons,
+  type OrderAction,
+} from '@/lib/order-actions';
+import {
+  refundOrderSchema,
+  cancelOrderSchema,
+  replacementOrderSchema,
+  updateOrderAddressSchema,
+  createReturnSchema,
+  type RefundOrderInput,
+  type CancelOrderInput,
+  type ReplacementOrderInput,
+  type UpdateOrderAddressInput,
+  type CreateReturnInput,
+} from '@/lib/validations';
+import type { TicketOrder } from '@/lib/supabase/types';
 
 /**
  * Format customer location as "City, ST ZIP"
@@ -59,10 +104,15 @@ export interface OrderHistoryResult {
     currency: string;
     orderStatusUrl: string;
     adminUrl: string;
+    shopDomain: string;
+    brand: { name: string; color: string } | null; // The store's brand, for orders from several stores
+    shippingAddress: ShopifyShippingAddress | null;
     lineItems: {
       id: number;
+      variantId: number | null;
       title: string;
       quantity: number;
+      refundableQuantity: number;
       price: string;
       variantTitle: string | null;
     }[];
@@ -73,24 +123,36 @@ export interface OrderHistoryResult {
       shipmentStatus: string | null;
     } | null;
   }[];
+  staleAsOf?: string | null; // Shopify is unavailable and these orders were loaded then
   error?: string;
 }
 
 /**
- * Server action to fetch customer order history from Shopify
+ * Server action to fetch customer order history, from the local cache when
+ * webhooks keep it fresh and from Shopify otherwise
+ * Looks in the brand's store, or every store when the brand has none
  * Keeps API credentials server-side
  */
-export async function fetchCustomerOrderHistory(email: string): Promise<OrderHistoryResult> {
+export async function fetchCustomerOrderHistory(
+  email: string,
+  brandId?: string | null
+): Promise<OrderHistoryResult> {
   if (!email) {
     return { customer: null, orders: [], error: 'No email provided' };
   }
 
-  const result = await getCustomerOrders(email);
+  const supabase = await createClient();
+  const [result, stores] = await Promise.all([
+    getCustomerOrdersWithCache(supabase, email, brandId),
+    getShopifyStores(),
+  ]);
 
   if (result.error) {
     return { customer: null, orders: [], error: result.error };
   }
 
+  const storesByDomain = new Map(stores.map((store) => [store.domain, store]));
+
   // Transform to a cleaner format for the frontend
   const customer = result.customer
     ? {
@@ -99,7 +161,7 @@ export async function fetchCustomerOrderHistory(email: string): Promise<OrderHis
         email: result.customer.email,
         ordersCount: result.customer.orders_count,
         totalSpent: result.customer.total_spent,
-        adminUrl: getCustomerAdminUrl(result.customer.id),
+        adminUrl: getCustomerAdminUrl(result.customer.shopDomain, result.customer.id),
         location: formatCustomerLocation(result.customer.default_address),
       }
     : null;
@@ -115,6 +177,9 @@ export async function fetchCustomerOrderHistory(email: string): Promise<OrderHis
       (f) => f.shipment_status
     ) || fulfillmentWithTracking;
 
+    const refundableQuantities = getRefundableQuantities(order);
+    const brand = storesByDomain.get(order.shopDomain)?.brand;
+
     return {
       id: order.id,
       orderNumber: order.order_number,
@@ -126,11 +191,16 @@ export async function fetchCustomerOrderHistory(email: string): Promise<OrderHis
       totalPrice: order.total_price,
       currency: order.currency,
       orderStatusUrl: order.order_status_url,
-      adminUrl: getOrderAdminUrl(order.id),
+      adminUrl: getOrderAdminUrl(order.shopDomain, order.id),
+      shopDomain: order.shopDomain,
+      brand: brand ? { name: brand.name, color: brand.color } : null,
+      shippingAddress: order.shipping_address || null,
       lineItems: order.line_items.map((item) => ({
         id: item.id,
+        variantId: item.variant_id,
         title: item.title,
         quantity: item.quantity,
+        refundableQuantity: refundableQuantities.get(item.id) ?? item.quantity,
         price: item.price,
         variantTitle: item.variant_title,
       })),
@@ -145,13 +215,14 @@ export async function fetchCustomerOrderHistory(email: string): Promise<OrderHis
     };
   });
 
-  return { customer, orders };
+  return { customer, orders, staleAsOf: result.staleAsOf };
 }
 
 /**
  * Server action to fetch just customer info (without orders) - faster for sidebar display
+ * Uses the first store for the brand the customer has an account in
  */
-export async function fetchShopifyCustomerInfo(email: string): Promise<{
+export async function fetchShopifyCustomerInfo(email: string, brandId?: string | null): Promise<{
   customer: {
     id: number;
     name: string;
@@ -165,23 +236,547 @@ export async function fetchShopifyCustomerInfo(email: string): Promise<{
   }
 
   try {
-    const { findCustomerByEmail, getCustomerAdminUrl } = await import('@/lib/shopify');
-    const shopifyCustomer = await findCustomerByEmail(email);
+    const stores = await getShopifyStoresForBrand(brandId);
+
+    for (const store of stores) {
+      const shopifyCustomer = await findCustomerByEmail(store, email);
+      if (!shopifyCustomer) continue;
 
-    if (!shopifyCustomer) {
-      return { customer: null };
+      return {
+        customer: {
+          id: shopifyCustomer.id,
+          name: [shopifyCustomer.first_name, shopifyCustomer.last_name].filter(Boolean).join(' ') || 'Unknown',
+          adminUrl: getCustomerAdminUrl(store.domain, shopifyCustomer.id),
+          location: formatCustomerLocation(shopifyCustomer.default_address),
+        },
+      };
     }
 
-    return {
-      customer: {
-        id: shopifyCustomer.id,
-        name: [shopifyCustomer.first_name, shopifyCustomer.last_name].filter(Boolean).join(' ') || 'Unknown',
-        adminUrl: getCustomerAdminUrl(shopifyCustomer.id),
-        location: formatCustomerLocation(shopifyCustomer.default_address),
-      },
-    };
+    return { customer: null };
   } catch (error) {
     console.error('Error fetching Shopify customer info:', error);
     return { customer: null, error: 'Failed to fetch customer info' };
   }
 }
+
+export type LinkedOrder = TicketOrder & { adminUrl: string | null };
+
+/**
+ * Orders linked to a ticket from order or tracking numbers in its emails
+ */
+export async function getTicketLinkedOrders(
+  ticketId: string
+): Promise<{ orders: LinkedOrder[] } | { error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('ticket_orders')
+    .select('*')
+    .eq('ticket_id', ticketId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get ticket linked orders error:', error);
+    return { error: 'Failed to fetch linked orders' };
+  }
+
+  // Orders linked before stores were set per brand came from the env var store
+  const legacyStore = await getShopifyStoreByDomain(null);
+
+  return {
+    orders: ((data || []) as TicketOrder[]).map((order) => {
+      const shopDomain = order.shop_domain || legacyStore?.domain;
+      return {
+        ...order,
+        adminUrl: shopDomain ? getOrderAdminUrl(shopDomain, order.shopify_order_id) : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Load the order for an order action from its store, after checking the
+ * user's role and that the order belongs to the ticket's customer
+ */
+async function getOrderActionContext(
+  { ticketId, shopDomain, orderId }: { ticketId: string; shopDomain: string; orderId: number },
+  action: OrderAction
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Not authenticated' };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (!canPerformOrderAction(profile?.role, action)) {
+    return { error: 'You do not have permission to do this' };
+  }
+
+  const store = await getShopifyStoreByDomain(shopDomain);
+  if (!store) {
+    return { error: 'This Shopify store is no longer connected' };
+  }
+
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select('id, customer:customers(email)')
+    .eq('id', ticketId)
+    .single();
+
+  const customer = Array.isArray(ticket?.customer) ? ticket.customer[0] : ticket?.customer;
+  if (!ticket || !customer?.email) {
+    return { error: 'Ticket not found' };
+  }
+
+  let order: ShopifyOrder;
+  try {
+    order = await getOrder(store, orderId);
+  } catch (error) {
+    console.error('Error fetching Shopify order:', error);
+    return { error: 'Failed to load order from Shopify' };
+  }
+
+  const orderEmail = order.email || order.customer?.email;
+  if (!orderEmail || orderEmail.toLowerCase() !== customer.email.toLowerCase()) {
+    return { error: "This order doesn't belong to the ticket's customer" };
+  }
+
+  return { supabase, userId: user.id, store, order };
+}
+
+/**
+ * Leave an internal note and an activity entry saying what was done
+ */
+async function recordOrderAction(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  ticketId: string,
+  userId: string,
+  activity: { action: string; order: ShopifyOrder; metadata: Record<string, unknown> },
+  note: string
+) {
+  await supabase.from('messages').insert({
+    ticket_id: ticketId,
+    sender_type: 'agent',
+    sender_id: userId,
+    content: note,
+    is_internal: true,
+    attachments: [],
+  });
+
+  await supabase.from('ticket_activities').insert({
+    ticket_id: ticketId,
+    actor_id: userId,
+    action: activity.action,
+    new_value: activity.order.name,
+    metadata: {
+      order_id: activity.order.id,
+      order_name: activity.order.name,
+      ...activity.metadata,
+    },
+  });
+
+  revalidatePath(`/tickets/${ticketId}`);
+}
+
+/**
+ * Store the order as it is after an action, so the order history shows the
+ * change before Shopify's webhook arrives
+ */
+async function refreshCachedOrder(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  store: ShopifyStore,
+  order: ShopifyOrder | number
+) {
+  try {
+    await syncShopifyOrder(supabase, store, typeof order === 'number' ? await getOrder(store, order) : order);
+  } catch (error) {
+    console.error('Error refreshing cached Shopify order:', error);
+  }
+}
+
+function describeLineItems(
+  order: ShopifyOrder,
+  lineItems: { lineItemId: number; quantity: number }[]
+): { title: string; quantity: number }[] {
+  return lineItems.map((item) => ({
+    title: order.line_items.find((lineItem) => lineItem.id === item.lineItemId)?.title || 'Item',
+    quantity: item.quantity,
+  }));
+}
+
+function formatLineItems(items: { title: string; quantity: number }[]): string {
+  return items.map((item) => `${item.quantity}x ${item.title}`).join(', ');
+}
+
+/**
+ * Refund some or all of an order's line items, and optionally its shipping
+ */
+export async function refundShopifyOrder(input: RefundOrderInput) {
+  const parsed = refundOrderSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const context = await getOrderActionContext(parsed.data, 'refund');
+  if ('error' in context) {
+    return { error: context.error };
+  }
+
+  const { supabase, userId, store, order } = context;
+  const refundable = getRefundableQuantities(order);
+
+  for (const item of parsed.data.lineItems) {
+    if (item.quantity > (refundable.get(item.lineItemId) ?? 0)) {
+      return { error: 'Refund quantity is more than what is left to refund' };
+    }
+  }
+
+  let amount = 0;
+  let currency = order.currency;
+  try {
+    const refund = await refundOrder(store, order.id, {
+      lineItems: parsed.data.lineItems,
+      refundShipping: parsed.data.refundShipping,
+      notifyCustomer: parsed.data.notifyCustomer,
+      note: parsed.data.reason,
+    });
+    amount = refund.transactions.reduce((sum, transaction) => sum + parseFloat(transaction.amount), 0);
+    currency = refund.transactions[0]?.currency || currency;
+  } catch (error) {
+    console.error('Error refunding Shopify order:', error);
+    return { error: 'Shopify refused the refund' };
+  }
+
+  await refreshCachedOrder(supabase, store, order.id);
+
+  const items = describeLineItems(order, parsed.data.lineItems);
+  const note = [
+    `Refunded ${formatOrderAmount(amount, currency)} on order ${order.name}`,
+    items.length > 0 ? ` for ${formatLineItems(items)}` : '',
+    parsed.data.refundShipping ? `${items.length > 0 ? ' and' : ' for'} shipping` : '',
+    parsed.data.reason ? `. Reason: ${parsed.data.reason}` : '',
+  ].join('');
+
+  await recordOrderAction(
+    supabase,
+    parsed.data.ticketId,
+    userId,
+    {
+      action: 'order_refunded',
+      order,
+      metadata: {
+        amount,
+        currency,
+        line_items: items,
+        refund_shipping: parsed.data.refundShipping,
+        reason: parsed.data.reason || null,
+      },
+    },
+    note
+  );
+
+  return { success: true, amount, currency };
+}
+
+/**
+ * Cancel an order that hasn't been fulfilled
+ */
+export async function cancelShopifyOrder(input: CancelOrderInput) {
+  const parsed = cancelOrderSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const context = await getOrderActionContext(parsed.data, 'cancel');
+  if ('error' in context) {
+    return { error: context.error };
+  }
+
+  const { supabase, userId, store, order } = context;
+
+  if (order.cancelled_at) {
+    return { error: 'This order is already cancelled' };
+  }
+  if (order.fulfillment_status === 'fulfilled') {
+    return { error: "Fulfilled orders can't be cancelled" };
+  }
+
+  let cancelled: ShopifyOrder;
+  try {
+    cancelled = await cancelOrder(store, order.id, {
+      reason: parsed.data.reason,
+      notifyCustomer: parsed.data.notifyCustomer,
+    });
+  } catch (error) {
+    console.error('Error cancelling Shopify order:', error);
+    return { error: 'Shopify refused to cancel the order' };
+  }
+
+  await refreshCachedOrder(supabase, store, cancelled);
+
+  const reasonLabel =
+    orderCancelReasons.find((reason) => reason.value === parsed.data.reason)?.label ||
+    parsed.data.reason;
+
+  await recordOrderAction(
+    supabase,
+    parsed.data.ticketId,
+    userId,
+    {
+      action: 'order_cancelled',
+      order,
+      metadata: { reason: parsed.data.reason, note: parsed.data.note || null },
+    },
+    `Cancelled order ${order.name} (${reasonLabel})${parsed.data.note ? `. ${parsed.data.note}` : ''}`
+  );
+
+  return { success: true };
+}
+
+/**
+ * Send the customer free replacements for items from an order
+ */
+export async function createShopifyReplacementOrder(input: ReplacementOrderInput) {
+  const parsed = replacementOrderSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const context = await getOrderActionContext(parsed.data, 'replacement');
+  if ('error' in context) {
+    return { error: context.error };
+  }
+
+  const { supabase, userId, store, order } = context;
+
+  const replacementItems: { variantId: number; quantity: number }[] = [];
+  for (const item of parsed.data.lineItems) {
+    const lineItem = order.line_items.find((li) => li.id === item.lineItemId);
+    if (!lineItem || item.quantity > lineItem.quantity) {
+      return { error: 'Replacement quantity is more than was ordered' };
+    }
+    if (!lineItem.variant_id) {
+      return { error: `${lineItem.title} is no longer in the store and can't be replaced` };
+    }
+    replacementItems.push({ variantId: lineItem.variant_id, quantity: item.quantity });
+  }
+
+  let replacement: ShopifyOrder;
+  try {
+    replacement = await createReplacementOrder(
+      store,
+      order,
+      replacementItems,
+      parsed.data.note || `Replacement for ${order.name}`
+    );
+  } catch (error) {
+    console.error('Error creating Shopify replacement order:', error);
+    return { error: 'Shopify refused to create the replacement order' };
+  }
+
+  await refreshCachedOrder(supabase, store, replacement);
+
+  const items = describeLineItems(order, parsed.data.lineItems);
+
+  await recordOrderAction(
+    supabase,
+    parsed.data.ticketId,
+    userId,
+    {
+      action: 'replacement_order_created',
+      order,
+      metadata: {
+        replacement_order_id: replacement.id,
+        replacement_order_name: replacement.name,
+        line_items: items,
+        note: parsed.data.note || null,
+      },
+    },
+    `Created free replacement order ${replacement.name} for ${formatLineItems(items)} from order ${order.name}${
+      parsed.data.note ? `. ${parsed.data.note}` : ''
+    }`
+  );
+
+  return { success: true, orderName: replacement.name };
+}
+
+/**
+ * Change the shipping address of an order before it's fulfilled
+ */
+export async function updateShopifyOrderAddress(input: UpdateOrderAddressInput) {
+  const parsed = updateOrderAddressSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const context = await getOrderActionContext(parsed.data, 'edit_address');
+  if ('error' in context) {
+    return { error: context.error };
+  }
+
+  const { supabase, userId, store, order } = context;
+
+  if (order.cancelled_at || order.fulfillment_status) {
+    return { error: 'The address can only be changed before the order is fulfilled' };
+  }
+
+  let updated: ShopifyOrder;
+  try {
+    updated = await updateOrderShippingAddress(store, order.id, parsed.data.address);
+  } catch (error) {
+    console.error('Error updating Shopify order address:', error);
+    return { error: 'Shopify refused the address change' };
+  }
+
+  await refreshCachedOrder(supabase, store, updated);
+
+  const address = parsed.data.address;
+  const formatted = [
+    address.address1,
+    address.address2,
+    address.city,
+    [address.province, address.zip].filter(Boolean).join(' '),
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  await recordOrderAction(
+    supabase,
+    parsed.data.ticketId,
+    userId,
+    {
+      action: 'order_address_updated',
+      order,
+      metadata: { old_address: order.shipping_address, new_address: address },
+    },
+    `Changed the shipping address on order ${order.name} to ${formatted}`
+  );
+
+  return { success: true };
+}
+
+const returnOutcomes: Record<ReturnLogicReturnType, string> = {
+  refund: "we'll refund you to your original payment method",
+  exchange: "we'll send out your exchange",
+  store_credit: "we'll issue your store credit",
+};
+
+/**
+ * Start a Return Logic return for items from an order and link it to the
+ * ticket. Returns a reply for the agent to send the customer with the RMA
+ * number and return label.
+ */
+export async function createOrderReturn(input: CreateReturnInput) {
+  const parsed = createReturnSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  if (!isReturnLogicConfigured()) {
+    return { error: 'Return Logic integration not configured' };
+  }
+
+  const context = await getOrderActionContext(parsed.data, 'return');
+  if ('error' in context) {
+    return { error: context.error };
+  }
+
+  const { supabase, userId, order } = context;
+
+  if (order.cancelled_at || !order.fulfillment_status) {
+    return { error: 'Only shipped orders can be returned' };
+  }
+
+  const returnItems: { lineItemId: number; sku: string | null; quantity: number }[] = [];
+  for (const item of parsed.data.lineItems) {
+    const lineItem = order.line_items.find((li) => li.id === item.lineItemId);
+    if (!lineItem || item.quantity > lineItem.quantity) {
+      return { error: 'Return quantity is more than was ordered' };
+    }
+    returnItems.push({ lineItemId: lineItem.id, sku: lineItem.sku, quantity: item.quantity });
+  }
+
+  // Checked against the ticket's customer by getOrderActionContext
+  const customerEmail = (order.email || order.customer?.email) as string;
+
+  const created = await createRMA({
+    orderName: order.name,
+    customerEmail,
+    returnType: parsed.data.returnType,
+    reason: parsed.data.reason,
+    comment: parsed.data.comment,
+    items: returnItems,
+  });
+
+  if (!created.rma) {
+    return { error: created.error || 'Failed to create return' };
+  }
+
+  const rma = created.rma;
+
+  const { error: linkError } = await supabase.from('ticket_rmas').insert({
+    ticket_id: parsed.data.ticketId,
+    rma_id: rma.id,
+    rma_number: rma.rmaNumber,
+    order_id: order.id,
+    order_name: order.name,
+    return_type: parsed.data.returnType,
+    reason: parsed.data.reason,
+    status: rma.status,
+    label_url: rma.labelUrl,
+    created_by: userId,
+  });
+
+  if (linkError) {
+    console.error('Link RMA to ticket error:', linkError);
+  }
+
+  await invalidateIntegrationCache(supabase, 'returnlogic', customerEmail);
+
+  const items = describeLineItems(order, parsed.data.lineItems);
+  const typeLabel =
+    returnTypeOptions.find((option) => option.value === parsed.data.returnType)?.label ||
+    parsed.data.returnType;
+
+  await recordOrderAction(
+    supabase,
+    parsed.data.ticketId,
+    userId,
+    {
+      action: 'rma_created',
+      order,
+      metadata: {
+        rma_id: rma.id,
+        rma_number: rma.rmaNumber,
+        return_type: parsed.data.returnType,
+        reason: parsed.data.reason,
+        line_items: items,
+        label_url: rma.labelUrl,
+      },
+    },
+    `Started return RMA #${rma.rmaNumber} (${typeLabel}) for ${formatLineItems(items)} from order ${order.name}. Reason: ${parsed.data.reason}${
+      parsed.data.comment ? `. ${parsed.data.comment}` : ''
+    }`
+  );
+
+  const draftReply = [
+    `I've started a return for ${formatLineItems(items)} from order ${order.name}. Your return number is RMA #${rma.rmaNumber}.`,
+    rma.labelUrl
+      ? `You can print your prepaid return shipping label here: ${rma.labelUrl}`
+      : "You'll receive your return shipping label by email shortly.",
+    `Once your return arrives, ${returnOutcomes[parsed.data.returnType]}.`,
+  ].join('\n\n');
+
+  return { success: true, rmaNumber: rma.rmaNumber, labelUrl: rma.labelUrl, draftReply };
+}
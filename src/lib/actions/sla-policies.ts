@@ -0,0 +1,302 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import type {
+  BusinessCalendar,
+  BusinessHoursInterval,
+  SlaPolicy,
+  TicketPriority,
+  Weekday,
+} from '@/lib/supabase/types';
+
+export interface SlaPolicyInput {
+  name: string;
+  priority: TicketPriority;
+  brand_id: string | null;
+  calendar_id: string | null;
+  first_response_minutes: number;
+  next_response_minutes: number | null;
+  resolution_minutes: number | null;
+  is_active?: boolean;
+}
+
+export interface BusinessCalendarInput {
+  name: string;
+  timezone: string;
+  weekly_hours: Partial<Record<Weekday, BusinessHoursInterval[]>>;
+  holidays: string[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateSlaPolicy(input: SlaPolicyInput): string | null {
+  if (!input.name.trim()) {
+    return 'Policy name is required';
+  }
+
+  if (!Number.isInteger(input.first_response_minutes) || input.first_response_minutes <= 0) {
+    return 'First response target must be a positive number of minutes';
+  }
+
+  for (const value of [input.next_response_minutes, input.resolution_minutes]) {
+    if (value !== null && (!Number.isInteger(value) || value <= 0)) {
+      return 'Targets must be positive numbers of minutes';
+    }
+  }
+
+  return null;
+}
+
+function validateBusinessCalendar(input: BusinessCalendarInput): string | null {
+  if (!input.name.trim()) {
+    return 'Calendar name is required';
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: input.timezone });
+  } catch {
+    return 'Invalid timezone';
+  }
+
+  for (const intervals of Object.values(input.weekly_hours)) {
+    for (const interval of intervals || []) {
+      if (!TIME_PATTERN.test(interval.start) || !TIME_PATTERN.test(interval.end)) {
+        return 'Opening hours must use HH:MM format';
+      }
+      if (interval.end <= interval.start) {
+        return 'Closing time must be after opening time';
+      }
+    }
+  }
+
+  if (input.holidays.some((date) => !DATE_PATTERN.test(date))) {
+    return 'Holidays must use YYYY-MM-DD format';
+  }
+
+  return null;
+}
+
+export async function getSlaPolicies(): Promise<{ policies: SlaPolicy[] } | { error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('sla_policies')
+    .select('*, brand:brands(*), calendar:business_calendars(*)')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get SLA policies error:', error);
+    return { error: 'Failed to fetch SLA policies' };
+  }
+
+  return { policies: data as SlaPolicy[] };
+}
+
+export async function createSlaPolicy(
+  input: SlaPolicyInput
+): Promise<{ policy: SlaPolicy } | { error: string }> {
+  const supabase = await createClient();
+
+  const validationError = validateSlaPolicy(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const { data, error } = await supabase
+    .from('sla_policies')
+    .insert({
+      name: input.name.trim(),
+      priority: input.priority,
+      brand_id: input.brand_id,
+      calendar_id: input.calendar_id,
+      first_response_minutes: input.first_response_minutes,
+      next_response_minutes: input.next_response_minutes,
+      resolution_minutes: input.resolution_minutes,
+      is_active: input.is_active ?? true,
+    })
+    .select('*, brand:brands(*), calendar:business_calendars(*)')
+    .single();
+
+  if (error) {
+    console.error('Create SLA policy error:', error);
+    if (error.code === '23505') {
+      return { error: 'A policy already exists for this priority and brand' };
+    }
+    return { error: 'Failed to create SLA policy' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { policy: data as SlaPolicy };
+}
+
+export async function updateSlaPolicy(
+  id: string,
+  input: SlaPolicyInput
+): Promise<{ policy: SlaPolicy } | { error: string }> {
+  const supabase = await createClient();
+
+  const validationError = validateSlaPolicy(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const { data, error } = await supabase
+    .from('sla_policies')
+    .update({
+      name: input.name.trim(),
+      priority: input.priority,
+      brand_id: input.brand_id,
+      calendar_id: input.calendar_id,
+      first_response_minutes: input.first_response_minutes,
+      next_response_minutes: input.next_response_minutes,
+      resolution_minutes: input.resolution_minutes,
+    })
+    .eq('id', id)
+    .select('*, brand:brands(*), calendar:business_calendars(*)')
+    .single();
+
+  if (error) {
+    console.error('Update SLA policy error:', error);
+    if (error.code === '23505') {
+      return { error: 'A policy already exists for this priority and brand' };
+    }
+    return { error: 'Failed to update SLA policy' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { policy: data as SlaPolicy };
+}
+
+export async function deleteSlaPolicy(
+  id: string
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('sla_policies').delete().eq('id', id);
+
+  if (error) {
+    console.error('Delete SLA policy error:', error);
+    return { error: 'Failed to delete SLA policy' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { success: true };
+}
+
+export async function toggleSlaPolicy(
+  id: string,
+  isActive: boolean
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('sla_policies')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Toggle SLA policy error:', error);
+    return { error: 'Failed to toggle SLA policy' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { success: true };
+}
+
+export async function getBusinessCalendars(): Promise<
+  { calendars: BusinessCalendar[] } | { error: string }
+> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('business_calendars')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Get business calendars error:', error);
+    return { error: 'Failed to fetch business calendars' };
+  }
+
+  return { calendars: data as BusinessCalendar[] };
+}
+
+export async function createBusinessCalendar(
+  input: BusinessCalendarInput
+): Promise<{ calendar: BusinessCalendar } | { error: string }> {
+  const supabase = await createClient();
+
+  const validationError = validateBusinessCalendar(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const { data, error } = await supabase
+    .from('business_calendars')
+    .insert({
+      name: input.name.trim(),
+      timezone: input.timezone,
+      weekly_hours: input.weekly_hours,
+      holidays: [...new Set(input.holidays)].sort(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Create business calendar error:', error);
+    return { error: 'Failed to create business calendar' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { calendar: data as BusinessCalendar };
+}
+
+export async function updateBusinessCalendar(
+  id: string,
+  input: BusinessCalendarInput
+): Promise<{ calendar: BusinessCalendar } | { error: string }> {
+  const supabase = await createClient();
+
+  const validationError = validateBusinessCalendar(input);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  const { data, error } = await supabase
+    .from('business_calendars')
+    .update({
+      name: input.name.trim(),
+      timezone: input.timezone,
+      weekly_hours: input.weekly_hours,
+      holidays: [...new Set(input.holidays)].sort(),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update business calendar error:', error);
+    return { error: 'Failed to update business calendar' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { calendar: data as BusinessCalendar };
+}
+
+export async function deleteBusinessCalendar(
+  id: string
+): Promise<{ success: boolean } | { error: string }> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('business_calendars').delete().eq('id', id);
+
+  if (error) {
+    console.error('Delete business calendar error:', error);
+    return { error: 'Failed to delete business calendar' };
+  }
+
+  revalidatePath('/settings/sla');
+  return { success: true };
+}
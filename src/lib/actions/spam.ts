@@ -0,0 +1,262 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { senderRuleSchema, uuidSchema, type SenderRuleInput } from '@/lib/validations';
+import { runAutomationRules } from '@/lib/automation';
+import { refreshTicketSla } from '@/lib/sla';
+import { autoAssignTicket } from '@/lib/assignment';
+import type { EmailSenderRule, SenderListType } from '@/lib/supabase/types';
+
+export async function getSenderRules(): Promise<{ rules: EmailSenderRule[] } | { error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('email_sender_rules')
+    .select('*')
+    .order('list_type')
+    .order('pattern');
+
+  if (error) {
+    console.error('Get sender rules error:', error);
+    return { error: 'Failed to fetch sender rules' };
+  }
+
+  return { rules: data as EmailSenderRule[] };
+}
+
+/**
+ * Block or allow an address or domain. Saving a pattern that's already
+ * listed moves it to the other list.
+ */
+export async function saveSenderRule(
+  input: SenderRuleInput
+): Promise<{ rule: EmailSenderRule } | { error: string }> {
+  const parsed = senderRuleSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('email_sender_rules')
+    .upsert(
+      {
+        pattern: parsed.data.pattern,
+        list_type: parsed.data.list_type,
+        note: parsed.data.note || null,
+        created_by: user?.id ?? null,
+      },
+      { onConflict: 'pattern' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Save sender rule error:', error);
+    return { error: 'Failed to save sender rule' };
+  }
+
+  revalidatePath('/settings/spam');
+  return { rule: data as EmailSenderRule };
+}
+
+export async function deleteSenderRule(
+  ruleId: string
+): Promise<{ success: boolean } | { error: string }> {
+  const parsed = uuidSchema.safeParse(ruleId);
+  if (!parsed.success) {
+    return { error: 'Invalid rule ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('email_sender_rules').delete().eq('id', parsed.data);
+
+  if (error) {
+    console.error('Delete sender rule error:', error);
+    return { error: 'Failed to delete sender rule' };
+  }
+
+  revalidatePath('/settings/spam');
+  return { success: true };
+}
+
+// Put every email address the ticket's customer writes from on one list
+async function listTicketSender(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  ticketId: string,
+  listType: SenderListType,
+  note: string
+): Promise<{ error: string } | null> {
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select('customer_id')
+    .eq('id', ticketId)
+    .single();
+
+  if (!ticket?.customer_id) {
+    return { error: 'This ticket has no customer' };
+  }
+
+  const { data: identities } = await supabase
+    .from('customer_identities')
+    .select('value')
+    .eq('customer_id', ticket.customer_id)
+    .eq('type', 'email');
+
+  const emails = ((identities || []) as { value: string }[]).map((identity) => identity.value);
+  if (emails.length === 0) {
+    return { error: 'This customer has no email address' };
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { error } = await supabase.from('email_sender_rules').upsert(
+    emails.map((pattern) => ({
+      pattern,
+      list_type: listType,
+      note,
+      created_by: user?.id ?? null,
+    })),
+    { onConflict: 'pattern' }
+  );
+
+  if (error) {
+    console.error('List ticket sender error:', error);
+    return { error: `Failed to ${listType} sender` };
+  }
+
+  return null;
+}
+
+/**
+ * Move a ticket out of the Spam view. The rules, SLA and assignment that
+ * were held back when the ticket came in run now. The sender isn't
+ * allow-listed; that's a separate, explicit choice (allowTicketSender).
+ */
+export async function markTicketNotSpam(
+  ticketId: string
+): Promise<{ success: true } | { error: string }> {
+  const parsed = uuidSchema.safeParse(ticketId);
+  if (!parsed.success) {
+    return { error: 'Invalid ticket ID' };
+  }
+
+  const supabase = await createClient();
+
+  const { data: ticket, error } = await supabase
+    .from('tickets')
+    .update({ is_spam: false, spam_reasons: [] })
+    .eq('id', parsed.data)
+    .eq('is_spam', true)
+    .select('id, subject')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Mark ticket not spam error:', error);
+    return { error: 'Failed to update ticket' };
+  }
+
+  // Already moved out of spam by someone else
+  if (!ticket) {
+    return { success: true };
+  }
+
+  const { data: firstMessage } = await supabase
+    .from('messages')
+    .select('content')
+    .eq('ticket_id', ticket.id)
+    .eq('sender_type', 'customer')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  await runAutomationRules(supabase, ticket.id, 'ticket_created', {
+    subject: ticket.subject,
+    body: firstMessage?.content || '',
+  });
+  await refreshTicketSla(supabase, ticket.id, 'created');
+  await autoAssignTicket(supabase, ticket.id);
+
+  revalidatePath(`/tickets/${ticket.id}`);
+  revalidatePath('/tickets');
+  return { success: true };
+}
+
+/**
+ * Block-list the ticket's sender and move the ticket to the Spam view.
+ * Undo it with "Always allow sender", or by removing the sender in spam
+ * settings.
+ */
+export async function blockTicketSender(
+  ticketId: string
+): Promise<{ success: true } | { error: string }> {
+  const parsed = uuidSchema.safeParse(ticketId);
+  if (!parsed.success) {
+    return { error: 'Invalid ticket ID' };
+  }
+
+  const supabase = await createClient();
+
+  const listError = await listTicketSender(supabase, parsed.data, 'block', 'Blocked from a ticket');
+  if (listError) {
+    return listError;
+  }
+
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select('spam_reasons')
+    .eq('id', parsed.data)
+    .single();
+
+  const reasons = new Set<string>(ticket?.spam_reasons || []);
+  reasons.add('Sender is blocked');
+
+  const { error } = await supabase
+    .from('tickets')
+    .update({ is_spam: true, spam_reasons: [...reasons] })
+    .eq('id', parsed.data);
+
+  if (error) {
+    console.error('Block ticket sender error:', error);
+    return { error: 'Failed to update ticket' };
+  }
+
+  revalidatePath(`/tickets/${parsed.data}`);
+  revalidatePath('/tickets');
+  revalidatePath('/settings/spam');
+  return { success: true };
+}
+
+/**
+ * Allow-list the ticket's sender, so their mail skips the content and rate
+ * limit checks. Mail that fails SPF and DKIM is still flagged, since an
+ * allowed address is easy to forge.
+ */
+export async function allowTicketSender(
+  ticketId: string
+): Promise<{ success: true } | { error: string }> {
+  const parsed = uuidSchema.safeParse(ticketId);
+  if (!parsed.success) {
+    return { error: 'Invalid ticket ID' };
+  }
+
+  const supabase = await createClient();
+
+  const listError = await listTicketSender(supabase, parsed.data, 'allow', 'Allowed from a ticket');
+  if (listError) {
+    return listError;
+  }
+
+  revalidatePath(`/tickets/${parsed.data}`);
+  revalidatePath('/settings/spam');
+  return { success: true };
+}
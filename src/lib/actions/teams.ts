@@ -0,0 +1,46 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import {
+  updateTeamAssignmentSchema,
+  type UpdateTeamAssignmentInput,
+} from '@/lib/validations';
+
+export async function updateTeamAssignment(input: UpdateTeamAssignmentInput) {
+  const parsed = updateTeamAssignmentSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid input' };
+  }
+
+  const supabase = await createClient();
+
+  // Only one team can take tickets that have no team
+  if (parsed.data.isDefault) {
+    const { error: clearError } = await supabase
+      .from('teams')
+      .update({ is_default: false })
+      .eq('is_default', true)
+      .neq('id', parsed.data.teamId);
+
+    if (clearError) {
+      return { error: 'Failed to update default team' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('teams')
+    .update({
+      auto_assign: parsed.data.autoAssign,
+      assignment_strategy: parsed.data.strategy,
+      is_default: parsed.data.isDefault,
+    })
+    .eq('id', parsed.data.teamId);
+
+  if (error) {
+    return { error: 'Failed to update team assignment settings' };
+  }
+
+  revalidatePath('/settings/assignment');
+  return { success: true };
+}
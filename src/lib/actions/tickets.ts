@@ -9,8 +9,15 @@ import {
   assignTicketSchema,
   assignTicketToTeamSchema,
   ticketTagSchema,
+  snoozeSchema,
   type CreateTicketInput,
+  type SnoozeInput,
 } from '@/lib/validations';
+import { refreshTicketSla } from '@/lib/sla';
+import { runAutomationRules } from '@/lib/automation';
+import { scheduleCsatSurvey } from '@/lib/csat';
+import { getSnoozeUpdate, wakeSnoozedTicket } from '@/lib/snooze';
+import { findCustomerIdByIdentity } from '@/lib/customer-identities';
 import type {
   TicketStatus,
   TicketPriority,
@@ -115,6 +122,8 @@ type SearchTicketRow = {
   resolved_at: string | null;
   last_message_at: string | null;
   is_auto_reply: boolean;
+  is_spam: boolean;
+  sla_due_at: string | null;
   created_at: string;
   updated_at: string;
   match_field: string;
@@ -156,19 +165,19 @@ export async function createTicket(input: CreateTicketInput) {
 
   // Find or create customer
   let customerId: string;
-  const { data: existingCustomer } = await supabase
-    .from('customers')
-    .select('id')
-    .eq('email', parsed.data.customerEmail)
-    .single();
+  const existingCustomerId = await findCustomerIdByIdentity(
+    supabase,
+    'email',
+    parsed.data.customerEmail
+  );
 
-  if (existingCustomer) {
-    customerId = existingCustomer.id;
+  if (existingCustomerId) {
+    customerId = existingCustomerId;
 
     // Check for existing open/pending ticket from this customer (auto-threading)
     const { data: existingTicket } = await supabase
       .from('tickets')
-      .select('id, ticket_number, snoozed_until, assigned_agent_id')
+      .select('id')
       .eq('customer_id', customerId)
       .in('status', ['open', 'pending'])
       .is('merged_into_ticket_id', null)
@@ -191,41 +200,20 @@ export async function createTicket(input: CreateTicketInput) {
         return { error: 'Failed to add message to existing ticket' };
       }
 
-      // Un-snooze if the ticket was snoozed
-      if (existingTicket.snoozed_until) {
-        await supabase
-          .from('tickets')
-          .update({
-            status: 'open',
-            snoozed_until: null,
-            snoozed_by: null,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', existingTicket.id);
-
-        // Notify the assigned agent that the customer replied
-        if (existingTicket.assigned_agent_id) {
-          await supabase.from('notifications').insert({
-            user_id: existingTicket.assigned_agent_id,
-            type: 'snooze_expired',
-            title: 'Customer replied to snoozed ticket',
-            message: `Ticket #${existingTicket.ticket_number} received a new message from the customer`,
-            ticket_id: existingTicket.id,
-          });
-        }
-      } else {
-        // Just update the updated_at timestamp
-        await supabase
-          .from('tickets')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', existingTicket.id);
-      }
+      // Wake the ticket (and tell its owner) if it was snoozed
+      await wakeSnoozedTicket(supabase, existingTicket.id);
+
+      await supabase
+        .from('tickets')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', existingTicket.id);
 
-      // Apply auto-tagging rules to the new message
-      await supabase.rpc('apply_auto_tags', {
-        p_ticket_id: existingTicket.id,
-        p_subject: null,
-        p_body: parsed.data.message,
+      await refreshTicketSla(supabase, existingTicket.id, 'customer_reply');
+
+      // Apply tag and automation rules to the new message
+      await runAutomationRules(supabase, existingTicket.id, 'customer_replied', {
+        subject: null,
+        body: parsed.data.message,
       });
 
       revalidatePath('/tickets');
@@ -280,22 +268,14 @@ export async function createTicket(input: CreateTicketInput) {
     return { error: 'Failed to create initial message' };
   }
 
-  // Apply auto-tagging rules based on subject and message body
-  await supabase.rpc('apply_auto_tags', {
-    p_ticket_id: ticket.id,
-    p_subject: parsed.data.subject,
-    p_body: parsed.data.message,
+  // Apply tag, priority and automation rules based on subject and message body
+  await runAutomationRules(supabase, ticket.id, 'ticket_created', {
+    subject: parsed.data.subject,
+    body: parsed.data.message,
   });
 
-  // Apply auto-priority rules (only if priority is default 'medium')
-  if (parsed.data.priority === 'medium') {
-    await supabase.rpc('apply_auto_priority', {
-      p_ticket_id: ticket.id,
-      p_subject: parsed.data.subject,
-      p_body: parsed.data.message,
-      p_current_priority: parsed.data.priority,
-    });
-  }
+  // Compute SLA deadlines once the final priority is known
+  await refreshTicketSla(supabase, ticket.id, 'created');
 
   revalidatePath('/tickets');
   return { ticketId: ticket.id, threaded: false };
@@ -328,6 +308,10 @@ export async function updateTicketStatus(ticketId: string, status: TicketStatus)
     return { error: 'Failed to update ticket status' };
   }
 
+  if (parsed.data.status === 'closed') {
+    await scheduleCsatSurvey(supabase, parsed.data.ticketId);
+  }
+
   revalidatePath(`/tickets/${parsed.data.ticketId}`);
   revalidatePath('/tickets');
   return { success: true };
@@ -350,6 +334,8 @@ export async function updateTicketPriority(ticketId: string, priority: TicketPri
     return { error: 'Failed to update ticket priority' };
   }
 
+  await refreshTicketSla(supabase, parsed.data.ticketId, 'priority_changed');
+
   revalidatePath(`/tickets/${parsed.data.ticketId}`);
   revalidatePath('/tickets');
   return { success: true };
@@ -509,12 +495,22 @@ export async function searchTickets(
     resolved_at: row.resolved_at,
     snoozed_until: null,
     snoozed_by: null,
+    snooze_until_reply: false,
+    snooze_reason: null,
     merged_into_ticket_id: null,
     external_id: null,
     imported_at: null,
     reference_id: null,
     last_message_at: row.last_message_at,
     is_auto_reply: row.is_auto_reply ?? false,
+    is_spam: row.is_spam ?? false,
+    spam_reasons: [],
+    sla_policy_id: null,
+    first_response_due_at: null,
+    next_response_due_at: null,
+    resolution_due_at: null,
+    sla_due_at: row.sla_due_at,
+    out_of_hours_replied_at: null,
     created_at: row.created_at,
     updated_at: row.updated_at,
     match_field: row.match_field as MatchField,
@@ -532,6 +528,9 @@ export async function searchTickets(
           city: null,
           state: null,
           country: null,
+          email_invalid: false,
+          email_invalid_reason: null,
+          email_invalid_at: null,
           created_at: row.customer_created_at || row.created_at,
           updated_at: row.customer_updated_at || row.updated_at,
         }
@@ -545,6 +544,9 @@ export async function searchTickets(
           role: row.agent_role || 'agent',
           team_id: row.agent_team_id,
           is_active: row.agent_is_active ?? true,
+          availability: 'available',
+          max_open_tickets: null,
+          undo_send_seconds: 10,
           created_at: row.created_at,
           updated_at: row.updated_at,
         }
@@ -554,6 +556,10 @@ export async function searchTickets(
           id: row.assigned_team_id,
           name: row.team_name || '',
           description: row.team_description,
+          auto_assign: false,
+          assignment_strategy: 'round_robin',
+          is_default: false,
+          last_assigned_agent_id: null,
           created_at: row.created_at,
           updated_at: row.updated_at,
         }
@@ -566,6 +572,14 @@ export async function searchTickets(
           email_address: '',
           color: row.brand_color || '#6B7280',
           logo_url: null,
+          csat_enabled: false,
+          csat_delay_minutes: 60,
+          csat_cooldown_days: 30,
+          calendar_id: null,
+          out_of_hours_reply_enabled: false,
+          out_of_hours_reply_message: null,
+          closed_ticket_reply: 'reopen',
+          reopen_window_days: null,
           created_at: row.created_at,
         }
       : null,
@@ -607,6 +621,10 @@ export async function bulkUpdateTicketStatus(
     return { error: 'Failed to update ticket status' };
   }
 
+  if (status === 'closed') {
+    await Promise.all(ticketIds.map((id) => scheduleCsatSurvey(supabase, id)));
+  }
+
   revalidatePath('/tickets');
   return { success: true, count: count || ticketIds.length };
 }
@@ -783,22 +801,6 @@ export async function bulkDeleteTickets(
 
 // Standalone Ticket Actions (without sending a message)
 
-export type SnoozeDuration = '1-day' | '3-days' | '1-week';
-
-function getSnoozedUntil(duration: SnoozeDuration): Date {
-  const now = new Date();
-  switch (duration) {
-    case '1-day':
-      return new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    case '3-days':
-      return new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
-    case '1-week':
-      return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    default:
-      return new Date(now.getTime() + 24 * 60 * 60 * 1000);
-  }
-}
-
 export async function closeTicket(ticketId: string) {
   const supabase = await createClient();
 
@@ -817,6 +819,8 @@ export async function closeTicket(ticketId: string) {
       resolved_at: new Date().toISOString(),
       snoozed_until: null,
       snoozed_by: null,
+      snooze_until_reply: false,
+      snooze_reason: null,
       assigned_agent_id: user.id,
     })
     .eq('id', ticketId);
@@ -826,12 +830,19 @@ export async function closeTicket(ticketId: string) {
     return { error: 'Failed to close ticket' };
   }
 
+  await scheduleCsatSurvey(supabase, ticketId);
+
   revalidatePath(`/tickets/${ticketId}`);
   revalidatePath('/tickets');
   return { success: true };
 }
 
-export async function snoozeTicket(ticketId: string, duration: SnoozeDuration) {
+export async function snoozeTicket(ticketId: string, input: SnoozeInput) {
+  const parsed = snoozeSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message || 'Invalid snooze' };
+  }
+
   const supabase = await createClient();
 
   const {
@@ -842,14 +853,15 @@ export async function snoozeTicket(ticketId: string, duration: SnoozeDuration) {
     return { error: 'Not authenticated' };
   }
 
-  const snoozedUntil = getSnoozedUntil(duration);
+  const snooze = getSnoozeUpdate(parsed.data, user.id);
+  if ('error' in snooze) {
+    return { error: snooze.error };
+  }
 
   const { error } = await supabase
     .from('tickets')
     .update({
-      status: 'pending',
-      snoozed_until: snoozedUntil.toISOString(),
-      snoozed_by: user.id,
+      ...snooze.update,
       assigned_agent_id: user.id,
     })
     .eq('id', ticketId);
@@ -988,6 +1000,8 @@ export async function mergeTickets(
       resolved_at: new Date().toISOString(),
       snoozed_until: null,
       snoozed_by: null,
+      snooze_until_reply: false,
+      snooze_reason: null,
     })
     .eq('id', secondaryTicketId);
 
@@ -1152,7 +1166,7 @@ export async function getTicketDetail(
     .select(
       `
       *,
-      customer:customers(id, email, full_name, avatar_url),
+      customer:customers(id, email, full_name, avatar_url, segments:customer_segments(id, name, color)),
       assigned_agent:profiles!tickets_assigned_agent_id_fkey(id, full_name, email, avatar_url),
       assigned_team:teams(*)
     `
@@ -0,0 +1,53 @@
+import type { AgentAvailability, AssignmentStrategy } from '@/lib/supabase/types';
+
+export const assignmentStrategyLabels: Record<AssignmentStrategy, string> = {
+  round_robin: 'Round-robin',
+  least_open: 'Fewest open tickets',
+};
+
+export const availabilityLabels: Record<AgentAvailability, string> = {
+  available: 'Available',
+  away: 'Away',
+};
+
+/**
+ * Give an unassigned ticket to an available agent in its team (or the
+ * default team). Returns the chosen agent id, or null if nobody was picked.
+ */
+export async function autoAssignTicket(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('auto_assign_ticket', { p_ticket_id: ticketId });
+
+  if (error) {
+    console.error('Auto-assign ticket error:', error);
+    return null;
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Unassign an agent's open and pending tickets and offer each to the rest of
+ * its team
+ */
+export async function releaseAgentTickets(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  agentId: string,
+  reason: 'agent_away' | 'agent_deactivated'
+): Promise<number> {
+  const { data, error } = await supabase.rpc('release_agent_tickets', {
+    p_agent_id: agentId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error('Release agent tickets error:', error);
+    return 0;
+  }
+
+  return (data as number) ?? 0;
+}
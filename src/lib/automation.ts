@@ -0,0 +1,745 @@
+import {
+  sendEmail,
+  formatReplyAsHtml,
+  formatReplyAsText,
+  getBrandEmail,
+  generateReplySubject,
+} from '@/lib/email';
+import { getLocalTimeOfDay, parseTime } from '@/lib/business-hours';
+import { refreshTicketSla } from '@/lib/sla';
+import type { AutoPriorityRule } from '@/lib/actions/auto-priority-rules';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationEvent,
+  AutomationRule,
+  AutomationTextField,
+  AutoTagRule,
+  Brand,
+  TicketChannel,
+  TicketPriority,
+  TicketStatus,
+  Weekday,
+} from '@/lib/supabase/types';
+
+// Regexes run against untrusted email text, so cap how much of it they see
+const MAX_REGEX_INPUT_LENGTH = 10000;
+
+const priorityWeight: Record<TicketPriority, number> = {
+  urgent: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export type AutomationRuleSource = 'automation' | 'tag_rule' | 'priority_rule';
+
+/**
+ * A rule as the engine sees it. Keyword tag and priority rules are converted
+ * into this shape so everything runs through the same evaluation.
+ */
+export type EngineRule = Pick<
+  AutomationRule,
+  'id' | 'name' | 'events' | 'match_type' | 'conditions' | 'actions' | 'stop_processing'
+> & { source: AutomationRuleSource };
+
+/**
+ * Everything conditions can look at. Kept up to date as actions run, so later
+ * rules see the changes made by earlier ones.
+ */
+export interface AutomationFacts {
+  subject: string;
+  body: string;
+  brand_id: string | null;
+  channel: TicketChannel;
+  priority: TicketPriority;
+  status: TicketStatus;
+  customer_email: string | null;
+  customer_order_count: number;
+  customer_lifetime_value: number;
+  customer_segment_ids: string[];
+}
+
+function getText(field: AutomationTextField | 'customer_email', facts: AutomationFacts): string {
+  switch (field) {
+    case 'subject':
+      return facts.subject;
+    case 'body':
+      return facts.body;
+    case 'customer_email':
+      return facts.customer_email || '';
+    default:
+      return `${facts.subject}\n${facts.body}`;
+  }
+}
+
+/**
+ * Keywords from a keywords condition that appear in the text (case-insensitive)
+ */
+export function findMatchedKeywords(text: string, keywords: string[]): string[] {
+  const lower = text.toLowerCase();
+  return keywords.filter((k) => k.trim() && lower.includes(k.trim().toLowerCase()));
+}
+
+/**
+ * Compile a rule regex, returning null for invalid patterns
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+export function evaluateCondition(
+  condition: AutomationCondition,
+  facts: AutomationFacts,
+  now: Date
+): boolean {
+  switch (condition.type) {
+    case 'keywords': {
+      const matched = findMatchedKeywords(getText(condition.field, facts), condition.keywords);
+      const keywordCount = condition.keywords.filter((k) => k.trim()).length;
+      return condition.match === 'all'
+        ? keywordCount > 0 && matched.length === keywordCount
+        : matched.length > 0;
+    }
+    case 'regex': {
+      const regex = compileRulePattern(condition.pattern);
+      if (!regex) return false;
+      return regex.test(getText(condition.field, facts).slice(0, MAX_REGEX_INPUT_LENGTH));
+    }
+    case 'brand':
+      return facts.brand_id !== null && condition.brand_ids.includes(facts.brand_id);
+    case 'channel':
+      return condition.channels.includes(facts.channel);
+    case 'customer_email_domain': {
+      const domain = facts.customer_email?.split('@')[1]?.toLowerCase();
+      if (!domain) return false;
+      return condition.domains.some((d) => {
+        const wanted = d.trim().toLowerCase().replace(/^@/, '');
+        return domain === wanted || domain.endsWith(`.${wanted}`);
+      });
+    }
+    case 'customer_order_count':
+      return condition.operator === 'at_least'
+        ? facts.customer_order_count >= condition.value
+        : facts.customer_order_count <= condition.value;
+    case 'customer_lifetime_value':
+      return condition.operator === 'at_least'
+        ? facts.customer_lifetime_value >= condition.value
+        : facts.customer_lifetime_value <= condition.value;
+    case 'customer_segment':
+      return condition.segment_ids.some((id) => facts.customer_segment_ids.includes(id));
+    case 'time_of_day': {
+      let local: { weekday: Weekday; minutes: number };
+      try {
+        local = getLocalTimeOfDay(now, condition.timezone);
+      } catch {
+        return false;
+      }
+      if (condition.weekdays.length > 0 && !condition.weekdays.includes(local.weekday)) {
+        return false;
+      }
+      const start = parseTime(condition.start);
+      const end = parseTime(condition.end);
+      // A window like 22:00-06:00 wraps past midnight
+      return start <= end
+        ? local.minutes >= start && local.minutes < end
+        : local.minutes >= start || local.minutes < end;
+    }
+    case 'priority':
+      return condition.priorities.includes(facts.priority);
+    case 'status':
+      return condition.statuses.includes(facts.status);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a rule's conditions. A rule without conditions always matches.
+ */
+export function matchesRule(
+  rule: Pick<EngineRule, 'match_type' | 'conditions'>,
+  facts: AutomationFacts,
+  now: Date
+): boolean {
+  if (rule.conditions.length === 0) return true;
+
+  return rule.match_type === 'any'
+    ? rule.conditions.some((c) => evaluateCondition(c, facts, now))
+    : rule.conditions.every((c) => evaluateCondition(c, facts, now));
+}
+
+function keywordField(matchSubject: boolean, matchBody: boolean): AutomationTextField {
+  if (matchSubject && matchBody) return 'subject_or_body';
+  return matchSubject ? 'subject' : 'body';
+}
+
+/**
+ * Express a keyword tag rule as an engine rule
+ */
+export function tagRuleToEngineRule(rule: AutoTagRule): EngineRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    source: 'tag_rule',
+    events: ['ticket_created', 'customer_replied', 'agent_replied'],
+    match_type: 'all',
+    conditions: [
+      {
+        type: 'keywords',
+        field: keywordField(rule.match_subject, rule.match_body),
+        keywords: rule.keywords,
+        match: 'any',
+      },
+    ],
+    actions: [{ type: 'add_tag', tag_id: rule.tag_id }],
+    stop_processing: false,
+  };
+}
+
+/**
+ * Express a priority rule as an engine rule. Priority rules match on
+ * keywords, customer segments or both, and only touch tickets still at the
+ * default priority, so a manually chosen priority (or one set by a higher
+ * rule) is never overridden.
+ */
+export function priorityRuleToEngineRule(rule: AutoPriorityRule): EngineRule {
+  const conditions: AutomationCondition[] = [{ type: 'priority', priorities: ['medium'] }];
+
+  // A rule with neither keeps its (empty) keyword condition, so it never matches
+  if (rule.keywords.length > 0 || rule.segment_ids.length === 0) {
+    conditions.push({
+      type: 'keywords',
+      field: keywordField(rule.match_subject, rule.match_body),
+      keywords: rule.keywords,
+      match: 'any',
+    });
+  }
+
+  if (rule.segment_ids.length > 0) {
+    conditions.push({ type: 'customer_segment', segment_ids: rule.segment_ids });
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    source: 'priority_rule',
+    events: ['ticket_created'],
+    match_type: 'all',
+    conditions,
+    actions: [{ type: 'set_priority', priority: rule.priority }],
+    stop_processing: false,
+  };
+}
+
+interface TicketState {
+  id: string;
+  ticket_number: number;
+  subject: string;
+  is_auto_reply: boolean;
+  reference_id: string | null;
+  assigned_agent_id: string | null;
+  assigned_team_id: string | null;
+  brand: Brand | null;
+  tagIds: Set<string>;
+  facts: AutomationFacts;
+}
+
+/**
+ * Apply one action. Returns true when the ticket actually changed, so rules
+ * that re-match on every reply don't flood the activity log.
+ */
+async function applyAction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  state: TicketState,
+  action: AutomationAction
+): Promise<boolean> {
+  switch (action.type) {
+    case 'assign_agent': {
+      if (state.assigned_agent_id === action.agent_id) return false;
+      const { error } = await supabase
+        .from('tickets')
+        .update({ assigned_agent_id: action.agent_id })
+        .eq('id', state.id);
+      if (error) throw error;
+      state.assigned_agent_id = action.agent_id;
+      return true;
+    }
+    case 'assign_team': {
+      if (state.assigned_team_id === action.team_id) return false;
+      const { error } = await supabase
+        .from('tickets')
+        .update({ assigned_team_id: action.team_id })
+        .eq('id', state.id);
+      if (error) throw error;
+      state.assigned_team_id = action.team_id;
+      return true;
+    }
+    case 'add_tag': {
+      if (state.tagIds.has(action.tag_id)) return false;
+      const { error } = await supabase
+        .from('ticket_tags')
+        .upsert(
+          { ticket_id: state.id, tag_id: action.tag_id },
+          { onConflict: 'ticket_id,tag_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+      state.tagIds.add(action.tag_id);
+      return true;
+    }
+    case 'remove_tag': {
+      if (!state.tagIds.has(action.tag_id)) return false;
+      const { error } = await supabase
+        .from('ticket_tags')
+        .delete()
+        .eq('ticket_id', state.id)
+        .eq('tag_id', action.tag_id);
+      if (error) throw error;
+      state.tagIds.delete(action.tag_id);
+      return true;
+    }
+    case 'set_priority': {
+      if (state.facts.priority === action.priority) return false;
+      const { error } = await supabase
+        .from('tickets')
+        .update({ priority: action.priority })
+        .eq('id', state.id);
+      if (error) throw error;
+      state.facts.priority = action.priority;
+      await refreshTicketSla(supabase, state.id, 'priority_changed');
+      return true;
+    }
+    case 'set_status': {
+      if (state.facts.status === action.status) return false;
+      const { error } = await supabase
+        .from('tickets')
+        .update({
+          status: action.status,
+          resolved_at: action.status === 'closed' ? new Date().toISOString() : null,
+        })
+        .eq('id', state.id);
+      if (error) throw error;
+      state.facts.status = action.status;
+      return true;
+    }
+    case 'add_internal_note': {
+      if (!action.content.trim()) return false;
+      const { error } = await supabase.from('messages').insert({
+        ticket_id: state.id,
+        sender_type: 'agent',
+        sender_id: null,
+        content: action.content,
+        is_internal: true,
+        attachments: [],
+      });
+      if (error) throw error;
+      return true;
+    }
+    case 'send_canned_response':
+      return sendCannedResponse(supabase, state, action.canned_response_id);
+    default:
+      return false;
+  }
+}
+
+async function sendCannedResponse(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  state: TicketState,
+  cannedResponseId: string
+): Promise<boolean> {
+  // Never answer automatic replies, or two autoresponders can loop forever
+  if (state.is_auto_reply) return false;
+
+  const { data: cannedResponse } = await supabase
+    .from('canned_responses')
+    .select('content')
+    .eq('id', cannedResponseId)
+    .single();
+
+  if (!cannedResponse) return false;
+
+  const { error } = await supabase.from('messages').insert({
+    ticket_id: state.id,
+    sender_type: 'agent',
+    sender_id: null,
+    content: cannedResponse.content,
+    is_internal: false,
+    attachments: [],
+  });
+  if (error) throw error;
+
+  if (state.facts.channel === 'email' && state.facts.customer_email) {
+    const fromEmail = getBrandEmail(state.brand);
+    const brandName = state.brand?.name || 'NoLimits Support';
+
+    const emailResult = await sendEmail({
+      to: state.facts.customer_email,
+      from: fromEmail,
+      fromName: brandName,
+      subject: generateReplySubject(state.subject, state.ticket_number),
+      htmlContent: formatReplyAsHtml(cannedResponse.content, state.ticket_number, brandName),
+      textContent: formatReplyAsText(cannedResponse.content),
+      replyTo: fromEmail,
+      inReplyTo: state.reference_id || undefined,
+      references: state.reference_id || undefined,
+    });
+
+    if (emailResult.success && emailResult.messageId) {
+      await supabase
+        .from('tickets')
+        .update({ reference_id: emailResult.messageId })
+        .eq('id', state.id);
+      state.reference_id = emailResult.messageId;
+    } else {
+      console.error('Automation canned response email failed:', emailResult.error);
+    }
+  }
+
+  return true;
+}
+
+async function loadRules(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  event: AutomationEvent
+): Promise<EngineRule[]> {
+  const [automationResult, tagResult, priorityResult] = await Promise.all([
+    supabase
+      .from('automation_rules')
+      .select('*')
+      .eq('is_active', true)
+      .contains('events', [event])
+      .order('position', { ascending: true }),
+    supabase.from('auto_tag_rules').select('*').eq('is_active', true),
+    supabase.from('auto_priority_rules').select('*').eq('is_active', true),
+  ]);
+
+  const tagRules = ((tagResult.data || []) as AutoTagRule[]).map(tagRuleToEngineRule);
+
+  // Highest priority first, so it wins when several keyword rules match
+  const priorityRules = ((priorityResult.data || []) as AutoPriorityRule[])
+    .sort((a, b) => priorityWeight[b.priority] - priorityWeight[a.priority])
+    .map(priorityRuleToEngineRule);
+
+  const automationRules = ((automationResult.data || []) as AutomationRule[]).map(
+    (rule): EngineRule => ({ ...rule, source: 'automation' })
+  );
+
+  // Keyword rules run first; automation rules run after in their configured order
+  return [...tagRules, ...priorityRules, ...automationRules].filter((rule) =>
+    rule.events.includes(event)
+  );
+}
+
+/**
+ * Run every active rule for an event on a ticket, apply the actions of the
+ * rules that match and log each rule that changed something as a
+ * `rule_fired` ticket activity.
+ *
+ * `message` is the text that triggered the event; replies pass no subject,
+ * so subject conditions only match when the ticket is created. Pass
+ * `isAutoReply` for an out-of-office or other automatic message, so no
+ * canned response is sent back to it. Failures are logged and swallowed so
+ * they never block the caller.
+ */
+export async function runAutomationRules(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  event: AutomationEvent,
+  message: { subject: string | null; body: string | null; isAutoReply?: boolean }
+): Promise<string[]> {
+  const fired: string[] = [];
+
+  try {
+    const [{ data: ticket }, { data: ticketTags }, rules] = await Promise.all([
+      supabase
+        .from('tickets')
+        .select(
+          `
+          id,
+          ticket_number,
+          subject,
+          status,
+          priority,
+          channel,
+          brand_id,
+          assigned_agent_id,
+          assigned_team_id,
+          is_auto_reply,
+          reference_id,
+          customer:customers(email, order_count, lifetime_value, customer_segment_members(segment_id)),
+          brand:brands(id, name, email_address, color)
+        `
+        )
+        .eq('id', ticketId)
+        .single(),
+      supabase.from('ticket_tags').select('tag_id').eq('ticket_id', ticketId),
+      loadRules(supabase, event),
+    ]);
+
+    if (!ticket || rules.length === 0) return fired;
+
+    // Normalize nested relations (Supabase may return arrays)
+    const customer = Array.isArray(ticket.customer) ? ticket.customer[0] : ticket.customer;
+    const brand = Array.isArray(ticket.brand) ? ticket.brand[0] : ticket.brand;
+
+    const state: TicketState = {
+      id: ticket.id,
+      ticket_number: ticket.ticket_number,
+      subject: ticket.subject,
+      // The ticket started from an autoresponder, or this message is one
+      is_auto_reply: ticket.is_auto_reply || !!message.isAutoReply,
+      reference_id: ticket.reference_id,
+      assigned_agent_id: ticket.assigned_agent_id,
+      assigned_team_id: ticket.assigned_team_id,
+      brand: (brand as Brand) || null,
+      tagIds: new Set(((ticketTags || []) as { tag_id: string }[]).map((t) => t.tag_id)),
+      facts: {
+        subject: message.subject || '',
+        body: message.body || '',
+        brand_id: ticket.brand_id,
+        channel: ticket.channel || 'manual',
+        priority: ticket.priority,
+        status: ticket.status,
+        customer_email: customer?.email || null,
+        customer_order_count: customer?.order_count || 0,
+        customer_lifetime_value: Number(customer?.lifetime_value) || 0,
+        customer_segment_ids: ((customer?.customer_segment_members || []) as { segment_id: string }[]).map(
+          (m) => m.segment_id
+        ),
+      },
+    };
+
+    const now = new Date();
+
+    for (const rule of rules) {
+      if (!matchesRule(rule, state.facts, now)) continue;
+
+      const applied: string[] = [];
+      for (const action of rule.actions) {
+        try {
+          if (await applyAction(supabase, state, action)) {
+            applied.push(action.type);
+          }
+        } catch (err) {
+          console.error(`Automation action ${action.type} failed for rule ${rule.name}:`, err);
+        }
+      }
+
+      if (applied.length > 0) {
+        fired.push(rule.name);
+        await supabase.from('ticket_activities').insert({
+          ticket_id: ticketId,
+          actor_id: null,
+          action: 'rule_fired',
+          new_value: rule.name,
+          metadata: { rule_id: rule.id, source: rule.source, event, actions: applied },
+        });
+      }
+
+      if (rule.stop_processing) break;
+    }
+  } catch (err) {
+    console.error('Automation rules error:', err);
+  }
+
+  return fired;
+}
+
+// Upper bound on tickets scanned by a dry run, to keep it quick
+export const MAX_SIMULATION_TICKETS = 1000;
+const SNIPPET_RADIUS = 60;
+
+export interface KeywordRuleSimulationInput {
+  keywords: string[];
+  segment_ids?: string[]; // Only tickets from customers in one of these segments
+  match_subject: boolean;
+  match_body: boolean;
+  days: number;
+}
+
+export interface KeywordSnippet {
+  field: 'subject' | 'body';
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SimulatedTicketMatch {
+  id: string;
+  ticket_number: number;
+  subject: string;
+  priority: TicketPriority;
+  status: TicketStatus;
+  created_at: string;
+  customer_id: string | null;
+  tag_ids: string[];
+  matched_keywords: string[];
+  snippets: KeywordSnippet[];
+}
+
+export interface KeywordRuleSimulation {
+  scanned: number;
+  truncated: boolean;
+  matches: SimulatedTicketMatch[];
+}
+
+// A dry-run match plus what the rule would have changed, if anything
+export interface RuleTestMatch extends SimulatedTicketMatch {
+  change: string | null;
+}
+
+export interface RuleTestResult {
+  days: number;
+  scanned: number;
+  truncated: boolean;
+  matches: RuleTestMatch[];
+}
+
+export function clampSimulationDays(days: number): number {
+  return Math.min(Math.max(Math.round(days) || 30, 1), 90);
+}
+
+/**
+ * Cut a short excerpt around the first occurrence of each keyword
+ */
+export function findKeywordSnippets(
+  text: string,
+  keywords: string[],
+  field: KeywordSnippet['field']
+): KeywordSnippet[] {
+  const lower = text.toLowerCase();
+  const snippets: KeywordSnippet[] = [];
+
+  for (const keyword of keywords) {
+    const index = lower.indexOf(keyword.toLowerCase());
+    if (index === -1) continue;
+
+    const end = index + keyword.length;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const stop = Math.min(text.length, end + SNIPPET_RADIUS);
+
+    snippets.push({
+      field,
+      before: (start > 0 ? '…' : '') + text.slice(start, index).replace(/\s+/g, ' '),
+      match: text.slice(index, end),
+      after: text.slice(end, stop).replace(/\s+/g, ' ') + (stop < text.length ? '…' : ''),
+    });
+  }
+
+  return snippets;
+}
+
+/**
+ * Dry-run an unsaved keyword rule over recent tickets without changing them.
+ *
+ * Mirrors when the engine would have evaluated it: the subject is only
+ * checked with the first message, and `firstMessageOnly` limits body
+ * matching to the message that created the ticket (as for priority rules).
+ * With segments, only tickets whose customer is currently in one of them
+ * are scanned; with segments and no keywords, every one of those matches.
+ */
+export async function simulateKeywordRule(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  input: KeywordRuleSimulationInput,
+  options: { firstMessageOnly: boolean }
+): Promise<KeywordRuleSimulation> {
+  const keywords = input.keywords.map((k) => k.trim()).filter(Boolean);
+  const segmentIds = input.segment_ids || [];
+  const days = clampSimulationDays(input.days);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  // Segment membership is matched in the query, so the ticket limit
+  // applies to tickets from those customers
+  const segmentSelect =
+    segmentIds.length > 0
+      ? ', customer:customers!inner(segments:customer_segment_members!inner(segment_id))'
+      : '';
+
+  let query = supabase
+    .from('tickets')
+    .select(
+      `
+      id,
+      ticket_number,
+      subject,
+      priority,
+      status,
+      created_at,
+      customer_id,
+      ticket_tags(tag_id),
+      messages(content, is_internal, created_at)${segmentSelect}
+    `
+    )
+    .gte('created_at', since.toISOString())
+    .is('merged_into_ticket_id', null);
+
+  if (segmentIds.length > 0) {
+    query = query.in('customer.segments.segment_id', segmentIds);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(MAX_SIMULATION_TICKETS + 1);
+
+  if (error) throw error;
+
+  const tickets = (data || []).slice(0, MAX_SIMULATION_TICKETS);
+  const matches: SimulatedTicketMatch[] = [];
+
+  for (const ticket of tickets) {
+    const messages = (
+      (ticket.messages || []) as { content: string; is_internal: boolean; created_at: string }[]
+    )
+      .filter((m) => !m.is_internal)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const bodies = (options.firstMessageOnly ? messages.slice(0, 1) : messages).map(
+      (m) => m.content
+    );
+
+    const matched = new Set<string>();
+    const snippets: KeywordSnippet[] = [];
+
+    if (input.match_subject) {
+      const found = findMatchedKeywords(ticket.subject || '', keywords);
+      found.forEach((k) => matched.add(k));
+      snippets.push(...findKeywordSnippets(ticket.subject || '', found, 'subject'));
+    }
+
+    if (input.match_body) {
+      for (const body of bodies) {
+        const found = findMatchedKeywords(body, keywords).filter((k) => !matched.has(k));
+        found.forEach((k) => matched.add(k));
+        snippets.push(...findKeywordSnippets(body, found, 'body'));
+      }
+    }
+
+    if (keywords.length > 0 && matched.size === 0) continue;
+
+    matches.push({
+      id: ticket.id,
+      ticket_number: ticket.ticket_number,
+      subject: ticket.subject,
+      priority: ticket.priority,
+      status: ticket.status,
+      created_at: ticket.created_at,
+      customer_id: ticket.customer_id,
+      tag_ids: ((ticket.ticket_tags || []) as { tag_id: string }[]).map((t) => t.tag_id),
+      matched_keywords: [...matched],
+      snippets,
+    });
+  }
+
+  return {
+    scanned: tickets.length,
+    truncated: (data || []).length > MAX_SIMULATION_TICKETS,
+    matches,
+  };
+}
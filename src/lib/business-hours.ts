@@ -0,0 +1,197 @@
+import type { BusinessCalendar, Weekday } from '@/lib/supabase/types';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Guard against calendars with no open hours at all
+const MAX_DAYS_TO_SCAN = 366;
+
+type CalendarLike = Pick<BusinessCalendar, 'timezone' | 'weekly_hours' | 'holidays'>;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: Weekday;
+}
+
+/**
+ * Get the wall-clock date/time parts of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: parts.weekday.toLowerCase().slice(0, 3) as Weekday,
+  };
+}
+
+/**
+ * Weekday and minutes since local midnight of an instant in a timezone
+ */
+export function getLocalTimeOfDay(date: Date, timeZone: string): { weekday: Weekday; minutes: number } {
+  const p = getZonedParts(date, timeZone);
+  return { weekday: p.weekday, minutes: p.hour * 60 + p.minute };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutesOfDay: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day) + minutesOfDay * MINUTE_MS;
+  const offset = getTimezoneOffset(new Date(guess), timeZone);
+  const result = guess - offset;
+  // Re-check the offset at the result to handle DST transitions
+  const correctedOffset = getTimezoneOffset(new Date(result), timeZone);
+  return new Date(guess - correctedOffset);
+}
+
+export function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map((n) => parseInt(n, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the open intervals (as UTC instants) for the local day containing `date`
+ */
+function getOpenIntervalsForDay(date: Date, calendar: CalendarLike): { start: Date; end: Date }[] {
+  const p = getZonedParts(date, calendar.timezone);
+
+  if (calendar.holidays.includes(formatDateKey(p.year, p.month, p.day))) {
+    return [];
+  }
+
+  const hours = calendar.weekly_hours[p.weekday] || [];
+
+  return hours
+    .map((interval) => ({
+      start: zonedTimeToUtc(p.year, p.month, p.day, parseTime(interval.start), calendar.timezone),
+      end: zonedTimeToUtc(p.year, p.month, p.day, parseTime(interval.end), calendar.timezone),
+    }))
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Move to noon of the next local day, which is safe across DST changes
+ */
+function nextLocalDay(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  const noon = zonedTimeToUtc(p.year, p.month, p.day, 12 * 60, timeZone);
+  return new Date(noon.getTime() + DAY_MS);
+}
+
+/**
+ * Check whether an instant falls inside business hours.
+ * A null calendar means the brand works around the clock.
+ */
+export function isWithinBusinessHours(date: Date, calendar: CalendarLike | null): boolean {
+  if (!calendar) return true;
+
+  return getOpenIntervalsForDay(date, calendar).some(
+    (interval) => date >= interval.start && date < interval.end
+  );
+}
+
+/**
+ * Add a number of business minutes to a start time.
+ * A null calendar means plain wall-clock minutes.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendar: CalendarLike | null): Date {
+  if (!calendar) {
+    return new Date(start.getTime() + minutes * MINUTE_MS);
+  }
+
+  let remaining = minutes * MINUTE_MS;
+  let cursor = start;
+  let day = start;
+
+  for (let i = 0; i < MAX_DAYS_TO_SCAN; i++) {
+    for (const interval of getOpenIntervalsForDay(day, calendar)) {
+      if (interval.end <= cursor) continue;
+
+      const from = interval.start > cursor ? interval.start : cursor;
+      const available = interval.end.getTime() - from.getTime();
+
+      if (remaining <= available) {
+        return new Date(from.getTime() + remaining);
+      }
+
+      remaining -= available;
+      cursor = interval.end;
+    }
+
+    day = nextLocalDay(day, calendar.timezone);
+  }
+
+  // No business hours configured - fall back to wall-clock time
+  return new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Count the business minutes between two instants.
+ * A null calendar means plain wall-clock minutes.
+ */
+export function businessMinutesBetween(start: Date, end: Date, calendar: CalendarLike | null): number {
+  if (end <= start) return 0;
+
+  if (!calendar) {
+    return Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+  }
+
+  let total = 0;
+  let day = start;
+
+  for (let i = 0; i < MAX_DAYS_TO_SCAN && day.getTime() < end.getTime() + DAY_MS; i++) {
+    for (const interval of getOpenIntervalsForDay(day, calendar)) {
+      const from = Math.max(interval.start.getTime(), start.getTime());
+      const to = Math.min(interval.end.getTime(), end.getTime());
+      if (to > from) total += to - from;
+    }
+
+    day = nextLocalDay(day, calendar.timezone);
+  }
+
+  return Math.round(total / MINUTE_MS);
+}
@@ -0,0 +1,36 @@
+/**
+ * Lets other parts of the ticket page (like the order sidebar) put text in
+ * the reply composer, which lives in a different part of the tree
+ */
+
+const COMPOSER_INSERT_EVENT = 'composer:insert';
+
+interface ComposerInsertDetail {
+  ticketId: string;
+  text: string;
+}
+
+/**
+ * Add text to the end of a ticket's reply draft
+ */
+export function insertIntoComposer(ticketId: string, text: string): void {
+  window.dispatchEvent(
+    new CustomEvent<ComposerInsertDetail>(COMPOSER_INSERT_EVENT, { detail: { ticketId, text } })
+  );
+}
+
+/**
+ * Listen for text sent to a ticket's composer. Returns the unsubscribe
+ * function.
+ */
+export function onComposerInsert(ticketId: string, handler: (text: string) => void): () => void {
+  const listener = (event: Event) => {
+    const { detail } = event as CustomEvent<ComposerInsertDetail>;
+    if (detail.ticketId === ticketId) {
+      handler(detail.text);
+    }
+  };
+
+  window.addEventListener(COMPOSER_INSERT_EVENT, listener);
+  return () => window.removeEventListener(COMPOSER_INSERT_EVENT, listener);
+}
@@ -0,0 +1,263 @@
+import { sendEmail, getBrandEmail } from '@/lib/email';
+import type { Brand } from '@/lib/supabase/types';
+
+export const CSAT_SCORES = [1, 2, 3, 4, 5] as const;
+
+export const csatScoreLabels: Record<number, string> = {
+  1: 'Very unhappy',
+  2: 'Unhappy',
+  3: 'Okay',
+  4: 'Happy',
+  5: 'Very happy',
+};
+
+// Surveys are sent in batches so one run of the send job stays short
+const SEND_BATCH_SIZE = 50;
+
+export function isValidCsatScore(score: unknown): score is number {
+  return typeof score === 'number' && Number.isInteger(score) && score >= 1 && score <= 5;
+}
+
+/**
+ * Share of responses that scored 4 or 5, as a whole percentage
+ */
+export function csatPercent(satisfied: number, responses: number): number | null {
+  if (responses === 0) return null;
+  return Math.round((satisfied / responses) * 100);
+}
+
+export function getCsatSurveyUrl(baseUrl: string, token: string, score?: number): string {
+  const url = `${baseUrl.replace(/\/$/, '')}/csat/${token}`;
+  return score ? `${url}?score=${score}` : url;
+}
+
+/**
+ * Queue a survey for a ticket that was just closed. Does nothing when the
+ * brand has surveys switched off, the customer has no email, or the
+ * customer was already surveyed within the brand's cooldown.
+ */
+export async function scheduleCsatSurvey(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string
+): Promise<void> {
+  try {
+    const { data: ticket } = await supabase
+      .from('tickets')
+      .select(
+        'id, status, customer_id, brand_id, assigned_agent_id, customer:customers(email), brand:brands(*)'
+      )
+      .eq('id', ticketId)
+      .single();
+
+    if (!ticket || ticket.status !== 'closed') return;
+
+    const brand = ticket.brand as Brand | null;
+    if (!brand?.csat_enabled || !ticket.customer?.email) return;
+
+    if (ticket.customer_id && brand.csat_cooldown_days > 0) {
+      const cooldownStart = new Date(
+        Date.now() - brand.csat_cooldown_days * 24 * 60 * 60 * 1000
+      );
+
+      const { count } = await supabase
+        .from('csat_surveys')
+        .select('id', { count: 'exact', head: true })
+        .eq('customer_id', ticket.customer_id)
+        .gte('created_at', cooldownStart.toISOString());
+
+      if (count && count > 0) return;
+    }
+
+    const { error } = await supabase.from('csat_surveys').insert({
+      ticket_id: ticket.id,
+      customer_id: ticket.customer_id,
+      brand_id: ticket.brand_id,
+      agent_id: ticket.assigned_agent_id,
+      send_after: new Date(Date.now() + brand.csat_delay_minutes * 60 * 1000).toISOString(),
+    });
+
+    // 23505 = a survey for this ticket is already queued
+    if (error && error.code !== '23505') {
+      console.error('Schedule CSAT survey error:', error);
+    }
+  } catch (error) {
+    console.error('Schedule CSAT survey error:', error);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format the survey email: one button per score, each linking to the
+ * public survey page with that score preselected
+ */
+export function formatCsatEmailHtml(
+  baseUrl: string,
+  token: string,
+  brand: Pick<Brand, 'name' | 'color'> | null,
+  ticketNumber: number,
+  subject: string
+): string {
+  const brandName = escapeHtml(brand?.name || 'NoLimits Support');
+  const color = brand?.color || '#2563eb';
+
+  const buttons = CSAT_SCORES.map(
+    (score) => `
+      <td style="padding: 0 4px;">
+        <a href="${getCsatSurveyUrl(baseUrl, token, score)}" class="score" style="border-color: ${color}; color: ${color};">
+          <strong>${score}</strong><br><span>${csatScoreLabels[score]}</span>
+        </a>
+      </td>`
+  ).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .score {
+      display: block;
+      width: 90px;
+      padding: 10px 0;
+      border: 2px solid;
+      border-radius: 8px;
+      text-align: center;
+      text-decoration: none;
+      font-size: 12px;
+    }
+    .score strong {
+      font-size: 20px;
+    }
+    .footer {
+      margin-top: 30px;
+      padding-top: 20px;
+      border-top: 1px solid #e5e5e5;
+      font-size: 12px;
+      color: #666;
+    }
+  </style>
+</head>
+<body>
+  <h2 style="color: ${color};">${brandName}</h2>
+  <p>Your request "${escapeHtml(subject)}" was recently resolved. How would you rate the support you received?</p>
+  <table role="presentation" cellspacing="0" cellpadding="0">
+    <tr>${buttons}
+    </tr>
+  </table>
+  <div class="footer">
+    <p>Pick a rating, then confirm it on the next page. You can leave a comment there too.</p>
+    <p>Ticket #${ticketNumber}</p>
+  </div>
+</body>
+</html>
+`.trim();
+}
+
+export function formatCsatEmailText(
+  baseUrl: string,
+  token: string,
+  brand: Pick<Brand, 'name'> | null,
+  subject: string
+): string {
+  const lines = CSAT_SCORES.map(
+    (score) => `${score} - ${csatScoreLabels[score]}: ${getCsatSurveyUrl(baseUrl, token, score)}`
+  );
+
+  return [
+    `${brand?.name || 'NoLimits Support'}`,
+    '',
+    `Your request "${subject}" was recently resolved. How would you rate the support you received?`,
+    '',
+    ...lines,
+  ].join('\n');
+}
+
+/**
+ * Email every queued survey that is due. Surveys whose ticket has been
+ * reopened since it was queued are dropped instead of sent.
+ *
+ * Needs a service-role client: it runs outside any user session.
+ */
+export async function sendDueCsatSurveys(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  baseUrl: string
+): Promise<{ sent: number; cancelled: number; failed: number }> {
+  const result = { sent: 0, cancelled: 0, failed: 0 };
+
+  const { data: surveys, error } = await supabase
+    .from('csat_surveys')
+    .select(
+      'id, token, ticket:tickets(status, ticket_number, subject, customer:customers(email), brand:brands(*))'
+    )
+    .is('sent_at', null)
+    .lte('send_after', new Date().toISOString())
+    .order('send_after', { ascending: true })
+    .limit(SEND_BATCH_SIZE);
+
+  if (error) {
+    console.error('Fetch due CSAT surveys error:', error);
+    return result;
+  }
+
+  for (const survey of surveys || []) {
+    const ticket = survey.ticket;
+
+    if (!ticket || ticket.status !== 'closed' || !ticket.customer?.email) {
+      await supabase.from('csat_surveys').delete().eq('id', survey.id).is('sent_at', null);
+      result.cancelled++;
+      continue;
+    }
+
+    // Claim the survey first so overlapping runs can't send it twice
+    const { data: claimed } = await supabase
+      .from('csat_surveys')
+      .update({ sent_at: new Date().toISOString() })
+      .eq('id', survey.id)
+      .is('sent_at', null)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) continue;
+
+    const brand = ticket.brand as Brand | null;
+    const fromEmail = getBrandEmail(brand);
+
+    const emailResult = await sendEmail({
+      to: ticket.customer.email,
+      from: fromEmail,
+      fromName: brand?.name || 'NoLimits Support',
+      subject: `How did we do? (Ticket #${ticket.ticket_number})`,
+      htmlContent: formatCsatEmailHtml(baseUrl, survey.token, brand, ticket.ticket_number, ticket.subject),
+      textContent: formatCsatEmailText(baseUrl, survey.token, brand, ticket.subject),
+      replyTo: fromEmail,
+    });
+
+    if (emailResult.success) {
+      result.sent++;
+    } else {
+      // Release the claim so the next run retries
+      console.error('CSAT survey email failed:', emailResult.error);
+      await supabase.from('csat_surveys').update({ sent_at: null }).eq('id', survey.id);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,30 @@
+import type { CustomerIdentityType } from '@/lib/supabase/types';
+
+/**
+ * The form identities are stored and matched in: emails lowercased,
+ * everything else trimmed
+ */
+export function normalizeIdentityValue(type: CustomerIdentityType, value: string): string {
+  const trimmed = value.trim();
+  return type === 'email' ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Find the customer an email address, phone number or social ID belongs
+ * to, through any of their identities
+ */
+export async function findCustomerIdByIdentity(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  type: CustomerIdentityType,
+  value: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('customer_identities')
+    .select('customer_id')
+    .eq('type', type)
+    .eq('value', normalizeIdentityValue(type, value))
+    .maybeSingle();
+
+  return data?.customer_id || null;
+}
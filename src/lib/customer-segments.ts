@@ -0,0 +1,61 @@
+import type { Customer, CustomerSegmentSummary } from '@/lib/supabase/types';
+
+/**
+ * The segments each of these customers is in, keyed by customer ID.
+ * Customers in no segment are left out.
+ */
+export async function getSegmentsByCustomer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  customerIds: string[]
+): Promise<Map<string, CustomerSegmentSummary[]>> {
+  const segmentsByCustomer = new Map<string, CustomerSegmentSummary[]>();
+  const ids = [...new Set(customerIds)];
+  if (ids.length === 0) return segmentsByCustomer;
+
+  const { data } = await supabase
+    .from('customer_segment_members')
+    .select('customer_id, segment:customer_segments(id, name, color)')
+    .in('customer_id', ids);
+
+  for (const row of (data || []) as {
+    customer_id: string;
+    segment: CustomerSegmentSummary | CustomerSegmentSummary[] | null;
+  }[]) {
+    const segment = Array.isArray(row.segment) ? row.segment[0] : row.segment;
+    if (!segment) continue;
+
+    const segments = segmentsByCustomer.get(row.customer_id) || [];
+    segments.push(segment);
+    segmentsByCustomer.set(row.customer_id, segments);
+  }
+
+  for (const segments of segmentsByCustomer.values()) {
+    segments.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return segmentsByCustomer;
+}
+
+/**
+ * Fill in `customer.segments` on each ticket, for segment badges
+ */
+export async function attachCustomerSegments<T extends { customer?: Customer | null }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  tickets: T[]
+): Promise<T[]> {
+  const segmentsByCustomer = await getSegmentsByCustomer(
+    supabase,
+    tickets.flatMap((ticket) => (ticket.customer ? [ticket.customer.id] : []))
+  );
+
+  return tickets.map((ticket) =>
+    ticket.customer
+      ? {
+          ...ticket,
+          customer: { ...ticket.customer, segments: segmentsByCustomer.get(ticket.customer.id) || [] },
+        }
+      : ticket
+  );
+}
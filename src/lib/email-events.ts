@@ -0,0 +1,145 @@
+import type { MessageDeliveryStatus } from '@/lib/supabase/types';
+
+/**
+ * One event from the SendGrid event webhook. Custom args sent with the
+ * email (our `message_id`) come back as top-level fields.
+ */
+export interface SendGridEvent {
+  event: string;
+  email: string;
+  timestamp: number; // Unix seconds
+  sg_event_id?: string;
+  sg_message_id?: string;
+  message_id?: string;
+  type?: string; // 'bounce' or 'blocked' on bounce events
+  reason?: string;
+  response?: string;
+  status?: string;
+}
+
+/**
+ * Delivery status for a SendGrid event, or null for events that don't
+ * change it (processed, opens, clicks, unsubscribes)
+ */
+export function getDeliveryStatus(event: SendGridEvent): MessageDeliveryStatus | null {
+  switch (event.event) {
+    case 'delivered':
+      return 'delivered';
+    case 'deferred':
+      return 'deferred';
+    case 'bounce':
+      return 'bounced';
+    case 'dropped':
+      return 'dropped';
+    case 'spamreport':
+      return 'spam_reported';
+    default:
+      return null;
+  }
+}
+
+/**
+ * A bounce the receiving server gave as permanent. Blocks are usually
+ * temporary (spam filters, rate limits) and don't mean the address is bad.
+ */
+export function isHardBounce(event: SendGridEvent): boolean {
+  return event.event === 'bounce' && event.type !== 'blocked';
+}
+
+/**
+ * Record the delivery status of the messages these events refer to.
+ * Events can arrive out of order, so one older than the status already
+ * stored is ignored. A hard bounce flags the customer's email as invalid
+ * and notifies the ticket owner once.
+ */
+export async function processSendGridEvents(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  events: SendGridEvent[]
+): Promise<{ updated: number; ignored: number }> {
+  const result = { updated: 0, ignored: 0 };
+
+  for (const event of events) {
+    const status = getDeliveryStatus(event);
+    if (!status || !event.message_id) {
+      result.ignored++;
+      continue;
+    }
+
+    const occurredAt = new Date((event.timestamp || Date.now() / 1000) * 1000).toISOString();
+    const deliveryError = event.reason || event.response || null;
+
+    const { data: updated, error } = await supabase
+      .from('messages')
+      .update({
+        delivery_status: status,
+        delivery_status_at: occurredAt,
+        delivery_error: status === 'delivered' ? null : deliveryError,
+      })
+      .eq('email_message_id', event.message_id)
+      .or(`delivery_status_at.is.null,delivery_status_at.lte."${occurredAt}"`)
+      .select('id, ticket_id, sender_id');
+
+    if (error) {
+      console.error('Update delivery status error:', error);
+      result.ignored++;
+      continue;
+    }
+
+    const message = updated?.[0];
+    if (!message) {
+      result.ignored++;
+      continue;
+    }
+
+    result.updated++;
+
+    if (isHardBounce(event)) {
+      await handleHardBounce(supabase, message, event, deliveryError);
+    }
+  }
+
+  return result;
+}
+
+async function handleHardBounce(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  message: { id: string; ticket_id: string; sender_id: string | null },
+  event: SendGridEvent,
+  reason: string | null
+): Promise<void> {
+  const { data: ticket } = await supabase
+    .from('tickets')
+    .select('id, ticket_number, customer_id, assigned_agent_id')
+    .eq('id', message.ticket_id)
+    .single();
+
+  if (!ticket?.customer_id) return;
+
+  // Only the first bounce for an address flags it and notifies
+  const { data: flagged } = await supabase
+    .from('customers')
+    .update({
+      email_invalid: true,
+      email_invalid_reason: reason,
+      email_invalid_at: new Date().toISOString(),
+    })
+    .eq('id', ticket.customer_id)
+    .ilike('email', event.email)
+    .eq('email_invalid', false)
+    .select('id');
+
+  if (!flagged || flagged.length === 0) return;
+
+  const ownerId = ticket.assigned_agent_id || message.sender_id;
+  if (!ownerId) return;
+
+  await supabase.rpc('create_notification', {
+    p_user_id: ownerId,
+    p_type: 'email_bounced',
+    p_title: 'Reply bounced',
+    p_message: `A reply on ticket #${ticket.ticket_number} to ${event.email} bounced${reason ? `: ${reason}` : ''}. The address has been marked invalid.`,
+    p_ticket_id: ticket.id,
+  });
+}
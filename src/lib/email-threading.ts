@@ -0,0 +1,220 @@
+import { findCustomerIdByIdentity } from '@/lib/customer-identities';
+import { parseMessageIdList, parseTicketNumberFromSubject } from '@/lib/email';
+import type { ClosedTicketReplyPolicy, TicketStatus } from '@/lib/supabase/types';
+
+export type ThreadMatchedBy = 'message_id' | 'subject_token' | 'recent_ticket';
+
+// What happens to the matched ticket: the email is added to it, it's
+// reopened, or (a closed ticket, per its brand's policy) a new ticket starts
+export type ThreadOutcome = 'added' | 'reopened' | 'new_ticket';
+
+export interface ThreadedTicket {
+  id: string;
+  ticket_number: number;
+  subject: string;
+  reference_id: string | null;
+  brand_id: string | null;
+  is_spam: boolean;
+}
+
+export interface EmailThreadMatch {
+  ticket: ThreadedTicket;
+  matchedBy: ThreadMatchedBy;
+  reference: string | null; // The Message-ID or subject token that matched
+  outcome: ThreadOutcome;
+}
+
+interface ThreadTicketRow extends ThreadedTicket {
+  status: TicketStatus;
+  customer_id: string | null;
+  resolved_at: string | null;
+  merged_into_ticket_id: string | null;
+  brand: { closed_ticket_reply: ClosedTicketReplyPolicy; reopen_window_days: number | null } | null;
+}
+
+const TICKET_FIELDS =
+  'id, ticket_number, subject, reference_id, brand_id, is_spam, status, customer_id, resolved_at, merged_into_ticket_id, brand:brands(closed_ticket_reply, reopen_window_days)';
+const MAX_MERGE_HOPS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A merged ticket is closed; its replies belong to the ticket it was merged into
+async function followMerges(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticket: ThreadTicketRow
+): Promise<ThreadTicketRow> {
+  let current = ticket;
+
+  for (let hop = 0; hop < MAX_MERGE_HOPS && current.merged_into_ticket_id; hop++) {
+    const { data } = await supabase
+      .from('tickets')
+      .select(TICKET_FIELDS)
+      .eq('id', current.merged_into_ticket_id)
+      .maybeSingle();
+
+    if (!data) break;
+    current = data as ThreadTicketRow;
+  }
+
+  return current;
+}
+
+// In-Reply-To first, then References from the newest message back
+async function findByMessageId(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  inReplyTo: string | null,
+  references: string | null
+): Promise<{ ticket: ThreadTicketRow; reference: string } | null> {
+  const ids = [...new Set([...parseMessageIdList(inReplyTo), ...parseMessageIdList(references).reverse()])];
+  if (ids.length === 0) return null;
+
+  const { data } = await supabase
+    .from('email_message_ids')
+    .select(`id, ticket:tickets(${TICKET_FIELDS})`)
+    .in('id', ids);
+
+  const rows = (data || []) as { id: string; ticket: ThreadTicketRow | null }[];
+  for (const id of ids) {
+    const row = rows.find((r) => r.id === id);
+    if (row?.ticket) return { ticket: row.ticket, reference: id };
+  }
+
+  return null;
+}
+
+// "[#1234]" in the subject, accepted only from that ticket's own customer
+async function findBySubjectToken(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  subject: string,
+  customerId: string | null
+): Promise<ThreadTicketRow | null> {
+  const ticketNumber = parseTicketNumberFromSubject(subject);
+  if (ticketNumber === null || !customerId) return null;
+
+  const { data } = await supabase
+    .from('tickets')
+    .select(TICKET_FIELDS)
+    .eq('ticket_number', ticketNumber)
+    .maybeSingle();
+
+  const ticket = data as ThreadTicketRow | null;
+  return ticket?.customer_id === customerId ? ticket : null;
+}
+
+function getOutcome(ticket: ThreadTicketRow): ThreadOutcome {
+  // Replies to a spam thread stay with it without reopening it
+  if (ticket.status !== 'closed' || ticket.is_spam) return 'added';
+
+  if (ticket.brand?.closed_ticket_reply === 'new_ticket') return 'new_ticket';
+
+  const windowDays = ticket.brand?.reopen_window_days;
+  if (windowDays && ticket.resolved_at) {
+    const closedFor = Date.now() - new Date(ticket.resolved_at).getTime();
+    if (closedFor > windowDays * DAY_MS) return 'new_ticket';
+  }
+
+  return 'reopened';
+}
+
+function toMatch(
+  ticket: ThreadTicketRow,
+  matchedBy: ThreadMatchedBy,
+  reference: string | null
+): EmailThreadMatch {
+  return {
+    ticket: {
+      id: ticket.id,
+      ticket_number: ticket.ticket_number,
+      subject: ticket.subject,
+      reference_id: ticket.reference_id,
+      brand_id: ticket.brand_id,
+      is_spam: ticket.is_spam,
+    },
+    matchedBy,
+    reference,
+    outcome: getOutcome(ticket),
+  };
+}
+
+/**
+ * Find the ticket an inbound email belongs to: by any Message-ID it
+ * replies to, then by a "[#1234]" subject token, then the customer's
+ * newest open email ticket. Null means it starts a new ticket.
+ */
+export async function findEmailThread(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  email: {
+    customerEmail: string;
+    subject: string;
+    inReplyTo: string | null;
+    references: string | null;
+  }
+): Promise<EmailThreadMatch | null> {
+  const byMessageId = await findByMessageId(supabase, email.inReplyTo, email.references);
+  if (byMessageId) {
+    const ticket = await followMerges(supabase, byMessageId.ticket);
+    return toMatch(ticket, 'message_id', byMessageId.reference);
+  }
+
+  const customerId = await findCustomerIdByIdentity(supabase, 'email', email.customerEmail);
+
+  const bySubject = await findBySubjectToken(supabase, email.subject, customerId);
+  if (bySubject) {
+    const ticket = await followMerges(supabase, bySubject);
+    return toMatch(ticket, 'subject_token', `#${bySubject.ticket_number}`);
+  }
+
+  // Fallback: the customer's most recent open ticket. Spam is skipped so a
+  // new email gets its own spam check.
+  if (customerId) {
+    const { data } = await supabase
+      .from('tickets')
+      .select(TICKET_FIELDS)
+      .eq('customer_id', customerId)
+      .in('status', ['open', 'pending'])
+      .eq('channel', 'email')
+      .eq('is_spam', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data) return toMatch(data as ThreadTicketRow, 'recent_ticket', null);
+  }
+
+  return null;
+}
+
+/**
+ * Record on the ticket how an inbound email was threaded. For a new
+ * ticket started by a reply to a closed one, pass the new ticket's ID.
+ */
+export async function logEmailThreading(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  match: EmailThreadMatch,
+  messageId: string | null
+) {
+  const { error } = await supabase.from('ticket_activities').insert({
+    ticket_id: ticketId,
+    actor_id: null,
+    action: 'email_threaded',
+    new_value: match.matchedBy,
+    metadata: {
+      outcome: match.outcome,
+      reference: match.reference,
+      message_id: messageId,
+      ...(match.outcome === 'new_ticket' && {
+        previous_ticket_id: match.ticket.id,
+        previous_ticket_number: match.ticket.ticket_number,
+      }),
+    },
+  });
+
+  if (error) {
+    console.error('Failed to log email threading:', error);
+  }
+}
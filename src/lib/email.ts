@@ -5,6 +5,7 @@ const SENDGRID_API_URL = 'https://api.sendgrid.com/v3/mail/send';
 
 interface SendEmailOptions {
   to: string;
+  cc?: string[];
   from: string;
   fromName?: string;
   subject: string;
@@ -13,6 +14,7 @@ interface SendEmailOptions {
   replyTo?: string;
   inReplyTo?: string; // Email Message-ID for threading
   references?: string; // Previous Message-IDs for threading
+  autoSubmitted?: boolean; // Mark as an automatic reply so other autoresponders stay quiet
 }
 
 interface SendEmailResult {
@@ -39,11 +41,16 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
   if (options.references) {
     headers['References'] = options.references;
   }
+  if (options.autoSubmitted) {
+    headers['Auto-Submitted'] = 'auto-replied';
+    headers['X-Auto-Response-Suppress'] = 'All';
+  }
 
   const payload = {
     personalizations: [
       {
         to: [{ email: options.to }],
+        cc: options.cc?.length ? options.cc.map((email) => ({ email })) : undefined,
       },
     ],
     from: {
@@ -469,20 +476,128 @@ export function parseEmailAddress(input: string): { email: string; name: string
   };
 }
 
+/**
+ * Parse a To or Cc header into its addresses, skipping anything that
+ * isn't one. Commas inside quoted display names don't split.
+ */
+export function parseEmailAddressList(
+  input: string | null | undefined
+): { email: string; name: string | null }[] {
+  if (!input) return [];
+
+  return input
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(parseEmailAddress)
+    .filter((address) => address.email.includes('@'));
+}
+
+// The "Forwarded message" markers extractNewEmailContent cuts at
+const forwardedMessagePatterns = [
+  /-{3,}\s*Forwarded message\s*-{3,}/i,
+  /Begin forwarded message:/i,
+];
+
+export interface ForwardedEmail {
+  from: { email: string; name: string | null };
+  subject: string | null;
+  note: string; // Anything the forwarder wrote above the forwarded email
+  body: string;
+}
+
+/**
+ * Split a forwarded email into the forwarder's note and the original
+ * email, reading its sender and subject from the header block after the
+ * "Forwarded message" marker. Returns null when there's no marker or no
+ * sender in the header block.
+ */
+export function parseForwardedEmail(rawContent: string): ForwardedEmail | null {
+  const content = rawContent.replace(/\r\n?/g, '\n');
+
+  // Use the earliest marker, in case the forwarded email was itself a forward
+  let markerStart = -1;
+  let markerEnd = -1;
+  for (const pattern of forwardedMessagePatterns) {
+    const match = content.match(pattern);
+    if (match?.index !== undefined && (markerStart === -1 || match.index < markerStart)) {
+      markerStart = match.index;
+      markerEnd = match.index + match[0].length;
+    }
+  }
+  if (markerStart === -1) return null;
+
+  const lines = content.substring(markerEnd).split('\n');
+  const headers: Record<string, string> = {};
+
+  let i = 0;
+  while (i < lines.length && !lines[i].trim()) i++;
+  for (; i < lines.length; i++) {
+    const header = lines[i].match(/^\s*(From|Date|Sent|Subject|To|Cc):\s*(.*)$/i);
+    if (!header) break;
+    // HTML emails converted to text can leave bold markers around names
+    headers[header[1].toLowerCase()] = header[2].replace(/\*/g, '').trim();
+  }
+
+  if (!headers.from) return null;
+  const from = parseEmailAddress(headers.from);
+  if (!from.email.includes('@')) return null;
+
+  return {
+    from,
+    subject: headers.subject || null,
+    note: content.substring(0, markerStart).trim(),
+    body: lines.slice(i).join('\n').trim(),
+  };
+}
+
+// "[#1234]" in a subject, or "[Ticket #1234]" as older replies wrote it
+const ticketTokenPattern = /\[(?:ticket\s*)?#(\d+)\]/gi;
+
+/**
+ * Normalize a Message-ID for lookups: no angle brackets, lowercased
+ */
+export function normalizeMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<+|>+$/g, '').toLowerCase();
+}
+
+/**
+ * Split an In-Reply-To or References header into normalized Message-IDs,
+ * in header order
+ */
+export function parseMessageIdList(header: string | null): string[] {
+  if (!header) return [];
+
+  const bracketed = header.match(/<[^<>]+>/g);
+  const ids = bracketed || header.split(/[\s,]+/);
+  return ids.map(normalizeMessageId).filter(Boolean);
+}
+
+/**
+ * The ticket number from a "[#1234]" token in an email subject
+ */
+export function parseTicketNumberFromSubject(subject: string): number | null {
+  const match = [...subject.matchAll(ticketTokenPattern)][0];
+  return match ? Number(match[1]) : null;
+}
+
 /**
  * Generate the email subject for a reply
  */
 export function generateReplySubject(originalSubject: string, ticketNumber: number): string {
-  // Check if already has ticket reference
-  const ticketRef = `[Ticket #${ticketNumber}]`;
+  // Drop tokens for other tickets, e.g. on a follow-up to a closed ticket
+  const subject = originalSubject
+    .replace(ticketTokenPattern, (token, number) => (Number(number) === ticketNumber ? token : ''))
+    .replace(/\s{2,}/g, ' ')
+    .trim();
 
   // Check if subject already starts with Re:
-  const rePrefix = originalSubject.toLowerCase().startsWith('re:') ? '' : 'Re: ';
+  const rePrefix = subject.toLowerCase().startsWith('re:') ? '' : 'Re: ';
 
   // Check if ticket reference is already in subject
-  if (originalSubject.includes(ticketRef)) {
-    return `${rePrefix}${originalSubject}`;
+  if (parseTicketNumberFromSubject(subject) === ticketNumber) {
+    return `${rePrefix}${subject}`;
   }
 
-  return `${rePrefix}${ticketRef} ${originalSubject}`;
+  return `${rePrefix}[#${ticketNumber}] ${subject}`;
 }
@@ -0,0 +1,267 @@
+import type { Attachment } from '@/lib/supabase/types';
+
+// Same bucket the TicketComposer uploads agent attachments into
+const ATTACHMENTS_BUCKET = 'attachments';
+
+// Per-file limit (SendGrid caps the whole inbound payload at 30MB)
+export const MAX_INBOUND_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Mirrors the allowed_mime_types of the attachments bucket, minus HTML/SVG
+// which could carry scripts from untrusted senders
+export const ALLOWED_INBOUND_ATTACHMENT_TYPES = [
+  // Images
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  // Documents
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  // Text
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  // Archives
+  'application/zip',
+  'application/x-zip-compressed',
+  // Other
+  'application/json',
+  'application/xml',
+];
+
+// Storage extension for each allowed type
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'text/markdown': 'md',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/json': 'json',
+  'application/xml': 'xml',
+};
+
+/**
+ * Entry in SendGrid's `attachment-info` JSON, keyed by form field name
+ * (attachment1, attachment2, ...)
+ */
+interface SendGridAttachmentInfo {
+  filename?: string;
+  name?: string;
+  type?: string;
+  'content-id'?: string;
+}
+
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+}
+
+export interface StoredInboundAttachments {
+  attachments: Attachment[];
+  skipped: SkippedAttachment[];
+  // Content-ID (without angle brackets) -> stored attachment, for cid: rewriting
+  inline: Record<string, Attachment>;
+}
+
+/**
+ * Extension and content type to store a file with. Both come from the
+ * allowlisted MIME type, never the sender's filename; anything unmapped is
+ * stored as opaque bytes so it can't be served as HTML, SVG or the like.
+ */
+function getStorageFormat(type: string): { extension: string; contentType: string } {
+  const extension = MIME_EXTENSIONS[type];
+  return extension ? { extension, contentType: type } : { extension: 'bin', contentType: 'application/octet-stream' };
+}
+
+/**
+ * Parse the `attachment-info` field, tolerating missing or malformed JSON
+ */
+export function parseAttachmentInfo(
+  raw: string | undefined
+): Record<string, SendGridAttachmentInfo> {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (err) {
+    console.error('Failed to parse attachment-info:', err);
+    return {};
+  }
+}
+
+/**
+ * Upload every attachment file in the inbound form to storage.
+ *
+ * Files that are too large, of a disallowed type or fail to upload are
+ * skipped and reported rather than failing the whole email, so the message
+ * still gets created with whatever could be stored.
+ */
+export async function storeInboundAttachments(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  formData: FormData,
+  attachmentInfo: Record<string, SendGridAttachmentInfo>,
+  folder: string
+): Promise<StoredInboundAttachments> {
+  const result: StoredInboundAttachments = { attachments: [], skipped: [], inline: {} };
+
+  // SendGrid sends files as attachment1..attachmentN; fall back to scanning
+  // the form in case attachment-info is missing
+  const fieldNames = Object.keys(attachmentInfo).length > 0
+    ? Object.keys(attachmentInfo)
+    : [...formData.keys()].filter((key) => /^attachment\d+$/.test(key));
+
+  for (const fieldName of fieldNames) {
+    const file = formData.get(fieldName);
+    const info = attachmentInfo[fieldName] || {};
+    const name = info.filename || info.name || (file instanceof File ? file.name : fieldName);
+
+    if (!(file instanceof File)) {
+      result.skipped.push({ name, reason: 'missing from request' });
+      continue;
+    }
+
+    const type = (info.type || file.type || 'application/octet-stream').toLowerCase();
+
+    if (file.size > MAX_INBOUND_ATTACHMENT_SIZE) {
+      result.skipped.push({ name, reason: 'exceeds 20MB limit' });
+      continue;
+    }
+
+    if (!ALLOWED_INBOUND_ATTACHMENT_TYPES.includes(type)) {
+      result.skipped.push({ name, reason: `unsupported file type (${type})` });
+      continue;
+    }
+
+    const fileId = crypto.randomUUID();
+    const { extension, contentType } = getStorageFormat(type);
+    const filePath = `${folder}/${fileId}.${extension}`;
+
+    try {
+      const { error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(filePath, file, { contentType });
+
+      if (error) {
+        console.error('Inbound attachment upload error:', name, error);
+        result.skipped.push({ name, reason: 'upload failed' });
+        continue;
+      }
+    } catch (err) {
+      console.error('Inbound attachment upload exception:', name, err);
+      result.skipped.push({ name, reason: 'upload failed' });
+      continue;
+    }
+
+    const { data: urlData } = supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .getPublicUrl(filePath);
+
+    const attachment: Attachment = {
+      id: fileId,
+      name,
+      size: file.size,
+      type: contentType,
+      url: urlData.publicUrl,
+      path: filePath,
+    };
+
+    result.attachments.push(attachment);
+
+    const contentId = info['content-id']?.replace(/^<|>$/g, '');
+    if (contentId) {
+      result.inline[contentId] = attachment;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove uploaded attachments again, used when the message they belong to
+ * could not be saved
+ */
+export async function removeInboundAttachments(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  attachments: Attachment[]
+): Promise<void> {
+  if (attachments.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(attachments.map((a) => a.path));
+
+  if (error) {
+    console.error('Failed to clean up inbound attachments:', error);
+  }
+}
+
+/**
+ * Rewrite inline `cid:` images in an HTML body so they point at the stored
+ * files. Images are turned into markdown so they survive htmlToText and
+ * render in TicketMessage.
+ */
+export function rewriteInlineImages(html: string, inline: Record<string, Attachment>): string {
+  if (Object.keys(inline).length === 0) return html;
+
+  return html.replace(/<img\b[^>]*?src=["']cid:([^"']+)["'][^>]*>/gi, (tag, contentId: string) => {
+    const attachment = inline[contentId.trim()];
+    if (!attachment) return tag;
+
+    const altMatch = tag.match(/alt=["']([^"']*)["']/i);
+    const alt = altMatch?.[1] || attachment.name;
+    return `![${alt}](${attachment.url})`;
+  });
+}
+
+/**
+ * Point the placeholders mail clients leave for inline images in a plain
+ * text body at the stored files: Outlook's "[cid:image001.png@...]" and
+ * Gmail's "[image: name]", where the name is the image's alt text in the
+ * HTML part or its filename.
+ */
+export function linkInlineImages(
+  text: string,
+  html: string | undefined,
+  inline: Record<string, Attachment>
+): string {
+  if (Object.keys(inline).length === 0) return text;
+
+  const byName = new Map<string, Attachment>();
+  for (const attachment of Object.values(inline)) {
+    byName.set(attachment.name.toLowerCase(), attachment);
+  }
+  for (const [tag, contentId] of (html || '').matchAll(/<img\b[^>]*?src=["']cid:([^"']+)["'][^>]*>/gi)) {
+    const attachment = inline[contentId.trim()];
+    const alt = tag.match(/alt=["']([^"']*)["']/i)?.[1]?.trim();
+    if (attachment && alt) byName.set(alt.toLowerCase(), attachment);
+  }
+
+  return text
+    .replace(/\[cid:([^\]\s]+)\]/gi, (placeholder, contentId: string) => {
+      const attachment = inline[contentId];
+      return attachment ? `![${attachment.name}](${attachment.url})` : placeholder;
+    })
+    .replace(/\[image:\s*([^\]]+)\]/gi, (placeholder, name: string) => {
+      const attachment = byName.get(name.trim().toLowerCase());
+      return attachment ? `![${name.trim()}](${attachment.url})` : placeholder;
+    });
+}
@@ -0,0 +1,992 @@
+import { createHash } from 'crypto';
+import {
+  parseEmailAddress,
+  parseEmailAddressList,
+  parseForwardedEmail,
+  getBrandIdFromEmail,
+  extractNewEmailContent,
+  formatEmailWithQuotedContent,
+  htmlToText,
+  normalizeMessageId,
+} from '@/lib/email';
+import {
+  parseAttachmentInfo,
+  storeInboundAttachments,
+  removeInboundAttachments,
+  rewriteInlineImages,
+  linkInlineImages,
+  type SkippedAttachment,
+} from '@/lib/inbound-attachments';
+import { refreshTicketSla } from '@/lib/sla';
+import { runAutomationRules } from '@/lib/automation';
+import { autoAssignTicket } from '@/lib/assignment';
+import { sendOutOfHoursReply } from '@/lib/out-of-hours';
+import { wakeSnoozedTicket } from '@/lib/snooze';
+import { linkOrdersFromText } from '@/lib/order-linking';
+import { findCustomerIdByIdentity } from '@/lib/customer-identities';
+import { checkForSpam, isSenderAuthenticated } from '@/lib/spam-filter';
+import { findEmailThread, logEmailThreading } from '@/lib/email-threading';
+import type { InboundEmail, InboundEmailFile } from '@/lib/supabase/types';
+
+// Private bucket the raw attachment files are kept in until processed
+const INBOUND_EMAILS_BUCKET = 'inbound-emails';
+
+// An email still marked as processing after this long was interrupted
+const STALE_PROCESSING_MINUTES = 10;
+
+export interface InboundEmailResult {
+  action: 'ticket_created' | 'message_added' | 'spam_flagged' | 'duplicate';
+  ticketId?: string;
+  ticketNumber?: number;
+}
+
+interface InboundEmailData {
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  headers?: string;
+  envelope?: string;
+  attachments?: number;
+  'attachment-info'?: string;
+  spam_score?: string;
+  SPF?: string;
+  dkim?: string;
+}
+
+/**
+ * Extract Message-ID and References from email headers
+ */
+function parseEmailHeaders(headersString: string): {
+  messageId: string | null;
+  references: string | null;
+  inReplyTo: string | null;
+  date: string | null;
+  isAutoReply: boolean;
+} {
+  const result = {
+    messageId: null as string | null,
+    references: null as string | null,
+    inReplyTo: null as string | null,
+    date: null as string | null,
+    isAutoReply: false,
+  };
+
+  if (!headersString) return result;
+
+  // Unfold long headers (e.g. References) that continue on indented lines
+  const lines = headersString.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+  for (const line of lines) {
+    const lowerLine = line.toLowerCase();
+    if (lowerLine.startsWith('message-id:')) {
+      result.messageId = line.substring('message-id:'.length).trim();
+    } else if (lowerLine.startsWith('references:')) {
+      result.references = line.substring('references:'.length).trim();
+    } else if (lowerLine.startsWith('in-reply-to:')) {
+      result.inReplyTo = line.substring('in-reply-to:'.length).trim();
+    } else if (lowerLine.startsWith('date:')) {
+      result.date = line.substring('date:'.length).trim();
+    }
+    // Check for auto-reply headers
+    else if (lowerLine.startsWith('auto-submitted:') && !lowerLine.includes('no')) {
+      result.isAutoReply = true;
+    } else if (lowerLine.startsWith('x-auto-response-suppress:')) {
+      result.isAutoReply = true;
+    } else if (lowerLine.startsWith('x-autoreply:')) {
+      result.isAutoReply = true;
+    } else if (lowerLine.startsWith('x-autorespond:')) {
+      result.isAutoReply = true;
+    } else if (lowerLine.includes('precedence:') && (lowerLine.includes('auto_reply') || lowerLine.includes('bulk') || lowerLine.includes('junk'))) {
+      result.isAutoReply = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check if an email subject indicates an auto-reply
+ */
+function isAutoReplySubject(subject: string): boolean {
+  const lowerSubject = subject.toLowerCase();
+  const autoReplyPatterns = [
+    'automatic reply',
+    'auto-reply',
+    'auto reply',
+    'autoreply',
+    'out of office',
+    'out-of-office',
+    'ooo:',
+    'away from office',
+    'on vacation',
+    'automatische antwort',
+    'réponse automatique',
+    'risposta automatica',
+    'respuesta automática',
+    'delivery status notification',
+    'delivery failure',
+    'undeliverable:',
+    'mail delivery failed',
+    'returned mail',
+  ];
+
+  return autoReplyPatterns.some(pattern => lowerSubject.includes(pattern));
+}
+
+/**
+ * The SMTP envelope sender from SendGrid's envelope field, e.g.
+ * {"to":["support@example.com"],"from":"bounce@mail.example.com"}
+ */
+function parseEnvelopeSender(envelope: string | undefined): string | null {
+  if (!envelope) return null;
+  try {
+    const parsed = JSON.parse(envelope);
+    return typeof parsed?.from === 'string' ? parsed.from.trim().toLowerCase() || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get or create customer by email
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function getOrCreateCustomer(supabase: any, email: string, name: string | null): Promise<string> {
+  // Try to find existing customer by any of their email addresses
+  const existingId = await findCustomerIdByIdentity(supabase, 'email', email);
+  if (existingId) return existingId;
+
+  // Create new customer
+  const { data: newCustomer, error } = await supabase
+    .from('customers')
+    .insert({
+      email,
+      full_name: name,
+      metadata: {},
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to create customer:', error);
+    throw new Error('Failed to create customer');
+  }
+
+  return newCustomer.id;
+}
+
+/**
+ * Whether an address belongs to someone on the support team: an agent's
+ * login or an address on the same domain as one of the brands
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function isColleagueAddress(supabase: any, email: string): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (profile) return true;
+
+  const domain = email.split('@')[1];
+  const { data: brands } = await supabase.from('brands').select('email_address');
+
+  return ((brands || []) as { email_address: string | null }[]).some((brand) =>
+    brand.email_address?.toLowerCase().endsWith(`@${domain}`)
+  );
+}
+
+/**
+ * Keep what a colleague wrote above a forwarded email as an internal note
+ */
+async function addForwardedNote(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  forwardedBy: string,
+  note: string
+) {
+  if (!note) return;
+
+  const { error } = await supabase.from('messages').insert({
+    ticket_id: ticketId,
+    sender_type: 'agent',
+    sender_id: null,
+    content: `**Forwarded by ${forwardedBy}:**\n\n${note}`,
+    is_internal: true,
+    source: 'reply',
+    attachments: [],
+  });
+
+  if (error) {
+    console.error('Failed to add forwarded note:', error);
+  }
+}
+
+/**
+ * Leave an internal note listing attachments that could not be stored,
+ * so agents know to ask the customer to resend them
+ */
+async function addSkippedAttachmentsNote(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  skipped: SkippedAttachment[]
+) {
+  if (skipped.length === 0) return;
+
+  const lines = skipped.map((s) => `- ${s.name}: ${s.reason}`).join('\n');
+  const { error } = await supabase.from('messages').insert({
+    ticket_id: ticketId,
+    sender_type: 'agent',
+    sender_id: null,
+    content: `**${skipped.length} attachment(s) from the customer's email could not be saved:**\n\n${lines}`,
+    is_internal: true,
+    source: 'reply',
+    attachments: [],
+  });
+
+  if (error) {
+    console.error('Failed to add skipped attachments note:', error);
+  }
+}
+
+/**
+ * Whether a customer email with this Message-ID is already on a ticket
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function isEmailStored(supabase: any, messageId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('email_message_ids')
+    .select('id')
+    .eq('id', normalizeMessageId(messageId))
+    .eq('direction', 'inbound')
+    .not('message_id', 'is', null)
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Remember that an email's message is stored, and what processing it
+ * amounts to, so a retry after a later failure only runs the steps after it
+ */
+async function recordStoredMessage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  inboundId: string,
+  ticketId: string,
+  messageId: string,
+  action: InboundEmailResult['action']
+) {
+  await supabase
+    .from('inbound_emails')
+    .update({ ticket_id: ticketId, stored_message_id: messageId, result: action })
+    .eq('id', inboundId);
+}
+
+// What the steps after storing a customer's message need to know
+interface FollowUpEmail {
+  customerEmail: string;
+  subject: string;
+  emailContent: string;
+  isAutoReply: boolean;
+  messageId: string | null;
+}
+
+/**
+ * Everything after a reply is stored on an existing ticket: link orders,
+ * wake and reopen the ticket, start the SLA clock, run rules
+ */
+async function finishCustomerReply(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticket: { id: string; brand_id: string | null; reference_id: string | null },
+  email: FollowUpEmail
+) {
+  // Link any order or tracking numbers the customer mentions
+  await linkOrdersFromText(supabase, ticket.id, ticket.brand_id, email.customerEmail, [email.emailContent]);
+
+  // A real reply wakes a snoozed ticket and tells its owner; an
+  // out-of-office bounce shouldn't end an "until the customer replies" snooze
+  if (!email.isAutoReply) {
+    await wakeSnoozedTicket(supabase, ticket.id);
+  }
+
+  // Update ticket status to open if it was pending/closed
+  await supabase
+    .from('tickets')
+    .update({
+      status: 'open',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', ticket.id);
+
+  // Update reference_id if we got a new message ID
+  if (email.messageId && !ticket.reference_id) {
+    await supabase
+      .from('tickets')
+      .update({ reference_id: email.messageId })
+      .eq('id', ticket.id);
+  }
+
+  // Start the next-response SLA clock
+  await refreshTicketSla(supabase, ticket.id, 'customer_reply');
+
+  await runAutomationRules(supabase, ticket.id, 'customer_replied', {
+    subject: null,
+    body: email.emailContent,
+    isAutoReply: email.isAutoReply,
+  });
+
+  // Let the customer know when to expect an answer if the brand is closed
+  await sendOutOfHoursReply(supabase, ticket.id, { isAutoReply: email.isAutoReply });
+}
+
+/**
+ * Everything after a new ticket's first message is stored: rules, SLA
+ * deadlines, assignment
+ */
+async function finishNewTicket(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  email: FollowUpEmail
+) {
+  // Apply tag, priority and automation rules
+  await runAutomationRules(supabase, ticketId, 'ticket_created', {
+    subject: email.subject,
+    body: email.emailContent,
+  });
+
+  // Compute SLA deadlines once the final priority is known
+  await refreshTicketSla(supabase, ticketId, 'created');
+
+  // Rules may have picked a team or agent; otherwise assign from the pool
+  await autoAssignTicket(supabase, ticketId);
+
+  // Let the customer know when to expect an answer if the brand is closed
+  await sendOutOfHoursReply(supabase, ticketId, { isAutoReply: email.isAutoReply });
+}
+
+/**
+ * Turn one inbound email into a ticket or a reply on one. Throws when it
+ * can't finish, leaving the email to be retried.
+ */
+async function handleInboundEmail(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  formData: FormData,
+  inbound: Pick<InboundEmail, 'id' | 'ticket_id' | 'stored_message_id' | 'result'>
+): Promise<InboundEmailResult> {
+  // Get raw values for debugging
+  const rawText = formData.get('text');
+  const rawHtml = formData.get('html');
+  const rawEmail = formData.get('email');
+  const rawBody = formData.get('body');
+
+  console.log('=== RAW CONTENT FIELDS ===');
+  console.log('  text type:', typeof rawText, 'value:', rawText ? String(rawText).substring(0, 100) : 'NULL');
+  console.log('  html type:', typeof rawHtml, 'value:', rawHtml ? String(rawHtml).substring(0, 100) : 'NULL');
+  console.log('  email type:', typeof rawEmail, 'value:', rawEmail ? String(rawEmail).substring(0, 100) : 'NULL');
+  console.log('  body type:', typeof rawBody, 'value:', rawBody ? String(rawBody).substring(0, 100) : 'NULL');
+  console.log('=== END RAW CONTENT FIELDS ===');
+
+  const data: InboundEmailData = {
+    from: formData.get('from') as string || '',
+    to: formData.get('to') as string || '',
+    cc: formData.get('cc') as string || undefined,
+    subject: formData.get('subject') as string || '(No Subject)',
+    text: formData.get('text') as string || undefined,
+    html: formData.get('html') as string || undefined,
+    headers: formData.get('headers') as string || undefined,
+    envelope: formData.get('envelope') as string || undefined,
+    attachments: parseInt(formData.get('attachments') as string || '0', 10),
+    'attachment-info': formData.get('attachment-info') as string || undefined,
+    spam_score: formData.get('spam_score') as string || undefined,
+    SPF: formData.get('SPF') as string || undefined,
+    dkim: formData.get('dkim') as string || undefined,
+  };
+
+  console.log('Parsed email data:');
+  console.log('  From:', data.from);
+  console.log('  To:', data.to);
+  console.log('  Subject:', data.subject);
+  console.log('  Text content:', data.text ? data.text.substring(0, 200) : 'EMPTY');
+  console.log('  HTML content:', data.html ? data.html.substring(0, 200) : 'EMPTY');
+  console.log('  Attachments:', data.attachments);
+
+  // Validate required fields
+  if (!data.from) {
+    console.error('Missing required field: from');
+    throw new Error('Missing sender');
+  }
+
+  // Parse sender email
+  let { email: customerEmail, name: customerName } = parseEmailAddress(data.from);
+  console.log('Customer email:', customerEmail, 'Name:', customerName);
+  const envelopeFrom = parseEnvelopeSender(data.envelope);
+
+  // Recipients, so agents can see who else is on the thread and reply to all
+  const toEmails = parseEmailAddressList(data.to).map((address) => address.email);
+  const ccEmails = parseEmailAddressList(data.cc).map((address) => address.email);
+
+  // Parse email headers for threading
+  const headers = parseEmailHeaders(data.headers || '');
+  console.log('Email headers:', headers);
+
+  // A previous attempt stored this email's message but failed in the steps
+  // after it, which are all that's left to do
+  const resumingFollowUps = !!inbound.stored_message_id;
+
+  // Already stored from another delivery of the same email
+  if (!resumingFollowUps && headers.messageId && (await isEmailStored(supabase, headers.messageId))) {
+    console.log('Email already stored:', headers.messageId);
+    return { action: 'duplicate' };
+  }
+
+  // Check if this is an auto-reply email
+  const isAutoReply = headers.isAutoReply || isAutoReplySubject(data.subject);
+  if (isAutoReply) {
+    console.log('Detected auto-reply email');
+  }
+
+  // Store attachments before building content so inline cid: images can
+  // be pointed at the uploaded files
+  const attachmentInfo = parseAttachmentInfo(data['attachment-info']);
+  const storedAttachments = resumingFollowUps
+    ? { attachments: [], skipped: [], inline: {} }
+    : await storeInboundAttachments(supabase, formData, attachmentInfo, `inbound/${crypto.randomUUID()}`);
+  console.log('Stored attachments:', storedAttachments.attachments.length, 'Skipped:', storedAttachments.skipped);
+
+  // Get the raw email content (prefer text over html for storage)
+  // Also check 'email' and 'body' fields as fallbacks (using rawEmail/rawBody from above)
+  // Use htmlToText for proper HTML conversion that preserves line breaks.
+  // Either way, inline images are pointed at the stored files.
+  const rawEmailContent: string =
+    (data.text?.trim() ? linkInlineImages(data.text.trim(), data.html, storedAttachments.inline) : '') ||
+    (data.html ? htmlToText(rewriteInlineImages(data.html, storedAttachments.inline)) : '') ||
+    (typeof rawEmail === 'string' ? rawEmail.trim() : '') ||
+    (typeof rawBody === 'string' ? rawBody.trim() : '') ||
+    '';
+
+  console.log('=== RAW EMAIL CONTENT ===');
+  console.log('Raw content length:', rawEmailContent.length);
+  console.log('Raw content preview:', rawEmailContent.substring(0, 500));
+  console.log('=== END RAW EMAIL CONTENT ===');
+
+  // A colleague forwarding a customer's email: the customer is whoever
+  // wrote the forwarded email, and its body is what they said. From is
+  // easily forged, so the colleague's domain must pass SPF or DKIM.
+  const forwarded = parseForwardedEmail(rawEmailContent);
+  let forwardedBy: string | null = null;
+  if (
+    forwarded &&
+    forwarded.from.email !== customerEmail &&
+    isSenderAuthenticated({
+      senderEmail: customerEmail,
+      envelopeFrom,
+      spf: data.SPF || null,
+      dkim: data.dkim || null,
+    }) &&
+    (await isColleagueAddress(supabase, customerEmail)) &&
+    !(await isColleagueAddress(supabase, forwarded.from.email))
+  ) {
+    forwardedBy = customerEmail;
+    customerEmail = forwarded.from.email;
+    customerName = forwarded.from.name;
+    console.log('Forwarded by', forwardedBy, 'for customer', customerEmail);
+  }
+
+  const customerContent = forwarded && forwardedBy ? forwarded.body : rawEmailContent;
+  const subject = forwardedBy
+    ? forwarded?.subject || data.subject.replace(/^\s*fwd?:\s*/i, '')
+    : data.subject;
+
+  // Extract only the NEW content (strip quoted text, signatures, etc.)
+  const emailContent = extractNewEmailContent(customerContent);
+
+  console.log('=== EXTRACTED EMAIL CONTENT ===');
+  console.log('Extracted content length:', emailContent.length);
+  console.log('Extracted content:', emailContent.substring(0, 500));
+  console.log('=== END EXTRACTED EMAIL CONTENT ===');
+
+  // Determine brand from recipient email
+  const toEmail = data.to.includes(',') ? data.to.split(',')[0] : data.to;
+  const { email: recipientEmail } = parseEmailAddress(toEmail);
+  const brandId = await getBrandIdFromEmail(recipientEmail, supabase);
+  console.log('Brand ID:', brandId);
+
+  const followUp: FollowUpEmail = { customerEmail, subject, emailContent, isAutoReply, messageId: headers.messageId };
+
+  if (resumingFollowUps) {
+    const { data: storedTicket } = await supabase
+      .from('tickets')
+      .select('id, ticket_number, brand_id, reference_id, is_spam')
+      .eq('id', inbound.ticket_id)
+      .maybeSingle();
+    if (!storedTicket) {
+      throw new Error('The ticket this email was stored on no longer exists');
+    }
+
+    const action = inbound.result as InboundEmailResult['action'];
+    const result = { action, ticketId: storedTicket.id, ticketNumber: storedTicket.ticket_number };
+    console.log('Finishing stored email on ticket #', storedTicket.ticket_number, action);
+
+    if (storedTicket.is_spam || action === 'spam_flagged') return result;
+
+    if (action === 'message_added') {
+      await finishCustomerReply(supabase, storedTicket, followUp);
+    } else {
+      await linkOrdersFromText(supabase, storedTicket.id, storedTicket.brand_id, customerEmail, [subject, emailContent]);
+      await finishNewTicket(supabase, storedTicket.id, followUp);
+    }
+    return result;
+  }
+
+  // A previous attempt got as far as creating this email's ticket
+  let resumedTicket: { id: string; ticket_number: number; is_spam: boolean; spam_reasons: string[] } | null = null;
+  if (inbound.ticket_id) {
+    const { data: ticket } = await supabase
+      .from('tickets')
+      .select('id, ticket_number, is_spam, spam_reasons')
+      .eq('id', inbound.ticket_id)
+      .maybeSingle();
+    resumedTicket = ticket;
+  }
+
+  // Check for existing ticket (threading)
+  const thread = resumedTicket ? null : await findEmailThread(supabase, {
+    customerEmail,
+    subject,
+    inReplyTo: headers.inReplyTo,
+    references: headers.references,
+  });
+  if (thread) {
+    console.log('Threaded by', thread.matchedBy, thread.reference, 'to ticket #', thread.ticket.ticket_number, thread.outcome);
+  }
+
+  // A reply to a closed ticket either reopens it or, per the brand's
+  // setting, starts a new ticket
+  const existingTicket = thread && thread.outcome !== 'new_ticket' ? thread.ticket : null;
+
+  if (existingTicket) {
+    // Add message to existing ticket - strip quoted content since thread is already visible
+    console.log('Adding to existing ticket:', existingTicket.ticket_number);
+
+    // Get customer ID
+    const customerId = await getOrCreateCustomer(supabase, customerEmail, customerName);
+
+    // For replies: use cleaned content (without quoted text), store raw for reference
+    console.log('=== REPLY MESSAGE DEBUG ===');
+    console.log('emailContent length:', emailContent?.length);
+    console.log('emailContent preview:', emailContent?.substring(0, 200));
+    console.log('rawEmailContent length:', rawEmailContent?.length);
+    console.log('=== END REPLY MESSAGE DEBUG ===');
+
+    const { data: replyMessageData, error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        ticket_id: existingTicket.id,
+        sender_type: 'customer',
+        sender_id: customerId,
+        content: emailContent || '(No content)', // Fallback if empty
+        raw_content: rawEmailContent || null,
+        is_internal: false,
+        source: 'new_email',
+        source_email_id: headers.messageId,
+        attachments: storedAttachments.attachments,
+        to_emails: toEmails,
+        cc_emails: ccEmails,
+        forwarded_by: forwardedBy,
+      })
+      .select('id')
+      .single();
+
+    if (messageError) {
+      console.error('Failed to create message:', messageError);
+      console.error('Message error details:', JSON.stringify(messageError, null, 2));
+      await removeInboundAttachments(supabase, storedAttachments.attachments);
+      throw new Error(`Failed to create message: ${messageError.message}`);
+    }
+
+    console.log('Reply message created with ID:', replyMessageData?.id);
+
+    await recordStoredMessage(supabase, inbound.id, existingTicket.id, replyMessageData.id, 'message_added');
+
+    if (thread) {
+      await logEmailThreading(supabase, existingTicket.id, thread, headers.messageId);
+    }
+
+    await addSkippedAttachmentsNote(supabase, existingTicket.id, storedAttachments.skipped);
+    if (forwardedBy && forwarded) {
+      await addForwardedNote(supabase, existingTicket.id, forwardedBy, forwarded.note);
+    }
+
+    // Replies to a spam thread stay with it, without reopening it or
+    // running rules and SLAs
+    if (existingTicket.is_spam) {
+      console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: spam_message_added ===');
+      return { action: 'message_added', ticketId: existingTicket.id, ticketNumber: existingTicket.ticket_number };
+    }
+
+    await finishCustomerReply(supabase, existingTicket, followUp);
+
+    console.log('Message added to ticket #', existingTicket.ticket_number);
+    console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: message_added ===');
+
+    return { action: 'message_added', ticketId: existingTicket.id, ticketNumber: existingTicket.ticket_number };
+  } else {
+    // Create new ticket - KEEP quoted content for context (agents need to see the thread)
+    console.log('Creating new ticket');
+
+    // Screen for spam before the ticket exists, so it doesn't count
+    // towards the sender's own rate limit. A colleague's forward is screened
+    // as the customer's email.
+    const spamCheck = resumedTicket
+      ? { isSpam: resumedTicket.is_spam, reasons: resumedTicket.spam_reasons }
+      : await checkForSpam(supabase, {
+          senderEmail: customerEmail,
+          subject,
+          body: customerContent,
+          spamScore: data.spam_score ? parseFloat(data.spam_score) || null : null,
+          envelopeFrom,
+          spf: data.SPF || null,
+          dkim: data.dkim || null,
+        });
+    if (spamCheck.isSpam) {
+      console.log('Flagged as spam:', spamCheck.reasons);
+    }
+
+    // Get or create customer
+    const customerId = await getOrCreateCustomer(supabase, customerEmail, customerName);
+
+    // For new tickets: format the content with quoted sections separated
+    // This preserves the conversation context agents need to see
+    const { newContent, quotedContent } = formatEmailWithQuotedContent(customerContent);
+
+    console.log('=== CONTENT FORMATTING DEBUG ===');
+    console.log('rawEmailContent length:', rawEmailContent?.length);
+    console.log('newContent:', newContent);
+    console.log('quotedContent length:', quotedContent?.length);
+    console.log('=== END CONTENT FORMATTING DEBUG ===');
+
+    // Build the display content with nicely formatted quoted section
+    let displayContent = newContent;
+    if (quotedContent) {
+      displayContent = `${newContent}\n\n---\n\n**Previous conversation:**\n\n${quotedContent}`;
+    }
+
+    // Ensure displayContent is never empty
+    if (!displayContent || !displayContent.trim()) {
+      displayContent = customerContent || '(No content)';
+    }
+
+    // Create ticket, or finish the one a failed attempt created
+    let ticket: { id: string; ticket_number: number } | null = resumedTicket;
+    if (!ticket) {
+      const { data: newTicket, error: ticketError } = await supabase
+        .from('tickets')
+        .insert({
+          subject,
+          status: 'open',
+          priority: 'medium',
+          channel: 'email',
+          customer_id: customerId,
+          brand_id: brandId,
+          reference_id: headers.messageId,
+          is_auto_reply: isAutoReply,
+          is_spam: spamCheck.isSpam,
+          spam_reasons: spamCheck.reasons,
+        })
+        .select('id, ticket_number')
+        .single();
+
+      if (ticketError || !newTicket) {
+        console.error('Failed to create ticket:', ticketError);
+        await removeInboundAttachments(supabase, storedAttachments.attachments);
+        throw new Error(`Failed to create ticket: ${ticketError?.message || 'unknown error'}`);
+      }
+
+      ticket = newTicket as { id: string; ticket_number: number };
+
+      // Remember the ticket, so a retry after a later failure finishes it
+      await supabase.from('inbound_emails').update({ ticket_id: ticket.id }).eq('id', inbound.id);
+    }
+
+    console.log('Created ticket #', ticket.ticket_number);
+
+    // Log content before insert for debugging
+    console.log('=== MESSAGE INSERT DEBUG ===');
+    console.log('displayContent length:', displayContent?.length);
+    console.log('displayContent preview:', displayContent?.substring(0, 200));
+    console.log('rawEmailContent length:', rawEmailContent?.length);
+    console.log('=== END MESSAGE INSERT DEBUG ===');
+
+    // Create initial message with full content for context
+    const { data: messageData, error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        ticket_id: ticket.id,
+        sender_type: 'customer',
+        sender_id: customerId,
+        content: displayContent || '(No content)', // Fallback if empty
+        raw_content: rawEmailContent || null,
+        is_internal: false,
+        source: 'new_email',
+        source_email_id: headers.messageId,
+        attachments: storedAttachments.attachments,
+        to_emails: toEmails,
+        cc_emails: ccEmails,
+        forwarded_by: forwardedBy,
+      })
+      .select('id')
+      .single();
+
+    if (messageError) {
+      console.error('Failed to create initial message:', messageError);
+      console.error('Message error details:', JSON.stringify(messageError, null, 2));
+      await removeInboundAttachments(supabase, storedAttachments.attachments);
+      throw new Error(`Ticket #${ticket.ticket_number} created but message failed: ${messageError.message}`);
+    }
+
+    console.log('Message created with ID:', messageData?.id);
+
+    await recordStoredMessage(
+      supabase,
+      inbound.id,
+      ticket.id,
+      messageData.id,
+      spamCheck.isSpam ? 'spam_flagged' : 'ticket_created'
+    );
+
+    // A reply to a closed ticket that started this one
+    if (thread) {
+      await logEmailThreading(supabase, ticket.id, thread, headers.messageId);
+    }
+
+    await addSkippedAttachmentsNote(supabase, ticket.id, storedAttachments.skipped);
+    if (forwardedBy && forwarded) {
+      await addForwardedNote(supabase, ticket.id, forwardedBy, forwarded.note);
+    }
+
+    // Link any order or tracking numbers the customer mentions
+    await linkOrdersFromText(supabase, ticket.id, brandId, customerEmail, [subject, emailContent]);
+
+    // Spam waits in the Spam view; marking it "Not spam" runs the steps below
+    if (spamCheck.isSpam) {
+      console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: spam_flagged ===');
+      return { action: 'spam_flagged', ticketId: ticket.id, ticketNumber: ticket.ticket_number };
+    }
+
+    await finishNewTicket(supabase, ticket.id, followUp);
+
+    console.log('Ticket created successfully: #', ticket.ticket_number);
+
+    console.log('=== INBOUND EMAIL WEBHOOK SUCCESS: ticket_created ===');
+    return { action: 'ticket_created', ticketId: ticket.id, ticketNumber: ticket.ticket_number };
+  }
+}
+
+/**
+ * Stands in for the Message-ID of an email that has none, so SendGrid's
+ * retries of it are still recognised. Without a Date header there's
+ * nothing to tell a retry from the sender sending the same subject again.
+ */
+function getFallbackMessageKey(
+  from: string | undefined,
+  subject: string | undefined,
+  date: string | null
+): string | null {
+  if (!from || !date) return null;
+
+  const sender = parseEmailAddress(from).email.toLowerCase();
+  const hash = createHash('sha256')
+    .update([sender, subject || '', date].join('\n'))
+    .digest('hex');
+  return `no-message-id:${hash}`;
+}
+
+/**
+ * Save an inbound payload before anything else is done with it: text
+ * fields on the record, attachment files in storage. An email whose
+ * Message-ID (or, lacking one, sender, subject and date) was saved before
+ * returns that record instead.
+ */
+export async function saveInboundEmail(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  formData: FormData
+): Promise<{ inbound: InboundEmail; isNew: boolean }> {
+  const fields: Record<string, string> = {};
+  const files: [string, File][] = [];
+  for (const [key, value] of formData.entries()) {
+    if (typeof value === 'string') {
+      fields[key] = value;
+    } else {
+      files.push([key, value]);
+    }
+  }
+
+  const headers = parseEmailHeaders(fields.headers || '');
+  const messageId = headers.messageId
+    ? normalizeMessageId(headers.messageId) || null
+    : getFallbackMessageKey(fields.from, fields.subject, headers.date);
+
+  const findExisting = async (): Promise<InboundEmail | null> => {
+    if (!messageId) return null;
+    const { data } = await supabase
+      .from('inbound_emails')
+      .select('*')
+      .eq('message_id', messageId)
+      .maybeSingle();
+    return data as InboundEmail | null;
+  };
+
+  const existing = await findExisting();
+  if (existing) return { inbound: existing, isNew: false };
+
+  const { data, error } = await supabase
+    .from('inbound_emails')
+    .insert({ message_id: messageId, fields })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Saved by a delivery of the same email that arrived at the same time
+    const raced = error.code === '23505' ? await findExisting() : null;
+    if (raced) return { inbound: raced, isNew: false };
+    throw new Error(`Failed to save inbound email: ${error.message}`);
+  }
+
+  const inbound = data as InboundEmail;
+
+  const savedFiles: InboundEmailFile[] = [];
+  for (const [field, file] of files) {
+    const path = `${inbound.id}/${field}`;
+    const { error: uploadError } = await supabase.storage
+      .from(INBOUND_EMAILS_BUCKET)
+      .upload(path, file, { contentType: file.type || 'application/octet-stream' });
+
+    if (uploadError) {
+      console.error('Failed to save inbound email file:', field, uploadError);
+      continue;
+    }
+
+    savedFiles.push({ field, name: file.name, type: file.type, size: file.size, path });
+  }
+
+  if (savedFiles.length > 0) {
+    await supabase.from('inbound_emails').update({ files: savedFiles }).eq('id', inbound.id);
+    inbound.files = savedFiles;
+  }
+
+  return { inbound, isNew: true };
+}
+
+// Rebuild the posted form from a saved email, for a retry
+async function loadInboundForm(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  inbound: InboundEmail
+): Promise<FormData> {
+  const formData = new FormData();
+
+  for (const [key, value] of Object.entries(inbound.fields)) {
+    formData.append(key, value);
+  }
+
+  for (const file of inbound.files) {
+    const { data, error } = await supabase.storage.from(INBOUND_EMAILS_BUCKET).download(file.path);
+    if (error || !data) {
+      console.error('Failed to load inbound email file:', file.path, error);
+      continue;
+    }
+    formData.append(file.field, new File([data], file.name, { type: file.type }));
+  }
+
+  return formData;
+}
+
+/**
+ * Process a saved inbound email and record how it went. The email is
+ * claimed first so two deliveries of it can't be processed at once; one
+ * that fails is kept as failed for an admin to retry. Pass the posted
+ * form when there is one, otherwise it's rebuilt from what was saved.
+ */
+export async function processInboundEmail(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  inboundId: string,
+  formData?: FormData
+): Promise<InboundEmailResult | { error: string }> {
+  const { data: claimed } = await supabase
+    .from('inbound_emails')
+    .update({ status: 'processing' })
+    .eq('id', inboundId)
+    .in('status', ['received', 'failed'])
+    .select('*');
+
+  const inbound = claimed?.[0] as InboundEmail | undefined;
+  if (!inbound) return { error: 'Email is already processed or being processed' };
+
+  try {
+    const result = await handleInboundEmail(
+      supabase,
+      formData || (await loadInboundForm(supabase, inbound)),
+      inbound
+    );
+
+    await supabase
+      .from('inbound_emails')
+      .update({
+        status: 'processed',
+        attempts: inbound.attempts + 1,
+        error: null,
+        result: result.action,
+        ticket_id: result.ticketId || inbound.ticket_id,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', inbound.id);
+
+    // The files now live on the message, or weren't wanted
+    if (inbound.files.length > 0) {
+      await supabase.storage
+        .from(INBOUND_EMAILS_BUCKET)
+        .remove(inbound.files.map((file) => file.path));
+    }
+
+    return result;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('Inbound email processing failed:', inbound.id, err);
+
+    await supabase
+      .from('inbound_emails')
+      .update({ status: 'failed', attempts: inbound.attempts + 1, error: message })
+      .eq('id', inbound.id);
+
+    return { error: message };
+  }
+}
+
+/**
+ * Mark emails whose processing was interrupted (the function timed out or
+ * crashed) as failed, so they show up to be retried
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function failStaleInboundEmails(supabase: any): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000).toISOString();
+
+  const { data } = await supabase
+    .from('inbound_emails')
+    .update({ status: 'failed', error: 'Processing was interrupted' })
+    .in('status', ['received', 'processing'])
+    .lt('updated_at', staleBefore)
+    .select('id');
+
+  return data?.length || 0;
+}
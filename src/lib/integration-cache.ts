@@ -0,0 +1,246 @@
+import { after } from 'next/server';
+
+export type IntegrationSource = 'shopify' | 'returnlogic';
+
+// How long a cached lookup is served before it is refreshed
+const CACHE_TTL_SECONDS: Record<IntegrationSource, number> = {
+  shopify: 10 * 60, // Webhooks and order actions also refresh it
+  returnlogic: 2 * 60,
+};
+
+const SOURCE_NAMES: Record<IntegrationSource, string> = {
+  shopify: 'Shopify',
+  returnlogic: 'Return Logic',
+};
+
+// Failures in a row before the circuit opens, and how long it stays open
+const FAILURE_THRESHOLD = 3;
+const OPEN_SECONDS = 60;
+
+// A background refresh that hasn't finished after this long is retried
+const REFRESH_TIMEOUT_SECONDS = 60;
+
+interface CacheEntry<T> {
+  data: T;
+  fetched_at: string;
+  needs_refresh: boolean;
+}
+
+interface HealthEntry {
+  consecutive_failures: number;
+  open_until: string | null;
+}
+
+export interface CachedIntegrationResult<T> {
+  data: T | null;
+  // Set when the source is failing and older data is being shown
+  staleAsOf: string | null;
+  error?: string;
+}
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase();
+}
+
+async function recordSuccess(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: IntegrationSource,
+  scope: string,
+  health: HealthEntry | null
+): Promise<void> {
+  // Nothing to reset while the source is healthy
+  if (health && health.consecutive_failures === 0 && !health.open_until) return;
+
+  await supabase.from('integration_health').upsert({
+    source,
+    scope,
+    consecutive_failures: 0,
+    open_until: null,
+    last_success_at: new Date().toISOString(),
+  });
+}
+
+async function recordFailure(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: IntegrationSource,
+  scope: string,
+  health: HealthEntry | null,
+  error: string
+): Promise<void> {
+  const failures = (health?.consecutive_failures || 0) + 1;
+  const now = Date.now();
+
+  await supabase.from('integration_health').upsert({
+    source,
+    scope,
+    consecutive_failures: failures,
+    open_until:
+      failures >= FAILURE_THRESHOLD ? new Date(now + OPEN_SECONDS * 1000).toISOString() : null,
+    last_error: error,
+    last_failure_at: new Date(now).toISOString(),
+  });
+}
+
+/**
+ * Call the source and store what it returns. Returns the error when the
+ * call fails; the cached entry is left as it was.
+ */
+async function refreshEntry<T>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: IntegrationSource,
+  key: string,
+  scope: string,
+  health: HealthEntry | null,
+  fetcher: () => Promise<T & { error?: string }>,
+  onRefresh?: (data: T) => Promise<void>
+): Promise<{ data: T; fetchedAt: string } | { error: string }> {
+  let result: T & { error?: string };
+  try {
+    result = await fetcher();
+  } catch (error) {
+    result = {
+      error: error instanceof Error ? error.message : `Failed to reach ${SOURCE_NAMES[source]}`,
+    } as T & { error?: string };
+  }
+
+  if (result.error) {
+    await recordFailure(supabase, source, scope, health, result.error);
+    await supabase
+      .from('integration_cache')
+      .update({ refreshing_at: null })
+      .eq('source', source)
+      .eq('cache_key', key);
+    return { error: result.error };
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const { error } = await supabase.from('integration_cache').upsert({
+    source,
+    cache_key: key,
+    data: result,
+    fetched_at: fetchedAt,
+    needs_refresh: false,
+    refreshing_at: null,
+  });
+
+  if (error) {
+    console.error('Save integration cache error:', error);
+  }
+
+  await recordSuccess(supabase, source, scope, health);
+
+  if (onRefresh) {
+    await onRefresh(result);
+  }
+
+  return { data: result, fetchedAt };
+}
+
+/**
+ * Look something up from an external integration through the cache.
+ *
+ * - A fresh entry is returned without calling the source.
+ * - An expired entry is returned straight away and refreshed after the
+ *   response is sent.
+ * - With no entry, or one we changed ourselves, the source is called now.
+ *
+ * After repeated failures the circuit opens and the source isn't called for
+ * a minute. While it is failing, the last known data is returned with
+ * `staleAsOf` set instead of an error. Failures are counted per `scope`
+ * (a Shopify store's domain), so one failing account doesn't open the
+ * circuit for the others. `onRefresh` runs after every successful call.
+ */
+export async function getCachedIntegrationData<T>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: IntegrationSource,
+  cacheKey: string,
+  fetcher: () => Promise<T & { error?: string }>,
+  options: { scope?: string; onRefresh?: (data: T) => Promise<void> } = {}
+): Promise<CachedIntegrationResult<T>> {
+  const key = normalizeKey(cacheKey);
+  const scope = options.scope || '';
+
+  const [{ data: entry }, { data: health }] = await Promise.all([
+    supabase
+      .from('integration_cache')
+      .select('data, fetched_at, needs_refresh')
+      .eq('source', source)
+      .eq('cache_key', key)
+      .maybeSingle(),
+    supabase
+      .from('integration_health')
+      .select('consecutive_failures, open_until')
+      .eq('source', source)
+      .eq('scope', scope)
+      .maybeSingle(),
+  ]) as [{ data: CacheEntry<T> | null }, { data: HealthEntry | null }];
+
+  const now = Date.now();
+  const isOpen = !!health?.open_until && new Date(health.open_until).getTime() > now;
+  const isFailing = isOpen || (health?.consecutive_failures || 0) > 0;
+  const isExpired =
+    !!entry && now - new Date(entry.fetched_at).getTime() > CACHE_TTL_SECONDS[source] * 1000;
+
+  if (isOpen) {
+    if (entry) {
+      return { data: entry.data, staleAsOf: entry.fetched_at };
+    }
+    const name = scope ? `${SOURCE_NAMES[source]} (${scope})` : SOURCE_NAMES[source];
+    return { data: null, staleAsOf: null, error: `${name} is unavailable right now` };
+  }
+
+  if (entry && !entry.needs_refresh) {
+    if (isExpired) {
+      // Only one request refreshes an entry at a time
+      const refreshStale = new Date(now - REFRESH_TIMEOUT_SECONDS * 1000).toISOString();
+      const { data: claimed } = await supabase
+        .from('integration_cache')
+        .update({ refreshing_at: new Date(now).toISOString() })
+        .eq('source', source)
+        .eq('cache_key', key)
+        .or(`refreshing_at.is.null,refreshing_at.lt."${refreshStale}"`)
+        .select('cache_key');
+
+      if (claimed && claimed.length > 0) {
+        after(async () => {
+          await refreshEntry(supabase, source, key, scope, health, fetcher, options.onRefresh);
+        });
+      }
+    }
+
+    return { data: entry.data, staleAsOf: isExpired && isFailing ? entry.fetched_at : null };
+  }
+
+  const refreshed = await refreshEntry(supabase, source, key, scope, health, fetcher, options.onRefresh);
+
+  if ('error' in refreshed) {
+    if (entry) {
+      return { data: entry.data, staleAsOf: entry.fetched_at };
+    }
+    return { data: null, staleAsOf: null, error: refreshed.error };
+  }
+
+  return { data: refreshed.data, staleAsOf: null };
+}
+
+/**
+ * Make the next lookup call the source instead of serving the cached
+ * entry, after we've changed the data there ourselves. The entry is kept
+ * in case the source is down.
+ */
+export async function invalidateIntegrationCache(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: IntegrationSource,
+  cacheKey: string
+): Promise<void> {
+  await supabase
+    .from('integration_cache')
+    .update({ needs_refresh: true })
+    .eq('source', source)
+    .eq('cache_key', normalizeKey(cacheKey));
+}
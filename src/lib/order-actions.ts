@@ -0,0 +1,45 @@
+import type { UserRole } from '@/lib/supabase/types';
+
+export type OrderAction = 'refund' | 'cancel' | 'replacement' | 'edit_address' | 'return';
+
+/**
+ * Who can change Shopify orders from a ticket. Anything that moves money
+ * is admin-only; viewers can't change orders at all.
+ */
+export const orderActionRoles: Record<OrderAction, UserRole[]> = {
+  refund: ['admin'],
+  cancel: ['admin'],
+  replacement: ['admin', 'agent'],
+  edit_address: ['admin', 'agent'],
+  return: ['admin', 'agent'],
+};
+
+export function canPerformOrderAction(
+  role: UserRole | null | undefined,
+  action: OrderAction
+): boolean {
+  return !!role && orderActionRoles[action].includes(role);
+}
+
+export const orderCancelReasons = [
+  { value: 'customer', label: 'Customer changed or cancelled the order' },
+  { value: 'inventory', label: 'Items unavailable' },
+  { value: 'fraud', label: 'Fraudulent order' },
+  { value: 'declined', label: 'Payment declined' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const orderActionLabels: Record<OrderAction, string> = {
+  refund: 'Refund',
+  cancel: 'Cancel order',
+  replacement: 'Send replacement',
+  edit_address: 'Edit address',
+  return: 'Start return',
+};
+
+export function formatOrderAmount(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+}
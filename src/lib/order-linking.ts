@@ -0,0 +1,185 @@
+import { findOrderByName, type ShopifyOrder } from '@/lib/shopify';
+import { getShopifyStoresForBrand } from '@/lib/shopify-stores';
+import { getCustomerOrdersWithCache, getLinkedOrderStatus, type StoreOrder } from '@/lib/shopify-sync';
+
+// Enough for a customer listing a few orders; more is likely a pasted invoice
+const MAX_REFERENCES = 5;
+
+// "#1234", but not a "[#1234]" ticket token or "ticket #1234"
+const HASH_ORDER_PATTERN = /(?<![[\w])#(\d{3,10})\b/g;
+// "order 1234", "order number 1234", "order no. 1234", "order #1234"
+const WORDED_ORDER_PATTERN = /\border\s*(?:number|num|no\.?)?\s*[:#]?\s*(\d{3,10})\b/gi;
+const TICKET_PREFIX_PATTERN = /\b(?:ticket|case|request)\s*$/i;
+
+const TRACKING_PATTERNS = [
+  /\b(1Z[0-9A-Z]{16})\b/gi, // UPS
+  /\b(9[2-5]\d{20}(?:\d{4})?)\b/g, // USPS
+  /\btracking\s*(?:number|num|no\.?|#)?\s*[:#]?\s*([A-Z0-9]*\d[A-Z0-9]*)\b/gi,
+];
+const MIN_TRACKING_LENGTH = 8;
+
+export interface OrderReferences {
+  orderNumbers: string[];
+  trackingNumbers: string[];
+}
+
+function normalizeTracking(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Find order numbers and tracking numbers a customer mentions in an email
+ */
+export function detectOrderReferences(text: string): OrderReferences {
+  const orderNumbers = new Set<string>();
+  const trackingNumbers = new Set<string>();
+
+  for (const match of text.matchAll(HASH_ORDER_PATTERN)) {
+    const before = text.slice(Math.max(0, (match.index || 0) - 10), match.index);
+    if (!TICKET_PREFIX_PATTERN.test(before)) {
+      orderNumbers.add(match[1]);
+    }
+  }
+
+  for (const match of text.matchAll(WORDED_ORDER_PATTERN)) {
+    orderNumbers.add(match[1]);
+  }
+
+  for (const pattern of TRACKING_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const tracking = normalizeTracking(match[1]);
+      if (tracking.length >= MIN_TRACKING_LENGTH) {
+        trackingNumbers.add(tracking);
+      }
+    }
+  }
+
+  return {
+    orderNumbers: [...orderNumbers].slice(0, MAX_REFERENCES),
+    trackingNumbers: [...trackingNumbers].slice(0, MAX_REFERENCES),
+  };
+}
+
+async function linkOrder(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  customerEmail: string,
+  order: StoreOrder,
+  matchedBy: 'order_number' | 'tracking_number',
+  matchedValue: string
+): Promise<boolean> {
+  const orderEmail = order.email || order.customer?.email || null;
+  const emailMatches = !!orderEmail && orderEmail.toLowerCase() === customerEmail.toLowerCase();
+
+  const { data, error } = await supabase
+    .from('ticket_orders')
+    .upsert(
+      {
+        ticket_id: ticketId,
+        shopify_order_id: order.id,
+        shop_domain: order.shopDomain,
+        order_name: order.name,
+        order_email: orderEmail,
+        email_matches: emailMatches,
+        matched_by: matchedBy,
+        matched_value: matchedValue,
+        order_created_at: order.created_at,
+        ...getLinkedOrderStatus(order),
+      },
+      { onConflict: 'ticket_id,shopify_order_id', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) {
+    console.error('Link order error:', error);
+    return false;
+  }
+
+  // Already linked from an earlier message
+  if (!data || data.length === 0) return false;
+
+  await supabase.from('ticket_activities').insert({
+    ticket_id: ticketId,
+    actor_id: null,
+    action: 'order_linked',
+    new_value: order.name,
+    metadata: {
+      order_id: order.id,
+      matched_by: matchedBy,
+      matched_value: matchedValue,
+      email_matches: emailMatches,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Link the Shopify orders an inbound email refers to, from the ticket
+ * brand's store or every store when it hasn't connected one. Order numbers
+ * are looked up across the whole store, so an order placed under another
+ * email is still linked for the agent but flagged as not the customer's.
+ * Tracking numbers are only matched against the customer's own orders.
+ * Returns how many orders were newly linked; lookup failures are logged and
+ * skipped so they never hold up the email.
+ */
+export async function linkOrdersFromText(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  brandId: string | null,
+  customerEmail: string,
+  texts: (string | null | undefined)[]
+): Promise<number> {
+  const stores = await getShopifyStoresForBrand(brandId);
+  if (stores.length === 0) return 0;
+
+  const { orderNumbers, trackingNumbers } = detectOrderReferences(
+    texts.filter(Boolean).join('\n')
+  );
+  if (orderNumbers.length === 0 && trackingNumbers.length === 0) return 0;
+
+  let linked = 0;
+
+  for (const orderNumber of orderNumbers) {
+    // Each store numbers its orders separately, so several may match
+    for (const store of stores) {
+      let order: ShopifyOrder | null;
+      try {
+        order = await findOrderByName(store, `#${orderNumber}`);
+      } catch (error) {
+        console.error(`Look up order #${orderNumber} in ${store.domain} error:`, error);
+        continue;
+      }
+
+      if (!order) continue;
+
+      const storeOrder = { ...order, shopDomain: store.domain };
+      if (await linkOrder(supabase, ticketId, customerEmail, storeOrder, 'order_number', orderNumber)) {
+        linked++;
+      }
+    }
+  }
+
+  if (trackingNumbers.length > 0) {
+    try {
+      const { orders } = await getCustomerOrdersWithCache(supabase, customerEmail, brandId);
+
+      for (const trackingNumber of trackingNumbers) {
+        const order = orders.find((o) =>
+          o.fulfillments?.some(
+            (f) => f.tracking_number && normalizeTracking(f.tracking_number) === trackingNumber
+          )
+        );
+        if (order && (await linkOrder(supabase, ticketId, customerEmail, order, 'tracking_number', trackingNumber))) {
+          linked++;
+        }
+      }
+    } catch (error) {
+      console.error('Match tracking numbers error:', error);
+    }
+  }
+
+  return linked;
+}
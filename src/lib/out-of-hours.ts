@@ -0,0 +1,159 @@
+import {
+  sendEmail,
+  getBrandEmail,
+  formatReplyAsHtml,
+  formatReplyAsText,
+  generateReplySubject,
+} from '@/lib/email';
+import { addBusinessMinutes, isWithinBusinessHours } from '@/lib/business-hours';
+import type { Brand, BusinessCalendar } from '@/lib/supabase/types';
+
+export const DEFAULT_OUT_OF_HOURS_MESSAGE =
+  'Thanks for contacting {{brand_name}}. Our team is away right now, so we have received your message and will reply once we are back on {{next_open}}.';
+
+/**
+ * Format when the brand next opens, in the brand's own timezone,
+ * e.g. "Monday, Mar 9 at 9:00 AM PDT"
+ */
+export function formatNextOpen(date: Date, timeZone: string): string {
+  const day = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  }).format(date);
+
+  const time = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+
+  return `${day} at ${time}`;
+}
+
+export function renderOutOfHoursMessage(
+  template: string | null,
+  brandName: string,
+  nextOpen: string
+): string {
+  return (template?.trim() || DEFAULT_OUT_OF_HOURS_MESSAGE)
+    .replace(/\{\{\s*brand_name\s*\}\}/g, brandName)
+    .replace(/\{\{\s*next_open\s*\}\}/g, nextOpen);
+}
+
+/**
+ * Tell the customer the brand is closed and when to expect an answer.
+ * Does nothing when the brand has no calendar or auto-replies switched off,
+ * when the brand is open, when the inbound email was itself an automatic
+ * reply, or when the ticket already got an auto-reply during this closed
+ * period.
+ */
+export async function sendOutOfHoursReply(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  { isAutoReply }: { isAutoReply: boolean }
+): Promise<boolean> {
+  // Never answer automatic replies, or two autoresponders can loop forever
+  if (isAutoReply) return false;
+
+  try {
+    const { data: ticket } = await supabase
+      .from('tickets')
+      .select(
+        'id, ticket_number, subject, reference_id, out_of_hours_replied_at, customer:customers(email), brand:brands(*, calendar:business_calendars(*))'
+      )
+      .eq('id', ticketId)
+      .single();
+
+    const brand = ticket?.brand as Brand | null;
+    const calendar = brand?.calendar as BusinessCalendar | null | undefined;
+
+    if (!ticket?.customer?.email || !brand?.out_of_hours_reply_enabled || !calendar) {
+      return false;
+    }
+
+    const now = new Date();
+    if (isWithinBusinessHours(now, calendar)) return false;
+
+    // Zero business minutes from now is the moment the brand next opens
+    const nextOpen = addBusinessMinutes(now, 0, calendar);
+
+    if (ticket.out_of_hours_replied_at) {
+      const previousNextOpen = addBusinessMinutes(
+        new Date(ticket.out_of_hours_replied_at),
+        0,
+        calendar
+      );
+      if (previousNextOpen.getTime() === nextOpen.getTime()) return false;
+    }
+
+    const content = renderOutOfHoursMessage(
+      brand.out_of_hours_reply_message,
+      brand.name,
+      formatNextOpen(nextOpen, calendar.timezone)
+    );
+
+    // Claim the reply first so two emails arriving together send it once
+    const claim = supabase
+      .from('tickets')
+      .update({ out_of_hours_replied_at: now.toISOString() })
+      .eq('id', ticket.id);
+
+    const { data: claimed } = await (ticket.out_of_hours_replied_at
+      ? claim.eq('out_of_hours_replied_at', ticket.out_of_hours_replied_at)
+      : claim.is('out_of_hours_replied_at', null)
+    ).select('id');
+
+    if (!claimed || claimed.length === 0) return false;
+
+    const fromEmail = getBrandEmail(brand);
+
+    const emailResult = await sendEmail({
+      to: ticket.customer.email,
+      from: fromEmail,
+      fromName: brand.name,
+      subject: generateReplySubject(ticket.subject, ticket.ticket_number),
+      htmlContent: formatReplyAsHtml(content, ticket.ticket_number, brand.name),
+      textContent: formatReplyAsText(content),
+      replyTo: fromEmail,
+      inReplyTo: ticket.reference_id || undefined,
+      references: ticket.reference_id || undefined,
+      autoSubmitted: true,
+    });
+
+    if (!emailResult.success) {
+      console.error('Out-of-hours reply email failed:', emailResult.error);
+      await supabase
+        .from('tickets')
+        .update({ out_of_hours_replied_at: ticket.out_of_hours_replied_at })
+        .eq('id', ticket.id);
+      return false;
+    }
+
+    await supabase.from('messages').insert({
+      ticket_id: ticket.id,
+      sender_type: 'agent',
+      sender_id: null,
+      content,
+      is_internal: false,
+      attachments: [],
+      email_message_id: emailResult.messageId || null,
+      delivery_status: emailResult.messageId ? 'sent' : null,
+    });
+
+    if (emailResult.messageId) {
+      await supabase
+        .from('tickets')
+        .update({ reference_id: emailResult.messageId })
+        .eq('id', ticket.id);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Out-of-hours reply error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,336 @@
+import {
+  sendEmail,
+  formatReplyAsHtml,
+  formatReplyAsText,
+  getBrandEmail,
+  generateReplySubject,
+} from '@/lib/email';
+import { refreshTicketSla } from '@/lib/sla';
+import { runAutomationRules } from '@/lib/automation';
+import { scheduleCsatSurvey } from '@/lib/csat';
+import { getSnoozeUpdate } from '@/lib/snooze';
+import type { Brand, OutboundMessage } from '@/lib/supabase/types';
+import type { SnoozeInput } from '@/lib/validations';
+
+export type SendAction = 'send' | 'send-close' | 'send-snooze';
+
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Wait before each retry after a failed send, in minutes
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+const SEND_BATCH_SIZE = 50;
+
+// A reply still marked as sending after this long was interrupted mid-send.
+// It is failed rather than resent, as the email may already have gone out.
+const STALE_SENDING_MINUTES = 10;
+
+export type DeliveryResult = 'sent' | 'retrying' | 'failed' | 'skipped';
+
+/**
+ * Close or snooze a ticket after a reply, assigning it to whoever sent it.
+ * A snooze whose time has passed while the reply was queued is dropped.
+ */
+export async function applySendAction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  userId: string,
+  action: SendAction,
+  snooze: SnoozeInput | null
+): Promise<void> {
+  if (action === 'send-close') {
+    await supabase
+      .from('tickets')
+      .update({
+        status: 'closed',
+        resolved_at: new Date().toISOString(),
+        snoozed_until: null,
+        snoozed_by: null,
+        snooze_until_reply: false,
+        snooze_reason: null,
+        assigned_agent_id: userId,
+      })
+      .eq('id', ticketId);
+
+    await scheduleCsatSurvey(supabase, ticketId);
+  } else if (action === 'send-snooze' && snooze) {
+    const result = getSnoozeUpdate(snooze, userId);
+    if ('error' in result) return;
+
+    await supabase
+      .from('tickets')
+      .update({
+        ...result.update,
+        assigned_agent_id: userId,
+      })
+      .eq('id', ticketId);
+  }
+}
+
+/**
+ * Record a failed send. Requeues with backoff until the last attempt, then
+ * marks the reply failed and tells its author.
+ */
+async function handleDeliveryFailure(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  outbound: OutboundMessage,
+  ticketNumber: number | null,
+  reason: string
+): Promise<DeliveryResult> {
+  const attempts = outbound.attempts + 1;
+
+  if (attempts < MAX_SEND_ATTEMPTS) {
+    const delayMinutes =
+      RETRY_DELAYS_MINUTES[Math.min(attempts - 1, RETRY_DELAYS_MINUTES.length - 1)];
+
+    await supabase
+      .from('outbound_messages')
+      .update({
+        status: 'queued',
+        attempts,
+        last_error: reason,
+        send_at: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+      })
+      .eq('id', outbound.id);
+
+    return 'retrying';
+  }
+
+  await supabase
+    .from('outbound_messages')
+    .update({ status: 'failed', attempts, last_error: reason })
+    .eq('id', outbound.id);
+
+  await supabase.rpc('create_notification', {
+    p_user_id: outbound.author_id,
+    p_type: 'reply_failed',
+    p_title: 'Reply could not be sent',
+    p_message: `Your reply on ticket #${ticketNumber ?? '?'} failed after ${attempts} attempts: ${reason}`,
+    p_ticket_id: outbound.ticket_id,
+  });
+
+  return 'failed';
+}
+
+/**
+ * Deliver one queued reply: email the customer, save the message on the
+ * ticket and apply its close or snooze. The reply is claimed first so the
+ * background job and the agent's browser can't both send it. Without
+ * `force` only replies whose send time has come are delivered.
+ */
+export async function deliverOutboundMessage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  outboundId: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<DeliveryResult> {
+  let claim = supabase
+    .from('outbound_messages')
+    .update({ status: 'sending' })
+    .eq('id', outboundId)
+    .eq('status', 'queued');
+
+  if (!force) {
+    claim = claim.lte('send_at', new Date().toISOString());
+  }
+
+  const { data: claimed } = await claim.select('*');
+  const outbound = claimed?.[0] as OutboundMessage | undefined;
+  if (!outbound) return 'skipped';
+
+  const { data: ticketData } = await supabase
+    .from('tickets')
+    .select(`
+      id,
+      ticket_number,
+      subject,
+      channel,
+      reference_id,
+      customer:customers(email, full_name),
+      brand:brands(id, name, email_address, color)
+    `)
+    .eq('id', outbound.ticket_id)
+    .single();
+
+  // Normalize nested relations (Supabase may return arrays)
+  const ticket = ticketData
+    ? {
+        ...ticketData,
+        customer: Array.isArray(ticketData.customer)
+          ? ticketData.customer[0]
+          : ticketData.customer,
+        brand: Array.isArray(ticketData.brand) ? ticketData.brand[0] : ticketData.brand,
+      }
+    : null;
+
+  if (!ticket) {
+    await supabase
+      .from('outbound_messages')
+      .update({ status: 'failed', last_error: 'Ticket no longer exists' })
+      .eq('id', outbound.id);
+    return 'failed';
+  }
+
+  let emailMessageId: string | null = null;
+  let ccEmails: string[] = [];
+
+  if (ticket.channel === 'email' && ticket.customer?.email) {
+    // Get agent profile for the email signature
+    const { data: agentProfile } = await supabase
+      .from('profiles')
+      .select('full_name, email')
+      .eq('id', outbound.author_id)
+      .single();
+
+    const agentName = agentProfile?.full_name || agentProfile?.email || 'Support Team';
+    const fromEmail = getBrandEmail(ticket.brand as Brand | null);
+    const brandName = ticket.brand?.name || 'NoLimits Support';
+
+    // Never copy the customer or one of our own support addresses
+    const { data: brands } = await supabase.from('brands').select('email_address');
+    const ownAddresses = new Set([
+      ticket.customer.email.toLowerCase(),
+      fromEmail.toLowerCase(),
+      ...((brands || []) as { email_address: string | null }[]).flatMap((brand) =>
+        brand.email_address ? [brand.email_address.toLowerCase()] : []
+      ),
+    ]);
+    ccEmails = (outbound.cc_emails || []).filter((email) => !ownAddresses.has(email));
+
+    const emailResult = await sendEmail({
+      to: ticket.customer.email,
+      cc: ccEmails,
+      from: fromEmail,
+      fromName: brandName,
+      subject: generateReplySubject(ticket.subject, ticket.ticket_number),
+      htmlContent: formatReplyAsHtml(outbound.content, ticket.ticket_number, agentName),
+      textContent: formatReplyAsText(outbound.content),
+      replyTo: fromEmail,
+      inReplyTo: ticket.reference_id || undefined,
+      references: ticket.reference_id || undefined,
+    });
+
+    if (!emailResult.success) {
+      console.error('Failed to send queued reply:', emailResult.error);
+      return handleDeliveryFailure(
+        supabase,
+        outbound,
+        ticket.ticket_number,
+        emailResult.error || 'Email delivery failed'
+      );
+    }
+
+    emailMessageId = emailResult.messageId || null;
+
+    if (emailResult.messageId) {
+      // Update ticket reference_id for threading future replies
+      await supabase
+        .from('tickets')
+        .update({ reference_id: emailResult.messageId })
+        .eq('id', ticket.id);
+    }
+  }
+
+  const { data: message, error: messageError } = await supabase
+    .from('messages')
+    .insert({
+      ticket_id: ticket.id,
+      sender_type: 'agent',
+      sender_id: outbound.author_id,
+      content: outbound.content,
+      is_internal: false,
+      attachments: outbound.attachments || [],
+      email_message_id: emailMessageId,
+      delivery_status: emailMessageId ? 'sent' : null,
+      to_emails: emailMessageId ? [ticket.customer.email] : [],
+      cc_emails: emailMessageId ? ccEmails : [],
+    })
+    .select('id')
+    .single();
+
+  if (messageError) {
+    console.error('Save delivered reply error:', messageError);
+  }
+
+  // Update first_response_at if this is the first agent response
+  await supabase
+    .from('tickets')
+    .update({ first_response_at: new Date().toISOString() })
+    .eq('id', ticket.id)
+    .is('first_response_at', null);
+
+  // Stop the next-response SLA clock
+  await refreshTicketSla(supabase, ticket.id, 'agent_reply');
+
+  // Auto-assign ticket to the replying agent if currently unassigned
+  await supabase
+    .from('tickets')
+    .update({ assigned_agent_id: outbound.author_id })
+    .eq('id', ticket.id)
+    .is('assigned_agent_id', null);
+
+  // Apply tag and automation rules
+  await runAutomationRules(supabase, ticket.id, 'agent_replied', {
+    subject: null,
+    body: outbound.content,
+  });
+
+  await applySendAction(supabase, ticket.id, outbound.author_id, outbound.action, outbound.snooze);
+
+  await supabase
+    .from('outbound_messages')
+    .update({
+      status: 'sent',
+      attempts: outbound.attempts + 1,
+      last_error: null,
+      message_id: message?.id ?? null,
+      sent_at: new Date().toISOString(),
+    })
+    .eq('id', outbound.id);
+
+  return 'sent';
+}
+
+/**
+ * Deliver every queued reply whose send time has come. Called every minute
+ * by the scheduler; replies inside an undo window are usually flushed
+ * sooner by the agent's browser.
+ */
+export async function deliverDueOutboundMessages(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any
+): Promise<{ sent: number; retrying: number; failed: number }> {
+  const result = { sent: 0, retrying: 0, failed: 0 };
+
+  const staleBefore = new Date(Date.now() - STALE_SENDING_MINUTES * 60 * 1000).toISOString();
+  const { data: stale } = await supabase
+    .from('outbound_messages')
+    .update({ status: 'failed', last_error: 'Delivery was interrupted' })
+    .eq('status', 'sending')
+    .lt('updated_at', staleBefore)
+    .select('id');
+
+  result.failed += stale?.length || 0;
+
+  const { data: due, error } = await supabase
+    .from('outbound_messages')
+    .select('id')
+    .eq('status', 'queued')
+    .lte('send_at', new Date().toISOString())
+    .order('send_at', { ascending: true })
+    .limit(SEND_BATCH_SIZE);
+
+  if (error) {
+    console.error('Fetch due outbound messages error:', error);
+    return result;
+  }
+
+  for (const { id } of due || []) {
+    const outcome = await deliverOutboundMessage(supabase, id);
+    if (outcome !== 'skipped') result[outcome]++;
+  }
+
+  return result;
+}
@@ -32,16 +32,39 @@ export interface ReturnLogicRMA {
   trackingNumber: string | null;
   trackingCarrier: string | null;
   trackingUrl: string | null;
+  labelUrl: string | null; // Printable return shipping label
   orderNumber: string | null;
   customerEmail: string;
   customerName: string | null;
 }
 
+export type ReturnLogicReturnType = 'refund' | 'exchange' | 'store_credit';
+
+export const returnTypeOptions: { value: ReturnLogicReturnType; label: string }[] = [
+  { value: 'refund', label: 'Refund' },
+  { value: 'exchange', label: 'Exchange' },
+  { value: 'store_credit', label: 'Store Credit' },
+];
+
+export const returnReasons = [
+  'Damaged or defective',
+  'Wrong item received',
+  'Wrong size or fit',
+  'Not as described',
+  'No longer needed',
+  'Arrived too late',
+  'Other',
+] as const;
+
 export interface ReturnLogicResponse {
   rmas: ReturnLogicRMA[];
   error?: string;
 }
 
+export function isReturnLogicConfigured(): boolean {
+  return !!RETURNLOGIC_API_KEY;
+}
+
 /**
  * Normalize status from API to consistent format
  */
@@ -112,6 +135,88 @@ function normalizeReturnType(returnType: string): string {
   return typeMap[typeLower] || returnType;
 }
 
+/**
+ * Map an RMA from the API to our format
+ */
+function transformRMA(rma: Record<string, unknown>, email: string): ReturnLogicRMA {
+  // Extract nested objects
+  const timeline = rma.timeline as Record<string, unknown> | null;
+  const totals = rma.totals as Record<string, Record<string, unknown>> | null;
+  const shippingLabel = rma.shippingLabel as Record<string, unknown> | null;
+  const rmaItems = rma.rmaItems as Record<string, unknown>[] | null;
+
+  // RMA ID for URL (rlRmaId is the correct field)
+  const rmaId = String(rma.rlRmaId || rma.id || '');
+
+  // Status from workflowStatus
+  const statusValue = rma.workflowStatus || rma.status || 'unknown';
+
+  // Order number from orderName
+  const orderNumber = rma.orderName ? String(rma.orderName) : null;
+
+  // Created date from timeline.createDate
+  const createdAt = timeline?.createDate
+    ? String(timeline.createDate)
+    : String(rma.createdAt || rma.created_at || new Date().toISOString());
+
+  // Determine return type from items or totals
+  let returnType = 'refund';
+  if (totals?.exchange?.total && Number(totals.exchange.total) > 0) {
+    returnType = 'exchange';
+  } else if (totals?.giftCard?.total && Number(totals.giftCard.total) > 0) {
+    returnType = 'store_credit';
+  }
+
+  // Get amounts from totals
+  const refundAmount = totals?.refund?.total ? String(totals.refund.total) : null;
+  const exchangeAmount = totals?.exchange?.total ? String(totals.exchange.total) : null;
+  const creditAmount = totals?.giftCard?.total ? String(totals.giftCard.total) : null;
+
+  // Tracking info from shippingLabel
+  const trackingNumber = shippingLabel?.trackingNumber ? String(shippingLabel.trackingNumber) : null;
+  const trackingCarrier = shippingLabel?.carrier ? String(shippingLabel.carrier) : null;
+  const trackingUrl = shippingLabel?.trackingUrl ? String(shippingLabel.trackingUrl) : null;
+  const labelUrl = shippingLabel?.labelUrl ? String(shippingLabel.labelUrl) : null;
+
+  // Map items from rmaItems array
+  const items: ReturnLogicRMAItem[] = Array.isArray(rmaItems)
+    ? rmaItems.map((item: Record<string, unknown>) => ({
+        id: String(item.id || item.rmaItemId || ''),
+        productName: String(item.name || item.productName || 'Unknown Item'),
+        variantName: item.variantName ? String(item.variantName) : null,
+        quantity: Number(item.quantity) || 1,
+        sku: item.sku ? String(item.sku) : null,
+        reason: item.returnReasonDescription ? String(item.returnReasonDescription) : null,
+        reasonComment: item.returnReasonComment ? String(item.returnReasonComment) : null,
+        returnType: item.returnType ? String(item.returnType) : null,
+      }))
+    : [];
+
+  // Get overall reason from first item if available
+  const reason = items.length > 0 && items[0].reason ? items[0].reason : null;
+
+  return {
+    id: rmaId,
+    rmaNumber: rmaId, // Use rlRmaId as the display number
+    status: normalizeStatus(String(statusValue)),
+    returnType: normalizeReturnType(returnType),
+    createdAt,
+    updatedAt: createdAt,
+    reason,
+    items,
+    refundAmount,
+    creditAmount,
+    exchangeAmount,
+    trackingNumber,
+    trackingCarrier,
+    trackingUrl,
+    labelUrl,
+    orderNumber,
+    customerEmail: String(rma.customerEmail || rma.email || email),
+    customerName: rma.customerName ? String(rma.customerName) : null,
+  };
+}
+
 /**
  * Fetch RMAs by customer email
  */
@@ -132,8 +237,9 @@ export async function getCustomerRMAs(email: string): Promise<ReturnLogicRespons
         'Authorization': `Bearer ${RETURNLOGIC_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      // Cache for 30 seconds to avoid excessive API calls
-      next: { revalidate: 30 },
+      // Cached by the integration cache, which keeps the last known RMAs
+      // when Return Logic is down
+      cache: 'no-store',
     });
 
     if (!response.ok) {
@@ -162,82 +268,7 @@ export async function getCustomerRMAs(email: string): Promise<ReturnLogicRespons
     }
 
     // Transform and normalize the response
-    const rmas: ReturnLogicRMA[] = rawRmas.map((rma: Record<string, unknown>) => {
-      // Extract nested objects
-      const timeline = rma.timeline as Record<string, unknown> | null;
-      const totals = rma.totals as Record<string, Record<string, unknown>> | null;
-      const shippingLabel = rma.shippingLabel as Record<string, unknown> | null;
-      const rmaItems = rma.rmaItems as Record<string, unknown>[] | null;
-
-      // RMA ID for URL (rlRmaId is the correct field)
-      const rmaId = String(rma.rlRmaId || rma.id || '');
-
-      // Status from workflowStatus
-      const statusValue = rma.workflowStatus || rma.status || 'unknown';
-
-      // Order number from orderName
-      const orderNumber = rma.orderName ? String(rma.orderName) : null;
-
-      // Created date from timeline.createDate
-      const createdAt = timeline?.createDate
-        ? String(timeline.createDate)
-        : String(rma.createdAt || rma.created_at || new Date().toISOString());
-
-      // Determine return type from items or totals
-      let returnType = 'refund';
-      if (totals?.exchange?.total && Number(totals.exchange.total) > 0) {
-        returnType = 'exchange';
-      } else if (totals?.giftCard?.total && Number(totals.giftCard.total) > 0) {
-        returnType = 'store_credit';
-      }
-
-      // Get amounts from totals
-      const refundAmount = totals?.refund?.total ? String(totals.refund.total) : null;
-      const exchangeAmount = totals?.exchange?.total ? String(totals.exchange.total) : null;
-      const creditAmount = totals?.giftCard?.total ? String(totals.giftCard.total) : null;
-
-      // Tracking info from shippingLabel
-      const trackingNumber = shippingLabel?.trackingNumber ? String(shippingLabel.trackingNumber) : null;
-      const trackingCarrier = shippingLabel?.carrier ? String(shippingLabel.carrier) : null;
-      const trackingUrl = shippingLabel?.trackingUrl ? String(shippingLabel.trackingUrl) : null;
-
-      // Map items from rmaItems array
-      const items: ReturnLogicRMAItem[] = Array.isArray(rmaItems)
-        ? rmaItems.map((item: Record<string, unknown>) => ({
-            id: String(item.id || item.rmaItemId || ''),
-            productName: String(item.name || item.productName || 'Unknown Item'),
-            variantName: item.variantName ? String(item.variantName) : null,
-            quantity: Number(item.quantity) || 1,
-            sku: item.sku ? String(item.sku) : null,
-            reason: item.returnReasonDescription ? String(item.returnReasonDescription) : null,
-            reasonComment: item.returnReasonComment ? String(item.returnReasonComment) : null,
-            returnType: item.returnType ? String(item.returnType) : null,
-          }))
-        : [];
-
-      // Get overall reason from first item if available
-      const reason = items.length > 0 && items[0].reason ? items[0].reason : null;
-
-      return {
-        id: rmaId,
-        rmaNumber: rmaId, // Use rlRmaId as the display number
-        status: normalizeStatus(String(statusValue)),
-        returnType: normalizeReturnType(returnType),
-        createdAt,
-        updatedAt: createdAt,
-        reason,
-        items,
-        refundAmount,
-        creditAmount,
-        exchangeAmount,
-        trackingNumber,
-        trackingCarrier,
-        trackingUrl,
-        orderNumber,
-        customerEmail: String(rma.customerEmail || rma.email || email),
-        customerName: rma.customerName ? String(rma.customerName) : null,
-      };
-    });
+    const rmas: ReturnLogicRMA[] = rawRmas.map((rma: Record<string, unknown>) => transformRMA(rma, email));
 
     // Sort by created date, most recent first
     rmas.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -252,6 +283,86 @@ export async function getCustomerRMAs(email: string): Promise<ReturnLogicRespons
   }
 }
 
+/**
+ * Get a single RMA by its Return Logic ID. Returns null if it no longer
+ * exists; throws if Return Logic can't be reached.
+ */
+export async function getRMA(rmaId: string): Promise<ReturnLogicRMA | null> {
+  const response = await fetch(`${RETURNLOGIC_BASE_URL}/rmas/${encodeURIComponent(rmaId)}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${RETURNLOGIC_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    cache: 'no-store',
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Return Logic API error:', response.status, errorText);
+    throw new Error(`Return Logic API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return transformRMA(data.rma || data.data || data, '');
+}
+
+/**
+ * Start a return for items from a Shopify order. Return Logic issues the
+ * RMA number and prepaid shipping label.
+ */
+export async function createRMA(input: {
+  orderName: string;
+  customerEmail: string;
+  returnType: ReturnLogicReturnType;
+  reason: string;
+  comment?: string;
+  items: { lineItemId: number; sku: string | null; quantity: number }[];
+}): Promise<{ rma?: ReturnLogicRMA; error?: string }> {
+  if (!RETURNLOGIC_API_KEY) {
+    return { error: 'Return Logic integration not configured' };
+  }
+
+  try {
+    const response = await fetch(`${RETURNLOGIC_BASE_URL}/rmas`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${RETURNLOGIC_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        orderName: input.orderName,
+        customerEmail: input.customerEmail,
+        returnType: input.returnType,
+        rmaItems: input.items.map((item) => ({
+          lineItemId: String(item.lineItemId),
+          sku: item.sku,
+          quantity: item.quantity,
+          returnType: input.returnType,
+          returnReasonDescription: input.reason,
+          returnReasonComment: input.comment || null,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Return Logic create RMA error:', response.status, errorText);
+      return { error: `Return Logic refused the return (${response.status})` };
+    }
+
+    const data = await response.json();
+    return { rma: transformRMA(data.rma || data.data || data, input.customerEmail) };
+  } catch (error) {
+    console.error('Error creating Return Logic RMA:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to create return' };
+  }
+}
+
 /**
  * Get the Return Logic admin URL for an RMA
  */
@@ -0,0 +1,83 @@
+import { getRMA, isReturnLogicConfigured } from '@/lib/returnlogic';
+import type { TicketRMA } from '@/lib/supabase/types';
+
+// RMAs in these statuses won't change again
+const FINAL_RMA_STATUSES = ['complete', 'canceled', 'abandoned', 'rejected'];
+
+const SYNC_BATCH_SIZE = 50;
+
+/**
+ * Check Return Logic for status changes on RMAs linked to tickets, least
+ * recently checked first. Each change is recorded in the ticket's
+ * activity log.
+ */
+export async function syncTicketRMAStatuses(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any
+): Promise<{ checked: number; changed: number; failed: number }> {
+  const result = { checked: 0, changed: 0, failed: 0 };
+
+  if (!isReturnLogicConfigured()) {
+    return result;
+  }
+
+  const { data: rmas, error } = await supabase
+    .from('ticket_rmas')
+    .select('*')
+    .not('status', 'in', `(${FINAL_RMA_STATUSES.join(',')})`)
+    .order('status_checked_at', { ascending: true, nullsFirst: true })
+    .limit(SYNC_BATCH_SIZE);
+
+  if (error) {
+    console.error('Fetch ticket RMAs error:', error);
+    return result;
+  }
+
+  for (const linked of (rmas || []) as TicketRMA[]) {
+    let rma;
+    try {
+      rma = await getRMA(linked.rma_id);
+    } catch (error) {
+      console.error(`Check RMA ${linked.rma_number} error:`, error);
+      result.failed++;
+      continue;
+    }
+
+    result.checked++;
+    const checkedAt = new Date().toISOString();
+
+    if (!rma || rma.status === linked.status) {
+      await supabase
+        .from('ticket_rmas')
+        .update({ status_checked_at: checkedAt })
+        .eq('id', linked.id);
+      continue;
+    }
+
+    await supabase
+      .from('ticket_rmas')
+      .update({
+        status: rma.status,
+        label_url: rma.labelUrl || linked.label_url,
+        status_checked_at: checkedAt,
+      })
+      .eq('id', linked.id);
+
+    await supabase.from('ticket_activities').insert({
+      ticket_id: linked.ticket_id,
+      actor_id: null,
+      action: 'rma_status_changed',
+      old_value: linked.status,
+      new_value: rma.status,
+      metadata: {
+        rma_id: linked.rma_id,
+        rma_number: linked.rma_number,
+        order_name: linked.order_name,
+      },
+    });
+
+    result.changed++;
+  }
+
+  return result;
+}
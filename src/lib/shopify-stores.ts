@@ -0,0 +1,138 @@
+import { createClient } from '@supabase/supabase-js';
+import type { ShopifyStore } from '@/lib/shopify';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Connected stores are reloaded after this long, so a credential change
+// reaches every server instance
+const STORES_CACHE_SECONDS = 60;
+
+let cachedStores: { stores: ShopifyStore[]; loadedAt: number } | null = null;
+
+interface ShopifyStoreRow {
+  shop_domain: string;
+  client_id: string;
+  client_secret: string;
+  webhook_secret: string | null;
+  brand: { id: string; name: string; color: string } | { id: string; name: string; color: string }[] | null;
+}
+
+/**
+ * Reduce a store address to its domain, e.g.
+ * "https://Example.myshopify.com/admin" to "example.myshopify.com"
+ */
+export function normalizeShopDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/.*$/, '');
+}
+
+/**
+ * The single store configured through SHOPIFY_* env vars, from before
+ * stores were connected per brand
+ */
+function getEnvShopifyStore(): ShopifyStore | null {
+  const domain = process.env.SHOPIFY_STORE_URL;
+  const clientId = process.env.SHOPIFY_CLIENT_ID;
+  const clientSecret = process.env.SHOPIFY_CLIENT_SECRET;
+
+  if (!domain || !clientId || !clientSecret) return null;
+
+  return {
+    domain: normalizeShopDomain(domain),
+    clientId,
+    clientSecret,
+    webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET || null,
+    brand: null,
+  };
+}
+
+/**
+ * Load connected stores with the service role; only admins can read their
+ * credentials otherwise
+ */
+async function loadConnectedStores(): Promise<ShopifyStore[]> {
+  if (cachedStores && Date.now() - cachedStores.loadedAt < STORES_CACHE_SECONDS * 1000) {
+    return cachedStores.stores;
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    return [];
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+  const { data, error } = await supabase
+    .from('shopify_stores')
+    .select('shop_domain, client_id, client_secret, webhook_secret, brand:brands(id, name, color)')
+    .order('created_at');
+
+  if (error) {
+    console.error('Load Shopify stores error:', error);
+    return cachedStores?.stores || [];
+  }
+
+  const stores = ((data || []) as ShopifyStoreRow[]).map((row) => ({
+    domain: row.shop_domain,
+    clientId: row.client_id,
+    clientSecret: row.client_secret,
+    webhookSecret: row.webhook_secret,
+    brand: Array.isArray(row.brand) ? row.brand[0] || null : row.brand,
+  }));
+
+  cachedStores = { stores, loadedAt: Date.now() };
+  return stores;
+}
+
+/**
+ * Forget the loaded stores after they're changed in settings
+ */
+export function clearShopifyStoreCache(): void {
+  cachedStores = null;
+}
+
+/**
+ * Every store lookups can use: the stores connected to brands, or the env
+ * var store while none are connected
+ */
+export async function getShopifyStores(): Promise<ShopifyStore[]> {
+  const stores = await loadConnectedStores();
+  if (stores.length > 0) return stores;
+
+  const envStore = getEnvShopifyStore();
+  return envStore ? [envStore] : [];
+}
+
+/**
+ * The stores to look in for a ticket: its brand's store, or every store
+ * when the brand hasn't connected one
+ */
+export async function getShopifyStoresForBrand(
+  brandId: string | null | undefined
+): Promise<ShopifyStore[]> {
+  const stores = await getShopifyStores();
+  const brandStore = brandId ? stores.find((store) => store.brand?.id === brandId) : null;
+
+  return brandStore ? [brandStore] : stores;
+}
+
+/**
+ * Find a store by its domain. No domain means the env var store, for
+ * records saved before stores were connected per brand.
+ */
+export async function getShopifyStoreByDomain(
+  domain: string | null | undefined
+): Promise<ShopifyStore | null> {
+  const envStore = getEnvShopifyStore();
+  if (!domain) return envStore;
+
+  const normalized = normalizeShopDomain(domain);
+  const stores = await loadConnectedStores();
+
+  return (
+    stores.find((store) => store.domain === normalized) ||
+    (envStore?.domain === normalized ? envStore : null)
+  );
+}
@@ -0,0 +1,509 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  getCustomerOrders,
+  getOrder,
+  type ShopifyCustomer,
+  type ShopifyOrder,
+  type ShopifyOrderCustomer,
+  type ShopifyStore,
+} from '@/lib/shopify';
+import { getShopifyStoresForBrand } from '@/lib/shopify-stores';
+import { getCachedIntegrationData, invalidateIntegrationCache } from '@/lib/integration-cache';
+
+// Same number of orders the live lookup returns
+const CACHED_ORDER_LIMIT = 10;
+
+// An order and the store it was placed in
+export type StoreOrder = ShopifyOrder & { shopDomain: string };
+
+interface LocalCustomer {
+  id: string;
+  email: string;
+  full_name: string | null;
+  shopify_customer_id: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+}
+
+const LOCAL_CUSTOMER_COLUMNS = 'id, email, full_name, shopify_customer_id, city, state, country';
+
+interface ShopifyAccount {
+  shopify_customer_id: string | null;
+  order_count: number;
+  total_spent: number | string;
+  synced_at: string | null;
+}
+
+// Integration cache entries are per store
+function getCacheKey(store: ShopifyStore, email: string): string {
+  return `${store.domain}:${email}`;
+}
+
+/**
+ * Check the HMAC on a Shopify webhook request. Shopify signs the raw body
+ * with the webhook secret (the app's client secret for webhooks an app
+ * subscribes to) and sends it base64 encoded.
+ */
+export function verifyShopifyWebhook(
+  payload: string,
+  hmacHeader: string | null,
+  secret: string
+): boolean {
+  if (!hmacHeader) return false;
+
+  const expected = createHmac('sha256', secret).update(payload, 'utf8').digest();
+  const received = Buffer.from(hmacHeader, 'base64');
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Escape LIKE wildcards so an underscore in an address matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+async function findLocalCustomer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  shopifyCustomerId: number | null,
+  email: string | null | undefined
+): Promise<LocalCustomer | null> {
+  // Shopify customer IDs are unique across stores
+  if (shopifyCustomerId) {
+    const { data } = await supabase
+      .from('customers')
+      .select(`${LOCAL_CUSTOMER_COLUMNS}, customer_shopify_accounts!inner(shopify_customer_id)`)
+      .eq('customer_shopify_accounts.shopify_customer_id', String(shopifyCustomerId))
+      .limit(1);
+
+    if (data?.[0]) return data[0] as LocalCustomer;
+  }
+
+  if (!email) return null;
+
+  const { data } = await supabase
+    .from('customers')
+    .select(LOCAL_CUSTOMER_COLUMNS)
+    .ilike('email', escapeLikePattern(email))
+    .limit(1);
+
+  return (data?.[0] as LocalCustomer) || null;
+}
+
+/**
+ * Record a customer's account in one store and add up their order count
+ * and lifetime value across stores
+ */
+async function updateShopifyAccount(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  customerId: string,
+  account: Record<string, unknown>
+): Promise<{ order_count: number; lifetime_value: number } | null> {
+  const { error } = await supabase
+    .from('customer_shopify_accounts')
+    .upsert(
+      { customer_id: customerId, shop_domain: store.domain, ...account },
+      { onConflict: 'customer_id,shop_domain' }
+    );
+
+  if (error) {
+    console.error('Update Shopify account error:', error);
+    return null;
+  }
+
+  const { data: accounts } = await supabase
+    .from('customer_shopify_accounts')
+    .select('order_count, total_spent')
+    .eq('customer_id', customerId);
+
+  return ((accounts || []) as Pick<ShopifyAccount, 'order_count' | 'total_spent'>[]).reduce(
+    (totals, row) => ({
+      order_count: totals.order_count + (row.order_count || 0),
+      lifetime_value: totals.lifetime_value + (Number(row.total_spent) || 0),
+    }),
+    { order_count: 0, lifetime_value: 0 }
+  );
+}
+
+/**
+ * Copy a Shopify customer's stats and location onto the matching customer.
+ * Order payloads only carry some of the fields, so missing ones are left
+ * as they are. Shopify customers who have never contacted support are not
+ * added. Returns the matched customer's ID.
+ */
+export async function updateCustomerFromShopify(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  shopifyCustomer: ShopifyCustomer | ShopifyOrderCustomer,
+  options: { fallbackEmail?: string | null; syncedAt?: string } = {}
+): Promise<string | null> {
+  const customer = await findLocalCustomer(
+    supabase,
+    shopifyCustomer.id,
+    shopifyCustomer.email || options.fallbackEmail
+  );
+  if (!customer) return null;
+
+  const account: Record<string, unknown> = { shopify_customer_id: String(shopifyCustomer.id) };
+  if (shopifyCustomer.orders_count !== undefined) {
+    account.order_count = shopifyCustomer.orders_count;
+  }
+  if (shopifyCustomer.total_spent !== undefined) {
+    account.total_spent = parseFloat(shopifyCustomer.total_spent) || 0;
+  }
+  if (options.syncedAt) {
+    account.synced_at = options.syncedAt;
+  }
+
+  const totals = await updateShopifyAccount(supabase, store, customer.id, account);
+
+  const update: Record<string, unknown> = { ...totals };
+
+  // The customer list links to one Shopify account; keep the first one found
+  if (!customer.shopify_customer_id) {
+    update.shopify_customer_id = String(shopifyCustomer.id);
+  }
+  if (shopifyCustomer.default_address !== undefined) {
+    const address = shopifyCustomer.default_address;
+    update.city = address?.city || null;
+    update.state = address?.province_code || address?.province || null;
+    update.country = address?.country || null;
+  }
+  if (!customer.full_name) {
+    const name = [shopifyCustomer.first_name, shopifyCustomer.last_name].filter(Boolean).join(' ');
+    if (name) update.full_name = name;
+  }
+
+  const { error } = await supabase.from('customers').update(update).eq('id', customer.id);
+  if (error) {
+    console.error('Update customer from Shopify error:', error);
+  }
+
+  return customer.id;
+}
+
+/**
+ * Store an order in the cache. A webhook delivered late with an older copy
+ * of the order than the one stored is ignored.
+ */
+export async function cacheShopifyOrder(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  order: ShopifyOrder,
+  customerId: string | null
+): Promise<void> {
+  if (order.updated_at) {
+    const { data: existing } = await supabase
+      .from('shopify_orders')
+      .select('shopify_updated_at')
+      .eq('id', order.id)
+      .maybeSingle();
+
+    if (
+      existing?.shopify_updated_at &&
+      new Date(existing.shopify_updated_at) > new Date(order.updated_at)
+    ) {
+      return;
+    }
+  }
+
+  const email = order.email || order.customer?.email;
+
+  const { error } = await supabase.from('shopify_orders').upsert({
+    id: order.id,
+    customer_id: customerId,
+    shop_domain: store.domain,
+    shopify_customer_id: order.customer ? String(order.customer.id) : null,
+    email: email ? email.toLowerCase() : null,
+    order_data: order,
+    shopify_created_at: order.created_at,
+    shopify_updated_at: order.updated_at || null,
+  });
+
+  if (error) {
+    console.error('Cache Shopify order error:', error);
+  }
+}
+
+/**
+ * The order's status as copied onto tickets it is linked to
+ */
+export function getLinkedOrderStatus(order: ShopifyOrder) {
+  const fulfillment = order.fulfillments?.find((f) => f.tracking_number || f.tracking_url);
+
+  return {
+    financial_status: order.financial_status || null,
+    fulfillment_status: order.fulfillment_status || 'unfulfilled',
+    cancelled: !!order.cancelled_at,
+    tracking_number: fulfillment?.tracking_number || null,
+    tracking_url: fulfillment?.tracking_url || null,
+  };
+}
+
+/**
+ * Update the order's customer and cache the order against them. Their
+ * cached Shopify lookup is refreshed on next use, and tickets linked to the
+ * order pick up its new status.
+ */
+export async function syncShopifyOrder(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  order: ShopifyOrder
+): Promise<void> {
+  const email = order.email || order.customer?.email;
+  const customerId = order.customer
+    ? await updateCustomerFromShopify(supabase, store, order.customer, { fallbackEmail: order.email })
+    : (await findLocalCustomer(supabase, null, email))?.id || null;
+
+  await cacheShopifyOrder(supabase, store, order, customerId);
+
+  const { error } = await supabase
+    .from('ticket_orders')
+    .update(getLinkedOrderStatus(order))
+    .eq('shopify_order_id', order.id);
+
+  if (error) {
+    console.error('Update linked order status error:', error);
+  }
+
+  if (email) {
+    await invalidateIntegrationCache(supabase, 'shopify', getCacheKey(store, email));
+  }
+}
+
+/**
+ * Apply one webhook from a store. Returns false for topics we don't handle.
+ */
+export async function handleShopifyWebhook(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  topic: string,
+  payload: unknown
+): Promise<boolean> {
+  switch (topic) {
+    case 'orders/create':
+    case 'orders/updated':
+    case 'orders/fulfilled':
+    case 'orders/cancelled':
+      await syncShopifyOrder(supabase, store, payload as ShopifyOrder);
+      return true;
+    case 'refunds/create': {
+      // The refund payload doesn't include the order's new totals and
+      // status, so load the order again
+      const refund = payload as { order_id: number };
+      const order = await getOrder(store, refund.order_id);
+      await syncShopifyOrder(supabase, store, order);
+      return true;
+    }
+    case 'customers/update': {
+      const customer = payload as ShopifyCustomer;
+      await updateCustomerFromShopify(supabase, store, customer);
+      if (customer.email) {
+        await invalidateIntegrationCache(supabase, 'shopify', getCacheKey(store, customer.email));
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+// Shape the cached customer like a Shopify customer for the order history
+function toShopifyCustomer(customer: LocalCustomer, account: ShopifyAccount): ShopifyCustomer {
+  const hasAddress = !!(customer.city || customer.state || customer.country);
+
+  return {
+    id: Number(account.shopify_customer_id),
+    email: customer.email,
+    first_name: customer.full_name,
+    last_name: null,
+    orders_count: account.order_count || 0,
+    total_spent: (Number(account.total_spent) || 0).toFixed(2),
+    default_address: hasAddress
+      ? {
+          id: 0,
+          address1: null,
+          address2: null,
+          city: customer.city,
+          province: customer.state,
+          province_code: customer.state,
+          zip: null,
+          country: customer.country,
+          country_code: null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Record a customer's full order list from a store in the order cache
+ */
+async function storeCustomerOrders(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  local: LocalCustomer,
+  email: string,
+  data: { customer: ShopifyCustomer | null; orders: ShopifyOrder[] }
+): Promise<void> {
+  // Someone without an account in the store is marked synced too; their
+  // first order arrives by webhook
+  const syncedAt = new Date().toISOString();
+  if (data.customer) {
+    await updateCustomerFromShopify(supabase, store, data.customer, { fallbackEmail: email, syncedAt });
+  } else {
+    await updateShopifyAccount(supabase, store, local.id, { synced_at: syncedAt });
+  }
+
+  for (const order of data.orders) {
+    await cacheShopifyOrder(supabase, store, order, local.id);
+  }
+}
+
+/**
+ * A customer's profile and recent orders in one store, from the order
+ * cache once they've been synced and the store's webhooks keep it fresh,
+ * otherwise through the integration cache
+ */
+async function getStoreCustomerOrders(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  store: ShopifyStore,
+  local: LocalCustomer | null,
+  email: string
+): Promise<{
+  customer: ShopifyCustomer | null;
+  orders: ShopifyOrder[];
+  staleAsOf?: string | null;
+  error?: string;
+}> {
+  if (local && store.webhookSecret) {
+    const { data: account } = await supabase
+      .from('customer_shopify_accounts')
+      .select('shopify_customer_id, order_count, total_spent, synced_at')
+      .eq('customer_id', local.id)
+      .eq('shop_domain', store.domain)
+      .maybeSingle();
+
+    if (account?.synced_at) {
+      const { data: cached, error } = await supabase
+        .from('shopify_orders')
+        .select('order_data')
+        .eq('customer_id', local.id)
+        .eq('shop_domain', store.domain)
+        .order('shopify_created_at', { ascending: false })
+        .limit(CACHED_ORDER_LIMIT);
+
+      if (!error) {
+        return {
+          customer: account.shopify_customer_id ? toShopifyCustomer(local, account as ShopifyAccount) : null,
+          orders: (cached || []).map((row: { order_data: ShopifyOrder }) => row.order_data),
+        };
+      }
+
+      console.error('Fetch cached Shopify orders error:', error);
+    }
+  }
+
+  const result = await getCachedIntegrationData(
+    supabase,
+    'shopify',
+    getCacheKey(store, email),
+    () => getCustomerOrders(store, email),
+    {
+      // Each store has its own circuit breaker
+      scope: store.domain,
+      onRefresh: async (data) => {
+        if (local) await storeCustomerOrders(supabase, store, local, email, data);
+      },
+    }
+  );
+
+  if (!result.data) {
+    return { customer: null, orders: [], error: result.error };
+  }
+
+  return {
+    customer: result.data.customer,
+    orders: result.data.orders,
+    staleAsOf: result.staleAsOf,
+  };
+}
+
+/**
+ * A customer's Shopify profile and recent orders, most recent first, from
+ * the brand's store or from every store when the brand hasn't connected
+ * one. Profiles from several stores are combined, with their order counts
+ * and totals added up. While a store is down its last known orders are
+ * returned with `staleAsOf` set; an error is only returned when no store
+ * could be read.
+ */
+export async function getCustomerOrdersWithCache(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  email: string,
+  brandId?: string | null
+): Promise<{
+  customer: (ShopifyCustomer & { shopDomain: string }) | null;
+  orders: StoreOrder[];
+  staleAsOf?: string | null;
+  error?: string;
+}> {
+  const stores = await getShopifyStoresForBrand(brandId);
+  if (stores.length === 0) {
+    return { customer: null, orders: [], error: 'Shopify integration not configured' };
+  }
+
+  const local = await findLocalCustomer(supabase, null, email);
+  const results = await Promise.all(
+    stores.map((store) => getStoreCustomerOrders(supabase, store, local, email))
+  );
+
+  const succeeded = results
+    .map((result, index) => ({ ...result, store: stores[index] }))
+    .filter((result) => {
+      if (result.error) {
+        console.error(`Shopify orders from ${result.store.domain} error:`, result.error);
+        return false;
+      }
+      return true;
+    });
+
+  if (succeeded.length === 0) {
+    return { customer: null, orders: [], error: results[0].error };
+  }
+
+  const profiles = succeeded.flatMap((result) =>
+    result.customer ? [{ ...result.customer, shopDomain: result.store.domain }] : []
+  );
+  const customer =
+    profiles.length > 0
+      ? {
+          ...profiles[0],
+          orders_count: profiles.reduce((sum, profile) => sum + profile.orders_count, 0),
+          total_spent: profiles
+            .reduce((sum, profile) => sum + (Number(profile.total_spent) || 0), 0)
+            .toFixed(2),
+        }
+      : null;
+
+  const orders = succeeded
+    .flatMap((result) => result.orders.map((order) => ({ ...order, shopDomain: result.store.domain })))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  // Oldest point any of the stores is stale from
+  const staleAsOf =
+    succeeded
+      .map((result) => result.staleAsOf)
+      .filter((value): value is string => !!value)
+      .sort()[0] || null;
+
+  return { customer, orders, staleAsOf };
+}
@@ -1,43 +1,92 @@
 /**
  * Shopify API Service
  * Uses client credentials grant for authentication (new Dev Dashboard method)
+ * Every call is made against one store; see src/lib/shopify-stores.ts
  */
 
-const SHOPIFY_CLIENT_ID = process.env.SHOPIFY_CLIENT_ID!;
-const SHOPIFY_CLIENT_SECRET = process.env.SHOPIFY_CLIENT_SECRET!;
-const SHOPIFY_STORE_URL = process.env.SHOPIFY_STORE_URL!;
 const API_VERSION = '2024-01';
 
-// Token cache
-let cachedToken: string | null = null;
-let tokenExpiresAt: number | null = null;
+export interface ShopifyStore {
+  domain: string; // e.g. "example.myshopify.com"
+  clientId: string;
+  clientSecret: string;
+  webhookSecret: string | null; // Set when webhooks keep the order cache fresh
+  brand: { id: string; name: string; color: string } | null; // Null for the env var store
+}
+
+// Token cache, per store and app
+const cachedTokens = new Map<string, { token: string; expiresAt: number }>();
 
 export interface ShopifyOrder {
   id: number;
   order_number: number;
   name: string; // e.g., "#1001"
   created_at: string;
+  updated_at?: string;
   cancelled_at: string | null;
   financial_status: string;
   fulfillment_status: string | null;
   total_price: string;
   currency: string;
   order_status_url: string;
+  email: string | null;
+  customer?: ShopifyOrderCustomer | null;
+  shipping_address: ShopifyShippingAddress | null;
   line_items: ShopifyLineItem[];
   fulfillments: ShopifyFulfillment[];
+  refunds?: ShopifyRefund[];
 }
 
+// Order payloads carry a partial copy of the customer
+export type ShopifyOrderCustomer = Pick<ShopifyCustomer, 'id'> &
+  Partial<Omit<ShopifyCustomer, 'id' | 'email'>> & { email: string | null };
+
 export interface ShopifyLineItem {
   id: number;
+  variant_id: number | null;
   title: string;
   quantity: number;
+  fulfillable_quantity: number;
   price: string;
   sku: string | null;
   variant_title: string | null;
 }
 
+export interface ShopifyShippingAddress {
+  first_name: string | null;
+  last_name: string | null;
+  company: string | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  zip: string | null;
+  country: string | null;
+  phone: string | null;
+}
+
+export interface ShopifyTransaction {
+  id: number;
+  parent_id: number | null;
+  kind: string;
+  gateway: string;
+  amount: string;
+  currency: string;
+}
+
+export interface ShopifyRefund {
+  id: number;
+  created_at: string;
+  note: string | null;
+  refund_line_items: { line_item_id: number; quantity: number }[];
+  transactions: ShopifyTransaction[];
+}
+
+export type ShopifyCancelReason = 'customer' | 'inventory' | 'fraud' | 'declined' | 'other';
+
 export interface ShopifyFulfillment {
   id: number;
+  created_at: string;
   status: string;
   shipment_status: string | null; // 'in_transit', 'delivered', 'out_for_delivery', etc.
   tracking_number: string | null;
@@ -70,21 +119,24 @@ export interface ShopifyCustomer {
 /**
  * Get the Shopify admin URL for a customer
  */
-export function getCustomerAdminUrl(customerId: number): string {
-  return `https://${SHOPIFY_STORE_URL}/admin/customers/${customerId}`;
+export function getCustomerAdminUrl(shopDomain: string, customerId: number): string {
+  return `https://${shopDomain}/admin/customers/${customerId}`;
 }
 
 /**
  * Get an access token using client credentials grant
- * Caches the token and refreshes when expired
+ * Caches the token per store and refreshes when expired
  */
-async function getAccessToken(): Promise<string> {
+async function getAccessToken(store: ShopifyStore): Promise<string> {
+  const cacheKey = `${store.domain}:${store.clientId}`;
+  const cached = cachedTokens.get(cacheKey);
+
   // Check if we have a valid cached token (with 5 min buffer)
-  if (cachedToken && tokenExpiresAt && Date.now() < tokenExpiresAt - 5 * 60 * 1000) {
-    return cachedToken;
+  if (cached && Date.now() < cached.expiresAt - 5 * 60 * 1000) {
+    return cached.token;
   }
 
-  const tokenUrl = `https://${SHOPIFY_STORE_URL}/admin/oauth/access_token`;
+  const tokenUrl = `https://${store.domain}/admin/oauth/access_token`;
 
   const response = await fetch(tokenUrl, {
     method: 'POST',
@@ -92,8 +144,8 @@ async function getAccessToken(): Promise<string> {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      client_id: SHOPIFY_CLIENT_ID,
-      client_secret: SHOPIFY_CLIENT_SECRET,
+      client_id: store.clientId,
+      client_secret: store.clientSecret,
       grant_type: 'client_credentials',
     }),
   });
@@ -107,9 +159,11 @@ async function getAccessToken(): Promise<string> {
   const data = await response.json();
 
   // Cache the token - expires in 24 hours but we'll refresh earlier
-  cachedToken = data.access_token;
   // Set expiry to 23 hours from now (1 hour buffer)
-  tokenExpiresAt = Date.now() + 23 * 60 * 60 * 1000;
+  cachedTokens.set(cacheKey, {
+    token: data.access_token,
+    expiresAt: Date.now() + 23 * 60 * 60 * 1000,
+  });
 
   return data.access_token as string;
 }
@@ -117,9 +171,13 @@ async function getAccessToken(): Promise<string> {
 /**
  * Make an authenticated request to the Shopify Admin API
  */
-async function shopifyFetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = await getAccessToken();
-  const url = `https://${SHOPIFY_STORE_URL}/admin/api/${API_VERSION}${endpoint}`;
+async function shopifyFetch<T>(
+  store: ShopifyStore,
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const token = await getAccessToken(store);
+  const url = `https://${store.domain}/admin/api/${API_VERSION}${endpoint}`;
 
   const response = await fetch(url, {
     ...options,
@@ -140,61 +198,60 @@ async function shopifyFetch<T>(endpoint: string, options: RequestInit = {}): Pro
 }
 
 /**
- * Search for a customer by email
+ * Check a store's credentials by loading the shop's name
  */
-export async function findCustomerByEmail(email: string): Promise<ShopifyCustomer | null> {
-  try {
-    const data = await shopifyFetch<{ customers: ShopifyCustomer[] }>(
-      `/customers/search.json?query=email:${encodeURIComponent(email)}`
-    );
+export async function getShopName(store: ShopifyStore): Promise<string> {
+  const data = await shopifyFetch<{ shop: { name: string } }>(store, '/shop.json');
+  return data.shop.name;
+}
 
-    if (data.customers && data.customers.length > 0) {
-      return data.customers[0];
-    }
+/**
+ * Search for a customer by email. Throws if Shopify can't be reached, so an
+ * outage isn't mistaken for a customer with no account.
+ */
+export async function findCustomerByEmail(
+  store: ShopifyStore,
+  email: string
+): Promise<ShopifyCustomer | null> {
+  const data = await shopifyFetch<{ customers: ShopifyCustomer[] }>(
+    store,
+    `/customers/search.json?query=email:${encodeURIComponent(email)}`
+  );
 
-    return null;
-  } catch (error) {
-    console.error('Error finding Shopify customer:', error);
-    return null;
+  if (data.customers && data.customers.length > 0) {
+    return data.customers[0];
   }
+
+  return null;
 }
 
 /**
  * Get orders for a customer by their Shopify customer ID
  */
-export async function getOrdersByCustomerId(customerId: number): Promise<ShopifyOrder[]> {
-  try {
-    const data = await shopifyFetch<{ orders: ShopifyOrder[] }>(
-      `/customers/${customerId}/orders.json?status=any&limit=10`
-    );
+export async function getOrdersByCustomerId(
+  store: ShopifyStore,
+  customerId: number
+): Promise<ShopifyOrder[]> {
+  const data = await shopifyFetch<{ orders: ShopifyOrder[] }>(
+    store,
+    `/customers/${customerId}/orders.json?status=any&limit=10`
+  );
 
-    return data.orders || [];
-  } catch (error) {
-    console.error('Error fetching Shopify orders:', error);
-    return [];
-  }
+  return data.orders || [];
 }
 
 /**
  * Get orders by customer email - main function to use
  * Returns orders sorted by date (most recent first)
  */
-export async function getCustomerOrders(email: string): Promise<{
+export async function getCustomerOrders(store: ShopifyStore, email: string): Promise<{
   customer: ShopifyCustomer | null;
   orders: ShopifyOrder[];
   error?: string;
 }> {
-  if (!SHOPIFY_CLIENT_ID || !SHOPIFY_CLIENT_SECRET || !SHOPIFY_STORE_URL) {
-    return {
-      customer: null,
-      orders: [],
-      error: 'Shopify integration not configured',
-    };
-  }
-
   try {
     // First find the customer by email
-    const customer = await findCustomerByEmail(email);
+    const customer = await findCustomerByEmail(store, email);
 
     if (!customer) {
       return {
@@ -204,7 +261,7 @@ export async function getCustomerOrders(email: string): Promise<{
     }
 
     // Then get their orders
-    const orders = await getOrdersByCustomerId(customer.id);
+    const orders = await getOrdersByCustomerId(store, customer.id);
 
     // Sort by created_at descending (most recent first)
     orders.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
@@ -223,9 +280,168 @@ export async function getCustomerOrders(email: string): Promise<{
   }
 }
 
+/**
+ * Find an order by its name, e.g. "#1234"
+ */
+export async function findOrderByName(store: ShopifyStore, name: string): Promise<ShopifyOrder | null> {
+  const data = await shopifyFetch<{ orders: ShopifyOrder[] }>(
+    store,
+    `/orders.json?status=any&name=${encodeURIComponent(name)}`
+  );
+
+  return data.orders?.[0] || null;
+}
+
 /**
  * Get the Shopify admin URL for an order
  */
-export function getOrderAdminUrl(orderId: number): string {
-  return `https://${SHOPIFY_STORE_URL}/admin/orders/${orderId}`;
+export function getOrderAdminUrl(shopDomain: string, orderId: number): string {
+  return `https://${shopDomain}/admin/orders/${orderId}`;
+}
+
+/**
+ * Get a single order by ID
+ */
+export async function getOrder(store: ShopifyStore, orderId: number): Promise<ShopifyOrder> {
+  const data = await shopifyFetch<{ order: ShopifyOrder }>(store, `/orders/${orderId}.json`);
+  return data.order;
+}
+
+/**
+ * How many of each line item haven't been refunded yet
+ */
+export function getRefundableQuantities(order: ShopifyOrder): Map<number, number> {
+  const refunded = new Map<number, number>();
+  for (const refund of order.refunds || []) {
+    for (const item of refund.refund_line_items) {
+      refunded.set(item.line_item_id, (refunded.get(item.line_item_id) || 0) + item.quantity);
+    }
+  }
+
+  return new Map(
+    order.line_items.map((item) => [item.id, Math.max(0, item.quantity - (refunded.get(item.id) || 0))])
+  );
+}
+
+/**
+ * Refund line items and optionally shipping. Shopify works out the amount
+ * and which payment to refund it to, then we submit exactly that.
+ */
+export async function refundOrder(
+  store: ShopifyStore,
+  orderId: number,
+  options: {
+    lineItems: { lineItemId: number; quantity: number }[];
+    refundShipping: boolean;
+    notifyCustomer: boolean;
+    note?: string;
+  }
+): Promise<ShopifyRefund> {
+  const refundLineItems = options.lineItems.map((item) => ({
+    line_item_id: item.lineItemId,
+    quantity: item.quantity,
+    restock_type: 'no_restock',
+  }));
+  const shipping = { full_refund: options.refundShipping };
+
+  const calculated = await shopifyFetch<{ refund: { transactions: ShopifyTransaction[] } }>(
+    store,
+    `/orders/${orderId}/refunds/calculate.json`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ refund: { shipping, refund_line_items: refundLineItems } }),
+    }
+  );
+
+  const data = await shopifyFetch<{ refund: ShopifyRefund }>(store, `/orders/${orderId}/refunds.json`, {
+    method: 'POST',
+    body: JSON.stringify({
+      refund: {
+        notify: options.notifyCustomer,
+        note: options.note,
+        shipping,
+        refund_line_items: refundLineItems,
+        transactions: calculated.refund.transactions.map((transaction) => ({
+          parent_id: transaction.parent_id,
+          amount: transaction.amount,
+          kind: 'refund',
+          gateway: transaction.gateway,
+        })),
+      },
+    }),
+  });
+
+  return data.refund;
+}
+
+/**
+ * Cancel an order. Doesn't refund it; that's a separate refund.
+ */
+export async function cancelOrder(
+  store: ShopifyStore,
+  orderId: number,
+  options: { reason: ShopifyCancelReason; notifyCustomer: boolean }
+): Promise<ShopifyOrder> {
+  const data = await shopifyFetch<{ order: ShopifyOrder }>(store, `/orders/${orderId}/cancel.json`, {
+    method: 'POST',
+    body: JSON.stringify({ reason: options.reason, email: options.notifyCustomer, restock: true }),
+  });
+
+  return data.order;
+}
+
+/**
+ * Create a free replacement for items from an order, shipped to the same
+ * address. Built as a draft order with a 100% discount and completed
+ * straight away, so no payment is taken.
+ */
+export async function createReplacementOrder(
+  store: ShopifyStore,
+  order: ShopifyOrder,
+  lineItems: { variantId: number; quantity: number }[],
+  note: string
+): Promise<ShopifyOrder> {
+  const draft = await shopifyFetch<{ draft_order: { id: number } }>(store, '/draft_orders.json', {
+    method: 'POST',
+    body: JSON.stringify({
+      draft_order: {
+        line_items: lineItems.map((item) => ({ variant_id: item.variantId, quantity: item.quantity })),
+        customer: order.customer ? { id: order.customer.id } : undefined,
+        email: order.email || undefined,
+        shipping_address: order.shipping_address || undefined,
+        applied_discount: {
+          title: 'Replacement',
+          description: `Replacement for ${order.name}`,
+          value_type: 'percentage',
+          value: '100.0',
+        },
+        note,
+        tags: 'replacement',
+      },
+    }),
+  });
+
+  const completed = await shopifyFetch<{ draft_order: { order_id: number } }>(
+    store,
+    `/draft_orders/${draft.draft_order.id}/complete.json?payment_pending=false`,
+    { method: 'PUT' }
+  );
+
+  return getOrder(store, completed.draft_order.order_id);
+}
+
+/**
+ * Change where an unfulfilled order ships to
+ */
+export async function updateOrderShippingAddress(
+  store: ShopifyStore,
+  orderId: number,
+  address: Partial<ShopifyShippingAddress>
+): Promise<ShopifyOrder> {
+  const data = await shopifyFetch<{ order: ShopifyOrder }>(store, `/orders/${orderId}.json`, {
+    method: 'PUT',
+    body: JSON.stringify({ order: { id: orderId, shipping_address: address } }),
+  });
+
+  return data.order;
 }
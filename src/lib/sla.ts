@@ -0,0 +1,167 @@
+import { addBusinessMinutes } from '@/lib/business-hours';
+import type { BusinessCalendar, SlaMetric, SlaPolicy, TicketPriority } from '@/lib/supabase/types';
+
+export type SlaEvent = 'created' | 'customer_reply' | 'agent_reply' | 'priority_changed';
+
+// Tickets due within this window show up in the "Breaching soon" view
+export const SLA_WARNING_WINDOW_MINUTES = 60;
+
+/**
+ * Tickets with an SLA deadline at or before this instant count as breaching soon
+ */
+export function getSlaWarningCutoff(): Date {
+  return new Date(Date.now() + SLA_WARNING_WINDOW_MINUTES * 60 * 1000);
+}
+
+export const slaMetricLabels: Record<SlaMetric, string> = {
+  first_response: 'First response',
+  next_response: 'Next response',
+  resolution: 'Resolution',
+};
+
+type PolicyWithCalendar = SlaPolicy & { calendar: BusinessCalendar | null };
+
+/**
+ * Find the SLA policy for a ticket: a brand-specific policy wins over the
+ * default policy for the same priority
+ */
+export async function findSlaPolicy(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  priority: TicketPriority,
+  brandId: string | null
+): Promise<PolicyWithCalendar | null> {
+  const { data: policies } = await supabase
+    .from('sla_policies')
+    .select('*, calendar:business_calendars(*)')
+    .eq('priority', priority)
+    .eq('is_active', true);
+
+  if (!policies || policies.length === 0) return null;
+
+  const typed = policies as PolicyWithCalendar[];
+  return (
+    (brandId && typed.find((p) => p.brand_id === brandId)) ||
+    typed.find((p) => p.brand_id === null) ||
+    null
+  );
+}
+
+/**
+ * Recompute a ticket's SLA due timestamps after something happened to it.
+ *
+ * - created / priority_changed: pick the policy and set first response and
+ *   resolution deadlines from the ticket's creation time
+ * - customer_reply: once the first response is done, start the next-response clock
+ * - agent_reply: stop the next-response clock
+ *
+ * Failures are logged and swallowed so they never block the caller.
+ */
+export async function refreshTicketSla(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string,
+  event: SlaEvent
+): Promise<void> {
+  try {
+    if (event === 'agent_reply') {
+      await supabase
+        .from('tickets')
+        .update({ next_response_due_at: null })
+        .eq('id', ticketId)
+        .not('next_response_due_at', 'is', null);
+      return;
+    }
+
+    const { data: ticket } = await supabase
+      .from('tickets')
+      .select('id, priority, brand_id, created_at, first_response_at')
+      .eq('id', ticketId)
+      .single();
+
+    if (!ticket) return;
+
+    const policy = await findSlaPolicy(supabase, ticket.priority, ticket.brand_id);
+
+    if (event === 'customer_reply') {
+      // Before the first response, the first-response clock is still running
+      if (!policy?.next_response_minutes || !ticket.first_response_at) return;
+
+      const dueAt = addBusinessMinutes(new Date(), policy.next_response_minutes, policy.calendar);
+      await supabase
+        .from('tickets')
+        .update({ next_response_due_at: dueAt.toISOString() })
+        .eq('id', ticketId);
+      return;
+    }
+
+    if (!policy) {
+      await supabase
+        .from('tickets')
+        .update({
+          sla_policy_id: null,
+          first_response_due_at: null,
+          resolution_due_at: null,
+        })
+        .eq('id', ticketId);
+      return;
+    }
+
+    const createdAt = new Date(ticket.created_at);
+    await supabase
+      .from('tickets')
+      .update({
+        sla_policy_id: policy.id,
+        first_response_due_at: addBusinessMinutes(
+          createdAt,
+          policy.first_response_minutes,
+          policy.calendar
+        ).toISOString(),
+        resolution_due_at: policy.resolution_minutes
+          ? addBusinessMinutes(createdAt, policy.resolution_minutes, policy.calendar).toISOString()
+          : null,
+      })
+      .eq('id', ticketId);
+  } catch (err) {
+    console.error('Refresh ticket SLA error:', err);
+  }
+}
+
+export interface SlaDeadline {
+  metric: SlaMetric;
+  dueAt: string;
+  metAt: string | null;
+}
+
+/**
+ * List a ticket's deadlines in the order agents care about them
+ */
+export function getSlaDeadlines(ticket: {
+  first_response_at: string | null;
+  resolved_at: string | null;
+  first_response_due_at: string | null;
+  next_response_due_at: string | null;
+  resolution_due_at: string | null;
+}): SlaDeadline[] {
+  const deadlines: SlaDeadline[] = [];
+
+  if (ticket.first_response_due_at) {
+    deadlines.push({
+      metric: 'first_response',
+      dueAt: ticket.first_response_due_at,
+      metAt: ticket.first_response_at,
+    });
+  }
+  if (ticket.next_response_due_at) {
+    deadlines.push({ metric: 'next_response', dueAt: ticket.next_response_due_at, metAt: null });
+  }
+  if (ticket.resolution_due_at) {
+    deadlines.push({
+      metric: 'resolution',
+      dueAt: ticket.resolution_due_at,
+      metAt: ticket.resolved_at,
+    });
+  }
+
+  return deadlines;
+}
@@ -0,0 +1,86 @@
+import type { SnoozeInput } from '@/lib/validations';
+
+export type SnoozeDuration = '1-day' | '3-days' | '1-week';
+
+export const snoozeDurations: { value: SnoozeDuration; label: string }[] = [
+  { value: '1-day', label: '1 day' },
+  { value: '3-days', label: '3 days' },
+  { value: '1-week', label: '1 week' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getSnoozedUntil(duration: SnoozeDuration, from: Date = new Date()): Date {
+  switch (duration) {
+    case '3-days':
+      return new Date(from.getTime() + 3 * 24 * HOUR_MS);
+    case '1-week':
+      return new Date(from.getTime() + 7 * 24 * HOUR_MS);
+    case '1-day':
+    default:
+      return new Date(from.getTime() + 24 * HOUR_MS);
+  }
+}
+
+/**
+ * Ticket columns for a snooze. Returns an error when a timed snooze
+ * isn't in the future.
+ */
+export function getSnoozeUpdate(
+  input: SnoozeInput,
+  userId: string
+):
+  | {
+      update: {
+        status: 'pending';
+        snoozed_until: string | null;
+        snooze_until_reply: boolean;
+        snooze_reason: string | null;
+        snoozed_by: string;
+      };
+    }
+  | { error: string } {
+  if (input.until && new Date(input.until).getTime() <= Date.now()) {
+    return { error: 'Snooze time must be in the future' };
+  }
+
+  return {
+    update: {
+      status: 'pending',
+      snoozed_until: input.until ? new Date(input.until).toISOString() : null,
+      snooze_until_reply: input.until === null,
+      snooze_reason: input.reason || null,
+      snoozed_by: userId,
+    },
+  };
+}
+
+/**
+ * Wake a snoozed ticket early because the customer wrote in. Reopens it
+ * and notifies its owner; does nothing if the ticket wasn't snoozed.
+ */
+export async function wakeSnoozedTicket(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  ticketId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('wake_snoozed_ticket', {
+    p_ticket_id: ticketId,
+    p_trigger: 'customer_replied',
+  });
+
+  if (error) {
+    console.error('Wake snoozed ticket error:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+/**
+ * Format a datetime-local input value (the browser's own timezone)
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
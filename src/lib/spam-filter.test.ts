@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { checkForSpam, isSenderAuthenticated, type InboundSpamSignals } from '@/lib/spam-filter';
+
+const colleague = 'jane@nolimits.example';
+
+// Supabase with one allow rule for the colleague's domain and no known
+// customers, so the rate limit has nothing to count
+function mockSupabase() {
+  return {
+    from(table: string) {
+      if (table === 'email_sender_rules') {
+        return {
+          select: () => ({
+            in: async () => ({ data: [{ pattern: 'nolimits.example', list_type: 'allow' }] }),
+          }),
+        };
+      }
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: null }),
+      };
+      return query;
+    },
+  };
+}
+
+function spammyEmail(overrides: Partial<InboundSpamSignals>): InboundSpamSignals {
+  return {
+    senderEmail: colleague,
+    subject: 'Invoice',
+    body: 'Please see the attached invoice.',
+    spamScore: 9,
+    envelopeFrom: null,
+    spf: null,
+    dkim: null,
+    ...overrides,
+  };
+}
+
+describe('isSenderAuthenticated', () => {
+  it('accepts SPF when the envelope sender is on the From domain', () => {
+    expect(
+      isSenderAuthenticated({
+        senderEmail: colleague,
+        envelopeFrom: 'bounces@mail.nolimits.example',
+        spf: 'pass',
+        dkim: null,
+      })
+    ).toBe(true);
+  });
+
+  it("ignores an SPF pass for someone else's envelope sender", () => {
+    // The attacker's own domain passes SPF; only the From header is forged
+    expect(
+      isSenderAuthenticated({
+        senderEmail: colleague,
+        envelopeFrom: 'mailer@attacker.example',
+        spf: 'pass',
+        dkim: '{@attacker.example : pass}',
+      })
+    ).toBe(false);
+  });
+
+  it('ignores an SPF pass when the envelope is missing', () => {
+    expect(isSenderAuthenticated({ senderEmail: colleague, envelopeFrom: null, spf: 'pass', dkim: null })).toBe(false);
+  });
+
+  it('accepts a DKIM pass signed by the From domain', () => {
+    expect(
+      isSenderAuthenticated({
+        senderEmail: colleague,
+        envelopeFrom: 'mailer@attacker.example',
+        spf: 'softfail',
+        dkim: '{@attacker.example : pass, @nolimits.example : pass}',
+      })
+    ).toBe(true);
+  });
+
+  it('rejects a failed DKIM signature from the From domain', () => {
+    expect(
+      isSenderAuthenticated({
+        senderEmail: colleague,
+        envelopeFrom: null,
+        spf: 'none',
+        dkim: '{@nolimits.example : fail}',
+      })
+    ).toBe(false);
+  });
+
+  it('does not treat a signature from a shared suffix as the From domain', () => {
+    expect(
+      isSenderAuthenticated({ senderEmail: colleague, envelopeFrom: null, spf: null, dkim: '{@example : pass}' })
+    ).toBe(false);
+  });
+});
+
+describe('checkForSpam', () => {
+  it('lets an authenticated allowlisted sender skip the later checks', async () => {
+    const result = await checkForSpam(mockSupabase(), spammyEmail({ dkim: '{@nolimits.example : pass}' }));
+    expect(result).toEqual({ isSpam: false, reasons: [] });
+  });
+
+  it('ignores the allowlist when DKIM passed for a different domain', async () => {
+    const result = await checkForSpam(
+      mockSupabase(),
+      spammyEmail({ envelopeFrom: 'mailer@attacker.example', spf: 'pass', dkim: '{@attacker.example : pass}' })
+    );
+    expect(result.isSpam).toBe(true);
+    expect(result.reasons).toContain('Spam score 9');
+  });
+});
@@ -0,0 +1,214 @@
+import { findCustomerIdByIdentity } from '@/lib/customer-identities';
+import type { SenderListType } from '@/lib/supabase/types';
+
+/**
+ * What the spam filter knows about an inbound email. The last four
+ * come from SendGrid's Inbound Parse fields.
+ */
+export interface InboundSpamSignals {
+  senderEmail: string;
+  subject: string;
+  body: string;
+  spamScore: number | null; // SpamAssassin score (spam_score)
+  envelopeFrom: string | null; // SMTP MAIL FROM, which SPF checks (envelope)
+  spf: string | null; // e.g. "pass", "softfail", "fail" (SPF)
+  dkim: string | null; // e.g. "{@example.com : pass}" (dkim)
+}
+
+export interface SpamCheck {
+  isSpam: boolean;
+  reasons: string[];
+}
+
+type SpamFilterResult = { verdict: 'allow' } | { verdict: 'spam'; reason: string } | null;
+
+// One stage of the filter. 'allow' accepts the email without running the
+// stages after it (those before it still count); null means the stage has
+// nothing to say.
+type SpamFilter = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  email: InboundSpamSignals
+) => Promise<SpamFilterResult>;
+
+const SPAM_SCORE_THRESHOLD = 5;
+const MAX_LINKS = 15;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const RATE_LIMIT_MAX_TICKETS = 5;
+
+// Phrases from SEO pitches, phishing and scams. One on its own is common
+// enough in real mail; two or more flag the email.
+const SPAM_PHRASES = [
+  'seo services',
+  'first page of google',
+  'rank higher on google',
+  'increase your website traffic',
+  'guest post',
+  'backlinks',
+  'web design services',
+  'app development services',
+  'verify your account',
+  'account will be suspended',
+  'confirm your password',
+  'update your payment information',
+  'click here to claim',
+  'you have won',
+  'wire transfer',
+  'bitcoin',
+  'crypto investment',
+];
+
+/**
+ * The sender's address followed by its domain and each parent domain,
+ * most specific first
+ */
+export function getSenderPatterns(senderEmail: string): string[] {
+  const address = senderEmail.trim().toLowerCase();
+  const labels = address.split('@')[1]?.split('.') || [];
+  const domains = labels.slice(0, -1).map((_, i) => labels.slice(i).join('.'));
+  return [address, ...domains];
+}
+
+function getDomain(email: string | null | undefined): string | null {
+  return email?.trim().toLowerCase().split('@')[1] || null;
+}
+
+// The From domain or one of its subdomains (bounces.example.com sending for
+// example.com)
+function isAlignedDomain(domain: string, fromDomain: string): boolean {
+  return domain === fromDomain || domain.endsWith(`.${fromDomain}`);
+}
+
+/**
+ * Whether SendGrid's checks vouch for the From address itself. SPF only
+ * covers the envelope sender, so it counts when that's on the From domain;
+ * otherwise a DKIM signature from the From domain must have passed.
+ */
+export function isSenderAuthenticated(
+  email: Pick<InboundSpamSignals, 'senderEmail' | 'envelopeFrom' | 'spf' | 'dkim'>
+): boolean {
+  const fromDomain = getDomain(email.senderEmail);
+  if (!fromDomain || !fromDomain.includes('.')) return false;
+
+  const envelopeDomain = getDomain(email.envelopeFrom);
+  if (email.spf?.trim().toLowerCase() === 'pass' && envelopeDomain && isAlignedDomain(envelopeDomain, fromDomain)) {
+    return true;
+  }
+
+  return [...(email.dkim || '').matchAll(/@?([a-z0-9.-]+)\s*:\s*([a-z]+)/gi)].some(
+    ([, domain, result]) => result.toLowerCase() === 'pass' && isAlignedDomain(domain.toLowerCase(), fromDomain)
+  );
+}
+
+// Block and allow lists from settings. The most specific rule wins, so an
+// allowed address gets through even when its domain is blocked. From is
+// easily forged, so an allow rule only counts for authenticated mail.
+const senderListFilter: SpamFilter = async (supabase, email) => {
+  const patterns = getSenderPatterns(email.senderEmail);
+
+  const { data } = await supabase
+    .from('email_sender_rules')
+    .select('pattern, list_type')
+    .in('pattern', patterns);
+
+  const rules = (data || []) as { pattern: string; list_type: SenderListType }[];
+  const rule = patterns
+    .map((pattern) => rules.find((r) => r.pattern === pattern))
+    .find(Boolean);
+
+  if (!rule) return null;
+  if (rule.list_type === 'allow') return isSenderAuthenticated(email) ? { verdict: 'allow' } : null;
+
+  return {
+    verdict: 'spam',
+    reason: rule.pattern === patterns[0] ? 'Sender is blocked' : `Sender domain ${rule.pattern} is blocked`,
+  };
+};
+
+const spamScoreFilter: SpamFilter = async (_supabase, email) => {
+  if (email.spamScore === null || email.spamScore < SPAM_SCORE_THRESHOLD) return null;
+  return { verdict: 'spam', reason: `Spam score ${email.spamScore}` };
+};
+
+// Flag mail that isn't authenticated for its From domain and failed SPF or
+// DKIM; "none" on both is common for small senders and isn't held against them
+const authenticationFilter: SpamFilter = async (_supabase, email) => {
+  const spf = email.spf?.trim().toLowerCase() || 'none';
+  const dkim = [...(email.dkim || '').matchAll(/:\s*([a-z]+)/gi)].map((m) => m[1].toLowerCase());
+
+  if (isSenderAuthenticated(email)) return null;
+  if (!['fail', 'softfail'].includes(spf) && !dkim.includes('fail')) return null;
+
+  return { verdict: 'spam', reason: `Failed sender authentication (SPF ${spf}, DKIM ${dkim[0] || 'none'})` };
+};
+
+const contentFilter: SpamFilter = async (_supabase, email) => {
+  const text = `${email.subject}\n${email.body}`.toLowerCase();
+
+  const phrases = SPAM_PHRASES.filter((phrase) => text.includes(phrase));
+  if (phrases.length >= 2) {
+    return {
+      verdict: 'spam',
+      reason: `Looks like spam: mentions ${phrases.map((p) => `"${p}"`).join(', ')}`,
+    };
+  }
+
+  const links = text.match(/https?:\/\//g)?.length || 0;
+  if (links > MAX_LINKS) {
+    return { verdict: 'spam', reason: `Contains ${links} links` };
+  }
+
+  return null;
+};
+
+// Someone opening ticket after ticket is a bot or a flood, not a customer
+const rateLimitFilter: SpamFilter = async (supabase, email) => {
+  const customerId = await findCustomerIdByIdentity(supabase, 'email', email.senderEmail);
+  if (!customerId) return null;
+
+  const { count } = await supabase
+    .from('tickets')
+    .select('id', { count: 'exact', head: true })
+    .eq('customer_id', customerId)
+    .gte('created_at', new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString());
+
+  if ((count || 0) < RATE_LIMIT_MAX_TICKETS) return null;
+  return { verdict: 'spam', reason: `Sent ${count} new emails in the last hour` };
+};
+
+// Run in order; add a stage here to plug it in. Authentication runs before
+// the sender lists, since an allowed address is easily forged in From.
+const spamFilters: SpamFilter[] = [
+  authenticationFilter,
+  senderListFilter,
+  spamScoreFilter,
+  contentFilter,
+  rateLimitFilter,
+];
+
+/**
+ * Decide whether an inbound email that would open a new ticket is spam.
+ * A stage that errors is skipped, so a lookup failure never loses mail.
+ */
+export async function checkForSpam(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  email: InboundSpamSignals
+): Promise<SpamCheck> {
+  const reasons: string[] = [];
+
+  for (const filter of spamFilters) {
+    let result: SpamFilterResult;
+    try {
+      result = await filter(supabase, email);
+    } catch (err) {
+      console.error('Spam filter stage failed:', err);
+      continue;
+    }
+
+    if (result?.verdict === 'allow') break;
+    if (result?.verdict === 'spam') reasons.push(result.reason);
+  }
+
+  return { isSpam: reasons.length > 0, reasons };
+}
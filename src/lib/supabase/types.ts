@@ -14,6 +14,8 @@ export type UserRole = 'admin' | 'agent' | 'viewer';
 export type TicketStatus = 'open' | 'pending' | 'closed';
 export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
 export type TicketChannel = 'email' | 'facebook' | 'instagram' | 'manual';
+export type AgentAvailability = 'available' | 'away';
+export type AssignmentStrategy = 'round_robin' | 'least_open';
 export type MessageSource = 'reply' | 'new_email' | 'merge';
 export type ResourceType = 'video' | 'article' | 'faq' | 'guide';
 export type CannedResponseStatus = 'active' | 'archived';
@@ -21,6 +23,10 @@ export type DiscountType = 'percentage' | 'fixed_amount' | 'free_shipping';
 export type PromoSource = 'email_flow' | 'website' | 'ads' | 'influencer' | 'social_media' | 'other';
 export type ProductAvailability = 'us_only' | 'canada_only' | 'us_and_canada';
 export type StockStatus = 'in_stock' | 'out_of_stock' | 'discontinued' | 'pre_order';
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+export type SlaMetric = 'first_response' | 'next_response' | 'resolution';
+export type SenderListType = 'block' | 'allow';
+export type ClosedTicketReplyPolicy = 'reopen' | 'new_ticket';
 
 export interface Brand {
   id: string;
@@ -29,6 +35,61 @@ export interface Brand {
   email_address: string;
   color: string;
   logo_url: string | null;
+  csat_enabled: boolean;
+  csat_delay_minutes: number; // Wait after close before sending the survey
+  csat_cooldown_days: number; // Minimum gap between surveys to one customer
+  calendar_id: string | null; // Business hours; null = open 24/7
+  out_of_hours_reply_enabled: boolean;
+  out_of_hours_reply_message: string | null; // Null = default wording
+  closed_ticket_reply: ClosedTicketReplyPolicy; // What an email reply to a closed ticket does
+  reopen_window_days: number | null; // 'reopen' only within this many days of closing; null = any time
+  created_at: string;
+  calendar?: BusinessCalendar | null;
+}
+
+export interface BusinessHoursInterval {
+  start: string; // "HH:MM" in the calendar's timezone
+  end: string;
+}
+
+export interface BusinessCalendar {
+  id: string;
+  name: string;
+  timezone: string; // IANA timezone, e.g. "America/Los_Angeles"
+  weekly_hours: Partial<Record<Weekday, BusinessHoursInterval[]>>;
+  holidays: string[]; // "YYYY-MM-DD" dates in the calendar's timezone
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  priority: TicketPriority;
+  brand_id: string | null; // null = default for all brands
+  calendar_id: string | null; // null = targets run around the clock
+  first_response_minutes: number;
+  next_response_minutes: number | null;
+  resolution_minutes: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  brand?: Brand | null;
+  calendar?: BusinessCalendar | null;
+}
+
+export interface CsatSurvey {
+  id: string;
+  ticket_id: string;
+  customer_id: string | null;
+  brand_id: string | null;
+  agent_id: string | null; // Assignee when the ticket closed
+  token: string;
+  send_after: string;
+  sent_at: string | null;
+  score: number | null; // 1-5
+  comment: string | null;
+  responded_at: string | null;
   created_at: string;
 }
 
@@ -45,6 +106,10 @@ export interface Team {
   id: string;
   name: string;
   description: string | null;
+  auto_assign: boolean;
+  assignment_strategy: AssignmentStrategy;
+  is_default: boolean; // Auto-assigns tickets that have no team
+  last_assigned_agent_id: string | null; // Round-robin position
   created_at: string;
   updated_at: string;
 }
@@ -57,6 +122,9 @@ export interface Profile {
   role: UserRole;
   team_id: string | null;
   is_active: boolean;
+  availability: AgentAvailability;
+  max_open_tickets: number | null; // null = no cap on auto-assigned tickets
+  undo_send_seconds: number; // How long replies wait before going out (5-30)
   created_at: string;
   updated_at: string;
   team?: Team | null;
@@ -75,8 +143,12 @@ export interface Customer {
   city: string | null;
   state: string | null;
   country: string | null;
+  email_invalid: boolean; // Set when an email to this address hard bounced
+  email_invalid_reason: string | null;
+  email_invalid_at: string | null;
   created_at: string;
   updated_at: string;
+  segments?: CustomerSegmentSummary[]; // Loaded separately from customer_segment_members
 }
 
 export interface CustomerNote {
@@ -89,6 +161,100 @@ export interface CustomerNote {
   author?: Pick<Profile, 'id' | 'full_name' | 'email' | 'avatar_url'> | null;
 }
 
+export type CustomerIdentityType = 'email' | 'phone' | 'facebook' | 'instagram';
+
+// One of a customer's email addresses, phone numbers or social IDs. The
+// primary email and phone are also in customers.email and customers.phone.
+export interface CustomerIdentity {
+  id: string;
+  customer_id: string;
+  type: CustomerIdentityType;
+  value: string;
+  is_primary: boolean;
+  created_at: string;
+}
+
+export interface CustomerMerge {
+  id: string;
+  customer_id: string | null;
+  merged_customer_id: string;
+  merged_email: string;
+  merged_customer: Customer;
+  tickets_moved: number;
+  notes_moved: number;
+  merged_by: string | null;
+  created_at: string;
+  merger?: Pick<Profile, 'id' | 'full_name' | 'email'> | null;
+}
+
+// A saved group of customers. Members meet every criterion that's set.
+export interface CustomerSegment {
+  id: string;
+  name: string;
+  color: string;
+  description: string | null;
+  min_lifetime_value: number | null;
+  min_order_count: number | null;
+  countries: string[];
+  tag_ids: string[]; // Has a ticket with any of these tags
+  note_keywords: string[]; // Has a note mentioning any of these
+  created_at: string;
+  updated_at: string;
+  member_count?: number;
+}
+
+export type CustomerSegmentSummary = Pick<CustomerSegment, 'id' | 'name' | 'color'>;
+
+// A blocked or allowed email sender: a full address or a whole domain
+export interface EmailSenderRule {
+  id: string;
+  pattern: string;
+  list_type: SenderListType;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type InboundEmailStatus = 'received' | 'processing' | 'processed' | 'failed' | 'discarded';
+
+// An attachment file from an inbound payload, kept until the email is processed
+export interface InboundEmailFile {
+  field: string; // Form field name, e.g. "attachment1"
+  name: string;
+  type: string;
+  size: number;
+  path: string; // In the inbound-emails bucket
+}
+
+export interface InboundEmail {
+  id: string;
+  message_id: string | null; // Normalized Message-ID
+  status: InboundEmailStatus;
+  fields: Record<string, string>; // SendGrid's text form fields
+  files: InboundEmailFile[];
+  attempts: number;
+  error: string | null;
+  result: string | null;
+  ticket_id: string | null;
+  stored_message_id: string | null; // Set once the message is stored
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DuplicateMatchReason = 'email' | 'phone' | 'shopify' | 'name';
+
+// A possible duplicate from find_duplicate_customers
+export interface DuplicateCustomer {
+  id: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  created_at: string;
+  ticket_count: number;
+  match_reasons: DuplicateMatchReason[];
+}
+
 export interface Tag {
   id: string;
   name: string;
@@ -110,6 +276,47 @@ export interface AutoTagRule {
   tag?: Tag;
 }
 
+export type AutomationEvent = 'ticket_created' | 'customer_replied' | 'agent_replied';
+export type AutomationTextField = 'subject' | 'body' | 'subject_or_body';
+
+export type AutomationCondition =
+  | { type: 'keywords'; field: AutomationTextField; keywords: string[]; match: 'any' | 'all' }
+  | { type: 'regex'; field: AutomationTextField | 'customer_email'; pattern: string }
+  | { type: 'brand'; brand_ids: string[] }
+  | { type: 'channel'; channels: TicketChannel[] }
+  | { type: 'customer_email_domain'; domains: string[] }
+  | { type: 'customer_order_count'; operator: 'at_least' | 'at_most'; value: number }
+  | { type: 'customer_lifetime_value'; operator: 'at_least' | 'at_most'; value: number }
+  | { type: 'customer_segment'; segment_ids: string[] }
+  | { type: 'time_of_day'; start: string; end: string; timezone: string; weekdays: Weekday[] }
+  | { type: 'priority'; priorities: TicketPriority[] }
+  | { type: 'status'; statuses: TicketStatus[] };
+
+export type AutomationAction =
+  | { type: 'assign_agent'; agent_id: string }
+  | { type: 'assign_team'; team_id: string }
+  | { type: 'add_tag'; tag_id: string }
+  | { type: 'remove_tag'; tag_id: string }
+  | { type: 'set_priority'; priority: TicketPriority }
+  | { type: 'set_status'; status: TicketStatus }
+  | { type: 'send_canned_response'; canned_response_id: string }
+  | { type: 'add_internal_note'; content: string };
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  description: string | null;
+  events: AutomationEvent[];
+  match_type: 'all' | 'any';
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  position: number;
+  stop_processing: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Ticket {
   id: string;
   ticket_number: number;
@@ -125,12 +332,22 @@ export interface Ticket {
   resolved_at: string | null;
   snoozed_until: string | null;
   snoozed_by: string | null;
+  snooze_until_reply: boolean; // Snoozed until the customer's next message
+  snooze_reason: string | null;
   merged_into_ticket_id: string | null;
   external_id: string | null;
   imported_at: string | null;
   reference_id: string | null; // Email Message-ID for threading
   last_message_at: string | null; // Timestamp of most recent message
   is_auto_reply: boolean; // Auto-reply/OOO emails filtered from main queue
+  is_spam: boolean; // Flagged by the inbound spam filter, shown only in the Spam view
+  spam_reasons: string[];
+  sla_policy_id: string | null;
+  first_response_due_at: string | null;
+  next_response_due_at: string | null; // Set while a customer reply awaits an agent
+  resolution_due_at: string | null;
+  sla_due_at: string | null; // Nearest unmet deadline (generated column)
+  out_of_hours_replied_at: string | null; // Last out-of-hours auto-reply
   created_at: string;
   updated_at: string;
   customer?: Customer | null;
@@ -171,11 +388,49 @@ export interface Message {
   is_internal: boolean;
   source: MessageSource;
   source_email_id: string | null; // Email Message-ID if message came from email
+  email_message_id: string | null; // Our ID sent to SendGrid with an emailed reply
+  delivery_status: MessageDeliveryStatus | null; // null for messages that weren't emailed
+  delivery_status_at: string | null;
+  delivery_error: string | null;
   attachments: Attachment[];
+  to_emails: string[]; // Recipients of the email, for "Reply all"
+  cc_emails: string[];
+  forwarded_by: string | null; // Colleague who forwarded the customer's email in
   created_at: string;
   sender?: Profile | Customer | null;
 }
 
+export type MessageDeliveryStatus =
+  | 'sent'
+  | 'delivered'
+  | 'deferred'
+  | 'bounced'
+  | 'dropped'
+  | 'spam_reported';
+
+export type OutboundMessageStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface OutboundMessage {
+  id: string;
+  ticket_id: string;
+  author_id: string;
+  content: string;
+  attachments: Attachment[];
+  cc_emails: string[];
+  action: 'send' | 'send-close' | 'send-snooze';
+  snooze: { until: string | null; reason?: string } | null; // For 'send-snooze'
+  send_at: string;
+  is_scheduled: boolean; // Picked time rather than the undo window
+  status: OutboundMessageStatus;
+  attempts: number;
+  last_error: string | null;
+  message_id: string | null; // The delivered message
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+  author?: Profile | null;
+}
+
 export interface CannedResponse {
   id: string;
   title: string;
@@ -220,6 +475,43 @@ export interface TicketActivity {
   actor?: Profile | null;
 }
 
+export interface TicketRMA {
+  id: string;
+  ticket_id: string;
+  rma_id: string;
+  rma_number: string;
+  order_id: number;
+  order_name: string;
+  return_type: 'refund' | 'exchange' | 'store_credit';
+  reason: string;
+  status: string;
+  label_url: string | null;
+  created_by: string | null;
+  status_checked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TicketOrder {
+  id: string;
+  ticket_id: string;
+  shopify_order_id: number;
+  shop_domain: string | null; // Null for orders from the env var store
+  order_name: string;
+  order_email: string | null;
+  email_matches: boolean;
+  matched_by: 'order_number' | 'tracking_number';
+  matched_value: string;
+  financial_status: string | null;
+  fulfillment_status: string;
+  cancelled: boolean;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  order_created_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface TicketPresence {
   id: string;
   ticket_id: string;
@@ -340,6 +632,11 @@ export interface Database {
         Insert: Omit<AutoTagRule, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<AutoTagRule, 'id' | 'created_at'>>;
       };
+      automation_rules: {
+        Row: AutomationRule;
+        Insert: Omit<AutomationRule, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<AutomationRule, 'id' | 'created_at'>>;
+      };
       ticket_presence: {
         Row: TicketPresence;
         Insert: Omit<TicketPresence, 'id' | 'created_at'>;
@@ -360,6 +657,26 @@ export interface Database {
         Insert: Omit<Brand, 'id' | 'created_at'>;
         Update: Partial<Omit<Brand, 'id' | 'created_at'>>;
       };
+      business_calendars: {
+        Row: BusinessCalendar;
+        Insert: Omit<BusinessCalendar, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<BusinessCalendar, 'id' | 'created_at'>>;
+      };
+      sla_policies: {
+        Row: SlaPolicy;
+        Insert: Omit<SlaPolicy, 'id' | 'created_at' | 'updated_at' | 'brand' | 'calendar'>;
+        Update: Partial<Omit<SlaPolicy, 'id' | 'created_at' | 'brand' | 'calendar'>>;
+      };
+      csat_surveys: {
+        Row: CsatSurvey;
+        Insert: Omit<CsatSurvey, 'id' | 'token' | 'created_at'>;
+        Update: Partial<Omit<CsatSurvey, 'id' | 'ticket_id' | 'token' | 'created_at'>>;
+      };
+      outbound_messages: {
+        Row: OutboundMessage;
+        Insert: Omit<OutboundMessage, 'id' | 'status' | 'attempts' | 'last_error' | 'message_id' | 'sent_at' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<OutboundMessage, 'id' | 'ticket_id' | 'author_id' | 'created_at'>>;
+      };
     };
     Functions: {
       get_user_role: {
@@ -393,6 +710,26 @@ export interface Database {
           avg_resolution_minutes: number;
         }[];
       };
+      get_csat_by_agent: {
+        Args: { start_date: string; end_date: string };
+        Returns: {
+          agent_id: string;
+          agent_name: string | null;
+          responses: number;
+          satisfied: number;
+          avg_score: number;
+        }[];
+      };
+      get_csat_by_brand: {
+        Args: { start_date: string; end_date: string };
+        Returns: {
+          brand_id: string;
+          brand_name: string;
+          responses: number;
+          satisfied: number;
+          avg_score: number;
+        }[];
+      };
       search_tickets: {
         Args: {
           search_term: string;
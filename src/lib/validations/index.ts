@@ -47,6 +47,11 @@ export const ticketTagSchema = z.object({
   tagId: uuidSchema,
 });
 
+export const snoozeSchema = z.object({
+  until: z.iso.datetime({ offset: true }).nullable(), // null = until the customer replies
+  reason: z.string().trim().max(500, 'Snooze note is too long').optional(),
+});
+
 // ============================================
 // Message schemas
 // ============================================
@@ -65,11 +70,18 @@ export const sendMessageSchema = z.object({
   content: z.string(),
   isInternal: z.boolean().optional(),
   attachments: z.array(attachmentSchema).optional(),
+  cc: z.array(z.string().trim().toLowerCase().email('Invalid CC address')).max(20).optional(), // Replies only
+  sendAt: z.iso.datetime({ offset: true }).optional(), // Scheduled replies only
 }).refine(
   (data) => data.content.trim().length > 0 || (data.attachments && data.attachments.length > 0),
   { message: 'Message content or attachments required', path: ['content'] }
 );
 
+export const updateOutboundMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Reply cannot be empty'),
+  sendAt: z.iso.datetime({ offset: true }),
+});
+
 // ============================================
 // Customer schemas
 // ============================================
@@ -88,6 +100,61 @@ export const updateCustomerSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
+export const customerIdentitySchema = z
+  .object({
+    customer_id: uuidSchema,
+    type: z.enum(['email', 'phone', 'facebook', 'instagram']),
+    value: z.string().trim().min(1, 'Value is required').max(255),
+  })
+  .refine((data) => data.type !== 'email' || z.string().email().safeParse(data.value).success, {
+    message: 'Invalid email',
+    path: ['value'],
+  });
+
+export const mergeCustomersSchema = z
+  .object({
+    sourceId: uuidSchema, // Merged into the target and deleted
+    targetId: uuidSchema,
+  })
+  .refine((data) => data.sourceId !== data.targetId, {
+    message: 'Cannot merge a customer into itself',
+  });
+
+// ============================================
+// Customer segment schemas
+// ============================================
+
+const customerSegmentFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format'),
+  description: z.string().trim().max(500).nullable().optional(),
+  min_lifetime_value: z.number().min(0).nullable(),
+  min_order_count: z.number().int().min(0).nullable(),
+  countries: z.array(z.string().trim().min(1).max(100)).max(50),
+  tag_ids: z.array(uuidSchema).max(50),
+  note_keywords: z.array(z.string().trim().min(1).max(100)).max(50),
+});
+
+function hasSegmentCriteria(data: z.infer<typeof customerSegmentFields>): boolean {
+  return (
+    data.min_lifetime_value !== null ||
+    data.min_order_count !== null ||
+    data.countries.length > 0 ||
+    data.tag_ids.length > 0 ||
+    data.note_keywords.length > 0
+  );
+}
+
+const segmentCriteriaMessage = 'Set at least one criterion';
+
+export const createCustomerSegmentSchema = customerSegmentFields.refine(hasSegmentCriteria, {
+  message: segmentCriteriaMessage,
+});
+
+export const updateCustomerSegmentSchema = customerSegmentFields
+  .extend({ id: uuidSchema })
+  .refine(hasSegmentCriteria, { message: segmentCriteriaMessage });
+
 // ============================================
 // Canned response schemas
 // ============================================
@@ -134,6 +201,7 @@ export const updateTagSchema = z.object({
 
 export const updateProfileSchema = z.object({
   full_name: z.string().max(200).optional(),
+  undo_send_seconds: z.number().int().min(5).max(30).optional(),
 });
 
 export const updateUserRoleSchema = z.object({
@@ -151,6 +219,23 @@ export const toggleUserActiveSchema = z.object({
   isActive: z.boolean(),
 });
 
+export const updateAvailabilitySchema = z.object({
+  userId: uuidSchema,
+  availability: z.enum(['available', 'away']),
+});
+
+export const updateUserCapacitySchema = z.object({
+  userId: uuidSchema,
+  maxOpenTickets: z.number().int().positive('Capacity must be at least 1').nullable(),
+});
+
+export const updateTeamAssignmentSchema = z.object({
+  teamId: uuidSchema,
+  autoAssign: z.boolean(),
+  strategy: z.enum(['round_robin', 'least_open']),
+  isDefault: z.boolean(),
+});
+
 // ============================================
 // Resource schemas
 // ============================================
@@ -191,14 +276,124 @@ export const revokeInviteSchema = z.object({
   invitationId: uuidSchema,
 });
 
+// ============================================
+// Shopify order action schemas
+// ============================================
+
+const shopifyIdSchema = z.number().int().positive();
+const shopDomainSchema = z.string().min(1);
+
+const orderLineItemsSchema = z.array(
+  z.object({
+    lineItemId: shopifyIdSchema,
+    quantity: z.number().int().positive(),
+  })
+);
+
+export const refundOrderSchema = z.object({
+  ticketId: uuidSchema,
+  shopDomain: shopDomainSchema,
+  orderId: shopifyIdSchema,
+  lineItems: orderLineItemsSchema,
+  refundShipping: z.boolean(),
+  notifyCustomer: z.boolean(),
+  reason: z.string().trim().max(500).optional(),
+}).refine(
+  (data) => data.lineItems.length > 0 || data.refundShipping,
+  { message: 'Choose items or shipping to refund', path: ['lineItems'] }
+);
+
+export const cancelOrderSchema = z.object({
+  ticketId: uuidSchema,
+  shopDomain: shopDomainSchema,
+  orderId: shopifyIdSchema,
+  reason: z.enum(['customer', 'inventory', 'fraud', 'declined', 'other']),
+  notifyCustomer: z.boolean(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const replacementOrderSchema = z.object({
+  ticketId: uuidSchema,
+  shopDomain: shopDomainSchema,
+  orderId: shopifyIdSchema,
+  lineItems: orderLineItemsSchema.min(1, 'Choose at least one item to replace'),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const createReturnSchema = z.object({
+  ticketId: uuidSchema,
+  shopDomain: shopDomainSchema,
+  orderId: shopifyIdSchema,
+  lineItems: orderLineItemsSchema.min(1, 'Choose at least one item to return'),
+  returnType: z.enum(['refund', 'exchange', 'store_credit']),
+  reason: z.string().trim().min(1, 'Choose a reason').max(200),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export const updateOrderAddressSchema = z.object({
+  ticketId: uuidSchema,
+  shopDomain: shopDomainSchema,
+  orderId: shopifyIdSchema,
+  address: z.object({
+    first_name: z.string().trim().max(100),
+    last_name: z.string().trim().max(100),
+    company: z.string().trim().max(100).optional(),
+    address1: z.string().trim().min(1, 'Address is required').max(200),
+    address2: z.string().trim().max(200).optional(),
+    city: z.string().trim().min(1, 'City is required').max(100),
+    province: z.string().trim().max(100).optional(),
+    zip: z.string().trim().min(1, 'Postal code is required').max(20),
+    country: z.string().trim().min(1, 'Country is required').max(100),
+    phone: z.string().trim().max(30).optional(),
+  }),
+});
+
+// ============================================
+// Shopify store schemas
+// ============================================
+
+export const shopifyStoreSchema = z.object({
+  shop_domain: z.string().trim().min(1, 'Store domain is required').max(255),
+  client_id: z.string().trim().min(1, 'Client ID is required').max(255),
+  client_secret: z.string().trim().max(255).optional(), // Blank keeps the saved secret
+  webhook_secret: z.string().trim().max(255).optional(), // Blank keeps the saved secret
+});
+
+// ============================================
+// Spam filter schemas
+// ============================================
+
+export const senderRuleSchema = z.object({
+  // A full address or a whole domain; a leading @ on a domain is dropped
+  pattern: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((value) => value.replace(/^@/, ''))
+    .pipe(
+      z
+        .string()
+        .max(255)
+        .regex(/^([^\s@]+@)?[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Enter an email address or a domain')
+    ),
+  list_type: z.enum(['block', 'allow']),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+
 // ============================================
 // Type exports (inferred from schemas)
 // ============================================
 
 export type CreateTicketInput = z.infer<typeof createTicketSchema>;
+export type SnoozeInput = z.infer<typeof snoozeSchema>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+export type UpdateOutboundMessageInput = z.infer<typeof updateOutboundMessageSchema>;
 export type CreateCustomerInput = z.infer<typeof createCustomerSchema>;
 export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>;
+export type CustomerIdentityInput = z.infer<typeof customerIdentitySchema>;
+export type MergeCustomersInput = z.infer<typeof mergeCustomersSchema>;
+export type CreateCustomerSegmentInput = z.infer<typeof createCustomerSegmentSchema>;
+export type UpdateCustomerSegmentInput = z.infer<typeof updateCustomerSegmentSchema>;
 export type CreateCannedResponseInput = z.infer<typeof createCannedResponseSchema>;
 export type UpdateCannedResponseInput = z.infer<typeof updateCannedResponseSchema>;
 export type CreateTagInput = z.infer<typeof createTagSchema>;
@@ -206,6 +401,16 @@ export type UpdateTagInput = z.infer<typeof updateTagSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>;
 export type UpdateUserTeamInput = z.infer<typeof updateUserTeamSchema>;
+export type UpdateAvailabilityInput = z.infer<typeof updateAvailabilitySchema>;
+export type UpdateUserCapacityInput = z.infer<typeof updateUserCapacitySchema>;
+export type UpdateTeamAssignmentInput = z.infer<typeof updateTeamAssignmentSchema>;
 export type CreateResourceInput = z.infer<typeof createResourceSchema>;
 export type UpdateResourceInput = z.infer<typeof updateResourceSchema>;
 export type InviteUserInput = z.infer<typeof inviteUserSchema>;
+export type RefundOrderInput = z.infer<typeof refundOrderSchema>;
+export type CancelOrderInput = z.infer<typeof cancelOrderSchema>;
+export type ReplacementOrderInput = z.infer<typeof replacementOrderSchema>;
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
+export type UpdateOrderAddressInput = z.infer<typeof updateOrderAddressSchema>;
+export type ShopifyStoreInput = z.infer<typeof shopifyStoreSchema>;
+export type SenderRuleInput = z.infer<typeof senderRuleSchema>;
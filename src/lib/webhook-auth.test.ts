@@ -0,0 +1,237 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { verifyWebhookRequest, type WebhookVerifyOptions } from '@/lib/webhook-auth';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const verificationKey = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+
+// Order of the P-256 curve, for re-encoding a signature as (r, n - s)
+const CURVE_ORDER = BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551');
+
+const signedAuth: WebhookVerifyOptions = { auth: [{ type: 'sendgrid_signature', verificationKey }] };
+const secretAuth: WebhookVerifyOptions = { auth: [{ type: 'shared_secret', secret: 'inbound-secret' }] };
+
+let ipCounter = 0;
+
+// Each request comes from its own IP unless one is given, so rate limits
+// from one test don't leak into another
+function makeRequest(headers: Record<string, string> = {}, url = 'https://desk.example.com/api/email/inbound') {
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'x-forwarded-for': `10.0.0.${++ipCounter}`, ...headers },
+  });
+}
+
+function signatureHeaders(signature: Buffer, timestamp: string) {
+  return {
+    'x-twilio-email-event-webhook-signature': signature.toString('base64'),
+    'x-twilio-email-event-webhook-timestamp': timestamp,
+  };
+}
+
+function signPayload(payload: string, timestamp: string) {
+  return sign('sha256', Buffer.from(timestamp + payload), privateKey);
+}
+
+function nowSeconds() {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+// DER-encode an ECDSA signature from its r and s values
+function toDer(r: bigint, s: bigint): Buffer {
+  const encodeInt = (value: bigint) => {
+    let hex = value.toString(16);
+    if (hex.length % 2) hex = '0' + hex;
+    let bytes = Buffer.from(hex, 'hex');
+    if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    return Buffer.concat([Buffer.from([0x02, bytes.length]), bytes]);
+  };
+  const body = Buffer.concat([encodeInt(r), encodeInt(s)]);
+  return Buffer.concat([Buffer.from([0x30, body.length]), body]);
+}
+
+// A stand-in for the webhook_replays table: inserts fail on a repeated key
+function makeReplayStore() {
+  const keys = new Set<string>();
+  return {
+    keys,
+    from: () => ({
+      insert: async (row: { key: string }) => {
+        if (keys.has(row.key)) return { error: { code: '23505', message: 'duplicate key' } };
+        keys.add(row.key);
+        return { error: null };
+      },
+    }),
+  };
+}
+
+describe('verifyWebhookRequest with SendGrid signatures', () => {
+  it('accepts a correctly signed request', async () => {
+    const payload = '{"event":"delivered"}';
+    const timestamp = nowSeconds();
+    const request = makeRequest(signatureHeaders(signPayload(payload, timestamp), timestamp));
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, payload, signedAuth);
+
+    expect(result).toEqual({ ok: true });
+  });
+
+  it('rejects a signature from a different key', async () => {
+    const forger = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const payload = '{"event":"delivered"}';
+    const timestamp = nowSeconds();
+    const forged = sign('sha256', Buffer.from(timestamp + payload), forger.privateKey);
+    const request = makeRequest(signatureHeaders(forged, timestamp));
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, payload, signedAuth);
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Invalid signature' });
+  });
+
+  it('rejects a signature that is not valid base64 DER', async () => {
+    const timestamp = nowSeconds();
+    const request = makeRequest(signatureHeaders(Buffer.from('not a signature'), timestamp));
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, 'body', signedAuth);
+
+    expect(result).toMatchObject({ ok: false, status: 401, error: 'Invalid signature' });
+  });
+
+  it('rejects a tampered body', async () => {
+    const timestamp = nowSeconds();
+    const signature = signPayload('{"event":"delivered"}', timestamp);
+    const request = makeRequest(signatureHeaders(signature, timestamp));
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, '{"event":"bounce"}', signedAuth);
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Invalid signature' });
+  });
+
+  it('rejects a signed request sent a second time', async () => {
+    const store = makeReplayStore();
+    const payload = '{"event":"delivered"}';
+    const timestamp = nowSeconds();
+    const headers = signatureHeaders(signPayload(payload, timestamp), timestamp);
+
+    expect(await verifyWebhookRequest(store, makeRequest(headers), payload, signedAuth)).toEqual({ ok: true });
+    expect(await verifyWebhookRequest(store, makeRequest(headers), payload, signedAuth)).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Request was already received',
+    });
+  });
+
+  it('rejects a replay whose signature was re-encoded with a high s value', async () => {
+    const store = makeReplayStore();
+    const payload = '{"event":"delivered"}';
+    const timestamp = nowSeconds();
+    const raw = sign('sha256', Buffer.from(timestamp + payload), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    const r = BigInt('0x' + raw.subarray(0, 32).toString('hex'));
+    const s = BigInt('0x' + raw.subarray(32).toString('hex'));
+
+    const original = makeRequest(signatureHeaders(toDer(r, s), timestamp));
+    const malleated = makeRequest(signatureHeaders(toDer(r, CURVE_ORDER - s), timestamp));
+
+    expect(await verifyWebhookRequest(store, original, payload, signedAuth)).toEqual({ ok: true });
+    expect(await verifyWebhookRequest(store, malleated, payload, signedAuth)).toMatchObject({
+      ok: false,
+      error: 'Request was already received',
+    });
+  });
+
+  it('rejects a timestamp outside the tolerance', async () => {
+    const payload = '{"event":"delivered"}';
+    const timestamp = String(Math.floor(Date.now() / 1000) - 600);
+    const request = makeRequest(signatureHeaders(signPayload(payload, timestamp), timestamp));
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, payload, {
+      ...signedAuth,
+      toleranceSeconds: 300,
+    });
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Signature timestamp is too old' });
+  });
+
+  it('fails closed when the replay store is unavailable', async () => {
+    const payload = '{"event":"delivered"}';
+    const timestamp = nowSeconds();
+    const request = makeRequest(signatureHeaders(signPayload(payload, timestamp), timestamp));
+    const brokenStore = {
+      from: () => ({ insert: async () => ({ error: { code: '08006', message: 'connection failure' } }) }),
+    };
+
+    const result = await verifyWebhookRequest(brokenStore, request, payload, signedAuth);
+
+    expect(result).toMatchObject({ ok: false, status: 500 });
+  });
+
+  it('rejects an unsigned request', async () => {
+    const result = await verifyWebhookRequest(makeReplayStore(), makeRequest(), 'body', signedAuth);
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Missing credentials' });
+  });
+});
+
+describe('verifyWebhookRequest with a shared secret', () => {
+  it('accepts the secret as a token, Bearer token or Basic auth password', async () => {
+    const basic = Buffer.from('sendgrid:inbound-secret').toString('base64');
+    const requests = [
+      makeRequest({}, 'https://desk.example.com/api/email/inbound?token=inbound-secret'),
+      makeRequest({ authorization: 'Bearer inbound-secret' }),
+      makeRequest({ authorization: `Basic ${basic}` }),
+    ];
+
+    for (const request of requests) {
+      expect(await verifyWebhookRequest(makeReplayStore(), request, 'body', secretAuth)).toEqual({ ok: true });
+    }
+  });
+
+  it('rejects a wrong secret', async () => {
+    const request = makeRequest({ authorization: 'Bearer not-the-secret' });
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, 'body', secretAuth);
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Invalid credentials' });
+  });
+
+  it('rejects a missing secret', async () => {
+    const result = await verifyWebhookRequest(makeReplayStore(), makeRequest(), 'body', secretAuth);
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Missing credentials' });
+  });
+
+  it('ignores the secret when signatures are also accepted', async () => {
+    const request = makeRequest({}, 'https://desk.example.com/api/email/inbound?token=inbound-secret');
+
+    const result = await verifyWebhookRequest(makeReplayStore(), request, 'body', {
+      auth: [...signedAuth.auth, ...secretAuth.auth],
+    });
+
+    expect(result).toEqual({ ok: false, status: 401, error: 'Missing credentials' });
+  });
+});
+
+describe('verifyWebhookRequest limits', () => {
+  it('returns 429 once a client IP passes the rate limit', async () => {
+    const options: WebhookVerifyOptions = { ...secretAuth, rateLimit: { limit: 2, windowSeconds: 60 } };
+    const headers = { 'x-forwarded-for': '192.0.2.1', authorization: 'Bearer inbound-secret' };
+
+    expect(await verifyWebhookRequest(makeReplayStore(), makeRequest(headers), 'body', options)).toEqual({ ok: true });
+    expect(await verifyWebhookRequest(makeReplayStore(), makeRequest(headers), 'body', options)).toEqual({ ok: true });
+    expect(await verifyWebhookRequest(makeReplayStore(), makeRequest(headers), 'body', options)).toEqual({
+      ok: false,
+      status: 429,
+      error: 'Too many requests',
+    });
+
+    // Other clients aren't affected
+    const other = makeRequest({ authorization: 'Bearer inbound-secret' });
+    expect(await verifyWebhookRequest(makeReplayStore(), other, 'body', options)).toEqual({ ok: true });
+  });
+
+  it('refuses every request when no scheme is configured', async () => {
+    const result = await verifyWebhookRequest(makeReplayStore(), makeRequest(), 'body', { auth: [] });
+
+    expect(result).toEqual({ ok: false, status: 500, error: 'Server misconfigured' });
+  });
+});
@@ -0,0 +1,212 @@
+import { createHash, createPublicKey, timingSafeEqual, verify } from 'crypto';
+
+/**
+ * How a webhook proves it's genuine. A route can accept several; the
+ * request passes if any one of them checks out.
+ *
+ * - `sendgrid_signature`: SendGrid's signed webhooks (event webhook and
+ *   Inbound Parse security policies) sign the timestamp plus raw body with
+ *   ECDSA. The key is the base64 public key from SendGrid's settings.
+ * - `shared_secret`: a secret configured in the webhook URL, sent as a
+ *   `token` query parameter, a Bearer token or a Basic auth password. It
+ *   has no replay protection of its own: a captured request can be sent
+ *   again, so routes accepting it must dedupe what they receive (inbound
+ *   email does, by Message-ID). It's ignored when a route also accepts
+ *   signatures, so a signed route can't be downgraded to it.
+ */
+export type WebhookAuth =
+  | { type: 'sendgrid_signature'; verificationKey: string }
+  | { type: 'shared_secret'; secret: string };
+
+export interface WebhookVerifyOptions {
+  auth: WebhookAuth[];
+  // Oldest signed timestamp accepted, in seconds
+  toleranceSeconds?: number;
+  // Requests allowed per client IP in each window
+  rateLimit?: { limit: number; windowSeconds: number };
+}
+
+export type WebhookVerifyResult =
+  | { ok: true }
+  | { ok: false; status: 401 | 429 | 500; error: string };
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+// Rate limits live per server instance, so they're per instance too.
+// That's enough to blunt a flood; it isn't a global quota.
+const rateLimitWindows = new Map<string, { count: number; resetAt: number }>();
+
+function pruneExpired<T>(map: Map<string, T>, expiresAt: (value: T) => number, now: number) {
+  for (const [key, value] of map) {
+    if (expiresAt(value) <= now) map.delete(key);
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check the signature on a SendGrid signed webhook request
+ */
+export function verifySendGridSignature(
+  payload: string | Buffer,
+  signature: string | null,
+  timestamp: string | null,
+  verificationKey: string
+): boolean {
+  if (!signature || !timestamp) return false;
+
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.from(verificationKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+
+    return verify(
+      'sha256',
+      Buffer.concat([Buffer.from(timestamp), Buffer.isBuffer(payload) ? payload : Buffer.from(payload)]),
+      publicKey,
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error) {
+    console.error('SendGrid signature check error:', error);
+    return false;
+  }
+}
+
+// The secret from ?token=, "Authorization: Bearer" or a Basic auth password
+function getPresentedSecret(request: Request): string | null {
+  const token = new URL(request.url).searchParams.get('token');
+  if (token) return token;
+
+  const authorization = request.headers.get('authorization') || '';
+  const [scheme, credentials] = authorization.split(' ');
+
+  if (scheme?.toLowerCase() === 'bearer' && credentials) return credentials;
+
+  if (scheme?.toLowerCase() === 'basic' && credentials) {
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    return decoded.slice(decoded.indexOf(':') + 1) || null;
+  }
+
+  return null;
+}
+
+function checkRateLimit(
+  request: Request,
+  rateLimit: NonNullable<WebhookVerifyOptions['rateLimit']>,
+  now: number
+): boolean {
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+  const key = `${new URL(request.url).pathname}:${ip}`;
+
+  if (rateLimitWindows.size > 10_000) {
+    pruneExpired(rateLimitWindows, (window) => window.resetAt, now);
+  }
+
+  const window = rateLimitWindows.get(key);
+  if (!window || window.resetAt <= now) {
+    rateLimitWindows.set(key, { count: 1, resetAt: now + rateLimit.windowSeconds * 1000 });
+    return true;
+  }
+
+  window.count++;
+  return window.count <= rateLimit.limit;
+}
+
+// A validly signed request is only good once, and only while its
+// timestamp is recent. Seen requests are keyed on the timestamp and a hash
+// of the body rather than the signature, since an ECDSA signature can be
+// re-encoded into a different valid one, and stored in webhook_replays so
+// every server instance shares them.
+async function claimSignedRequest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  request: Request,
+  payload: string | Buffer,
+  timestamp: string,
+  toleranceSeconds: number,
+  now: number
+): Promise<WebhookVerifyResult> {
+  const ageSeconds = Math.abs(now / 1000 - Number(timestamp));
+  if (!Number.isFinite(ageSeconds) || ageSeconds > toleranceSeconds) {
+    return { ok: false, status: 401, error: 'Signature timestamp is too old' };
+  }
+
+  const bodyHash = createHash('sha256').update(payload).digest('hex');
+  const { error } = await supabase.from('webhook_replays').insert({
+    key: `${new URL(request.url).pathname}:${timestamp}:${bodyHash}`,
+    expires_at: new Date(now + toleranceSeconds * 1000).toISOString(),
+  });
+
+  if (error?.code === '23505') {
+    return { ok: false, status: 401, error: 'Request was already received' };
+  }
+  if (error) {
+    // Fail closed; a 500 makes SendGrid deliver again later
+    console.error('Failed to record webhook request:', error);
+    return { ok: false, status: 500, error: 'Failed to verify request' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Authenticate a webhook request before acting on it: rate limit by
+ * client IP, then check it against the route's accepted schemes. Pass the
+ * raw body exactly as received, since signatures cover its bytes, and a
+ * service-role client for recording signed requests already seen.
+ */
+export async function verifyWebhookRequest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  request: Request,
+  payload: string | Buffer,
+  options: WebhookVerifyOptions
+): Promise<WebhookVerifyResult> {
+  const now = Date.now();
+
+  if (options.auth.length === 0) {
+    console.error('Webhook has no verification configured:', new URL(request.url).pathname);
+    return { ok: false, status: 500, error: 'Server misconfigured' };
+  }
+
+  if (options.rateLimit && !checkRateLimit(request, options.rateLimit, now)) {
+    return { ok: false, status: 429, error: 'Too many requests' };
+  }
+
+  const isSigned = options.auth.some((auth) => auth.type === 'sendgrid_signature');
+  let error = 'Missing credentials';
+
+  for (const auth of options.auth) {
+    if (auth.type === 'shared_secret') {
+      if (isSigned) continue;
+
+      const presented = getPresentedSecret(request);
+      if (presented && safeEqual(presented, auth.secret)) return { ok: true };
+      if (presented) error = 'Invalid credentials';
+    } else {
+      const signature = request.headers.get('x-twilio-email-event-webhook-signature');
+      const timestamp = request.headers.get('x-twilio-email-event-webhook-timestamp');
+      if (!signature) continue;
+
+      if (timestamp && verifySendGridSignature(payload, signature, timestamp, auth.verificationKey)) {
+        return claimSignedRequest(
+          supabase,
+          request,
+          payload,
+          timestamp,
+          options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS,
+          now
+        );
+      }
+      error = 'Invalid signature';
+    }
+  }
+
+  return { ok: false, status: 401, error };
+}
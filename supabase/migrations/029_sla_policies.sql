@@ -0,0 +1,379 @@
+-- SLA Policies Migration
+-- ==============================================
+-- Admins define first-response, next-response and resolution targets per
+-- ticket priority, optionally overridden per brand and measured against a
+-- business-hours calendar. Due timestamps are computed by the app when a
+-- ticket is created, replied to or re-prioritised (see src/lib/sla.ts);
+-- breaches are detected here by a scheduled job.
+
+-- Business-hours calendars
+CREATE TABLE business_calendars (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'America/Los_Angeles',
+    -- {"mon": [{"start": "09:00", "end": "17:00"}], ...}
+    weekly_hours JSONB NOT NULL DEFAULT '{}',
+    holidays TEXT[] NOT NULL DEFAULT '{}', -- YYYY-MM-DD in the calendar's timezone
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- SLA policies
+CREATE TABLE sla_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    priority ticket_priority NOT NULL,
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE, -- NULL = default for all brands
+    calendar_id UUID REFERENCES business_calendars(id) ON DELETE SET NULL, -- NULL = 24/7
+    first_response_minutes INT NOT NULL CHECK (first_response_minutes > 0),
+    next_response_minutes INT CHECK (next_response_minutes > 0),
+    resolution_minutes INT CHECK (resolution_minutes > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One policy per priority per brand (and one default per priority)
+CREATE UNIQUE INDEX idx_sla_policies_priority_brand
+    ON sla_policies(priority, brand_id) WHERE brand_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_sla_policies_priority_default
+    ON sla_policies(priority) WHERE brand_id IS NULL;
+
+-- Due timestamps on tickets
+ALTER TABLE tickets
+    ADD COLUMN sla_policy_id UUID REFERENCES sla_policies(id) ON DELETE SET NULL,
+    ADD COLUMN first_response_due_at TIMESTAMPTZ,
+    ADD COLUMN next_response_due_at TIMESTAMPTZ,
+    ADD COLUMN resolution_due_at TIMESTAMPTZ;
+
+-- Nearest unmet deadline, used for the "Breaching soon" view and sorting
+ALTER TABLE tickets
+    ADD COLUMN sla_due_at TIMESTAMPTZ GENERATED ALWAYS AS (
+        LEAST(
+            CASE WHEN first_response_at IS NULL THEN first_response_due_at END,
+            next_response_due_at,
+            CASE WHEN resolved_at IS NULL THEN resolution_due_at END
+        )
+    ) STORED;
+
+CREATE INDEX idx_tickets_sla_due_at ON tickets(sla_due_at) WHERE sla_due_at IS NOT NULL;
+
+COMMENT ON COLUMN tickets.next_response_due_at IS 'Set when a customer replies after the first response, cleared when an agent replies';
+COMMENT ON COLUMN tickets.sla_due_at IS 'Nearest unmet SLA deadline, generated from the individual due columns';
+
+-- Enable RLS
+ALTER TABLE business_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view business calendars"
+    ON business_calendars FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins can manage business calendars"
+    ON business_calendars FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'admin');
+
+CREATE POLICY "Authenticated users can view SLA policies"
+    ON sla_policies FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins can manage SLA policies"
+    ON sla_policies FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'admin');
+
+-- Agents log activities (SLA, assignment, etc.) from server actions
+CREATE POLICY "Agents and admins can log ticket activities"
+    ON ticket_activities FOR INSERT
+    TO authenticated
+    WITH CHECK (get_user_role() IN ('admin', 'agent'));
+
+-- updated_at triggers
+CREATE TRIGGER update_business_calendars_updated_at BEFORE UPDATE ON business_calendars
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sla_policies_updated_at BEFORE UPDATE ON sla_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ==============================================
+-- Breach detection
+-- ==============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'sla_breach';
+
+-- Log a single breach (once per metric and deadline) and notify the owner,
+-- or every active admin when the ticket is unassigned
+CREATE OR REPLACE FUNCTION log_sla_breach(
+    p_ticket_id UUID,
+    p_metric TEXT,
+    p_due_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_ticket RECORD;
+    v_label TEXT;
+    v_admin RECORD;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM ticket_activities
+        WHERE ticket_id = p_ticket_id
+            AND action = 'sla_breached'
+            AND metadata->>'metric' = p_metric
+            AND (metadata->>'due_at')::TIMESTAMPTZ = p_due_at
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT id, ticket_number, subject, assigned_agent_id, sla_policy_id
+    INTO v_ticket
+    FROM tickets WHERE id = p_ticket_id;
+
+    v_label := CASE p_metric
+        WHEN 'first_response' THEN 'first response'
+        WHEN 'next_response' THEN 'next response'
+        ELSE 'resolution'
+    END;
+
+    INSERT INTO ticket_activities (ticket_id, actor_id, action, old_value, new_value, metadata)
+    VALUES (
+        p_ticket_id,
+        NULL,
+        'sla_breached',
+        NULL,
+        p_metric,
+        jsonb_build_object(
+            'metric', p_metric,
+            'due_at', p_due_at,
+            'sla_policy_id', v_ticket.sla_policy_id
+        )
+    );
+
+    IF v_ticket.assigned_agent_id IS NOT NULL THEN
+        PERFORM create_notification(
+            v_ticket.assigned_agent_id,
+            'sla_breach',
+            'SLA breached',
+            'Ticket #' || v_ticket.ticket_number || ' missed its ' || v_label || ' target',
+            p_ticket_id
+        );
+    ELSE
+        FOR v_admin IN
+            SELECT id FROM profiles WHERE role = 'admin' AND is_active = TRUE
+        LOOP
+            PERFORM create_notification(
+                v_admin.id,
+                'sla_breach',
+                'SLA breached on unassigned ticket',
+                'Ticket #' || v_ticket.ticket_number || ' missed its ' || v_label || ' target',
+                p_ticket_id
+            );
+        END LOOP;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only called by check_sla_breaches; callable directly it would let anyone
+-- log breaches and notify admins for any ticket
+REVOKE EXECUTE ON FUNCTION log_sla_breach FROM PUBLIC, anon, authenticated;
+
+-- Find every open ticket past a deadline and log each breach once
+CREATE OR REPLACE FUNCTION check_sla_breaches()
+RETURNS INT AS $$
+DECLARE
+    v_ticket RECORD;
+    v_count INT := 0;
+BEGIN
+    FOR v_ticket IN
+        SELECT id, first_response_at, first_response_due_at,
+               next_response_due_at, resolved_at, resolution_due_at
+        FROM tickets
+        WHERE status IN ('open', 'pending')
+            AND merged_into_ticket_id IS NULL
+            AND sla_due_at <= NOW()
+    LOOP
+        IF v_ticket.first_response_at IS NULL
+            AND v_ticket.first_response_due_at <= NOW()
+            AND log_sla_breach(v_ticket.id, 'first_response', v_ticket.first_response_due_at) THEN
+            v_count := v_count + 1;
+        END IF;
+
+        IF v_ticket.next_response_due_at <= NOW()
+            AND log_sla_breach(v_ticket.id, 'next_response', v_ticket.next_response_due_at) THEN
+            v_count := v_count + 1;
+        END IF;
+
+        IF v_ticket.resolved_at IS NULL
+            AND v_ticket.resolution_due_at <= NOW()
+            AND log_sla_breach(v_ticket.id, 'resolution', v_ticket.resolution_due_at) THEN
+            v_count := v_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_sla_breaches TO authenticated;
+
+-- Run the breach check every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'check-sla-breaches',
+    '* * * * *',
+    $$SELECT check_sla_breaches()$$
+);
+
+-- ==============================================
+-- Include sla_due_at in search results
+-- ==============================================
+DROP FUNCTION IF EXISTS search_tickets(TEXT, ticket_status, ticket_priority, UUID, BOOLEAN, ticket_channel, UUID);
+
+CREATE OR REPLACE FUNCTION search_tickets(
+    search_term TEXT,
+    status_filter ticket_status DEFAULT NULL,
+    priority_filter ticket_priority DEFAULT NULL,
+    assignee_filter UUID DEFAULT NULL,
+    assignee_unassigned BOOLEAN DEFAULT FALSE,
+    channel_filter ticket_channel DEFAULT NULL,
+    brand_filter UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    ticket_number INT,
+    subject TEXT,
+    status ticket_status,
+    priority ticket_priority,
+    channel ticket_channel,
+    customer_id UUID,
+    assigned_agent_id UUID,
+    assigned_team_id UUID,
+    brand_id UUID,
+    first_response_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+    last_message_at TIMESTAMPTZ,
+    is_auto_reply BOOLEAN,
+    sla_due_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    match_field TEXT,
+    customer_email TEXT,
+    customer_full_name TEXT,
+    customer_phone TEXT,
+    customer_avatar_url TEXT,
+    customer_metadata JSONB,
+    customer_created_at TIMESTAMPTZ,
+    customer_updated_at TIMESTAMPTZ,
+    agent_email TEXT,
+    agent_full_name TEXT,
+    agent_avatar_url TEXT,
+    agent_role user_role,
+    agent_team_id UUID,
+    agent_is_active BOOLEAN,
+    team_name TEXT,
+    team_description TEXT,
+    brand_name TEXT,
+    brand_slug TEXT,
+    brand_color TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH matched_tickets AS (
+        -- Match by ticket number
+        SELECT t.id, 'ticket_number'::TEXT as match_field
+        FROM tickets t
+        WHERE search_term ~ '^\d+$' AND t.ticket_number = search_term::INT
+
+        UNION
+
+        -- Match by subject
+        SELECT t.id, 'subject'::TEXT as match_field
+        FROM tickets t
+        WHERE t.subject ILIKE '%' || search_term || '%'
+
+        UNION
+
+        -- Match by customer name
+        SELECT t.id, 'customer_name'::TEXT as match_field
+        FROM tickets t
+        JOIN customers c ON t.customer_id = c.id
+        WHERE c.full_name ILIKE '%' || search_term || '%'
+
+        UNION
+
+        -- Match by customer email
+        SELECT t.id, 'customer_email'::TEXT as match_field
+        FROM tickets t
+        JOIN customers c ON t.customer_id = c.id
+        WHERE c.email ILIKE '%' || search_term || '%'
+
+        UNION
+
+        -- Match by message content (full-text search)
+        SELECT DISTINCT t.id, 'message'::TEXT as match_field
+        FROM tickets t
+        JOIN messages m ON t.id = m.ticket_id
+        WHERE to_tsvector('english', m.content) @@ plainto_tsquery('english', search_term)
+    )
+    SELECT DISTINCT ON (t.id)
+        t.id,
+        t.ticket_number,
+        t.subject,
+        t.status,
+        t.priority,
+        t.channel,
+        t.customer_id,
+        t.assigned_agent_id,
+        t.assigned_team_id,
+        t.brand_id,
+        t.first_response_at,
+        t.resolved_at,
+        t.last_message_at,
+        COALESCE(t.is_auto_reply, false) as is_auto_reply,
+        t.sla_due_at,
+        t.created_at,
+        t.updated_at,
+        mt.match_field,
+        c.email as customer_email,
+        c.full_name as customer_full_name,
+        c.phone as customer_phone,
+        c.avatar_url as customer_avatar_url,
+        c.metadata as customer_metadata,
+        c.created_at as customer_created_at,
+        c.updated_at as customer_updated_at,
+        p.email as agent_email,
+        p.full_name as agent_full_name,
+        p.avatar_url as agent_avatar_url,
+        p.role as agent_role,
+        p.team_id as agent_team_id,
+        p.is_active as agent_is_active,
+        tm.name as team_name,
+        tm.description as team_description,
+        b.name as brand_name,
+        b.slug as brand_slug,
+        b.color as brand_color
+    FROM matched_tickets mt
+    JOIN tickets t ON mt.id = t.id
+    LEFT JOIN customers c ON t.customer_id = c.id
+    LEFT JOIN profiles p ON t.assigned_agent_id = p.id
+    LEFT JOIN teams tm ON t.assigned_team_id = tm.id
+    LEFT JOIN brands b ON t.brand_id = b.id
+    WHERE
+        (status_filter IS NULL OR t.status = status_filter)
+        AND (priority_filter IS NULL OR t.priority = priority_filter)
+        AND (channel_filter IS NULL OR t.channel = channel_filter)
+        AND (brand_filter IS NULL OR t.brand_id = brand_filter)
+        AND (
+            (assignee_unassigned = TRUE AND t.assigned_agent_id IS NULL)
+            OR (assignee_unassigned = FALSE AND (assignee_filter IS NULL OR t.assigned_agent_id = assignee_filter))
+        )
+    ORDER BY t.id, mt.match_field
+    LIMIT 100;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_tickets TO authenticated;
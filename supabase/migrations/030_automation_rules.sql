@@ -0,0 +1,55 @@
+-- Automation Rules Migration
+-- ==============================================
+-- A general rule engine with typed conditions and actions, evaluated by the
+-- app on ticket creation, customer replies and agent replies (see
+-- src/lib/automation.ts). Keyword tag and priority rules keep their own
+-- tables and editors but are now evaluated by the same engine, so the
+-- apply_auto_tags / apply_auto_priority RPCs are no longer used.
+--
+-- Each rule that changes a ticket is logged as a 'rule_fired' row in
+-- ticket_activities.
+
+CREATE TABLE automation_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    events TEXT[] NOT NULL DEFAULT '{ticket_created}'
+        CHECK (
+            cardinality(events) > 0
+            AND events <@ ARRAY['ticket_created', 'customer_replied', 'agent_replied']
+        ),
+    match_type TEXT NOT NULL DEFAULT 'all' CHECK (match_type IN ('all', 'any')),
+    -- [{"type": "keywords", "field": "subject_or_body", "keywords": [...], "match": "any"}, ...]
+    conditions JSONB NOT NULL DEFAULT '[]',
+    -- [{"type": "add_tag", "tag_id": "..."}, {"type": "set_priority", "priority": "high"}, ...]
+    actions JSONB NOT NULL DEFAULT '[]',
+    position INT NOT NULL DEFAULT 0, -- Lower runs first
+    stop_processing BOOLEAN NOT NULL DEFAULT FALSE, -- Skip later rules when this one matches
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_automation_rules_active ON automation_rules(position) WHERE is_active = TRUE;
+
+CREATE TRIGGER update_automation_rules_updated_at BEFORE UPDATE ON automation_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Look up fired rules per ticket
+CREATE INDEX idx_ticket_activities_rule_fired
+    ON ticket_activities(ticket_id, created_at DESC) WHERE action = 'rule_fired';
+
+-- RLS: everyone evaluating rules can read active ones, admins manage them
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view active automation rules" ON automation_rules
+    FOR SELECT TO authenticated
+    USING (is_active = true OR get_user_role() = 'admin');
+
+CREATE POLICY "Admins can manage automation rules" ON automation_rules
+    FOR ALL TO authenticated
+    USING (get_user_role() = 'admin');
+
+-- Superseded by the rule engine
+DROP FUNCTION IF EXISTS apply_auto_tags(UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS apply_auto_priority(UUID, TEXT, TEXT, ticket_priority);
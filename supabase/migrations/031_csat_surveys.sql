@@ -0,0 +1,120 @@
+-- CSAT Surveys Migration
+-- ==============================================
+-- When a ticket is closed the app queues a survey row (see src/lib/csat.ts).
+-- A scheduled job calls /api/csat/send, which emails every survey whose
+-- send_after has passed. The customer rates 1-5 through a public, tokenised
+-- page at /csat/<token>, which records the score and an optional comment.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Per-brand settings
+ALTER TABLE brands ADD COLUMN csat_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE brands ADD COLUMN csat_delay_minutes INT NOT NULL DEFAULT 60
+    CHECK (csat_delay_minutes >= 0);
+-- Don't survey the same customer again within this many days
+ALTER TABLE brands ADD COLUMN csat_cooldown_days INT NOT NULL DEFAULT 30
+    CHECK (csat_cooldown_days >= 0);
+
+CREATE TABLE csat_surveys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    brand_id UUID REFERENCES brands(id) ON DELETE SET NULL,
+    agent_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- Assignee when the ticket closed
+    token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+    send_after TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ,
+    score SMALLINT CHECK (score BETWEEN 1 AND 5),
+    comment TEXT,
+    responded_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_csat_surveys_ticket ON csat_surveys(ticket_id, created_at DESC);
+CREATE INDEX idx_csat_surveys_customer ON csat_surveys(customer_id, created_at DESC);
+CREATE INDEX idx_csat_surveys_due ON csat_surveys(send_after) WHERE sent_at IS NULL;
+CREATE INDEX idx_csat_surveys_responded ON csat_surveys(responded_at) WHERE score IS NOT NULL;
+
+-- At most one queued survey per ticket
+CREATE UNIQUE INDEX idx_csat_surveys_one_queued ON csat_surveys(ticket_id) WHERE sent_at IS NULL;
+
+-- RLS: staff can read and queue surveys; the public page and the send job
+-- use the service role
+ALTER TABLE csat_surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view CSAT surveys" ON csat_surveys
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can queue CSAT surveys" ON csat_surveys
+    FOR INSERT TO authenticated
+    WITH CHECK (get_user_role() IN ('admin', 'agent'));
+
+-- ==============================================
+-- Reporting
+-- ==============================================
+CREATE OR REPLACE FUNCTION get_csat_by_agent(start_date TIMESTAMPTZ, end_date TIMESTAMPTZ)
+RETURNS TABLE (
+    agent_id UUID,
+    agent_name TEXT,
+    responses BIGINT,
+    satisfied BIGINT,
+    avg_score NUMERIC
+) AS $$
+BEGIN
+    -- Per-agent scores are for staff only
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('admin', 'agent') THEN
+        RAISE EXCEPTION 'Only agents and admins can view CSAT reports';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.full_name,
+        COUNT(s.id),
+        COUNT(s.id) FILTER (WHERE s.score >= 4),
+        ROUND(AVG(s.score)::NUMERIC, 2)
+    FROM csat_surveys s
+    JOIN profiles p ON p.id = s.agent_id
+    WHERE s.score IS NOT NULL
+        AND s.responded_at BETWEEN start_date AND end_date
+    GROUP BY p.id, p.full_name
+    ORDER BY COUNT(s.id) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_csat_by_brand(start_date TIMESTAMPTZ, end_date TIMESTAMPTZ)
+RETURNS TABLE (
+    brand_id UUID,
+    brand_name TEXT,
+    responses BIGINT,
+    satisfied BIGINT,
+    avg_score NUMERIC
+) AS $$
+BEGIN
+    -- Reports are for staff only
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('admin', 'agent') THEN
+        RAISE EXCEPTION 'Only agents and admins can view CSAT reports';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.name,
+        COUNT(s.id),
+        COUNT(s.id) FILTER (WHERE s.score >= 4),
+        ROUND(AVG(s.score)::NUMERIC, 2)
+    FROM csat_surveys s
+    JOIN brands b ON b.id = s.brand_id
+    WHERE s.score IS NOT NULL
+        AND s.responded_at BETWEEN start_date AND end_date
+    GROUP BY b.id, b.name
+    ORDER BY COUNT(s.id) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Not callable by anonymous survey visitors
+REVOKE EXECUTE ON FUNCTION get_csat_by_agent FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_csat_by_brand FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_csat_by_agent TO authenticated;
+GRANT EXECUTE ON FUNCTION get_csat_by_brand TO authenticated;
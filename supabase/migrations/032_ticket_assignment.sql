@@ -0,0 +1,164 @@
+-- Ticket Auto-Assignment Migration
+-- ==============================================
+-- New tickets without an agent are assigned to an available agent in the
+-- ticket's team (or the default team when it has none), either round-robin
+-- or to whoever has the fewest open tickets. Agents can cap how many open
+-- tickets they take, and going "away" hands their open tickets back to the
+-- pool. Every assignment is logged in ticket_activities with its reason.
+
+-- Agent availability and capacity
+ALTER TABLE profiles ADD COLUMN availability TEXT NOT NULL DEFAULT 'available'
+    CHECK (availability IN ('available', 'away'));
+ALTER TABLE profiles ADD COLUMN max_open_tickets INT CHECK (max_open_tickets > 0); -- NULL = no cap
+
+-- Team assignment settings
+ALTER TABLE teams ADD COLUMN auto_assign BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE teams ADD COLUMN assignment_strategy TEXT NOT NULL DEFAULT 'round_robin'
+    CHECK (assignment_strategy IN ('round_robin', 'least_open'));
+ALTER TABLE teams ADD COLUMN is_default BOOLEAN NOT NULL DEFAULT FALSE; -- Takes tickets with no team
+ALTER TABLE teams ADD COLUMN last_assigned_agent_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_teams_one_default ON teams(is_default) WHERE is_default = TRUE;
+
+CREATE INDEX idx_tickets_agent_open ON tickets(assigned_agent_id) WHERE status = 'open';
+
+-- Admins manage other users' team, capacity and availability
+CREATE POLICY "Admins can update profiles" ON profiles
+    FOR UPDATE TO authenticated USING (get_user_role() = 'admin');
+
+-- ==============================================
+-- Assign one ticket from the pool
+-- ==============================================
+-- Returns the chosen agent, or NULL when the ticket is already assigned,
+-- its team doesn't auto-assign, or nobody in the team has capacity.
+CREATE OR REPLACE FUNCTION auto_assign_ticket(p_ticket_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_ticket tickets%ROWTYPE;
+    v_team teams%ROWTYPE;
+    v_agent_id UUID;
+    v_agent_name TEXT;
+    v_open_count BIGINT;
+BEGIN
+    SELECT * INTO v_ticket FROM tickets WHERE id = p_ticket_id;
+
+    IF NOT FOUND OR v_ticket.assigned_agent_id IS NOT NULL OR v_ticket.status = 'closed' THEN
+        RETURN NULL;
+    END IF;
+
+    -- Lock the team row so concurrent assignments take turns
+    IF v_ticket.assigned_team_id IS NOT NULL THEN
+        SELECT * INTO v_team FROM teams WHERE id = v_ticket.assigned_team_id FOR UPDATE;
+    ELSE
+        SELECT * INTO v_team FROM teams WHERE is_default = TRUE FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND OR NOT v_team.auto_assign THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT c.id, c.full_name, c.open_count
+    INTO v_agent_id, v_agent_name, v_open_count
+    FROM (
+        SELECT
+            p.id,
+            p.full_name,
+            p.max_open_tickets,
+            (SELECT COUNT(*) FROM tickets t
+                WHERE t.assigned_agent_id = p.id AND t.status = 'open') AS open_count
+        FROM profiles p
+        WHERE p.team_id = v_team.id
+            AND p.is_active = TRUE
+            AND p.role IN ('admin', 'agent')
+            AND p.availability = 'available'
+    ) c
+    WHERE c.max_open_tickets IS NULL OR c.open_count < c.max_open_tickets
+    ORDER BY
+        -- Least open: fewest open tickets first
+        CASE WHEN v_team.assignment_strategy = 'least_open' THEN c.open_count ELSE 0 END,
+        -- Round-robin: the next agent after the last one picked, wrapping around
+        CASE
+            WHEN v_team.assignment_strategy = 'round_robin'
+                AND v_team.last_assigned_agent_id IS NOT NULL
+                AND c.id <= v_team.last_assigned_agent_id
+            THEN 1 ELSE 0
+        END,
+        c.id
+    LIMIT 1;
+
+    IF v_agent_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE tickets
+    SET assigned_agent_id = v_agent_id, assigned_team_id = v_team.id
+    WHERE id = p_ticket_id AND assigned_agent_id IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE teams SET last_assigned_agent_id = v_agent_id WHERE id = v_team.id;
+
+    INSERT INTO ticket_activities (ticket_id, actor_id, action, new_value, metadata)
+    VALUES (
+        p_ticket_id,
+        NULL,
+        'auto_assigned',
+        v_agent_id::TEXT,
+        jsonb_build_object(
+            'strategy', v_team.assignment_strategy,
+            'team_id', v_team.id,
+            'team_name', v_team.name,
+            'agent_name', v_agent_name,
+            'open_tickets', v_open_count
+        )
+    );
+
+    RETURN v_agent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION auto_assign_ticket TO authenticated;
+
+-- ==============================================
+-- Hand an agent's open tickets back to the pool
+-- ==============================================
+-- Each open or pending ticket is unassigned and then offered to the rest
+-- of its team, so a customer's reply doesn't wait for an away agent.
+-- Returns how many tickets were released.
+CREATE OR REPLACE FUNCTION release_agent_tickets(p_agent_id UUID, p_reason TEXT)
+RETURNS INT AS $$
+DECLARE
+    v_ticket_id UUID;
+    v_count INT := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> p_agent_id AND get_user_role() <> 'admin' THEN
+        RAISE EXCEPTION 'Not allowed to release tickets for another agent';
+    END IF;
+
+    FOR v_ticket_id IN
+        SELECT id FROM tickets
+        WHERE assigned_agent_id = p_agent_id AND status IN ('open', 'pending')
+        ORDER BY created_at
+    LOOP
+        UPDATE tickets SET assigned_agent_id = NULL WHERE id = v_ticket_id;
+
+        INSERT INTO ticket_activities (ticket_id, actor_id, action, old_value, metadata)
+        VALUES (
+            v_ticket_id,
+            auth.uid(),
+            'returned_to_pool',
+            p_agent_id::TEXT,
+            jsonb_build_object('reason', p_reason)
+        );
+
+        PERFORM auto_assign_ticket(v_ticket_id);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION release_agent_tickets TO authenticated;
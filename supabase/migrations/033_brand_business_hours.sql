@@ -0,0 +1,15 @@
+-- Brand Business Hours Migration
+-- ==============================================
+-- Each brand can point at a business-hours calendar (timezone, weekly hours
+-- and holidays; calendars are managed alongside SLA policies). Inbound email
+-- that arrives while the brand is closed can get an automatic reply stating
+-- when the team will be back (see src/lib/out-of-hours.ts). Reports use the
+-- same calendar to count business minutes only.
+
+ALTER TABLE brands ADD COLUMN calendar_id UUID REFERENCES business_calendars(id) ON DELETE SET NULL; -- NULL = 24/7
+ALTER TABLE brands ADD COLUMN out_of_hours_reply_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE brands ADD COLUMN out_of_hours_reply_message TEXT; -- NULL = default wording
+
+-- When the customer was last told the brand is closed, so one closed
+-- period only produces one auto-reply per ticket
+ALTER TABLE tickets ADD COLUMN out_of_hours_replied_at TIMESTAMPTZ;
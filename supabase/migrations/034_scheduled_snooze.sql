@@ -0,0 +1,131 @@
+-- Scheduled Snooze Migration
+-- ==============================================
+-- Tickets can be snoozed until any date and time, or until the customer
+-- next replies, with an optional note saying why. Expired snoozes are woken
+-- by a scheduled job instead of by whichever browser happens to be open, and
+-- the ticket's owner is notified with who snoozed it and why.
+
+ALTER TABLE tickets ADD COLUMN snooze_until_reply BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE tickets ADD COLUMN snooze_reason TEXT;
+
+CREATE INDEX idx_tickets_snooze_until_reply ON tickets(assigned_agent_id) WHERE snooze_until_reply = TRUE;
+
+COMMENT ON COLUMN tickets.snooze_until_reply IS 'Snoozed with no end time; woken by the next customer message';
+
+-- ==============================================
+-- Wake one snoozed ticket
+-- ==============================================
+-- p_trigger is 'expired' or 'customer_replied'. Reopens the ticket, clears
+-- the snooze, logs an activity and notifies the owner (the assignee, or
+-- whoever snoozed it). Returns FALSE when the ticket wasn't snoozed.
+CREATE OR REPLACE FUNCTION wake_snoozed_ticket(p_ticket_id UUID, p_trigger TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_ticket tickets%ROWTYPE;
+    v_owner_id UUID;
+    v_snoozer_name TEXT;
+    v_note TEXT;
+BEGIN
+    SELECT * INTO v_ticket FROM tickets WHERE id = p_ticket_id FOR UPDATE;
+
+    IF NOT FOUND OR (v_ticket.snoozed_until IS NULL AND NOT v_ticket.snooze_until_reply) THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE tickets
+    SET status = CASE WHEN status = 'closed' THEN status ELSE 'open' END,
+        snoozed_until = NULL,
+        snoozed_by = NULL,
+        snooze_until_reply = FALSE,
+        snooze_reason = NULL
+    WHERE id = p_ticket_id;
+
+    SELECT COALESCE(full_name, email) INTO v_snoozer_name
+    FROM profiles WHERE id = v_ticket.snoozed_by;
+
+    INSERT INTO ticket_activities (ticket_id, actor_id, action, old_value, metadata)
+    VALUES (
+        p_ticket_id,
+        NULL,
+        'unsnoozed',
+        v_ticket.snoozed_until::TEXT,
+        jsonb_build_object(
+            'trigger', p_trigger,
+            'snoozed_by', v_ticket.snoozed_by,
+            'snoozed_by_name', v_snoozer_name,
+            'reason', v_ticket.snooze_reason
+        )
+    );
+
+    v_owner_id := COALESCE(v_ticket.assigned_agent_id, v_ticket.snoozed_by);
+
+    IF v_owner_id IS NOT NULL THEN
+        v_note := 'Snoozed by ' || COALESCE(v_snoozer_name, 'a former agent') ||
+            CASE
+                WHEN v_ticket.snooze_reason IS NOT NULL THEN ': ' || v_ticket.snooze_reason
+                ELSE ' (no reason given)'
+            END;
+
+        IF p_trigger = 'customer_replied' THEN
+            PERFORM create_notification(
+                v_owner_id,
+                'snooze_expired',
+                'Customer replied to snoozed ticket',
+                'Ticket #' || v_ticket.ticket_number || ' received a new message from the customer. ' || v_note,
+                p_ticket_id
+            );
+        ELSE
+            PERFORM create_notification(
+                v_owner_id,
+                'snooze_expired',
+                'Snoozed ticket is back',
+                'Ticket #' || v_ticket.ticket_number || ' "' || LEFT(v_ticket.subject, 50) ||
+                    CASE WHEN LENGTH(v_ticket.subject) > 50 THEN '...' ELSE '' END ||
+                    '" is back in your inbox. ' || v_note,
+                p_ticket_id
+            );
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION wake_snoozed_ticket TO authenticated;
+
+-- ==============================================
+-- Wake every ticket whose snooze has run out
+-- ==============================================
+CREATE OR REPLACE FUNCTION unsnooze_expired_tickets()
+RETURNS TABLE (
+    ticket_id UUID,
+    ticket_number INT
+) AS $$
+DECLARE
+    v_ticket RECORD;
+BEGIN
+    FOR v_ticket IN
+        SELECT t.id, t.ticket_number
+        FROM tickets t
+        WHERE t.snoozed_until IS NOT NULL
+            AND t.snoozed_until <= NOW()
+            AND t.status IN ('open', 'pending')
+        ORDER BY t.snoozed_until
+    LOOP
+        IF wake_snoozed_ticket(v_ticket.id, 'expired') THEN
+            ticket_id := v_ticket.id;
+            ticket_number := v_ticket.ticket_number;
+            RETURN NEXT;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check for expired snoozes every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'unsnooze-expired-tickets',
+    '* * * * *',
+    $$SELECT unsnooze_expired_tickets()$$
+);
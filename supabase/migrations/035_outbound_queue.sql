@@ -0,0 +1,61 @@
+-- Outbound Reply Queue Migration
+-- ==============================================
+-- Agent replies no longer go out the moment they are submitted. Each reply
+-- is queued here, either for the agent's undo window (5-30 seconds) or for
+-- a time they picked. Until it is delivered it can be edited, rescheduled or
+-- cancelled. A scheduled job calls /api/outbound/send to deliver due replies
+-- (see src/lib/outbound.ts), retrying with backoff when SendGrid fails.
+
+-- Per-agent undo window
+ALTER TABLE profiles ADD COLUMN undo_send_seconds INT NOT NULL DEFAULT 10
+    CHECK (undo_send_seconds BETWEEN 5 AND 30);
+
+CREATE TABLE outbound_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    attachments JSONB NOT NULL DEFAULT '[]',
+    action TEXT NOT NULL DEFAULT 'send'
+        CHECK (action IN ('send', 'send-close', 'send-snooze')),
+    snooze JSONB, -- {"until": ..., "reason": ...} when action = 'send-snooze'
+    send_at TIMESTAMPTZ NOT NULL,
+    is_scheduled BOOLEAN NOT NULL DEFAULT FALSE, -- Picked time rather than the undo window
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL, -- The delivered message
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_outbound_messages_due ON outbound_messages(send_at) WHERE status = 'queued';
+CREATE INDEX idx_outbound_messages_ticket ON outbound_messages(ticket_id, send_at)
+    WHERE status IN ('queued', 'sending', 'failed');
+
+CREATE TRIGGER update_outbound_messages_updated_at BEFORE UPDATE ON outbound_messages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: staff see every queued reply; agents queue their own and can change
+-- their own (admins can change anyone's). The send job uses the service role.
+ALTER TABLE outbound_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view outbound messages" ON outbound_messages
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents can queue their own replies" ON outbound_messages
+    FOR INSERT TO authenticated
+    WITH CHECK (author_id = auth.uid() AND get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Authors and admins can update outbound messages" ON outbound_messages
+    FOR UPDATE TO authenticated
+    USING (author_id = auth.uid() OR get_user_role() = 'admin');
+
+-- Tell the author when a reply couldn't be delivered
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'reply_failed';
+
+-- Show queued replies on open tickets as they change
+ALTER PUBLICATION supabase_realtime ADD TABLE outbound_messages;
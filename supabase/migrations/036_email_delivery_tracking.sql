@@ -0,0 +1,26 @@
+-- Email Delivery Tracking Migration
+-- ==============================================
+-- Every reply we email carries our own message ID as a SendGrid custom arg.
+-- The SendGrid event webhook (/api/email/events) uses it to find the
+-- message and record whether the email was delivered, deferred, bounced,
+-- dropped or reported as spam. A hard bounce marks the customer's email
+-- address as invalid and tells the ticket owner.
+
+ALTER TABLE messages ADD COLUMN email_message_id TEXT; -- Our ID sent as the SendGrid custom arg
+ALTER TABLE messages ADD COLUMN delivery_status TEXT
+    CHECK (delivery_status IN ('sent', 'delivered', 'deferred', 'bounced', 'dropped', 'spam_reported'));
+ALTER TABLE messages ADD COLUMN delivery_status_at TIMESTAMPTZ; -- When SendGrid reported the status
+ALTER TABLE messages ADD COLUMN delivery_error TEXT; -- Bounce or drop reason from SendGrid
+
+CREATE UNIQUE INDEX idx_messages_email_message_id ON messages(email_message_id)
+    WHERE email_message_id IS NOT NULL;
+
+ALTER TABLE customers ADD COLUMN email_invalid BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE customers ADD COLUMN email_invalid_reason TEXT;
+ALTER TABLE customers ADD COLUMN email_invalid_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN customers.email_invalid IS 'Set when an email to this address hard bounced';
+
+-- Tell the ticket owner when a reply bounces
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'email_bounced';
+
@@ -0,0 +1,39 @@
+-- Shopify Order Cache Migration
+-- ==============================================
+-- Recent Shopify orders are kept here so the order history sidebar and AI
+-- suggested replies don't call Shopify on every ticket open. The first time
+-- a customer's orders are needed they are fetched live and stored; after
+-- that the Shopify webhook (/api/shopify/webhooks) keeps the cache and the
+-- customer's order count, lifetime value and location up to date.
+
+CREATE TABLE shopify_orders (
+    id BIGINT PRIMARY KEY, -- Shopify order ID
+    customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+    shopify_customer_id TEXT,
+    email TEXT, -- Lowercased order email
+    order_data JSONB NOT NULL, -- The order as returned by the Shopify Admin API
+    shopify_created_at TIMESTAMPTZ NOT NULL,
+    shopify_updated_at TIMESTAMPTZ, -- Older webhook deliveries than this are ignored
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_shopify_orders_customer ON shopify_orders(customer_id, shopify_created_at DESC);
+CREATE INDEX idx_shopify_orders_email ON shopify_orders(email, shopify_created_at DESC);
+
+CREATE TRIGGER update_shopify_orders_updated_at BEFORE UPDATE ON shopify_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Set once a customer's full order list has been loaded from Shopify.
+-- Until then the cache may be missing their older orders.
+ALTER TABLE customers ADD COLUMN shopify_synced_at TIMESTAMPTZ;
+
+ALTER TABLE shopify_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view cached orders" ON shopify_orders
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can cache orders" ON shopify_orders
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
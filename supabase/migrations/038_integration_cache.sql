@@ -0,0 +1,46 @@
+-- Integration Cache Migration
+-- ==============================================
+-- Shopify and ReturnLogic lookups for a customer are cached here by email
+-- (see src/lib/integration-cache.ts). Each source has its own TTL; an
+-- expired entry is still served while it is refreshed in the background.
+-- When a source keeps failing its circuit opens: calls stop for a while
+-- and the sidebar shows the last known data marked as stale.
+
+CREATE TABLE integration_cache (
+    source TEXT NOT NULL CHECK (source IN ('shopify', 'returnlogic')),
+    cache_key TEXT NOT NULL, -- Lowercased customer email
+    data JSONB NOT NULL,
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    needs_refresh BOOLEAN NOT NULL DEFAULT FALSE, -- Set when we changed the data ourselves
+    refreshing_at TIMESTAMPTZ, -- Background refresh in progress since
+    PRIMARY KEY (source, cache_key)
+);
+
+-- Circuit breaker state, shared by every server instance. Kept per scope
+-- (a Shopify store's domain) so one broken store doesn't cut off the others;
+-- '' for sources with a single account.
+CREATE TABLE integration_health (
+    source TEXT NOT NULL CHECK (source IN ('shopify', 'returnlogic')),
+    scope TEXT NOT NULL DEFAULT '',
+    consecutive_failures INT NOT NULL DEFAULT 0,
+    open_until TIMESTAMPTZ, -- No calls are made to the source before this
+    last_error TEXT,
+    last_failure_at TIMESTAMPTZ,
+    last_success_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (source, scope)
+);
+
+CREATE TRIGGER update_integration_health_updated_at BEFORE UPDATE ON integration_health
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE integration_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integration_health ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can manage the integration cache" ON integration_cache
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can manage integration health" ON integration_health
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
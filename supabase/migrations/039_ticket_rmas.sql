@@ -0,0 +1,41 @@
+-- Ticket RMAs Migration
+-- ==============================================
+-- Returns started from a ticket are linked to it here. A scheduled job
+-- (/api/returns/sync) checks Return Logic for status changes on open RMAs
+-- and records each one in the ticket's activity log.
+
+CREATE TABLE ticket_rmas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    rma_id TEXT NOT NULL, -- Return Logic RMA ID
+    rma_number TEXT NOT NULL,
+    order_id BIGINT NOT NULL, -- Shopify order ID
+    order_name TEXT NOT NULL,
+    return_type TEXT NOT NULL CHECK (return_type IN ('refund', 'exchange', 'store_credit')),
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL, -- Last status seen, normalized as in src/lib/returnlogic.ts
+    label_url TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    status_checked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (ticket_id, rma_id)
+);
+
+CREATE INDEX idx_ticket_rmas_ticket ON ticket_rmas(ticket_id);
+-- RMAs still worth checking for status changes
+CREATE INDEX idx_ticket_rmas_open ON ticket_rmas(status_checked_at NULLS FIRST)
+    WHERE status NOT IN ('complete', 'canceled', 'abandoned', 'rejected');
+
+CREATE TRIGGER update_ticket_rmas_updated_at BEFORE UPDATE ON ticket_rmas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE ticket_rmas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view ticket RMAs" ON ticket_rmas
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can link RMAs to tickets" ON ticket_rmas
+    FOR INSERT TO authenticated
+    WITH CHECK (get_user_role() IN ('admin', 'agent'));
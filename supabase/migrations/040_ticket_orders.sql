@@ -0,0 +1,47 @@
+-- Linked Orders Migration
+-- ==============================================
+-- Inbound emails are scanned for order numbers ("#1234", "order 1234") and
+-- tracking numbers. Each one that matches a Shopify order is linked to the
+-- ticket here (see src/lib/order-linking.ts), shown in the ticket sidebar
+-- and pinned in AI suggested replies. Status columns are copied from the
+-- order so the ticket list can filter on them; Shopify webhooks keep them
+-- current.
+
+CREATE TABLE ticket_orders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    shopify_order_id BIGINT NOT NULL,
+    order_name TEXT NOT NULL, -- e.g. "#1234"
+    order_email TEXT,
+    -- The order's email is the ticket customer's. Orders found by someone
+    -- else's number are shown to agents but kept out of AI replies.
+    email_matches BOOLEAN NOT NULL DEFAULT FALSE,
+    matched_by TEXT NOT NULL CHECK (matched_by IN ('order_number', 'tracking_number')),
+    matched_value TEXT NOT NULL, -- The text found in the email
+    financial_status TEXT,
+    fulfillment_status TEXT NOT NULL DEFAULT 'unfulfilled', -- Shopify's, with 'unfulfilled' for none
+    cancelled BOOLEAN NOT NULL DEFAULT FALSE,
+    tracking_number TEXT,
+    tracking_url TEXT,
+    order_created_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (ticket_id, shopify_order_id)
+);
+
+CREATE INDEX idx_ticket_orders_ticket ON ticket_orders(ticket_id);
+CREATE INDEX idx_ticket_orders_order ON ticket_orders(shopify_order_id);
+CREATE INDEX idx_ticket_orders_fulfillment ON ticket_orders(fulfillment_status);
+
+CREATE TRIGGER update_ticket_orders_updated_at BEFORE UPDATE ON ticket_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE ticket_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view linked orders" ON ticket_orders
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can manage linked orders" ON ticket_orders
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
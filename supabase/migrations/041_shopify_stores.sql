@@ -0,0 +1,78 @@
+-- Shopify Stores Migration
+-- ==============================================
+-- Each brand can connect its own Shopify store on Settings > Shopify Stores.
+-- Credentials are only readable by admins; the app loads them with the
+-- service role (src/lib/shopify-stores.ts). The store set in the SHOPIFY_*
+-- env vars is still used until a store is connected here.
+--
+-- Cached orders and each customer's Shopify account are now kept per store,
+-- identified by the store's myshopify.com domain. The existing order cache
+-- doesn't record which store its orders came from, so it is cleared and
+-- reloaded on next use.
+
+CREATE TABLE shopify_stores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    brand_id UUID NOT NULL UNIQUE REFERENCES brands(id) ON DELETE CASCADE,
+    shop_domain TEXT NOT NULL UNIQUE, -- e.g. "example.myshopify.com"
+    client_id TEXT NOT NULL,
+    client_secret TEXT NOT NULL,
+    webhook_secret TEXT, -- Signs the store's webhooks; cached orders are only trusted when set
+    verified_at TIMESTAMPTZ, -- Last successful connection test
+    last_error TEXT, -- Error from the last failed connection test
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_shopify_stores_updated_at BEFORE UPDATE ON shopify_stores
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE shopify_stores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage Shopify stores" ON shopify_stores
+    FOR ALL TO authenticated
+    USING (get_user_role() = 'admin');
+
+-- A customer's account in each store. The customer's order count and
+-- lifetime value are the totals across their accounts.
+CREATE TABLE customer_shopify_accounts (
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    shop_domain TEXT NOT NULL,
+    shopify_customer_id TEXT, -- Null when they have no account in the store
+    order_count INTEGER NOT NULL DEFAULT 0,
+    total_spent DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    synced_at TIMESTAMPTZ, -- Their full order list from this store has been cached
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (customer_id, shop_domain)
+);
+
+CREATE INDEX idx_customer_shopify_accounts_shopify_id ON customer_shopify_accounts(shopify_customer_id)
+    WHERE shopify_customer_id IS NOT NULL;
+
+CREATE TRIGGER update_customer_shopify_accounts_updated_at BEFORE UPDATE ON customer_shopify_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customer_shopify_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view Shopify accounts" ON customer_shopify_accounts
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can sync Shopify accounts" ON customer_shopify_accounts
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+-- Sync state moves to customer_shopify_accounts
+ALTER TABLE customers DROP COLUMN shopify_synced_at;
+
+DELETE FROM shopify_orders;
+DELETE FROM integration_cache WHERE source = 'shopify';
+
+ALTER TABLE shopify_orders ADD COLUMN shop_domain TEXT NOT NULL;
+
+DROP INDEX idx_shopify_orders_customer;
+CREATE INDEX idx_shopify_orders_customer ON shopify_orders(customer_id, shop_domain, shopify_created_at DESC);
+
+-- Null for orders linked before stores were set per brand, which came from
+-- the env var store
+ALTER TABLE ticket_orders ADD COLUMN shop_domain TEXT;
@@ -0,0 +1,269 @@
+-- Customer Merge Migration
+-- ==============================================
+-- Customers get duplicated when they write from a second address or when an
+-- import creates a near-duplicate. Possible duplicates are found by matching
+-- name, phone, Shopify customer ID and normalised email, and an agent can
+-- merge one into the other from the customer's page. The merged customer's
+-- tickets, notes, surveys and Shopify data move to the surviving record,
+-- their email is kept as an alias so inbound email still finds the right
+-- customer, and each merge is recorded in customer_merges.
+
+-- ==============================================
+-- Email aliases
+-- ==============================================
+CREATE TABLE customer_emails (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    email TEXT NOT NULL UNIQUE, -- Lowercased
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_emails_customer ON customer_emails(customer_id);
+
+ALTER TABLE customer_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view customer emails" ON customer_emails
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can manage customer emails" ON customer_emails
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+-- ==============================================
+-- Merge audit log
+-- ==============================================
+CREATE TABLE customer_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL, -- The surviving customer
+    merged_customer_id UUID NOT NULL, -- Deleted by the merge, so not a foreign key
+    merged_email TEXT NOT NULL,
+    merged_customer JSONB NOT NULL, -- The merged customer's row as it was
+    tickets_moved INTEGER NOT NULL DEFAULT 0,
+    notes_moved INTEGER NOT NULL DEFAULT 0,
+    merged_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_merges_customer ON customer_merges(customer_id, created_at DESC);
+
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view customer merges" ON customer_merges
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+-- ==============================================
+-- Matching keys
+-- ==============================================
+-- Lowercased, without "+tag" plus-addressing, and for Gmail without dots
+-- ("Jane.Doe+shop@googlemail.com" is "janedoe@gmail.com")
+CREATE OR REPLACE FUNCTION normalize_email(p_email TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_local TEXT := split_part(LOWER(TRIM(p_email)), '@', 1);
+    v_domain TEXT := split_part(LOWER(TRIM(p_email)), '@', 2);
+BEGIN
+    v_local := split_part(v_local, '+', 1);
+
+    IF v_domain IN ('gmail.com', 'googlemail.com') THEN
+        v_local := REPLACE(v_local, '.', '');
+        v_domain := 'gmail.com';
+    END IF;
+
+    RETURN v_local || '@' || v_domain;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The last 10 digits, so "+1 (555) 010-0199" matches "555.010.0199".
+-- Null when there are too few digits to be a phone number.
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN LENGTH(regexp_replace(p_phone, '\D', '', 'g')) >= 7
+            THEN RIGHT(regexp_replace(p_phone, '\D', '', 'g'), 10)
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_customers_email_key ON customers(normalize_email(email));
+CREATE INDEX idx_customers_phone_key ON customers(normalize_phone(phone)) WHERE phone IS NOT NULL;
+CREATE INDEX idx_customers_name_key ON customers(LOWER(TRIM(full_name))) WHERE full_name IS NOT NULL;
+
+-- ==============================================
+-- Find possible duplicates of a customer
+-- ==============================================
+-- Returns other customers sharing a normalised email, phone, Shopify
+-- customer ID or full name, with which of those matched
+CREATE OR REPLACE FUNCTION find_duplicate_customers(p_customer_id UUID)
+RETURNS TABLE (
+    id UUID,
+    email TEXT,
+    full_name TEXT,
+    phone TEXT,
+    created_at TIMESTAMPTZ,
+    ticket_count BIGINT,
+    match_reasons TEXT[]
+) AS $$
+BEGIN
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('admin', 'agent') THEN
+        RAISE EXCEPTION 'Only agents and admins can look up duplicate customers';
+    END IF;
+
+    RETURN QUERY
+    WITH target AS (
+        SELECT
+            c.id,
+            normalize_email(c.email) AS email_key,
+            normalize_phone(c.phone) AS phone_key,
+            NULLIF(LOWER(TRIM(c.full_name)), '') AS name_key,
+            c.shopify_customer_id
+        FROM customers c
+        WHERE c.id = p_customer_id
+    ),
+    candidates AS (
+        SELECT
+            c.*,
+            ARRAY_REMOVE(ARRAY[
+                CASE WHEN normalize_email(c.email) = t.email_key THEN 'email' END,
+                CASE WHEN normalize_phone(c.phone) = t.phone_key THEN 'phone' END,
+                CASE
+                    WHEN c.shopify_customer_id = t.shopify_customer_id
+                        OR EXISTS (
+                            SELECT 1
+                            FROM customer_shopify_accounts a
+                            JOIN customer_shopify_accounts b
+                                ON b.shop_domain = a.shop_domain
+                                AND b.shopify_customer_id = a.shopify_customer_id
+                            WHERE a.customer_id = c.id AND b.customer_id = t.id
+                        )
+                    THEN 'shopify'
+                END,
+                CASE WHEN LOWER(TRIM(c.full_name)) = t.name_key THEN 'name' END
+            ], NULL) AS reasons
+        FROM customers c
+        CROSS JOIN target t
+        WHERE c.id <> t.id
+    )
+    SELECT
+        d.id,
+        d.email,
+        d.full_name,
+        d.phone,
+        d.created_at,
+        (SELECT COUNT(*) FROM tickets tk WHERE tk.customer_id = d.id),
+        d.reasons
+    FROM candidates d
+    WHERE CARDINALITY(d.reasons) > 0
+    ORDER BY CARDINALITY(d.reasons) DESC, d.created_at
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION find_duplicate_customers FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_duplicate_customers TO authenticated;
+
+-- ==============================================
+-- Merge one customer into another
+-- ==============================================
+-- Moves everything from p_source_id to p_target_id and deletes the source.
+-- The target's own details win; the source only fills in what's missing,
+-- and its metadata keys are kept where the target doesn't have them.
+-- Returns the customer_merges row ID.
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id UUID, p_target_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_source customers%ROWTYPE;
+    v_target customers%ROWTYPE;
+    v_tickets_moved INTEGER;
+    v_notes_moved INTEGER;
+    v_merge_id UUID;
+BEGIN
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('admin', 'agent') THEN
+        RAISE EXCEPTION 'Only agents and admins can merge customers';
+    END IF;
+
+    IF p_source_id = p_target_id THEN
+        RAISE EXCEPTION 'Cannot merge a customer into itself';
+    END IF;
+
+    SELECT * INTO v_source FROM customers WHERE id = p_source_id FOR UPDATE;
+    SELECT * INTO v_target FROM customers WHERE id = p_target_id FOR UPDATE;
+
+    IF v_source.id IS NULL OR v_target.id IS NULL THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    UPDATE tickets SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    GET DIAGNOSTICS v_tickets_moved = ROW_COUNT;
+
+    UPDATE customer_notes SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    GET DIAGNOSTICS v_notes_moved = ROW_COUNT;
+
+    UPDATE messages SET sender_id = p_target_id
+    WHERE sender_type = 'customer' AND sender_id = p_source_id;
+
+    UPDATE csat_surveys SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    UPDATE shopify_orders SET customer_id = p_target_id WHERE customer_id = p_source_id;
+
+    -- Keep the target's account where both have one in the same store
+    UPDATE customer_shopify_accounts a SET customer_id = p_target_id
+    WHERE a.customer_id = p_source_id
+        AND NOT EXISTS (
+            SELECT 1 FROM customer_shopify_accounts b
+            WHERE b.customer_id = p_target_id AND b.shop_domain = a.shop_domain
+        );
+
+    UPDATE customer_emails SET customer_id = p_target_id WHERE customer_id = p_source_id;
+
+    -- The source row goes before its email becomes an alias of the target
+    DELETE FROM customers WHERE id = p_source_id;
+
+    INSERT INTO customer_emails (customer_id, email)
+    VALUES (p_target_id, LOWER(v_source.email))
+    ON CONFLICT (email) DO UPDATE SET customer_id = EXCLUDED.customer_id;
+
+    UPDATE customers c
+    SET full_name = COALESCE(c.full_name, v_source.full_name),
+        phone = COALESCE(c.phone, v_source.phone),
+        avatar_url = COALESCE(c.avatar_url, v_source.avatar_url),
+        city = COALESCE(c.city, v_source.city),
+        state = COALESCE(c.state, v_source.state),
+        country = COALESCE(c.country, v_source.country),
+        shopify_customer_id = COALESCE(c.shopify_customer_id, v_source.shopify_customer_id),
+        metadata = COALESCE(v_source.metadata, '{}'::JSONB) || COALESCE(c.metadata, '{}'::JSONB),
+        order_count = COALESCE(
+            (SELECT SUM(a.order_count) FROM customer_shopify_accounts a WHERE a.customer_id = p_target_id),
+            GREATEST(c.order_count, v_source.order_count)
+        ),
+        lifetime_value = COALESCE(
+            (SELECT SUM(a.total_spent) FROM customer_shopify_accounts a WHERE a.customer_id = p_target_id),
+            GREATEST(c.lifetime_value, v_source.lifetime_value)
+        )
+    WHERE c.id = p_target_id;
+
+    INSERT INTO customer_merges (
+        customer_id,
+        merged_customer_id,
+        merged_email,
+        merged_customer,
+        tickets_moved,
+        notes_moved,
+        merged_by
+    )
+    VALUES (
+        p_target_id,
+        p_source_id,
+        v_source.email,
+        to_jsonb(v_source),
+        v_tickets_moved,
+        v_notes_moved,
+        auth.uid()
+    )
+    RETURNING id INTO v_merge_id;
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION merge_customers FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_customers TO authenticated;
@@ -0,0 +1,185 @@
+-- Customer Identities Migration
+-- ==============================================
+-- A customer can have several email addresses, phone numbers and Facebook
+-- or Instagram IDs. Inbound email, new tickets and the importer find the
+-- customer through any of them. One email and one phone can be marked
+-- primary; customers.email and customers.phone always hold the primary
+-- ones, so outbound replies go to the primary email.
+--
+-- Replaces customer_emails, the merged customers' addresses, which become
+-- non-primary email identities.
+
+CREATE TABLE customer_identities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('email', 'phone', 'facebook', 'instagram')),
+    value TEXT NOT NULL, -- Emails are lowercased
+    is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (type, value)
+);
+
+CREATE INDEX idx_customer_identities_customer ON customer_identities(customer_id);
+CREATE UNIQUE INDEX idx_customer_identities_primary ON customer_identities(customer_id, type)
+    WHERE is_primary = TRUE;
+
+ALTER TABLE customer_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view customer identities" ON customer_identities
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Agents and admins can manage customer identities" ON customer_identities
+    FOR ALL TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+INSERT INTO customer_identities (customer_id, type, value, is_primary)
+SELECT id, 'email', LOWER(email), TRUE FROM customers
+ON CONFLICT (type, value) DO NOTHING;
+
+INSERT INTO customer_identities (customer_id, type, value, is_primary)
+SELECT id, 'phone', TRIM(phone), TRUE FROM customers WHERE NULLIF(TRIM(phone), '') IS NOT NULL
+ON CONFLICT (type, value) DO NOTHING;
+
+INSERT INTO customer_identities (customer_id, type, value, created_at)
+SELECT customer_id, 'email', email, created_at FROM customer_emails
+ON CONFLICT (type, value) DO NOTHING;
+
+DROP TABLE customer_emails;
+
+-- ==============================================
+-- Keep identities in step with customers.email and customers.phone
+-- ==============================================
+-- Whatever sets a customer's email or phone (a new customer, the importer,
+-- marking an identity primary) makes it their primary identity of that type
+CREATE OR REPLACE FUNCTION sync_customer_primary_identities()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.email IS DISTINCT FROM OLD.email THEN
+        UPDATE customer_identities
+        SET is_primary = FALSE
+        WHERE customer_id = NEW.id AND type = 'email' AND value <> LOWER(NEW.email);
+
+        INSERT INTO customer_identities (customer_id, type, value, is_primary)
+        VALUES (NEW.id, 'email', LOWER(NEW.email), TRUE)
+        ON CONFLICT (type, value) DO UPDATE SET is_primary = TRUE
+        WHERE customer_identities.customer_id = NEW.id;
+    END IF;
+
+    IF (TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone)
+        AND NULLIF(TRIM(NEW.phone), '') IS NOT NULL THEN
+        UPDATE customer_identities
+        SET is_primary = FALSE
+        WHERE customer_id = NEW.id AND type = 'phone' AND value <> TRIM(NEW.phone);
+
+        INSERT INTO customer_identities (customer_id, type, value, is_primary)
+        VALUES (NEW.id, 'phone', TRIM(NEW.phone), TRUE)
+        ON CONFLICT (type, value) DO UPDATE SET is_primary = TRUE
+        WHERE customer_identities.customer_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_customer_primary_identities
+    AFTER INSERT OR UPDATE OF email, phone ON customers
+    FOR EACH ROW EXECUTE FUNCTION sync_customer_primary_identities();
+
+-- ==============================================
+-- Merge one customer into another
+-- ==============================================
+-- As before, but every identity of the merged customer moves to the target
+-- as a non-primary identity, in place of the customer_emails alias
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id UUID, p_target_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_source customers%ROWTYPE;
+    v_target customers%ROWTYPE;
+    v_tickets_moved INTEGER;
+    v_notes_moved INTEGER;
+    v_merge_id UUID;
+BEGIN
+    IF get_user_role() NOT IN ('admin', 'agent') THEN
+        RAISE EXCEPTION 'Only agents and admins can merge customers';
+    END IF;
+
+    IF p_source_id = p_target_id THEN
+        RAISE EXCEPTION 'Cannot merge a customer into itself';
+    END IF;
+
+    SELECT * INTO v_source FROM customers WHERE id = p_source_id FOR UPDATE;
+    SELECT * INTO v_target FROM customers WHERE id = p_target_id FOR UPDATE;
+
+    IF v_source.id IS NULL OR v_target.id IS NULL THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+
+    UPDATE tickets SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    GET DIAGNOSTICS v_tickets_moved = ROW_COUNT;
+
+    UPDATE customer_notes SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    GET DIAGNOSTICS v_notes_moved = ROW_COUNT;
+
+    UPDATE messages SET sender_id = p_target_id
+    WHERE sender_type = 'customer' AND sender_id = p_source_id;
+
+    UPDATE csat_surveys SET customer_id = p_target_id WHERE customer_id = p_source_id;
+    UPDATE shopify_orders SET customer_id = p_target_id WHERE customer_id = p_source_id;
+
+    -- Keep the target's account where both have one in the same store
+    UPDATE customer_shopify_accounts a SET customer_id = p_target_id
+    WHERE a.customer_id = p_source_id
+        AND NOT EXISTS (
+            SELECT 1 FROM customer_shopify_accounts b
+            WHERE b.customer_id = p_target_id AND b.shop_domain = a.shop_domain
+        );
+
+    UPDATE customer_identities
+    SET customer_id = p_target_id, is_primary = FALSE
+    WHERE customer_id = p_source_id;
+
+    DELETE FROM customers WHERE id = p_source_id;
+
+    UPDATE customers c
+    SET full_name = COALESCE(c.full_name, v_source.full_name),
+        phone = COALESCE(c.phone, v_source.phone),
+        avatar_url = COALESCE(c.avatar_url, v_source.avatar_url),
+        city = COALESCE(c.city, v_source.city),
+        state = COALESCE(c.state, v_source.state),
+        country = COALESCE(c.country, v_source.country),
+        shopify_customer_id = COALESCE(c.shopify_customer_id, v_source.shopify_customer_id),
+        metadata = COALESCE(v_source.metadata, '{}'::JSONB) || COALESCE(c.metadata, '{}'::JSONB),
+        order_count = COALESCE(
+            (SELECT SUM(a.order_count) FROM customer_shopify_accounts a WHERE a.customer_id = p_target_id),
+            GREATEST(c.order_count, v_source.order_count)
+        ),
+        lifetime_value = COALESCE(
+            (SELECT SUM(a.total_spent) FROM customer_shopify_accounts a WHERE a.customer_id = p_target_id),
+            GREATEST(c.lifetime_value, v_source.lifetime_value)
+        )
+    WHERE c.id = p_target_id;
+
+    INSERT INTO customer_merges (
+        customer_id,
+        merged_customer_id,
+        merged_email,
+        merged_customer,
+        tickets_moved,
+        notes_moved,
+        merged_by
+    )
+    VALUES (
+        p_target_id,
+        p_source_id,
+        v_source.email,
+        to_jsonb(v_source),
+        v_tickets_moved,
+        v_notes_moved,
+        auth.uid()
+    )
+    RETURNING id INTO v_merge_id;
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,245 @@
+-- Customer Segments Migration
+-- ==============================================
+-- Admins define saved segments such as "VIP: lifetime value at least $1000".
+-- A customer is in a segment when they meet every criterion it sets:
+-- lifetime value, order count, country, a ticket with one of its tags, or a
+-- note mentioning one of its keywords. Membership is kept up to date in
+-- customer_segment_members by triggers, so ticket lists can show and filter
+-- by it cheaply, and priority and automation rules can match on it.
+
+CREATE TABLE customer_segments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    color TEXT NOT NULL DEFAULT '#8B5CF6',
+    description TEXT,
+    min_lifetime_value DECIMAL(10, 2),
+    min_order_count INTEGER,
+    countries TEXT[] NOT NULL DEFAULT '{}',
+    tag_ids UUID[] NOT NULL DEFAULT '{}',
+    note_keywords TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (
+        min_lifetime_value IS NOT NULL
+        OR min_order_count IS NOT NULL
+        OR cardinality(countries) > 0
+        OR cardinality(tag_ids) > 0
+        OR cardinality(note_keywords) > 0
+    )
+);
+
+CREATE TRIGGER update_customer_segments_updated_at
+    BEFORE UPDATE ON customer_segments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE customer_segment_members (
+    segment_id UUID NOT NULL REFERENCES customer_segments(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    PRIMARY KEY (segment_id, customer_id)
+);
+
+CREATE INDEX idx_customer_segment_members_customer ON customer_segment_members(customer_id);
+
+ALTER TABLE customer_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_segment_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view customer segments" ON customer_segments
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+CREATE POLICY "Admins can manage customer segments" ON customer_segments
+    FOR ALL TO authenticated
+    USING (get_user_role() = 'admin');
+
+-- Only the triggers below write memberships
+CREATE POLICY "Agents and admins can view customer segment members" ON customer_segment_members
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+-- ==============================================
+-- Membership
+-- ==============================================
+CREATE OR REPLACE FUNCTION customer_matches_segment(p_customer customers, p_segment customer_segments)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_segment.min_lifetime_value IS NOT NULL
+        AND COALESCE(p_customer.lifetime_value, 0) < p_segment.min_lifetime_value THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_segment.min_order_count IS NOT NULL
+        AND COALESCE(p_customer.order_count, 0) < p_segment.min_order_count THEN
+        RETURN FALSE;
+    END IF;
+
+    IF cardinality(p_segment.countries) > 0 AND NOT EXISTS (
+        SELECT 1 FROM unnest(p_segment.countries) AS country
+        WHERE LOWER(country) = LOWER(p_customer.country)
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF cardinality(p_segment.tag_ids) > 0 AND NOT EXISTS (
+        SELECT 1 FROM tickets t
+        JOIN ticket_tags tt ON tt.ticket_id = t.id
+        WHERE t.customer_id = p_customer.id
+        AND tt.tag_id = ANY (p_segment.tag_ids)
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF cardinality(p_segment.note_keywords) > 0 AND NOT EXISTS (
+        SELECT 1 FROM customer_notes n, unnest(p_segment.note_keywords) AS keyword
+        WHERE n.customer_id = p_customer.id
+        AND n.content ILIKE '%' || keyword || '%'
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Recompute which segments one customer is in
+CREATE OR REPLACE FUNCTION refresh_customer_segments(p_customer_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM customer_segment_members WHERE customer_id = p_customer_id;
+
+    INSERT INTO customer_segment_members (segment_id, customer_id)
+    SELECT s.id, c.id
+    FROM customers c, customer_segments s
+    WHERE c.id = p_customer_id
+    AND customer_matches_segment(c, s);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recompute every customer in one segment
+CREATE OR REPLACE FUNCTION refresh_segment_members(p_segment_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM customer_segment_members WHERE segment_id = p_segment_id;
+
+    INSERT INTO customer_segment_members (segment_id, customer_id)
+    SELECT s.id, c.id
+    FROM customer_segments s, customers c
+    WHERE s.id = p_segment_id
+    AND customer_matches_segment(c, s);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the triggers below call these
+REVOKE EXECUTE ON FUNCTION refresh_customer_segments FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_segment_members FROM PUBLIC, anon, authenticated;
+
+-- ==============================================
+-- Triggers keeping membership current
+-- ==============================================
+CREATE OR REPLACE FUNCTION refresh_members_on_segment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_segment_members(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_customer_segment_members
+    AFTER INSERT OR UPDATE OF min_lifetime_value, min_order_count, countries, tag_ids, note_keywords
+    ON customer_segments
+    FOR EACH ROW EXECUTE FUNCTION refresh_members_on_segment_change();
+
+CREATE OR REPLACE FUNCTION refresh_segments_on_customer_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_customer_segments(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_segments_on_customer_change
+    AFTER INSERT OR UPDATE OF lifetime_value, order_count, country
+    ON customers
+    FOR EACH ROW EXECUTE FUNCTION refresh_segments_on_customer_change();
+
+CREATE OR REPLACE FUNCTION refresh_segments_on_note_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_customer_segments(OLD.customer_id);
+    ELSE
+        PERFORM refresh_customer_segments(NEW.customer_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_segments_on_note_change
+    AFTER INSERT OR UPDATE OF content OR DELETE
+    ON customer_notes
+    FOR EACH ROW EXECUTE FUNCTION refresh_segments_on_note_change();
+
+CREATE OR REPLACE FUNCTION refresh_segments_on_ticket_tag_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_customer_id UUID;
+BEGIN
+    SELECT customer_id INTO v_customer_id
+    FROM tickets
+    WHERE id = COALESCE(NEW.ticket_id, OLD.ticket_id);
+
+    IF v_customer_id IS NOT NULL THEN
+        PERFORM refresh_customer_segments(v_customer_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_segments_on_ticket_tag_change
+    AFTER INSERT OR DELETE
+    ON ticket_tags
+    FOR EACH ROW EXECUTE FUNCTION refresh_segments_on_ticket_tag_change();
+
+-- Tickets move between customers when customers are merged
+CREATE OR REPLACE FUNCTION refresh_segments_on_ticket_customer_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.customer_id IS NOT NULL THEN
+        PERFORM refresh_customer_segments(OLD.customer_id);
+    END IF;
+    IF NEW.customer_id IS NOT NULL THEN
+        PERFORM refresh_customer_segments(NEW.customer_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_segments_on_ticket_customer_change
+    AFTER UPDATE OF customer_id
+    ON tickets
+    FOR EACH ROW
+    WHEN (OLD.customer_id IS DISTINCT FROM NEW.customer_id)
+    EXECUTE FUNCTION refresh_segments_on_ticket_customer_change();
+
+-- ==============================================
+-- Segment conditions on auto-priority rules
+-- ==============================================
+-- A rule can match on segments, keywords or both; it needs at least one
+ALTER TABLE auto_priority_rules ADD COLUMN segment_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Drop deleted segments from rules, and switch off rules left with nothing to match
+CREATE OR REPLACE FUNCTION remove_deleted_segment_from_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE auto_priority_rules
+    SET segment_ids = array_remove(segment_ids, OLD.id),
+        is_active = is_active AND (
+            cardinality(keywords) > 0 OR cardinality(array_remove(segment_ids, OLD.id)) > 0
+        )
+    WHERE OLD.id = ANY (segment_ids);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER remove_deleted_segment_from_rules
+    AFTER DELETE ON customer_segments
+    FOR EACH ROW EXECUTE FUNCTION remove_deleted_segment_from_rules();
@@ -0,0 +1,14 @@
+-- Email Recipients Migration
+-- ==============================================
+-- Messages keep who an email was addressed and copied to, so agents can see
+-- the other people on a thread and reply to all of them. Replies can carry
+-- their own CC list, and messages forwarded in by a colleague record who
+-- forwarded them, as the customer is taken from the forwarded email.
+
+ALTER TABLE messages ADD COLUMN to_emails TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE messages ADD COLUMN cc_emails TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE messages ADD COLUMN forwarded_by TEXT;
+
+COMMENT ON COLUMN messages.forwarded_by IS 'Email address of the colleague who forwarded this customer email to support';
+
+ALTER TABLE outbound_messages ADD COLUMN cc_emails TEXT[] NOT NULL DEFAULT '{}';
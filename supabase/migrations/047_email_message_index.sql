@@ -0,0 +1,117 @@
+-- Email Message Index Migration
+-- ==============================================
+-- Inbound replies were threaded by matching In-Reply-To/References against
+-- tickets.reference_id, which only holds one Message-ID per ticket, so a
+-- reply to any other email on the thread fell through to the customer's
+-- newest open ticket. Every Message-ID we receive or send is now indexed
+-- against its ticket. Brands also choose what a reply to a closed ticket
+-- does: reopen it, or start a new ticket.
+
+-- ==============================================
+-- Message-ID index
+-- ==============================================
+-- Message-IDs are stored without angle brackets and lowercased, so the
+-- same ID written slightly differently by two mail clients still matches
+CREATE OR REPLACE FUNCTION normalize_email_message_id(raw_id TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(LOWER(TRIM(BOTH '<> ' FROM raw_id)), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE email_message_ids (
+    id TEXT PRIMARY KEY CHECK (id = normalize_email_message_id(id)),
+    ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_message_ids_ticket ON email_message_ids(ticket_id);
+
+ALTER TABLE email_message_ids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents and admins can view email message IDs" ON email_message_ids
+    FOR SELECT TO authenticated
+    USING (get_user_role() IN ('admin', 'agent'));
+
+-- Index a message's Message-IDs when it's stored, and move them with it
+-- when tickets are merged
+CREATE OR REPLACE FUNCTION index_message_email_ids()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF normalize_email_message_id(NEW.source_email_id) IS NOT NULL THEN
+        INSERT INTO email_message_ids (id, ticket_id, message_id, direction)
+        VALUES (normalize_email_message_id(NEW.source_email_id), NEW.ticket_id, NEW.id, 'inbound')
+        ON CONFLICT (id) DO UPDATE SET ticket_id = EXCLUDED.ticket_id, message_id = EXCLUDED.message_id;
+    END IF;
+
+    IF normalize_email_message_id(NEW.email_message_id) IS NOT NULL THEN
+        INSERT INTO email_message_ids (id, ticket_id, message_id, direction)
+        VALUES (normalize_email_message_id(NEW.email_message_id), NEW.ticket_id, NEW.id, 'outbound')
+        ON CONFLICT (id) DO UPDATE SET ticket_id = EXCLUDED.ticket_id, message_id = EXCLUDED.message_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER messages_index_email_ids
+    AFTER INSERT OR UPDATE OF ticket_id, source_email_id, email_message_id ON messages
+    FOR EACH ROW EXECUTE FUNCTION index_message_email_ids();
+
+-- Emails sent without a stored message (automation canned replies) only
+-- update the ticket's reference_id
+CREATE OR REPLACE FUNCTION index_ticket_reference_id()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF normalize_email_message_id(NEW.reference_id) IS NOT NULL THEN
+        INSERT INTO email_message_ids (id, ticket_id, direction)
+        VALUES (
+            normalize_email_message_id(NEW.reference_id),
+            NEW.id,
+            CASE WHEN TG_OP = 'INSERT' THEN 'inbound' ELSE 'outbound' END
+        )
+        ON CONFLICT (id) DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER tickets_index_reference_id
+    AFTER INSERT OR UPDATE OF reference_id ON tickets
+    FOR EACH ROW EXECUTE FUNCTION index_ticket_reference_id();
+
+-- Backfill from existing messages and tickets
+INSERT INTO email_message_ids (id, ticket_id, message_id, direction, created_at)
+SELECT DISTINCT ON (normalize_email_message_id(email_message_id))
+    normalize_email_message_id(email_message_id), ticket_id, id, 'outbound', created_at
+FROM messages
+WHERE normalize_email_message_id(email_message_id) IS NOT NULL
+ORDER BY normalize_email_message_id(email_message_id), created_at DESC
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO email_message_ids (id, ticket_id, message_id, direction, created_at)
+SELECT DISTINCT ON (normalize_email_message_id(source_email_id))
+    normalize_email_message_id(source_email_id), ticket_id, id, 'inbound', created_at
+FROM messages
+WHERE normalize_email_message_id(source_email_id) IS NOT NULL
+ORDER BY normalize_email_message_id(source_email_id), created_at DESC
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO email_message_ids (id, ticket_id, direction, created_at)
+SELECT DISTINCT ON (normalize_email_message_id(reference_id))
+    normalize_email_message_id(reference_id), id, 'inbound', created_at
+FROM tickets
+WHERE normalize_email_message_id(reference_id) IS NOT NULL
+ORDER BY normalize_email_message_id(reference_id), created_at DESC
+ON CONFLICT (id) DO NOTHING;
+
+-- ==============================================
+-- Replies to closed tickets
+-- ==============================================
+-- 'reopen' reopens the ticket, unless it closed more than
+-- reopen_window_days ago (NULL = no limit); 'new_ticket' always starts a
+-- new ticket
+ALTER TABLE brands ADD COLUMN closed_ticket_reply TEXT NOT NULL DEFAULT 'reopen'
+    CHECK (closed_ticket_reply IN ('reopen', 'new_ticket'));
+ALTER TABLE brands ADD COLUMN reopen_window_days INTEGER CHECK (reopen_window_days > 0);
@@ -0,0 +1,58 @@
+-- Inbound Email Log Migration
+-- ==============================================
+-- Every payload SendGrid posts to /api/email/inbound is saved before it's
+-- processed, so an email that fails partway through (after the customer
+-- is created but before the message is stored, say) is never lost. Failed
+-- emails show in a dead-letter list in settings where admins can inspect
+-- and retry them. The Message-ID is unique, so SendGrid's retries of an
+-- email we already have don't create duplicate tickets or messages.
+
+CREATE TABLE inbound_emails (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Normalized like email_message_ids.id. An email without one gets a
+    -- 'no-message-id:' hash of its sender, subject and date instead, or
+    -- NULL when it has no Date header either
+    message_id TEXT UNIQUE,
+    status TEXT NOT NULL DEFAULT 'received'
+        CHECK (status IN ('received', 'processing', 'processed', 'failed', 'discarded')),
+    fields JSONB NOT NULL DEFAULT '{}', -- The form's text fields, as posted
+    files JSONB NOT NULL DEFAULT '[]', -- Attachment files saved in the inbound-emails bucket
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    result TEXT, -- What processing did: 'ticket_created', 'message_added', ...
+    -- Set as soon as processing creates a ticket, so a retry finishes that
+    -- ticket instead of opening another
+    ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+    -- Set once the customer's message is stored, with result saying what it
+    -- amounts to; a retry then only runs the rules, SLA and assignment steps
+    stored_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_inbound_emails_unprocessed ON inbound_emails(created_at DESC)
+    WHERE status IN ('received', 'processing', 'failed');
+
+CREATE TRIGGER update_inbound_emails_updated_at BEFORE UPDATE ON inbound_emails
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Written by the webhook with the service role; admins review failures
+ALTER TABLE inbound_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inbound emails" ON inbound_emails
+    FOR SELECT TO authenticated
+    USING (get_user_role() = 'admin');
+
+CREATE POLICY "Admins can update inbound emails" ON inbound_emails
+    FOR UPDATE TO authenticated
+    USING (get_user_role() = 'admin');
+
+-- ==============================================
+-- Raw attachment files
+-- ==============================================
+-- Private: these are untrusted files kept only until the email is
+-- processed, when they're copied into the attachments bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('inbound-emails', 'inbound-emails', false, 31457280) -- SendGrid's 30MB payload cap
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,26 @@
+-- Webhook Replay Log Migration
+-- ==============================================
+-- Signed SendGrid webhooks are accepted once: each one's timestamp and body
+-- hash is recorded here, and a second request with the same key is refused
+-- as a replay. Kept in the database rather than server memory so the check
+-- holds across serverless instances and cold starts.
+
+CREATE TABLE webhook_replays (
+    key TEXT PRIMARY KEY, -- "<path>:<timestamp>:<sha256 of body>"
+    expires_at TIMESTAMPTZ NOT NULL, -- Past this the timestamp check refuses it anyway
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_replays_expires_at ON webhook_replays(expires_at);
+
+-- Only written by webhooks with the service role
+ALTER TABLE webhook_replays ENABLE ROW LEVEL SECURITY;
+
+-- Clear out expired keys every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'purge-webhook-replays',
+    '0 * * * *',
+    $$DELETE FROM webhook_replays WHERE expires_at < NOW()$$
+);